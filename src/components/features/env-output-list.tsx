@@ -11,7 +11,12 @@ interface EnvOutputListProps {
 }
 
 export function EnvOutputList({ output }: EnvOutputListProps) {
-  const lines = parseEnvOutput(output)
+  // Comment lines introduce profile documents; everything else is a variable.
+  const lines = output
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => (line.trim().startsWith("#") ? { comment: line.trim().replace(/^#\s*/, "") } : parseEnvOutput(line)[0]))
+    .filter(Boolean)
 
   if (lines.length === 0) {
     return (
@@ -25,14 +30,20 @@ export function EnvOutputList({ output }: EnvOutputListProps) {
 
   return (
     <div className="code-pane max-h-[500px] overflow-y-auto !p-0">
-      {lines.map((line, index) => (
-        <EnvLineItem
-          key={`${line.key}-${index}`}
-          envKey={line.key}
-          value={line.value}
-          fullLine={line.fullLine}
-        />
-      ))}
+      {lines.map((line, index) =>
+        "comment" in line ? (
+          <div key={`comment-${index}`} className="border-b px-3 py-2 font-mono text-xs text-muted-foreground">
+            {line.comment}
+          </div>
+        ) : (
+          <EnvLineItem
+            key={`${line.key}-${index}`}
+            envKey={line.key}
+            value={line.value}
+            fullLine={line.fullLine}
+          />
+        )
+      )}
     </div>
   )
 }
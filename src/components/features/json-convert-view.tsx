@@ -0,0 +1,145 @@
+"use client"
+
+import { useState } from "react"
+import { IconCopy, IconDownload, IconFileImport } from "@tabler/icons-react"
+
+import { Button } from "@/components/ui/button"
+import { Field, FieldGroup, FieldLabel } from "@/components/ui/field"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { useClipboard } from "@/hooks/use-clipboard"
+import { downloadTextFile } from "@/lib/file-operations"
+import {
+  DOCUMENT_FORMATS,
+  serializeDocument,
+  type DocumentFormat,
+  type XmlConventions,
+} from "@/lib/json-convert"
+
+function convertDocument(value: unknown, format: DocumentFormat, xmlConventions: XmlConventions) {
+  try {
+    return { output: serializeDocument(value, format, xmlConventions), error: null }
+  } catch (err) {
+    return { output: "", error: err instanceof Error ? err.message : "Conversion failed" }
+  }
+}
+
+interface JsonConvertViewProps {
+  value: unknown
+  inputFormat: DocumentFormat
+  xmlConventions: XmlConventions
+  onXmlConventionsChange: (conventions: XmlConventions) => void
+  onUseAsInput: (text: string, format: DocumentFormat) => void
+}
+
+export function JsonConvertView({
+  value,
+  inputFormat,
+  xmlConventions,
+  onXmlConventionsChange,
+  onUseAsInput,
+}: JsonConvertViewProps) {
+  const targets = DOCUMENT_FORMATS.filter((format) => format.value !== inputFormat)
+  const [selectedTarget, setSelectedTarget] = useState<DocumentFormat>(targets[0].value)
+  const { copy } = useClipboard()
+
+  const target = targets.find((format) => format.value === selectedTarget) ?? targets[0]
+  const conversion = convertDocument(value, target.value, xmlConventions)
+
+  const showXmlOptions = target.value === "xml" || inputFormat === "xml"
+
+  return (
+    <div className="flex flex-col gap-4">
+      <FieldGroup className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <Field>
+          <FieldLabel htmlFor="json-convert-target">Convert to</FieldLabel>
+          <Select value={target.value} onValueChange={(next) => setSelectedTarget(next as DocumentFormat)}>
+            <SelectTrigger id="json-convert-target" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                {targets.map((format) => (
+                  <SelectItem key={format.value} value={format.value}>
+                    {format.label}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+        </Field>
+        {showXmlOptions && (
+          <Field>
+            <FieldLabel htmlFor="json-convert-root">XML root element</FieldLabel>
+            <Input
+              id="json-convert-root"
+              value={xmlConventions.rootName}
+              onChange={(event) => onXmlConventionsChange({ ...xmlConventions, rootName: event.target.value })}
+              className="font-mono"
+            />
+          </Field>
+        )}
+        {showXmlOptions && (
+          <Field>
+            <FieldLabel htmlFor="json-convert-attribute-prefix">Attribute key prefix</FieldLabel>
+            <Input
+              id="json-convert-attribute-prefix"
+              value={xmlConventions.attributePrefix}
+              onChange={(event) => onXmlConventionsChange({ ...xmlConventions, attributePrefix: event.target.value })}
+              placeholder="@"
+              className="font-mono"
+            />
+          </Field>
+        )}
+        {showXmlOptions && (
+          <Field>
+            <FieldLabel htmlFor="json-convert-text-key">Text content key</FieldLabel>
+            <Input
+              id="json-convert-text-key"
+              value={xmlConventions.textKey}
+              onChange={(event) => onXmlConventionsChange({ ...xmlConventions, textKey: event.target.value })}
+              placeholder="#text"
+              className="font-mono"
+            />
+          </Field>
+        )}
+      </FieldGroup>
+
+      {target.value === "csv" && (
+        <p className="text-xs text-muted-foreground">
+          Each array item becomes a row; nested values become columns named by their tree path, e.g.{" "}
+          <code>address.city</code> or <code>tags[0]</code>.
+        </p>
+      )}
+
+      {conversion.error ? (
+        <div className="rounded-lg border border-destructive/20 bg-destructive/5 p-4 text-sm text-destructive">
+          {conversion.error}
+        </div>
+      ) : (
+        <div className="relative">
+          <Textarea value={conversion.output} readOnly className="code-pane min-h-[400px]" />
+          <div className="absolute top-2 right-2 flex gap-2">
+            <Button size="sm" variant="outline" onClick={() => onUseAsInput(conversion.output, target.value)}>
+              <IconFileImport data-icon="inline-start" />
+              Use as input
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => copy(conversion.output)}>
+              <IconCopy data-icon="inline-start" />
+              Copy
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => downloadTextFile(conversion.output, `converted.${target.extension}`)}
+            >
+              <IconDownload data-icon="inline-start" />
+              Download
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+"use client"
+
+import { useState } from "react"
+import { IconChevronDown, IconChevronRight, IconCopy, IconDownload } from "@tabler/icons-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { useClipboard } from "@/hooks/use-clipboard"
+import { downloadJsonFile } from "@/lib/file-operations"
+import type { DiffStatus, JsonDiffNode, JsonDiffResult } from "@/lib/json-diff"
+import { cn } from "@/lib/utils"
+
+const STATUS_STYLES: Record<DiffStatus, string> = {
+  unchanged: "text-muted-foreground",
+  modified: "text-foreground",
+  added: "bg-chart-2/10 text-chart-2",
+  removed: "bg-destructive/5 text-destructive line-through",
+  changed: "bg-chart-4/10 text-chart-4",
+}
+
+const STATUS_MARKERS: Record<DiffStatus, string> = {
+  unchanged: " ",
+  modified: "~",
+  added: "+",
+  removed: "-",
+  changed: "~",
+}
+
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) return `Array[${value.length}]`
+  if (value !== null && typeof value === "object") return `Object{${Object.keys(value).length}}`
+  return JSON.stringify(value)
+}
+
+function DiffTreeNode({ node, depth }: { node: JsonDiffNode; depth: number }) {
+  const [expanded, setExpanded] = useState(node.status === "modified")
+  const hasChildren = Boolean(node.children?.length)
+
+  return (
+    <div>
+      <button
+        type="button"
+        aria-expanded={hasChildren ? expanded : undefined}
+        className={cn(
+          "flex w-full cursor-pointer items-center rounded-md py-1 text-left font-mono text-sm hover:bg-muted/50",
+          STATUS_STYLES[node.status]
+        )}
+        style={{ paddingLeft: `${depth * 20 + 8}px` }}
+        onClick={() => hasChildren && setExpanded(!expanded)}
+      >
+        {hasChildren ? (
+          expanded ? (
+            <IconChevronDown className="mr-1 size-4 shrink-0 text-muted-foreground" />
+          ) : (
+            <IconChevronRight className="mr-1 size-4 shrink-0 text-muted-foreground" />
+          )
+        ) : (
+          <span className="mr-1 size-4 shrink-0" />
+        )}
+        <span className="mr-2 w-3 shrink-0">{STATUS_MARKERS[node.status]}</span>
+        <span className="truncate">
+          {depth > 0 && <span>&quot;{node.key}&quot;: </span>}
+          {node.status === "changed"
+            ? `${formatValue(node.before)} → ${formatValue(node.after)}`
+            : formatValue(node.status === "removed" ? node.before : node.after)}
+        </span>
+      </button>
+      {hasChildren && expanded && (
+        <div>
+          {node.children?.map((child, index) => (
+            <DiffTreeNode key={`${child.path}-${child.status}-${index}`} node={child} depth={depth + 1} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function JsonDiffView({ result }: { result: JsonDiffResult }) {
+  const { copy } = useClipboard()
+  const patchText = JSON.stringify(result.patch, null, 2)
+  const counts = result.changes.reduce<Record<string, number>>((totals, change) => {
+    totals[change.status] = (totals[change.status] ?? 0) + 1
+    return totals
+  }, {})
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="flex flex-wrap gap-2">
+        <Badge variant="outline">{counts.added ?? 0} added</Badge>
+        <Badge variant="outline">{counts.removed ?? 0} removed</Badge>
+        <Badge variant="outline">{counts.changed ?? 0} changed</Badge>
+      </div>
+
+      {result.changes.length === 0 ? (
+        <div className="flex min-h-[200px] flex-col items-center justify-center rounded-lg border border-dashed text-center text-muted-foreground">
+          <p className="font-medium text-foreground">Documents are identical</p>
+          <p className="text-sm">No structural differences were found.</p>
+        </div>
+      ) : (
+        <div className="code-pane max-h-[400px] min-h-[200px] overflow-auto">
+          <DiffTreeNode node={result.tree} depth={0} />
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-medium">JSON Patch (RFC 6902)</h3>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => copy(patchText)}>
+            <IconCopy data-icon="inline-start" />
+            Copy
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => downloadJsonFile(result.patch, "patch.json")}>
+            <IconDownload data-icon="inline-start" />
+            Download
+          </Button>
+        </div>
+      </div>
+      <Textarea value={patchText} readOnly className="code-pane min-h-[200px]" />
+    </div>
+  )
+}
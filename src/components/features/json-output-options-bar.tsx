@@ -0,0 +1,89 @@
+"use client"
+
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Toggle } from "@/components/ui/toggle"
+import type { JsonIndent, JsonOutputOptions, JsonOutputStyle } from "@/lib/json-format"
+
+const STYLE_LABELS: Record<JsonOutputStyle, string> = {
+  pretty: "Pretty",
+  minified: "Minified",
+  canonical: "Canonical (RFC 8785)",
+}
+
+const INDENT_LABELS: Record<JsonIndent, string> = {
+  "2": "2 spaces",
+  "4": "4 spaces",
+  tab: "Tabs",
+}
+
+interface JsonOutputOptionsBarProps {
+  options: JsonOutputOptions
+  onChange: (options: JsonOutputOptions) => void
+}
+
+export function JsonOutputOptionsBar({ options, onChange }: JsonOutputOptionsBarProps) {
+  const isCanonical = options.style === "canonical"
+  const update = (patch: Partial<JsonOutputOptions>) => onChange({ ...options, ...patch })
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={options.style} onValueChange={(value) => update({ style: value as JsonOutputStyle })}>
+        <SelectTrigger size="sm" className="w-48" aria-label="Output style">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectGroup>
+            {Object.entries(STYLE_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        </SelectContent>
+      </Select>
+      <Select
+        value={options.indent}
+        onValueChange={(value) => update({ indent: value as JsonIndent })}
+        disabled={options.style !== "pretty"}
+      >
+        <SelectTrigger size="sm" className="w-28" aria-label="Indentation">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectGroup>
+            {Object.entries(INDENT_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        </SelectContent>
+      </Select>
+      <Toggle
+        variant="outline"
+        pressed={options.sortKeys || isCanonical}
+        disabled={isCanonical}
+        onPressedChange={(sortKeys) => update({ sortKeys })}
+      >
+        Sort keys
+      </Toggle>
+      <Toggle
+        variant="outline"
+        pressed={options.escapeNonAscii && !isCanonical}
+        disabled={isCanonical}
+        onPressedChange={(escapeNonAscii) => update({ escapeNonAscii })}
+      >
+        Escape non-ASCII
+      </Toggle>
+      <Toggle
+        variant="outline"
+        pressed={options.preserveBigNumbers && !isCanonical}
+        disabled={isCanonical}
+        onPressedChange={(preserveBigNumbers) => update({ preserveBigNumbers })}
+        title="Keep integers beyond 2^53 exactly as written instead of rounding them"
+      >
+        Preserve big numbers
+      </Toggle>
+    </div>
+  )
+}
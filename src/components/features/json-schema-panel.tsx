@@ -0,0 +1,233 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { IconCircleCheck, IconDeviceFloppy, IconShieldCheck, IconTrash, IconUpload } from "@tabler/icons-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Field, FieldGroup, FieldLabel } from "@/components/ui/field"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { loadSavedJsonSchemas, saveJsonSchemas, type SavedJsonSchema } from "@/lib/json-schema-saved"
+import type { SchemaViolation } from "@/lib/json-schema-validator"
+import { cn } from "@/lib/utils"
+
+const MAX_VISIBLE_VIOLATIONS = 500
+
+interface JsonSchemaPanelProps {
+  canValidate: boolean
+  violations: SchemaViolation[] | null
+  error: string | null
+  activePath: string | null
+  onValidate: (schemaText: string) => void
+  onSelectPath: (path: string) => void
+}
+
+export function JsonSchemaPanel({ canValidate, violations, error, activePath, onValidate, onSelectPath }: JsonSchemaPanelProps) {
+  const [schemaText, setSchemaText] = useState("")
+  const [schemaName, setSchemaName] = useState("")
+  const [selectedSchemaId, setSelectedSchemaId] = useState("")
+  const [savedSchemas, setSavedSchemas] = useState<SavedJsonSchema[]>(() => loadSavedJsonSchemas())
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const persistSchemas = (schemas: SavedJsonSchema[]) => {
+    if (!saveJsonSchemas(schemas)) {
+      toast.error("Local storage is unavailable on this device")
+      return false
+    }
+
+    setSavedSchemas(schemas)
+    return true
+  }
+
+  const handleSave = () => {
+    const trimmedName = schemaName.trim()
+
+    if (!trimmedName) {
+      toast.error("Enter a name before saving")
+      return
+    }
+
+    if (!schemaText.trim()) {
+      toast.error("Enter a schema before saving")
+      return
+    }
+
+    const existing = savedSchemas.find((entry) => entry.name === trimmedName)
+    const entry: SavedJsonSchema = {
+      id: existing?.id ?? crypto.randomUUID(),
+      name: trimmedName,
+      schema: schemaText,
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+    }
+    const nextSchemas = existing
+      ? savedSchemas.map((schema) => (schema.id === existing.id ? entry : schema))
+      : [...savedSchemas, entry]
+
+    if (!persistSchemas(nextSchemas)) {
+      return
+    }
+
+    setSelectedSchemaId(entry.id)
+    toast.success(existing ? `Updated ${trimmedName}` : `Saved ${trimmedName} on this device`)
+  }
+
+  const handleSelectSaved = (id: string) => {
+    const entry = savedSchemas.find((schema) => schema.id === id)
+    if (!entry) return
+
+    setSelectedSchemaId(id)
+    setSchemaName(entry.name)
+    setSchemaText(entry.schema)
+  }
+
+  const handleDelete = () => {
+    const entry = savedSchemas.find((schema) => schema.id === selectedSchemaId)
+    if (!entry || !persistSchemas(savedSchemas.filter((schema) => schema.id !== entry.id))) {
+      return
+    }
+
+    setSelectedSchemaId("")
+    toast.success(`Deleted ${entry.name}`)
+  }
+
+  const handleLoadFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    try {
+      setSchemaText(await file.text())
+      setSchemaName(file.name.replace(/\.(schema\.)?json$/i, ""))
+      setSelectedSchemaId("")
+    } catch {
+      toast.error("Failed to read schema file")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="gap-3">
+        <div className="flex items-start justify-between gap-3">
+          <div className="flex flex-col gap-1">
+            <CardTitle className="flex items-center gap-2">
+              <IconShieldCheck />
+              Schema Validation
+            </CardTitle>
+            <CardDescription>
+              Validate the input against a JSON Schema. Violations are marked on the matching tree nodes.
+            </CardDescription>
+          </div>
+          {violations && (
+            <Badge variant={violations.length ? "destructive" : "default"}>
+              {violations.length ? `${violations.length} ${violations.length === 1 ? "error" : "errors"}` : "Valid"}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        <FieldGroup className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <Field>
+            <FieldLabel htmlFor="json-schema-saved">Saved schema</FieldLabel>
+            <div className="flex gap-2">
+              <Select value={selectedSchemaId} onValueChange={handleSelectSaved}>
+                <SelectTrigger id="json-schema-saved" className="w-full">
+                  <SelectValue placeholder="Load saved schema..." />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectGroup>
+                    {savedSchemas.map((schema) => (
+                      <SelectItem key={schema.id} value={schema.id}>
+                        {schema.name}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="icon" onClick={handleDelete} disabled={!selectedSchemaId} aria-label="Delete saved schema">
+                <IconTrash />
+              </Button>
+            </div>
+          </Field>
+          <Field>
+            <FieldLabel htmlFor="json-schema-name">Name</FieldLabel>
+            <div className="flex gap-2">
+              <Input
+                id="json-schema-name"
+                value={schemaName}
+                onChange={(event) => setSchemaName(event.target.value)}
+                placeholder="e.g. Order API response"
+              />
+              <Button variant="outline" onClick={handleSave}>
+                <IconDeviceFloppy data-icon="inline-start" />
+                Save
+              </Button>
+            </div>
+          </Field>
+        </FieldGroup>
+
+        <Textarea
+          aria-label="JSON Schema"
+          value={schemaText}
+          onChange={(event) => setSchemaText(event.target.value)}
+          placeholder='{ "type": "object", "required": ["id"] }'
+          className="code-pane-editable min-h-[200px]"
+        />
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={() => onValidate(schemaText)} disabled={!canValidate || !schemaText.trim()}>
+            <IconCircleCheck data-icon="inline-start" />
+            Validate
+          </Button>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+            <IconUpload data-icon="inline-start" />
+            Load file
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json,application/schema+json"
+            className="hidden"
+            onChange={handleLoadFile}
+          />
+        </div>
+
+        {error && (
+          <div className="rounded-lg border border-destructive/20 bg-destructive/5 p-4 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        {violations && violations.length > 0 && (
+          <div className="flex flex-col gap-2">
+            {violations.length > MAX_VISIBLE_VIOLATIONS && (
+              <p className="text-sm text-muted-foreground">Showing first {MAX_VISIBLE_VIOLATIONS} violations</p>
+            )}
+            <div className="code-pane max-h-[300px] overflow-auto !p-0">
+              {violations.slice(0, MAX_VISIBLE_VIOLATIONS).map((violation, index) => (
+                <button
+                  key={`${violation.schemaPath}-${violation.instancePath}-${index}`}
+                  type="button"
+                  className={cn(
+                    "flex w-full cursor-pointer items-baseline gap-3 border-b px-3 py-2 text-left text-sm last:border-b-0 hover:bg-muted/50",
+                    violation.path === activePath && "bg-primary/10"
+                  )}
+                  onClick={() => onSelectPath(violation.path)}
+                >
+                  <span className="shrink-0 font-mono text-muted-foreground">{violation.instancePath || "/"}</span>
+                  <Badge variant="outline" className="shrink-0 font-mono">
+                    {violation.keyword}
+                  </Badge>
+                  <span>{violation.message}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
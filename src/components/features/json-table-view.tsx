@@ -0,0 +1,277 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import {
+  IconArrowDown,
+  IconArrowUp,
+  IconArrowsSort,
+  IconDownload,
+  IconFileSpreadsheet,
+  IconSearch,
+  IconTable,
+} from "@tabler/icons-react"
+
+import { Button } from "@/components/ui/button"
+import { Field, FieldGroup, FieldLabel } from "@/components/ui/field"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { downloadFile, downloadJsonFile } from "@/lib/file-operations"
+import { convertJsonTo } from "@/lib/json-convert"
+import {
+  buildJsonTable,
+  filterTableRows,
+  findTableCandidates,
+  formatTableCell,
+  sortTableRows,
+  type SortDirection,
+} from "@/lib/json-table"
+import { formatJsonValue, getJsonNodeType } from "@/lib/json-utils"
+import { cn } from "@/lib/utils"
+
+const DEFAULT_COLUMN_WIDTH = 160
+const MIN_COLUMN_WIDTH = 60
+const INDEX_COLUMN_WIDTH = 56
+const MAX_RENDERED_ROWS = 500
+
+interface TableCellProps {
+  value: unknown
+  isExpanded: boolean
+  onToggle: () => void
+}
+
+function TableCell({ value, isExpanded, onToggle }: TableCellProps) {
+  const type = value === undefined ? "missing" : getJsonNodeType(value)
+
+  if (type === "object" || type === "array") {
+    const size = Array.isArray(value) ? value.length : Object.keys(value as object).length
+    return (
+      <div className="flex flex-col items-start gap-1">
+        <button type="button" className="cursor-pointer text-primary hover:underline" onClick={onToggle}>
+          {type === "array" ? `Array[${size}]` : `Object{${size}}`}
+        </button>
+        {isExpanded && <pre className="max-h-60 w-full overflow-auto text-xs">{formatJsonValue(value)}</pre>}
+      </div>
+    )
+  }
+
+  return (
+    <span className={cn("block truncate", (type === "null" || type === "missing") && "text-muted-foreground")}>
+      {type === "missing" ? "" : formatTableCell(value)}
+    </span>
+  )
+}
+
+interface JsonTableViewProps {
+  value: unknown
+  /** Tree path to open initially, e.g. the node selected in the tree view. */
+  initialPath?: string | null
+}
+
+export function JsonTableView({ value, initialPath }: JsonTableViewProps) {
+  const candidates = useMemo(() => findTableCandidates(value), [value])
+  const [selectedPath, setSelectedPath] = useState<string | null>(null)
+  const [filter, setFilter] = useState("")
+  const [sort, setSort] = useState<{ column: string; direction: SortDirection } | null>(null)
+  const [columnWidths, setColumnWidths] = useState<Record<string, number>>({})
+  const [expandedCells, setExpandedCells] = useState<Set<string>>(() => new Set())
+
+  // An explicit choice wins, then the node selected elsewhere, then the shallowest table.
+  const path =
+    [selectedPath, initialPath].find((candidate) => candidate != null && candidates.includes(candidate)) ??
+    candidates[0]
+  const table = useMemo(() => (path === undefined ? null : buildJsonTable(value, path)), [value, path])
+  const visibleRows = useMemo(() => {
+    if (!table) return []
+    const filtered = filterTableRows(table.rows, table.columns, filter)
+    return sort ? sortTableRows(filtered, sort.column, sort.direction) : filtered
+  }, [table, filter, sort])
+
+  if (!table) {
+    return (
+      <div className="flex min-h-[400px] flex-col items-center justify-center rounded-lg border border-dashed text-center text-muted-foreground">
+        <IconTable className="size-8" />
+        <p className="mt-3 font-medium text-foreground">No table data</p>
+        <p className="text-sm">The document has no array of objects to show as a table.</p>
+      </div>
+    )
+  }
+
+  const handleSelectPath = (nextPath: string) => {
+    setSelectedPath(nextPath)
+    setSort(null)
+    setExpandedCells(new Set())
+  }
+
+  const handleSort = (column: string) => {
+    setSort((current) => {
+      if (current?.column !== column) return { column, direction: "asc" }
+      return current.direction === "asc" ? { column, direction: "desc" } : null
+    })
+  }
+
+  const handleToggleCell = (key: string) => {
+    setExpandedCells((current) => {
+      const next = new Set(current)
+      if (next.has(key)) {
+        next.delete(key)
+      } else {
+        next.add(key)
+      }
+      return next
+    })
+  }
+
+  const handleResizeStart = (column: string, event: React.PointerEvent) => {
+    event.preventDefault()
+    event.stopPropagation()
+    const startX = event.clientX
+    const startWidth = columnWidths[column] ?? DEFAULT_COLUMN_WIDTH
+
+    const handleMove = (moveEvent: PointerEvent) => {
+      const width = Math.max(MIN_COLUMN_WIDTH, startWidth + moveEvent.clientX - startX)
+      setColumnWidths((current) => ({ ...current, [column]: width }))
+    }
+    const handleUp = () => {
+      window.removeEventListener("pointermove", handleMove)
+      window.removeEventListener("pointerup", handleUp)
+    }
+
+    window.addEventListener("pointermove", handleMove)
+    window.addEventListener("pointerup", handleUp)
+  }
+
+  const visibleRecords = visibleRows.map((row) => row.record)
+  const tableWidth =
+    INDEX_COLUMN_WIDTH +
+    table.columns.reduce((total, column) => total + (columnWidths[column] ?? DEFAULT_COLUMN_WIDTH), 0)
+
+  return (
+    <div className="flex flex-col gap-4">
+      <FieldGroup className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <Field>
+          <FieldLabel htmlFor="json-table-path">Array</FieldLabel>
+          <Select value={table.path} onValueChange={handleSelectPath}>
+            <SelectTrigger id="json-table-path" className="w-full font-mono">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                {candidates.map((candidate) => (
+                  <SelectItem key={candidate} value={candidate} className="font-mono">
+                    {candidate || "root"}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="json-table-filter">Filter</FieldLabel>
+          <div className="relative">
+            <IconSearch className="absolute top-1/2 left-3 size-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              id="json-table-filter"
+              value={filter}
+              onChange={(event) => setFilter(event.target.value)}
+              placeholder="Match any cell..."
+              className="pl-9"
+            />
+          </div>
+        </Field>
+      </FieldGroup>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          {visibleRows.length} of {table.rows.length} rows
+          {visibleRows.length > MAX_RENDERED_ROWS && ` (showing first ${MAX_RENDERED_ROWS})`}
+        </p>
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!visibleRows.length}
+            onClick={() => downloadFile(convertJsonTo(visibleRecords, "csv"), "rows.csv", "text/csv")}
+          >
+            <IconFileSpreadsheet data-icon="inline-start" />
+            Export CSV
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!visibleRows.length}
+            onClick={() => downloadJsonFile(visibleRecords, "rows.json")}
+          >
+            <IconDownload data-icon="inline-start" />
+            Export JSON
+          </Button>
+        </div>
+      </div>
+
+      <div className="code-pane max-h-[480px] overflow-auto !p-0">
+        <table className="table-fixed border-collapse text-sm" style={{ width: tableWidth }}>
+          <colgroup>
+            <col style={{ width: INDEX_COLUMN_WIDTH }} />
+            {table.columns.map((column) => (
+              <col key={column} style={{ width: columnWidths[column] ?? DEFAULT_COLUMN_WIDTH }} />
+            ))}
+          </colgroup>
+          <thead className="sticky top-0 z-10 bg-muted">
+            <tr>
+              <th className="border-b px-2 py-2 text-left font-medium text-muted-foreground">#</th>
+              {table.columns.map((column) => (
+                <th
+                  key={column}
+                  className="relative border-b border-l px-2 py-2 text-left font-medium"
+                  aria-sort={sort?.column === column ? (sort.direction === "asc" ? "ascending" : "descending") : "none"}
+                >
+                  <button
+                    type="button"
+                    className="flex w-full cursor-pointer items-center gap-1 truncate font-mono"
+                    onClick={() => handleSort(column)}
+                  >
+                    <span className="truncate">{column}</span>
+                    {sort?.column === column ? (
+                      sort.direction === "asc" ? (
+                        <IconArrowUp className="size-3.5 shrink-0" />
+                      ) : (
+                        <IconArrowDown className="size-3.5 shrink-0" />
+                      )
+                    ) : (
+                      <IconArrowsSort className="size-3.5 shrink-0 text-muted-foreground" />
+                    )}
+                  </button>
+                  <span
+                    role="separator"
+                    aria-orientation="vertical"
+                    aria-label={`Resize ${column}`}
+                    className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize hover:bg-primary/40"
+                    onPointerDown={(event) => handleResizeStart(column, event)}
+                  />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="font-mono">
+            {visibleRows.slice(0, MAX_RENDERED_ROWS).map((row) => (
+              <tr key={row.index} className="align-top hover:bg-muted/50">
+                <td className="border-b px-2 py-1.5 text-muted-foreground">{row.index}</td>
+                {table.columns.map((column) => {
+                  const cellKey = `${row.index}:${column}`
+                  return (
+                    <td key={column} className="border-b border-l px-2 py-1.5">
+                      <TableCell
+                        value={row.record[column]}
+                        isExpanded={expandedCells.has(cellKey)}
+                        onToggle={() => handleToggleCell(cellKey)}
+                      />
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,402 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { IconChevronDown, IconChevronRight, IconGripVertical, IconPencil, IconPlus, IconTrash } from "@tabler/icons-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { parseScalarInput, type JsonScalarType, type JsonTreeEdit } from "@/lib/json-edit"
+import type { JsonNode } from "@/lib/json-utils"
+import { cn } from "@/lib/utils"
+
+const ROW_HEIGHT = 28
+const VIEWPORT_HEIGHT = 400
+const OVERSCAN_ROWS = 10
+
+const SCALAR_TYPES: JsonScalarType[] = ["string", "number", "boolean", "null"]
+
+type EditingField = { path: string; field: "key" | "value" }
+
+function getTypeClassName(type: JsonNode["type"]) {
+  switch (type) {
+    case "string":
+      return "text-chart-2"
+    case "number":
+      return "text-chart-3"
+    case "boolean":
+      return "text-chart-4"
+    case "null":
+      return "text-muted-foreground"
+    case "array":
+      return "text-chart-1"
+    case "object":
+      return "text-primary"
+    default:
+      return "text-foreground"
+  }
+}
+
+function getValueDisplay(node: JsonNode) {
+  if (node.type === "string") return `"${node.value}"`
+  if (node.type === "null") return "null"
+  if (node.type === "array") return `Array[${node.childCount}]`
+  if (node.type === "object") return `Object{${node.childCount}}`
+  return String(node.value)
+}
+
+function isScalar(node: JsonNode) {
+  return node.type !== "object" && node.type !== "array"
+}
+
+interface KeyEditorProps {
+  node: JsonNode
+  onCommit: (key: string) => void
+  onCancel: () => void
+}
+
+function KeyEditor({ node, onCommit, onCancel }: KeyEditorProps) {
+  const [key, setKey] = useState(node.key)
+
+  return (
+    <form
+      className="flex items-center"
+      onSubmit={(event) => {
+        event.preventDefault()
+        onCommit(key)
+      }}
+    >
+      <Input
+        autoFocus
+        value={key}
+        onChange={(event) => setKey(event.target.value)}
+        onKeyDown={(event) => event.key === "Escape" && onCancel()}
+        onBlur={onCancel}
+        aria-label="Property name"
+        className="h-6 w-40 px-2 py-0 font-mono text-sm"
+      />
+    </form>
+  )
+}
+
+interface ValueEditorProps {
+  node: JsonNode
+  onCommit: (value: unknown) => void
+  onCancel: () => void
+}
+
+function ValueEditor({ node, onCommit, onCancel }: ValueEditorProps) {
+  const [type, setType] = useState<JsonScalarType>(isScalar(node) ? (node.type as JsonScalarType) : "string")
+  const [text, setText] = useState(node.type === "null" ? "" : String(node.value))
+
+  const commit = () => {
+    try {
+      onCommit(parseScalarInput(text, type))
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Invalid value")
+    }
+  }
+
+  return (
+    <form
+      className="flex items-center gap-1"
+      onSubmit={(event) => {
+        event.preventDefault()
+        commit()
+      }}
+      onKeyDown={(event) => event.key === "Escape" && onCancel()}
+    >
+      <Select value={type} onValueChange={(value) => setType(value as JsonScalarType)}>
+        <SelectTrigger size="sm" className="h-6 w-24 px-2 py-0 text-xs" aria-label="Value type">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectGroup>
+            {SCALAR_TYPES.map((scalarType) => (
+              <SelectItem key={scalarType} value={scalarType}>
+                {scalarType}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        </SelectContent>
+      </Select>
+      {type === "boolean" ? (
+        <Select value={text === "true" ? "true" : "false"} onValueChange={setText}>
+          <SelectTrigger size="sm" className="h-6 w-20 px-2 py-0 text-xs" aria-label="Boolean value">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              <SelectItem value="true">true</SelectItem>
+              <SelectItem value="false">false</SelectItem>
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+      ) : (
+        <Input
+          autoFocus
+          value={type === "null" ? "" : text}
+          disabled={type === "null"}
+          onChange={(event) => setText(event.target.value)}
+          aria-label="Value"
+          inputMode={type === "number" ? "decimal" : undefined}
+          className="h-6 w-56 px-2 py-0 font-mono text-sm"
+        />
+      )}
+      <Button type="submit" size="sm" variant="outline" className="h-6 px-2">
+        Save
+      </Button>
+      <Button type="button" size="sm" variant="ghost" className="h-6 px-2" onClick={onCancel}>
+        Cancel
+      </Button>
+    </form>
+  )
+}
+
+interface TreeRowProps {
+  node: JsonNode
+  top: number
+  isHighlighted: boolean
+  isActive: boolean
+  errorCount: number
+  editing: EditingField["field"] | null
+  isDropTarget: boolean
+  onToggle: (path: string) => void
+  onEdit?: (edit: JsonTreeEdit) => void
+  onStartEditing: (editing: EditingField | null) => void
+  onDragStart: (path: string) => void
+  onDragOver: (path: string) => void
+  onDrop: (path: string) => void
+}
+
+function TreeRow({
+  node,
+  top,
+  isHighlighted,
+  isActive,
+  errorCount,
+  editing,
+  isDropTarget,
+  onToggle,
+  onEdit,
+  onStartEditing,
+  onDragStart,
+  onDragOver,
+  onDrop,
+}: TreeRowProps) {
+  const hasChildren = node.childCount > 0
+  const isEditable = Boolean(onEdit)
+  const canRename = isEditable && node.parentType === "object"
+  const canReorder = isEditable && node.depth > 0
+
+  const commit = (edit: JsonTreeEdit) => {
+    onStartEditing(null)
+    onEdit?.(edit)
+  }
+
+  return (
+    <div
+      role="treeitem"
+      aria-selected={isActive}
+      aria-expanded={hasChildren ? node.expanded : undefined}
+      draggable={canReorder && editing === null}
+      className={cn(
+        "group absolute left-0 flex w-full items-center gap-2 whitespace-nowrap rounded-md pr-2 hover:bg-muted/50",
+        isHighlighted && "bg-primary/10",
+        isActive && "ring-1 ring-primary",
+        isDropTarget && "border-t-2 border-primary"
+      )}
+      style={{ top, height: ROW_HEIGHT, paddingLeft: `${node.depth * 20 + 8}px` }}
+      onDragStart={(event) => {
+        event.dataTransfer.effectAllowed = "move"
+        onDragStart(node.path)
+      }}
+      onDragOver={(event) => {
+        if (!canReorder) return
+        event.preventDefault()
+        onDragOver(node.path)
+      }}
+      onDrop={(event) => {
+        event.preventDefault()
+        onDrop(node.path)
+      }}
+    >
+      {canReorder && (
+        <IconGripVertical className="-ml-4 size-3 shrink-0 cursor-grab text-muted-foreground opacity-0 group-hover:opacity-100" />
+      )}
+      <button
+        type="button"
+        className="flex cursor-pointer items-center text-left"
+        onClick={() => hasChildren && onToggle(node.path)}
+        onDoubleClick={() => {
+          if (canRename) onStartEditing({ path: node.path, field: "key" })
+          else if (isEditable && isScalar(node)) onStartEditing({ path: node.path, field: "value" })
+        }}
+      >
+        {hasChildren ? (
+          node.expanded ? (
+            <IconChevronDown className="mr-1 size-4 shrink-0 text-muted-foreground" />
+          ) : (
+            <IconChevronRight className="mr-1 size-4 shrink-0 text-muted-foreground" />
+          )
+        ) : (
+          <span className="mr-1 size-4 shrink-0" />
+        )}
+        {editing !== "key" && (
+          <span className="font-mono text-sm">
+            {node.depth > 0 && <span className="text-muted-foreground">&quot;{node.key}&quot;: </span>}
+            {editing !== "value" && <span className={getTypeClassName(node.type)}>{getValueDisplay(node)}</span>}
+          </span>
+        )}
+      </button>
+
+      {editing === "key" && (
+        <KeyEditor
+          node={node}
+          onCommit={(key) => commit({ type: "rename", path: node.path, key })}
+          onCancel={() => onStartEditing(null)}
+        />
+      )}
+      {editing === "value" && (
+        <ValueEditor
+          node={node}
+          onCommit={(value) => commit({ type: "set-value", path: node.path, value })}
+          onCancel={() => onStartEditing(null)}
+        />
+      )}
+
+      {errorCount > 0 && (
+        <Badge variant="destructive">
+          {errorCount} {errorCount === 1 ? "error" : "errors"}
+        </Badge>
+      )}
+
+      {isEditable && editing === null && (
+        <span className="flex items-center opacity-0 group-focus-within:opacity-100 group-hover:opacity-100">
+          {canRename && (
+            <Button
+              size="icon"
+              variant="ghost"
+              className="size-6"
+              aria-label="Rename key"
+              onClick={() => onStartEditing({ path: node.path, field: "key" })}
+            >
+              <IconPencil className="size-3.5" />
+            </Button>
+          )}
+          {isScalar(node) ? (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 px-2"
+              onClick={() => onStartEditing({ path: node.path, field: "value" })}
+            >
+              Edit value
+            </Button>
+          ) : (
+            <Button
+              size="icon"
+              variant="ghost"
+              className="size-6"
+              aria-label={node.type === "array" ? "Add item" : "Add property"}
+              onClick={() => commit({ type: "add-child", path: node.path })}
+            >
+              <IconPlus className="size-3.5" />
+            </Button>
+          )}
+          {node.depth > 0 && (
+            <Button
+              size="icon"
+              variant="ghost"
+              className="size-6 text-destructive"
+              aria-label="Remove"
+              onClick={() => commit({ type: "remove", path: node.path })}
+            >
+              <IconTrash className="size-3.5" />
+            </Button>
+          )}
+        </span>
+      )}
+    </div>
+  )
+}
+
+interface JsonTreeViewProps {
+  rows: JsonNode[]
+  onToggle: (path: string) => void
+  highlightedPaths: Set<string>
+  activePath: string | null
+  errorCounts?: Map<string, number>
+  /** Enables in-place editing; the tree is read-only without it. */
+  onEdit?: (edit: JsonTreeEdit) => void
+}
+
+/** Windowed tree: only the rows inside the scroll viewport (plus overscan) are rendered. */
+export function JsonTreeView({ rows, onToggle, highlightedPaths, activePath, errorCounts, onEdit }: JsonTreeViewProps) {
+  const viewportRef = useRef<HTMLDivElement>(null)
+  const [scrollTop, setScrollTop] = useState(0)
+  const [editing, setEditing] = useState<EditingField | null>(null)
+  const [dragSource, setDragSource] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+
+  useEffect(() => {
+    const viewport = viewportRef.current
+    if (!viewport || activePath === null) return
+
+    const index = rows.findIndex((row) => row.path === activePath)
+    if (index === -1) return
+
+    const rowTop = index * ROW_HEIGHT
+    if (rowTop < viewport.scrollTop || rowTop + ROW_HEIGHT > viewport.scrollTop + viewport.clientHeight) {
+      viewport.scrollTop = Math.max(rowTop - viewport.clientHeight / 2, 0)
+    }
+  }, [activePath, rows])
+
+  const handleDrop = (targetPath: string) => {
+    if (dragSource !== null && dragSource !== targetPath) {
+      onEdit?.({ type: "move", path: dragSource, targetPath })
+    }
+    setDragSource(null)
+    setDropTarget(null)
+  }
+
+  const firstRow = Math.max(Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS, 0)
+  const lastRow = Math.min(Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN_ROWS, rows.length)
+
+  return (
+    <div
+      ref={viewportRef}
+      role="tree"
+      className="code-pane overflow-auto"
+      style={{ height: VIEWPORT_HEIGHT }}
+      onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+      onDragEnd={() => {
+        setDragSource(null)
+        setDropTarget(null)
+      }}
+    >
+      <div className="relative min-w-max" style={{ height: rows.length * ROW_HEIGHT }}>
+        {rows.slice(firstRow, lastRow).map((node, offset) => (
+          <TreeRow
+            key={node.depth === 0 ? "root" : `path:${node.path}`}
+            node={node}
+            top={(firstRow + offset) * ROW_HEIGHT}
+            isHighlighted={highlightedPaths.has(node.path)}
+            isActive={activePath === node.path}
+            errorCount={errorCounts?.get(node.path) ?? 0}
+            editing={editing?.path === node.path ? editing.field : null}
+            isDropTarget={dragSource !== null && dropTarget === node.path && dropTarget !== dragSource}
+            onToggle={onToggle}
+            onEdit={onEdit}
+            onStartEditing={setEditing}
+            onDragStart={setDragSource}
+            onDragOver={setDropTarget}
+            onDrop={handleDrop}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
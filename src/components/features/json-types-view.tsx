@@ -0,0 +1,92 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { IconCopy, IconDownload } from "@tabler/icons-react"
+
+import { Button } from "@/components/ui/button"
+import { Field, FieldGroup, FieldLabel } from "@/components/ui/field"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { useClipboard } from "@/hooks/use-clipboard"
+import { downloadTextFile } from "@/lib/file-operations"
+import { generateTypes, getTypeTargetLabel, TYPE_TARGETS, type TypeTarget } from "@/lib/json-type-generator"
+
+const DEFAULT_ROOT_NAME = "Root"
+
+function getTypesFilename(target: TypeTarget, rootName: string) {
+  switch (target) {
+    case "typescript":
+      return "types.ts"
+    case "zod":
+      return "schemas.ts"
+    case "java":
+      return `${rootName}.java`
+    case "json-schema":
+      return "schema.json"
+  }
+}
+
+export function JsonTypesView({ value }: { value: unknown }) {
+  const [target, setTarget] = useState<TypeTarget>("typescript")
+  const [rootName, setRootName] = useState(DEFAULT_ROOT_NAME)
+  const { copy } = useClipboard()
+
+  const effectiveRootName = rootName.trim() || DEFAULT_ROOT_NAME
+  const generated = useMemo(
+    () => generateTypes(value, target, effectiveRootName),
+    [value, target, effectiveRootName]
+  )
+
+  return (
+    <div className="flex flex-col gap-4">
+      <FieldGroup className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <Field>
+          <FieldLabel htmlFor="json-types-target">Output</FieldLabel>
+          <Select value={target} onValueChange={(next) => setTarget(next as TypeTarget)}>
+            <SelectTrigger id="json-types-target" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectGroup>
+                {TYPE_TARGETS.map((item) => (
+                  <SelectItem key={item} value={item}>
+                    {getTypeTargetLabel(item)}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            </SelectContent>
+          </Select>
+        </Field>
+        <Field>
+          <FieldLabel htmlFor="json-types-root">Root type name</FieldLabel>
+          <Input
+            id="json-types-root"
+            value={rootName}
+            onChange={(event) => setRootName(event.target.value)}
+            placeholder={DEFAULT_ROOT_NAME}
+            className="font-mono"
+          />
+        </Field>
+      </FieldGroup>
+
+      <div className="relative">
+        <Textarea value={generated} readOnly className="code-pane min-h-[400px]" />
+        <div className="absolute top-2 right-2 flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => copy(generated)}>
+            <IconCopy data-icon="inline-start" />
+            Copy
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => downloadTextFile(generated, getTypesFilename(target, effectiveRootName))}
+          >
+            <IconDownload data-icon="inline-start" />
+            Download
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,14 +1,20 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import {
   IconBraces,
-  IconChevronDown,
-  IconChevronRight,
+  IconCode,
   IconCopy,
   IconFileDescription,
   IconFolder,
+  IconArrowBackUp,
+  IconArrowForwardUp,
+  IconGitCompare,
+  IconSearch,
   IconSparkles,
+  IconTable,
+  IconTransform,
+  IconTool,
   IconTrash,
 } from "@tabler/icons-react"
 import { toast } from "sonner"
@@ -17,140 +23,422 @@ import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Field, FieldGroup, FieldLabel } from "@/components/ui/field"
+import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Textarea } from "@/components/ui/textarea"
 import { useClipboard } from "@/hooks/use-clipboard"
+import { useJsonParseWorker } from "@/hooks/use-json-parse-worker"
+import { useUndoHistory } from "@/hooks/use-undo-history"
+import { cn } from "@/lib/utils"
+import { diffJson, type ArrayMatching, type JsonDiffResult } from "@/lib/json-diff"
+import {
+  convertToJson,
+  DEFAULT_XML_CONVENTIONS,
+  DOCUMENT_FORMATS,
+  getDocumentFormatLabel,
+  serializeDocument,
+  type DocumentFormat,
+  type XmlConventions,
+} from "@/lib/json-convert"
+import { applyJsonTreeEdit, remapExpandedPaths, type JsonTreeEdit } from "@/lib/json-edit"
+import { parseJsonPreservingNumbers, stringifyJson, type JsonOutputOptions } from "@/lib/json-format"
+import { formatParseIssue, parseLenientJson, type JsonInputFormat, type LenientParseResult } from "@/lib/json-lenient"
+import { loadJsonOutputOptions, saveJsonOutputOptions } from "@/lib/json-output-options"
+import { runJsonQuery, type QueryResult } from "@/lib/json-query"
+import { countViolationsByPath, validateJsonSchema, type SchemaViolation } from "@/lib/json-schema-validator"
 import { getJsonExampleContent, JSON_EXAMPLES } from "@/lib/tool-ui-config"
 import {
-  jsonToTree,
-  prettyPrintJson,
-  toggleTreeNode,
-  type JsonNode,
-  validateJson,
+  expandToPath,
+  flattenVisibleTree,
+  getDefaultExpandedPaths,
+  toggleExpandedPath,
 } from "@/lib/json-utils"
 
-function TreeNode({ node, onToggle }: { node: JsonNode; onToggle: (path: string) => void }) {
-  const hasChildren = Boolean(node.children?.length)
-
-  const getTypeClassName = (type: JsonNode["type"]) => {
-    switch (type) {
-      case "string":
-        return "text-chart-2"
-      case "number":
-        return "text-chart-3"
-      case "boolean":
-        return "text-chart-4"
-      case "null":
-        return "text-muted-foreground"
-      case "array":
-        return "text-chart-1"
-      case "object":
-        return "text-primary"
-      default:
-        return "text-foreground"
-    }
-  }
+import { JsonConvertView } from "./json-convert-view"
+import { JsonDiffView } from "./json-diff-view"
+import { JsonOutputOptionsBar } from "./json-output-options-bar"
+import { JsonSchemaPanel } from "./json-schema-panel"
+import { JsonTableView } from "./json-table-view"
+import { JsonTreeView } from "./json-tree-view"
+import { JsonTypesView } from "./json-types-view"
 
-  const getValueDisplay = () => {
-    if (node.type === "string") return `"${node.value}"`
-    if (node.type === "null") return "null"
-    if (node.type === "array") return `Array[${node.children?.length || 0}]`
-    if (node.type === "object") return `Object{${node.children?.length || 0}}`
-    return String(node.value)
-  }
+type JsonViewerMode = "pretty-print" | "tree-view" | "table" | "diff" | "types" | "convert"
 
-  return (
-    <div>
-      <button
-        type="button"
-        aria-expanded={hasChildren ? Boolean(node.expanded) : undefined}
-        className="flex w-full cursor-pointer items-center rounded-md py-1 text-left hover:bg-muted/50"
-        style={{ paddingLeft: `${node.depth * 20 + 8}px` }}
-        onClick={() => hasChildren && onToggle(node.path)}
-      >
-        {hasChildren ? (
-          node.expanded ? (
-            <IconChevronDown className="mr-1 size-4 text-muted-foreground" />
-          ) : (
-            <IconChevronRight className="mr-1 size-4 text-muted-foreground" />
-          )
-        ) : (
-          <span className="mr-1 size-4" />
-        )}
-        <span className="font-mono text-sm">
-          {node.key !== "root" && <span className="text-muted-foreground">&quot;{node.key}&quot;: </span>}
-          <span className={getTypeClassName(node.type)}>{getValueDisplay()}</span>
-        </span>
-      </button>
-      {hasChildren && node.expanded && node.children && (
-        <div>
-          {node.children.map((child, index) => (
-            <TreeNode key={`${child.path}-${index}`} node={child} onToggle={onToggle} />
-          ))}
-        </div>
-      )}
-    </div>
-  )
+const TREE_VIEW_READY = "Tree view generated successfully"
+
+const INPUT_FORMAT_LABELS: Record<JsonInputFormat, string> = {
+  json: "Valid",
+  jsonc: "JSONC",
+  json5: "JSON5",
+  ndjson: "NDJSON",
+  escaped: "Escaped JSON",
+  embedded: "Embedded JSON",
+}
+
+const MAX_VISIBLE_QUERY_MATCHES = 500
+const LIVE_PARSE_DELAY_MS = 250
+const MAX_EXPANDED_VIOLATIONS = 50
+
+function parseDiffSide(text: string, label: string): unknown {
+  const parsed = parseLenientJson(text)
+  if (!parsed.ok) {
+    throw new Error(`${label} JSON is invalid: ${formatParseIssue(parsed.error)}`)
+  }
+  return parsed.value
 }
 
 export function JsonViewer() {
-  const [mode, setMode] = useState<"pretty-print" | "tree-view">("pretty-print")
-  const [input, setInput] = useState("")
+  const [mode, setMode] = useState<JsonViewerMode>("pretty-print")
+  const inputHistory = useUndoHistory("")
+  const input = inputHistory.value
+  const setInput = inputHistory.set
+  const [compareInput, setCompareInput] = useState("")
+  const [arrayMatchKey, setArrayMatchKey] = useState("")
+  const [diffResult, setDiffResult] = useState<JsonDiffResult | null>(null)
+  const [typesSource, setTypesSource] = useState<{ value: unknown } | null>(null)
+  const [convertSource, setConvertSource] = useState<{ value: unknown } | null>(null)
+  const [tableSource, setTableSource] = useState<{ value: unknown } | null>(null)
+  const [inputFormat, setInputFormat] = useState<DocumentFormat>("json")
+  const [xmlConventions, setXmlConventions] = useState<XmlConventions>(DEFAULT_XML_CONVENTIONS)
   const [selectedExample, setSelectedExample] = useState("")
   const [output, setOutput] = useState("")
+  const [prettySource, setPrettySource] = useState<{ value: unknown } | null>(null)
+  const [outputOptions, setOutputOptions] = useState<JsonOutputOptions>(() => loadJsonOutputOptions())
   const [error, setError] = useState<string | null>(null)
   const [isProcessing, setIsProcessing] = useState(false)
-  const [treeData, setTreeData] = useState<JsonNode[]>()
+  const [treeDocument, setTreeDocument] = useState<{ text: string; value: unknown } | null>(null)
+  const [expandedPaths, setExpandedPaths] = useState<Set<string>>(() => new Set())
+  const [query, setQuery] = useState("")
+  const [queryResult, setQueryResult] = useState<QueryResult | null>(null)
+  const [queryError, setQueryError] = useState<string | null>(null)
+  const [activePath, setActivePath] = useState<string | null>(null)
+  const [schemaViolations, setSchemaViolations] = useState<SchemaViolation[] | null>(null)
+  const [schemaError, setSchemaError] = useState<string | null>(null)
+  const inputRef = useRef<HTMLTextAreaElement>(null)
+  const [liveParse, setLiveParse] = useState<{ text: string; result: LenientParseResult } | null>(null)
   const { copy } = useClipboard()
+  const { parse } = useJsonParseWorker()
+
+  useEffect(() => {
+    if (!input.trim() || inputFormat !== "json") return
+
+    let cancelled = false
+    const timeoutId = window.setTimeout(async () => {
+      const result = await parse(input)
+      if (!cancelled) {
+        setLiveParse({ text: input, result })
+      }
+    }, LIVE_PARSE_DELAY_MS)
+
+    return () => {
+      cancelled = true
+      window.clearTimeout(timeoutId)
+    }
+  }, [input, inputFormat, parse])
+
+  const parsedInput = inputFormat === "json" && input.trim() && liveParse?.text === input ? liveParse.result : null
+  const parseIssue = parsedInput && !parsedInput.ok ? parsedInput.error : null
+  const treeRows = useMemo(
+    () => (treeDocument ? flattenVisibleTree(treeDocument.value, expandedPaths) : []),
+    [treeDocument, expandedPaths]
+  )
+
+  const highlightedPaths = new Set(
+    queryResult?.matches.flatMap((match) => (match.path === null ? [] : [match.path])) ?? []
+  )
+
+  const violationCounts = useMemo(
+    () => countViolationsByPath(schemaViolations ?? []),
+    [schemaViolations]
+  )
 
-  const isValidJson = input.trim() ? validateJson(input).isValid : true
+  const isValidJson = !parseIssue
+  const isValidCompareJson = useMemo(
+    () => (compareInput.trim() ? parseLenientJson(compareInput).ok : true),
+    [compareInput]
+  )
+  const hasResult =
+    mode === "diff"
+      ? Boolean(diffResult)
+      : mode === "types"
+        ? Boolean(typesSource)
+        : mode === "convert"
+          ? Boolean(convertSource)
+          : mode === "table"
+            ? Boolean(tableSource)
+            : Boolean(output)
   const formatShortcut = typeof navigator !== "undefined" && navigator.platform.includes("Mac") ? "Cmd" : "Ctrl"
 
+  const readInputValue = async () => {
+    if (!input.trim()) {
+      throw new Error("Please enter JSON data")
+    }
+
+    if (inputFormat !== "json") {
+      return convertToJson(input, inputFormat, xmlConventions)
+    }
+
+    const result = parsedInput ?? (await parse(input))
+    setLiveParse({ text: input, result })
+    if (!result.ok) {
+      throw new Error(formatParseIssue(result.error))
+    }
+    return result.value
+  }
+
+  const readPrettyValue = async (preserveBigNumbers: boolean) => {
+    if (!preserveBigNumbers || inputFormat !== "json") {
+      return readInputValue()
+    }
+
+    const result = parseJsonPreservingNumbers(input)
+    if (!result.ok) {
+      throw new Error(formatParseIssue(result.error))
+    }
+    return result.value
+  }
+
+  const showTree = (value: unknown, expanded: Set<string>) => {
+    setTreeDocument({ text: input, value })
+    setExpandedPaths(expanded)
+    setOutput(TREE_VIEW_READY)
+    setPrettySource(null)
+  }
+
+  const focusParseIssue = () => {
+    const textarea = inputRef.current
+    if (!textarea || !parseIssue) return
+
+    textarea.focus()
+    textarea.setSelectionRange(parseIssue.offset, Math.min(parseIssue.offset + 1, input.length))
+  }
+
   const processJson = async () => {
     if (!input.trim()) {
       toast.error("Please enter JSON data")
       return
     }
 
+    if (mode === "diff" && !compareInput.trim()) {
+      toast.error("Please enter the JSON to compare against")
+      return
+    }
+
     setIsProcessing(true)
     setError(null)
 
     try {
-      if (mode === "pretty-print") {
-        const result = prettyPrintJson(input)
-        setOutput(result)
+      if (mode === "diff") {
+        const before = parseDiffSide(input, "Before")
+        const after = parseDiffSide(compareInput, "After")
+        const matching: ArrayMatching = arrayMatchKey.trim()
+          ? { strategy: "key", key: arrayMatchKey.trim() }
+          : { strategy: "index" }
+        setDiffResult(diffJson(before, after, matching))
+      } else if (mode === "types") {
+        setTypesSource({ value: await readInputValue() })
+      } else if (mode === "convert") {
+        setConvertSource({ value: await readInputValue() })
+      } else if (mode === "table") {
+        setTableSource({ value: await readInputValue() })
+      } else if (mode === "pretty-print") {
+        const value = await readPrettyValue(outputOptions.preserveBigNumbers)
+        setPrettySource({ value })
+        setOutput(stringifyJson(value, outputOptions))
       } else {
-        const result = jsonToTree(input)
-        setTreeData(result)
-        setOutput("Tree view generated successfully")
+        const value = await readInputValue()
+        showTree(value, getDefaultExpandedPaths(value))
       }
       toast.success("JSON processed successfully!")
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : "Processing failed"
       setError(errorMessage)
       setOutput("")
-      setTreeData(undefined)
+      setPrettySource(null)
+      setTreeDocument(null)
+      setDiffResult(null)
+      setTypesSource(null)
+      setConvertSource(null)
+      setTableSource(null)
       toast.error(errorMessage)
     } finally {
       setIsProcessing(false)
     }
   }
 
+  const handleOutputOptionsChange = async (options: JsonOutputOptions) => {
+    setOutputOptions(options)
+    if (!saveJsonOutputOptions(options)) {
+      toast.error("Local storage is unavailable; options will reset on reload")
+    }
+
+    if (!prettySource) return
+
+    try {
+      const value =
+        options.preserveBigNumbers === outputOptions.preserveBigNumbers
+          ? prettySource.value
+          : await readPrettyValue(options.preserveBigNumbers)
+      setPrettySource({ value })
+      setOutput(stringifyJson(value, options))
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Formatting failed")
+    }
+  }
+
   const handleToggleNode = (path: string) => {
-    if (treeData) {
-      setTreeData(toggleTreeNode(treeData, path))
+    setExpandedPaths((current) => toggleExpandedPath(current, path))
+  }
+
+  const handleRunQuery = async () => {
+    if (!query.trim()) {
+      toast.error("Please enter a query")
+      return
+    }
+
+    setActivePath(null)
+
+    try {
+      const result = runJsonQuery(await readInputValue(), query)
+      setQueryResult(result)
+      setQueryError(null)
+    } catch (err) {
+      setQueryResult(null)
+      setQueryError(err instanceof Error ? err.message : "Query failed")
+    }
+  }
+
+  const handleSelectMatch = async (path: string) => {
+    try {
+      if (treeDocument?.text === input) {
+        setExpandedPaths(expandToPath(treeDocument.value, expandedPaths, path))
+      } else {
+        const value = await readInputValue()
+        showTree(value, expandToPath(value, getDefaultExpandedPaths(value), path))
+      }
+      setMode("tree-view")
+      setError(null)
+      setActivePath(path)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Unable to open tree view")
+    }
+  }
+
+  const handleValidateSchema = async (schemaText: string) => {
+    const parsedSchema = parseLenientJson(schemaText)
+    if (!parsedSchema.ok) {
+      setSchemaViolations(null)
+      setSchemaError(`Schema is invalid: ${formatParseIssue(parsedSchema.error)}`)
+      return
+    }
+
+    try {
+      const value = await readInputValue()
+      const violations = validateJsonSchema(value, parsedSchema.value)
+      let expanded = treeDocument?.text === input ? expandedPaths : getDefaultExpandedPaths(value)
+      for (const violation of violations.slice(0, MAX_EXPANDED_VIOLATIONS)) {
+        expanded = expandToPath(value, expanded, violation.path)
+      }
+      showTree(value, expanded)
+      setSchemaViolations(violations)
+      setSchemaError(null)
+      setActivePath(null)
+      if (violations.length) {
+        setMode("tree-view")
+        setError(null)
+      }
+    } catch (err) {
+      setSchemaViolations(null)
+      setSchemaError(err instanceof Error ? err.message : "Validation failed")
     }
   }
 
-  const handleKeyPress = (event: React.KeyboardEvent) => {
+  const handleTreeEdit = (edit: JsonTreeEdit) => {
+    if (!treeDocument) return
+
+    if (treeDocument.text !== input) {
+      toast.error("The input changed since the tree was built. Process the JSON again to edit it.")
+      return
+    }
+
+    try {
+      const result = applyJsonTreeEdit(treeDocument.value, edit)
+      const text = serializeDocument(result.document, inputFormat, xmlConventions)
+      setInput(text)
+      setTreeDocument({ text, value: result.document })
+      if (edit.type === "rename") {
+        setExpandedPaths((current) => remapExpandedPaths(current, edit.path, result.path))
+      } else if (edit.type === "add-child") {
+        setExpandedPaths((current) => new Set(current).add(edit.path))
+      }
+      setActivePath(result.path)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Edit failed")
+    }
+  }
+
+  /** Keeps an open tree in step with the input after undo/redo restores an earlier text. */
+  const syncTreeWithInput = async (text: string) => {
+    if (!treeDocument || !text.trim()) return
+
+    if (inputFormat !== "json") {
+      try {
+        setTreeDocument({ text, value: convertToJson(text, inputFormat, xmlConventions) })
+      } catch {
+        // Leave the tree as is; processing the input again reports the error.
+      }
+      return
+    }
+
+    const result = await parse(text)
+    if (result.ok) {
+      setTreeDocument({ text, value: result.value })
+    }
+  }
+
+  const handleUndo = () => {
+    if (!inputHistory.canUndo) return
+    void syncTreeWithInput(inputHistory.undo())
+  }
+
+  const handleRedo = () => {
+    if (!inputHistory.canRedo) return
+    void syncTreeWithInput(inputHistory.redo())
+  }
+
+  const handleHistoryShortcut = (event: React.KeyboardEvent) => {
+    if (!(event.ctrlKey || event.metaKey)) return false
+
+    const key = event.key.toLowerCase()
+    if (key === "z" && !event.shiftKey) {
+      handleUndo()
+    } else if ((key === "z" && event.shiftKey) || key === "y") {
+      handleRedo()
+    } else {
+      return false
+    }
+
+    event.preventDefault()
+    return true
+  }
+
+  const handleTreeKeyDown = (event: React.KeyboardEvent) => {
+    // Inline editors keep the browser's own undo for the text being typed.
+    if (event.target instanceof HTMLInputElement) return
+    handleHistoryShortcut(event)
+  }
+
+  const handleKeyPress = async (event: React.KeyboardEvent) => {
+    if (handleHistoryShortcut(event)) return
+
     if ((event.ctrlKey || event.metaKey) && event.key === "f") {
       event.preventDefault()
       try {
-        setInput(prettyPrintJson(input))
-        toast.success("JSON formatted!")
-      } catch {
-        toast.error("Invalid JSON")
+        setInput(serializeDocument(await readInputValue(), inputFormat, xmlConventions))
+        toast.success(`${getDocumentFormatLabel(inputFormat)} formatted!`)
+      } catch (err) {
+        toast.error(err instanceof Error ? err.message : "Invalid JSON")
       }
     }
   }
@@ -161,14 +449,35 @@ export function JsonViewer() {
 
     setSelectedExample(label)
     setInput(exampleContent)
+    setInputFormat("json")
+  }
+
+  const handleUseConversionAsInput = (text: string, format: DocumentFormat) => {
+    setInput(text)
+    setInputFormat(format)
+    setConvertSource(null)
+    setTableSource(null)
+    setTreeDocument(null)
+    toast.success(`Input replaced with ${getDocumentFormatLabel(format)}`)
   }
 
   const handleClear = () => {
     setInput("")
     setSelectedExample("")
     setOutput("")
+    setPrettySource(null)
     setError(null)
-    setTreeData(undefined)
+    setTreeDocument(null)
+    setCompareInput("")
+    setDiffResult(null)
+    setTypesSource(null)
+    setConvertSource(null)
+    setTableSource(null)
+    setQueryResult(null)
+    setQueryError(null)
+    setActivePath(null)
+    setSchemaViolations(null)
+    setSchemaError(null)
   }
 
   return (
@@ -182,15 +491,38 @@ export function JsonViewer() {
                   <IconBraces />
                   JSON Input
                 </CardTitle>
-                <CardDescription>Paste JSON, load an example, then format or inspect it as a tree.</CardDescription>
+                <CardDescription>Paste JSON, load an example, then format, inspect or compare it.</CardDescription>
               </div>
               <Badge variant={isValidJson ? "default" : "destructive"}>
-                {isValidJson ? "Valid" : "Invalid"}
+                {inputFormat !== "json"
+                  ? getDocumentFormatLabel(inputFormat)
+                  : parsedInput?.ok
+                    ? INPUT_FORMAT_LABELS[parsedInput.format]
+                    : isValidJson
+                      ? "Valid"
+                      : "Invalid"}
               </Badge>
             </div>
           </CardHeader>
           <CardContent className="flex flex-col gap-4">
-            <FieldGroup>
+            <FieldGroup className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <Field>
+                <FieldLabel htmlFor="json-input-format">Input format</FieldLabel>
+                <Select value={inputFormat} onValueChange={(value) => setInputFormat(value as DocumentFormat)}>
+                  <SelectTrigger id="json-input-format" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectGroup>
+                      {DOCUMENT_FORMATS.map((format) => (
+                        <SelectItem key={format.value} value={format.value}>
+                          {format.label}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+              </Field>
               <Field>
                 <FieldLabel htmlFor="json-example">Example</FieldLabel>
                 <Select value={selectedExample} onValueChange={handleLoadExample}>
@@ -210,21 +542,87 @@ export function JsonViewer() {
               </Field>
             </FieldGroup>
 
+            {mode === "diff" && <FieldLabel htmlFor="json-input">Before</FieldLabel>}
             <Textarea
+              ref={inputRef}
+              id="json-input"
+              aria-invalid={Boolean(parseIssue)}
               value={input}
-              onChange={(event) => setInput(event.target.value)}
+              onChange={(event) => setInput(event.target.value, { typing: true })}
               onKeyDown={handleKeyPress}
               placeholder="Paste or type JSON here..."
-              className="code-pane-editable min-h-[400px]"
+              className={cn("code-pane-editable", mode === "diff" ? "min-h-[200px]" : "min-h-[400px]")}
             />
 
-            <p className="text-xs text-muted-foreground">Tip: Press {formatShortcut} + F to format.</p>
+            {mode === "diff" && (
+              <FieldGroup>
+                <Field>
+                  <div className="flex items-center justify-between gap-2">
+                    <FieldLabel htmlFor="json-compare-input">After</FieldLabel>
+                    {!isValidCompareJson && <Badge variant="destructive">Invalid</Badge>}
+                  </div>
+                  <Textarea
+                    id="json-compare-input"
+                    value={compareInput}
+                    onChange={(event) => setCompareInput(event.target.value)}
+                    placeholder="Paste the JSON to compare against..."
+                    className="code-pane-editable min-h-[200px]"
+                  />
+                </Field>
+                <Field>
+                  <FieldLabel htmlFor="json-array-key">Match array items by key</FieldLabel>
+                  <Input
+                    id="json-array-key"
+                    value={arrayMatchKey}
+                    onChange={(event) => setArrayMatchKey(event.target.value)}
+                    placeholder="Leave empty to match by index, e.g. id"
+                    className="font-mono"
+                  />
+                </Field>
+              </FieldGroup>
+            )}
+
+            {parseIssue && (
+              <div className="flex items-center justify-between gap-3 rounded-lg border border-destructive/20 bg-destructive/5 p-3 text-sm text-destructive">
+                <span>{formatParseIssue(parseIssue)}</span>
+                <Button size="sm" variant="outline" onClick={focusParseIssue}>
+                  Go to error
+                </Button>
+              </div>
+            )}
+
+            {parsedInput?.ok && parsedInput.repairs.length > 0 && (
+              <div className="flex flex-col gap-1 rounded-lg border bg-muted/50 p-3 text-sm">
+                <span className="flex items-center gap-2 font-medium">
+                  <IconTool className="size-4" />
+                  Input was repaired before parsing
+                </span>
+                <ul className="list-disc pl-6 text-muted-foreground">
+                  {parsedInput.repairs.map((repair) => (
+                    <li key={repair}>{repair}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Tip: Press {formatShortcut} + F to format, {formatShortcut} + Z to undo and {formatShortcut} + Shift + Z to
+              redo.
+            </p>
 
             <div className="flex flex-wrap gap-2">
               <Button variant="default" onClick={processJson} disabled={!input.trim() || isProcessing}>
                 <IconSparkles data-icon="inline-start" className={isProcessing ? "animate-spin" : undefined} />
                 {isProcessing ? "Processing..." : "Process JSON"}
               </Button>
+              <Button variant="outline" onClick={handleUndo} disabled={!inputHistory.canUndo}>
+                <IconArrowBackUp data-icon="inline-start" />
+                Undo
+              </Button>
+              <Button variant="outline" onClick={handleRedo} disabled={!inputHistory.canRedo}>
+                <IconArrowForwardUp data-icon="inline-start" />
+                Redo
+              </Button>
               <Button variant="outline" onClick={handleClear}>
                 <IconTrash data-icon="inline-start" />
                 Clear
@@ -235,8 +633,8 @@ export function JsonViewer() {
 
         <Card>
           <CardHeader>
-            <Tabs value={mode} onValueChange={(value) => setMode(value as typeof mode)}>
-              <TabsList className="grid w-full grid-cols-2">
+            <Tabs value={mode} onValueChange={(value) => setMode(value as JsonViewerMode)}>
+              <TabsList className="grid w-full grid-cols-6">
                 <TabsTrigger value="pretty-print">
                   <IconFileDescription data-icon="inline-start" />
                   Pretty Print
@@ -245,6 +643,22 @@ export function JsonViewer() {
                   <IconFolder data-icon="inline-start" />
                   Tree View
                 </TabsTrigger>
+                <TabsTrigger value="table">
+                  <IconTable data-icon="inline-start" />
+                  Table
+                </TabsTrigger>
+                <TabsTrigger value="diff">
+                  <IconGitCompare data-icon="inline-start" />
+                  Diff
+                </TabsTrigger>
+                <TabsTrigger value="types">
+                  <IconCode data-icon="inline-start" />
+                  Types
+                </TabsTrigger>
+                <TabsTrigger value="convert">
+                  <IconTransform data-icon="inline-start" />
+                  Convert
+                </TabsTrigger>
               </TabsList>
             </Tabs>
           </CardHeader>
@@ -255,7 +669,7 @@ export function JsonViewer() {
               </div>
             )}
 
-            {!output && !error && (
+            {!hasResult && !error && (
               <div className="flex min-h-[400px] flex-col items-center justify-center rounded-lg border border-dashed text-center text-muted-foreground">
                 <IconFileDescription className="size-8" />
                 <p className="mt-3 font-medium text-foreground">No output yet</p>
@@ -263,16 +677,19 @@ export function JsonViewer() {
               </div>
             )}
 
-            {output && !error && (
+            {hasResult && !error && (
               <Tabs value={mode} className="w-full">
-                <TabsContent value="pretty-print" className="mt-0">
+                <TabsContent value="pretty-print" className="mt-0 flex flex-col gap-3">
+                  {prettySource && output !== TREE_VIEW_READY && (
+                    <JsonOutputOptionsBar options={outputOptions} onChange={handleOutputOptionsChange} />
+                  )}
                   <div className="relative">
                     <Textarea
-                      value={output === "Tree view generated successfully" ? "" : output}
+                      value={output === TREE_VIEW_READY ? "" : output}
                       readOnly
                       className="code-pane min-h-[400px]"
                     />
-                    {output !== "Tree view generated successfully" && (
+                    {output !== TREE_VIEW_READY && (
                       <Button size="sm" variant="outline" className="absolute top-2 right-2" onClick={() => copy(output)}>
                         <IconCopy data-icon="inline-start" />
                         Copy
@@ -282,11 +699,19 @@ export function JsonViewer() {
                 </TabsContent>
 
                 <TabsContent value="tree-view" className="mt-0">
-                  {treeData ? (
-                    <div className="code-pane max-h-[400px] min-h-[400px] overflow-auto">
-                      {treeData.map((node, index) => (
-                        <TreeNode key={`root-${index}`} node={node} onToggle={handleToggleNode} />
-                      ))}
+                  {treeDocument ? (
+                    <div className="flex flex-col gap-2" onKeyDown={handleTreeKeyDown}>
+                      <JsonTreeView
+                        rows={treeRows}
+                        onToggle={handleToggleNode}
+                        highlightedPaths={highlightedPaths}
+                        activePath={activePath}
+                        errorCounts={violationCounts}
+                        onEdit={handleTreeEdit}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Double-click a key or value to edit it, drag rows to reorder siblings.
+                      </p>
                     </div>
                   ) : (
                     <div className="flex min-h-[400px] flex-col items-center justify-center rounded-lg border border-dashed text-center text-muted-foreground">
@@ -296,11 +721,120 @@ export function JsonViewer() {
                     </div>
                   )}
                 </TabsContent>
+
+                <TabsContent value="table" className="mt-0">
+                  {tableSource && <JsonTableView value={tableSource.value} initialPath={activePath} />}
+                </TabsContent>
+
+                <TabsContent value="diff" className="mt-0">
+                  {diffResult && <JsonDiffView result={diffResult} />}
+                </TabsContent>
+
+                <TabsContent value="types" className="mt-0">
+                  {typesSource && <JsonTypesView value={typesSource.value} />}
+                </TabsContent>
+
+                <TabsContent value="convert" className="mt-0">
+                  {convertSource && (
+                    <JsonConvertView
+                      value={convertSource.value}
+                      inputFormat={inputFormat}
+                      xmlConventions={xmlConventions}
+                      onXmlConventionsChange={setXmlConventions}
+                      onUseAsInput={handleUseConversionAsInput}
+                    />
+                  )}
+                </TabsContent>
               </Tabs>
             )}
           </CardContent>
         </Card>
       </div>
+
+      <Card>
+        <CardHeader className="gap-3">
+          <div className="flex items-start justify-between gap-3">
+            <div className="flex flex-col gap-1">
+              <CardTitle className="flex items-center gap-2">
+                <IconSearch />
+                Query
+              </CardTitle>
+              <CardDescription>
+                Filter the document with JSONPath (<code>$.items[?(@.status == &quot;FAILED&quot;)]</code>) or jq
+                (<code>.items[] | select(.status == &quot;FAILED&quot;) | .id</code>).
+              </CardDescription>
+            </div>
+            {queryResult && (
+              <Badge variant="outline">{queryResult.syntax === "jsonpath" ? "JSONPath" : "jq"}</Badge>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          <form
+            className="flex gap-2"
+            onSubmit={(event) => {
+              event.preventDefault()
+              handleRunQuery()
+            }}
+          >
+            <Input
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
+              placeholder="$.data.users[*].name or .data.users[] | .name"
+              className="font-mono"
+              aria-label="JSON query"
+            />
+            <Button type="submit" disabled={!input.trim() || !isValidJson || !query.trim()}>
+              <IconSearch data-icon="inline-start" />
+              Run
+            </Button>
+          </form>
+
+          {queryError && (
+            <div className="rounded-lg border border-destructive/20 bg-destructive/5 p-4 text-sm text-destructive">
+              {queryError}
+            </div>
+          )}
+
+          {queryResult && (
+            <div className="flex flex-col gap-2">
+              <p className="text-sm text-muted-foreground">
+                {queryResult.matches.length} {queryResult.matches.length === 1 ? "match" : "matches"}
+                {queryResult.matches.length > MAX_VISIBLE_QUERY_MATCHES && ` (showing first ${MAX_VISIBLE_QUERY_MATCHES})`}
+              </p>
+              {queryResult.matches.length > 0 && (
+                <div className="code-pane max-h-[300px] overflow-auto !p-0">
+                  {queryResult.matches.slice(0, MAX_VISIBLE_QUERY_MATCHES).map((match, index) => (
+                    <button
+                      key={`${match.path ?? "value"}-${index}`}
+                      type="button"
+                      disabled={match.path === null}
+                      className={cn(
+                        "flex w-full items-baseline gap-3 border-b px-3 py-2 text-left font-mono text-sm last:border-b-0",
+                        match.path !== null && "cursor-pointer hover:bg-muted/50",
+                        match.path !== null && match.path === activePath && "bg-primary/10"
+                      )}
+                      onClick={() => match.path !== null && handleSelectMatch(match.path)}
+                    >
+                      <span className="shrink-0 text-muted-foreground">{match.path === null ? "=" : match.path || "root"}</span>
+                      <span className="truncate">{JSON.stringify(match.value)}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <JsonSchemaPanel
+        canValidate={Boolean(input.trim()) && isValidJson}
+        violations={schemaViolations}
+        error={schemaError}
+        activePath={activePath}
+        onValidate={handleValidateSchema}
+        onSelectPath={handleSelectMatch}
+      />
     </div>
   )
 }
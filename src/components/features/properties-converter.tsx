@@ -8,16 +8,31 @@ import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Field, FieldDescription, FieldGroup, FieldLabel } from "@/components/ui/field"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Textarea } from "@/components/ui/textarea"
+import { Toggle } from "@/components/ui/toggle"
 import { useAsyncOperation } from "@/hooks/use-async-operation"
 import { useClipboard } from "@/hooks/use-clipboard"
-import { convertProperties, type ConversionMode } from "@/lib/properties-utils"
+import {
+  buildHelmChart,
+  buildK8sManifests,
+  DEFAULT_K8S_MANIFEST_OPTIONS,
+  DEFAULT_SENSITIVE_PATTERNS,
+  type K8sManifestOptions,
+  type K8sOutputFile,
+  type K8sOutputFormat,
+  type K8sReferenceStyle,
+} from "@/lib/k8s-manifests"
+import { collectK8sEnvVariables, convertProperties, type ConversionMode } from "@/lib/properties-utils"
 import {
   canConvertToK8s,
   getConversionOutputFilename,
   getK8sConversionMode,
   getPropertiesExample,
+  getPropertiesInputHint,
+  isEnvSourceMode,
 } from "@/lib/tool-ui-config"
 
 import { EnvOutputList } from "./env-output-list"
@@ -34,8 +49,14 @@ function ExampleButton({ content, label, onLoad }: { content: string; label: str
 export function PropertiesConverter() {
   const [mode, setMode] = useState<ConversionMode>("yaml-to-env")
   const [input, setInput] = useState("")
+  const [propertyHints, setPropertyHints] = useState("")
+  const [escapeUnicode, setEscapeUnicode] = useState(true)
   const [output, setOutput] = useState("")
-  const [k8sOutput, setK8sOutput] = useState("")
+  const [k8sFormat, setK8sFormat] = useState<K8sOutputFormat>("env-list")
+  const [k8sOptions, setK8sOptions] = useState<K8sManifestOptions>(DEFAULT_K8S_MANIFEST_OPTIONS)
+  const [sensitivePatterns, setSensitivePatterns] = useState(DEFAULT_SENSITIVE_PATTERNS.join(", "))
+  const [k8sFiles, setK8sFiles] = useState<K8sOutputFile[]>([])
+  const [activeK8sFile, setActiveK8sFile] = useState("")
   const [k8sError, setK8sError] = useState<string | null>(null)
   const [showK8sModal, setShowK8sModal] = useState(false)
 
@@ -57,7 +78,10 @@ export function PropertiesConverter() {
     }
 
     asyncOperation.execute(async () => {
-      const result = convertProperties(input, mode)
+      const result = convertProperties(input, mode, {
+        propertyHints: propertyHints.split(/[\s,]+/).filter(Boolean),
+        escapeUnicode,
+      })
       setOutput(result)
       return result
     })
@@ -67,12 +91,25 @@ export function PropertiesConverter() {
     if (!input.trim()) return
 
     setK8sError(null)
-    setK8sOutput("")
+    setK8sFiles([])
     setShowK8sModal(true)
 
     try {
-      const result = convertProperties(input, getK8sConversionMode())
-      setK8sOutput(result)
+      let files: K8sOutputFile[]
+      if (k8sFormat === "env-list") {
+        const mode = getK8sConversionMode()
+        files = [{ filename: getConversionOutputFilename(mode), content: convertProperties(input, mode) }]
+      } else {
+        const variables = collectK8sEnvVariables(input)
+        const options = {
+          ...k8sOptions,
+          sensitivePatterns: sensitivePatterns.split(",").map((pattern) => pattern.trim()).filter(Boolean),
+        }
+        files = k8sFormat === "manifests" ? buildK8sManifests(variables, options) : buildHelmChart(variables, options)
+      }
+
+      setK8sFiles(files)
+      setActiveK8sFile(files[0].filename)
       toast.success("K8s conversion successful!")
     } catch (error) {
       setK8sError(error instanceof Error ? error.message : "K8s conversion failed")
@@ -95,15 +132,24 @@ export function PropertiesConverter() {
   const selectedExample = getPropertiesExample(mode)
   const showK8sButton = canConvertToK8s(mode, input)
   const outputFilename = getConversionOutputFilename(mode)
+  const inputHint = getPropertiesInputHint(mode)
+  const activeFile = k8sFiles.find((file) => file.filename === activeK8sFile) ?? k8sFiles[0]
+
+  const updateK8sOptions = (changes: Partial<K8sManifestOptions>) => {
+    setK8sOptions((current) => ({ ...current, ...changes }))
+  }
 
   return (
     <div className="flex flex-col gap-4">
       <Tabs value={mode} onValueChange={(value) => setMode(value as ConversionMode)}>
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-2 group-data-horizontal/tabs:h-auto sm:grid-cols-4 xl:grid-cols-7">
           <TabsTrigger value="yaml-to-env">YAML to ENV</TabsTrigger>
           <TabsTrigger value="spring-to-env">Spring to ENV</TabsTrigger>
           <TabsTrigger value="yaml-to-properties">YAML to Properties</TabsTrigger>
           <TabsTrigger value="properties-to-yaml">Properties to YAML</TabsTrigger>
+          <TabsTrigger value="env-to-yaml">ENV to YAML</TabsTrigger>
+          <TabsTrigger value="env-to-properties">ENV to Properties</TabsTrigger>
+          <TabsTrigger value="k8s-env-to-yaml">K8s ENV to YAML</TabsTrigger>
         </TabsList>
 
         <TabsContent value={mode} className="mt-4">
@@ -113,7 +159,7 @@ export function PropertiesConverter() {
                 <div className="flex items-start justify-between gap-3">
                   <div className="flex flex-col gap-1">
                     <CardTitle>Input</CardTitle>
-                    <CardDescription>Paste YAML, Spring annotations, or Java properties and convert them with one click.</CardDescription>
+                    <CardDescription>Paste YAML, Spring annotations, Java properties, or environment variables and convert them with one click.</CardDescription>
                   </div>
                   {selectedExample && (
                     <ExampleButton
@@ -128,27 +174,30 @@ export function PropertiesConverter() {
                 <FieldGroup>
                   <Field>
                     <FieldLabel htmlFor="properties-input">Source content</FieldLabel>
-                    <FieldDescription>
-                      {mode === "spring-to-env"
-                        ? "Enter Spring @Value annotations or property keys."
-                        : mode === "properties-to-yaml"
-                          ? "Enter Java properties."
-                          : "Enter YAML or Java properties."}
-                    </FieldDescription>
+                    <FieldDescription>{inputHint.description}</FieldDescription>
                     <Textarea
                       id="properties-input"
                       value={input}
                       onChange={(event) => setInput(event.target.value)}
-                      placeholder={
-                        mode === "spring-to-env"
-                          ? "Enter Spring @Value annotations or property keys..."
-                          : mode === "properties-to-yaml"
-                            ? "Enter Java properties..."
-                            : "Enter YAML or properties..."
-                      }
+                      placeholder={inputHint.placeholder}
                       className="code-pane-editable min-h-[400px]"
                     />
                   </Field>
+                  {isEnvSourceMode(mode) && (
+                    <Field>
+                      <FieldLabel htmlFor="properties-hints">Known property names</FieldLabel>
+                      <FieldDescription>
+                        Underscores are read as nesting. List dashed property names, like app.retry.max-attempts, so
+                        APP_RETRY_MAX_ATTEMPTS maps back to them. Common Spring Boot properties are already known.
+                      </FieldDescription>
+                      <Input
+                        id="properties-hints"
+                        value={propertyHints}
+                        onChange={(event) => setPropertyHints(event.target.value)}
+                        placeholder="app.retry.max-attempts, app.cache.time-to-live"
+                      />
+                    </Field>
+                  )}
                 </FieldGroup>
 
                 <div className="flex flex-wrap gap-2">
@@ -165,6 +214,16 @@ export function PropertiesConverter() {
                     <IconTrash data-icon="inline-start" />
                     Clear
                   </Button>
+                  {(mode === "yaml-to-properties" || mode === "env-to-properties") && (
+                    <Toggle
+                      variant="outline"
+                      pressed={escapeUnicode}
+                      onPressedChange={setEscapeUnicode}
+                      title="Write non-ASCII text as \uXXXX so the file reads the same as ISO-8859-1 or UTF-8"
+                    >
+                      Escape non-ASCII
+                    </Toggle>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -222,17 +281,98 @@ export function PropertiesConverter() {
 
       {showK8sButton && (
         <Card>
-          <CardContent className="flex items-center justify-between gap-4 pt-6">
-            <div className="flex flex-col gap-1">
-              <h3 className="font-semibold text-lg">Kubernetes Format</h3>
-              <p className="text-sm text-muted-foreground">
-                Convert the current YAML input into Kubernetes environment variable entries.
-              </p>
+          <CardContent className="flex flex-col gap-4 pt-6">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex flex-col gap-1">
+                <h3 className="font-semibold text-lg">Kubernetes Format</h3>
+                <p className="text-sm text-muted-foreground">
+                  Convert the current YAML input into Kubernetes environment variables, manifests, or a Helm chart.
+                </p>
+              </div>
+              <Button variant="default" onClick={handleK8sConversion}>
+                <IconCloud data-icon="inline-start" />
+                Convert to K8s
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+              <Field>
+                <FieldLabel htmlFor="k8s-format">Output</FieldLabel>
+                <Select value={k8sFormat} onValueChange={(value) => setK8sFormat(value as K8sOutputFormat)}>
+                  <SelectTrigger id="k8s-format" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectGroup>
+                      <SelectItem value="env-list">Container env list</SelectItem>
+                      <SelectItem value="manifests">ConfigMap and Secret</SelectItem>
+                      <SelectItem value="helm">Helm values and templates</SelectItem>
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+              </Field>
+
+              {k8sFormat !== "env-list" && (
+                <>
+                  <Field>
+                    <FieldLabel htmlFor="k8s-name">ConfigMap name</FieldLabel>
+                    <Input
+                      id="k8s-name"
+                      value={k8sOptions.name}
+                      onChange={(event) => updateK8sOptions({ name: event.target.value })}
+                      placeholder="app-config"
+                    />
+                  </Field>
+                  <Field>
+                    <FieldLabel htmlFor="k8s-namespace">Namespace</FieldLabel>
+                    <Input
+                      id="k8s-namespace"
+                      value={k8sOptions.namespace}
+                      onChange={(event) => updateK8sOptions({ namespace: event.target.value })}
+                      placeholder={k8sFormat === "helm" ? "Release namespace" : "Optional"}
+                      disabled={k8sFormat === "helm"}
+                    />
+                  </Field>
+                  <Field>
+                    <FieldLabel htmlFor="k8s-reference">Deployment reference</FieldLabel>
+                    <Select
+                      value={k8sOptions.referenceStyle}
+                      onValueChange={(value) => updateK8sOptions({ referenceStyle: value as K8sReferenceStyle })}
+                    >
+                      <SelectTrigger id="k8s-reference" className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectGroup>
+                          <SelectItem value="envFrom">envFrom</SelectItem>
+                          <SelectItem value="valueFrom">valueFrom per key</SelectItem>
+                        </SelectGroup>
+                      </SelectContent>
+                    </Select>
+                  </Field>
+                  <Field className="md:col-span-2">
+                    <FieldLabel htmlFor="k8s-sensitive">Sensitive name patterns</FieldLabel>
+                    <FieldDescription>Variables whose names contain one of these go into the Secret.</FieldDescription>
+                    <div className="flex gap-2">
+                      <Input
+                        id="k8s-sensitive"
+                        value={sensitivePatterns}
+                        onChange={(event) => setSensitivePatterns(event.target.value)}
+                        placeholder="password, secret, token"
+                        disabled={!k8sOptions.includeSecret}
+                      />
+                      <Toggle
+                        variant="outline"
+                        pressed={k8sOptions.includeSecret}
+                        onPressedChange={(includeSecret) => updateK8sOptions({ includeSecret })}
+                      >
+                        Secret
+                      </Toggle>
+                    </div>
+                  </Field>
+                </>
+              )}
             </div>
-            <Button variant="default" onClick={handleK8sConversion}>
-              <IconCloud data-icon="inline-start" />
-              Convert to K8s
-            </Button>
           </CardContent>
         </Card>
       )}
@@ -240,8 +380,14 @@ export function PropertiesConverter() {
       <Dialog open={showK8sModal} onOpenChange={setShowK8sModal}>
         <DialogContent className="max-h-[80vh] max-w-3xl overflow-auto">
           <DialogHeader>
-            <DialogTitle>Kubernetes Environment Variables</DialogTitle>
-            <DialogDescription>Review the generated entries before copying or downloading the YAML file.</DialogDescription>
+            <DialogTitle>
+              {k8sFormat === "manifests"
+                ? "Kubernetes ConfigMap and Secret"
+                : k8sFormat === "helm"
+                  ? "Helm Values and Templates"
+                  : "Kubernetes Environment Variables"}
+            </DialogTitle>
+            <DialogDescription>Review the generated files before copying or downloading them.</DialogDescription>
           </DialogHeader>
           <div className="flex flex-col gap-4">
             {k8sError ? (
@@ -250,17 +396,32 @@ export function PropertiesConverter() {
               </div>
             ) : (
               <>
+                {k8sFiles.length > 1 && (
+                  <Tabs value={activeFile?.filename} onValueChange={setActiveK8sFile}>
+                    <TabsList variant="line" className="flex-wrap">
+                      {k8sFiles.map((file) => (
+                        <TabsTrigger key={file.filename} value={file.filename}>
+                          {file.filename}
+                        </TabsTrigger>
+                      ))}
+                    </TabsList>
+                  </Tabs>
+                )}
                 <Textarea
-                  value={k8sOutput}
+                  value={activeFile?.content ?? ""}
                   readOnly
                   className="code-pane min-h-[300px]"
                 />
                 <div className="flex flex-wrap gap-2">
-                  <Button variant="outline" onClick={() => copy(k8sOutput)}>
+                  <Button variant="outline" disabled={!activeFile} onClick={() => activeFile && copy(activeFile.content)}>
                     <IconCopy data-icon="inline-start" />
                     Copy
                   </Button>
-                  <Button variant="outline" onClick={() => handleDownload(k8sOutput, getConversionOutputFilename(getK8sConversionMode()))}>
+                  <Button
+                    variant="outline"
+                    disabled={!activeFile}
+                    onClick={() => activeFile && handleDownload(activeFile.content, activeFile.filename.split("/").pop() ?? activeFile.filename)}
+                  >
                     <IconDownload data-icon="inline-start" />
                     Download YAML
                   </Button>
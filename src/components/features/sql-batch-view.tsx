@@ -0,0 +1,98 @@
+"use client"
+
+import { useMemo } from "react"
+import { IconCopy, IconDownload } from "@tabler/icons-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { useClipboard } from "@/hooks/use-clipboard"
+import { downloadFile } from "@/lib/file-operations"
+import { buildSqlScript, segmentSqlLog, type SqlLogStatement } from "@/lib/sql-batch"
+import { getSqlLogParser } from "@/lib/sql-log-parsers"
+import { SqlCodeBlock } from "./sql-code-block"
+import { TextareaWithActions } from "./textarea-with-actions"
+
+interface SqlBatchViewProps {
+  log: string
+  onLogChange: (log: string) => void
+  render: (statement: SqlLogStatement) => string
+}
+
+export function SqlBatchView({ log, onLogChange, render }: SqlBatchViewProps) {
+  const statements = useMemo(() => segmentSqlLog(log), [log])
+  const { copy } = useClipboard()
+
+  const filled = statements.map(render)
+  const script = statements.length > 0 ? buildSqlScript(statements, render) : ""
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 flex-1 min-h-0">
+      <Card className="flex flex-col overflow-hidden">
+        <CardHeader>
+          <CardTitle className="text-base">Log</CardTitle>
+        </CardHeader>
+        <CardContent className="flex-1 min-h-[400px]">
+          <TextareaWithActions
+            value={log}
+            onChange={onLogChange}
+            showPaste={true}
+            placeholder="Paste a request trace with many statements and their bind parameters"
+          />
+        </CardContent>
+      </Card>
+
+      <Card className="flex flex-col overflow-hidden">
+        <CardHeader className="flex flex-row items-center justify-between gap-2">
+          <CardTitle className="text-base">
+            Statements {statements.length > 0 && <span className="text-muted-foreground">({statements.length})</span>}
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" disabled={!script} onClick={() => copy(script)}>
+              <IconCopy data-icon="inline-start" />
+              Copy all
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={!script}
+              onClick={() => downloadFile(script, "statements.sql", "application/sql")}
+            >
+              <IconDownload data-icon="inline-start" />
+              Export .sql
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="flex-1 min-h-0 overflow-y-auto">
+          {statements.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Statements found in the log will be listed here in order.</p>
+          ) : (
+            <ol className="flex flex-col gap-3">
+              {statements.map((statement, index) => (
+                <li key={index} className="rounded-lg border p-3">
+                  <div className="mb-2 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <span className="font-medium text-foreground">#{index + 1}</span>
+                    {statement.timestamp && <span className="font-mono">{statement.timestamp}</span>}
+                    {statement.thread && <Badge variant="outline">{statement.thread}</Badge>}
+                    {statement.elapsedMs !== null && <Badge variant="secondary">{statement.elapsedMs} ms</Badge>}
+                    {statement.format && <Badge variant="outline">{getSqlLogParser(statement.format).label}</Badge>}
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="ml-auto size-7"
+                      onClick={() => copy(filled[index])}
+                      aria-label={`Copy statement ${index + 1}`}
+                    >
+                      <IconCopy />
+                    </Button>
+                  </div>
+                  <SqlCodeBlock code={filled[index]} showCopy={false} />
+                </li>
+              ))}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,57 @@
+"use client"
+
+import { Highlight, type PrismTheme } from "prism-react-renderer"
+import { IconCopy } from "@tabler/icons-react"
+
+import { Button } from "@/components/ui/button"
+import { useClipboard } from "@/hooks/use-clipboard"
+import { cn } from "@/lib/utils"
+
+// Token colours come from the `.token.*` rules in globals.css so they follow the app theme.
+const themeFromCss: PrismTheme = { plain: {}, styles: [] }
+
+interface SqlCodeBlockProps {
+  code: string
+  placeholder?: string
+  showCopy?: boolean
+  className?: string
+}
+
+export function SqlCodeBlock({ code, placeholder, showCopy = true, className }: SqlCodeBlockProps) {
+  const { copy } = useClipboard()
+
+  return (
+    <div className={cn("relative", className)}>
+      <Highlight code={code} language="sql" theme={themeFromCss}>
+        {({ tokens, getLineProps, getTokenProps }) => (
+          <pre className={cn("code-pane h-full overflow-auto whitespace-pre-wrap break-words", showCopy && "pr-28")}>
+            {code ? (
+              tokens.map((line, lineIndex) => (
+                <div key={lineIndex} {...getLineProps({ line })}>
+                  {line.map((token, tokenIndex) => (
+                    <span key={tokenIndex} {...getTokenProps({ token })} />
+                  ))}
+                </div>
+              ))
+            ) : (
+              <span className="text-muted-foreground">{placeholder}</span>
+            )}
+          </pre>
+        )}
+      </Highlight>
+      {showCopy && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="absolute top-2 right-2"
+          disabled={!code}
+          onClick={() => copy(code)}
+          title="Copy to clipboard"
+        >
+          <IconCopy data-icon="inline-start" />
+          Copy
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,118 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { IconPlayerStop, IconSettings, IconSparkles } from "@tabler/icons-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/button"
+import { Field, FieldDescription, FieldLabel } from "@/components/ui/field"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
+import { Textarea } from "@/components/ui/textarea"
+import { useAI } from "@/hooks/use-ai"
+import { useClipboard } from "@/hooks/use-clipboard"
+import { buildSqlExplainPrompt, extractRewrittenQuery } from "@/lib/sql-explain"
+import { getProviderDisplayName } from "@/lib/tool-ui-config"
+import { cn } from "@/lib/utils"
+import { SqlCodeBlock } from "./sql-code-block"
+
+interface SqlExplainSheetProps {
+  sql: string
+  dialectLabel: string
+}
+
+export function SqlExplainSheet({ sql, dialectLabel }: SqlExplainSheetProps) {
+  const [schema, setSchema] = useState("")
+  const [answer, setAnswer] = useState("")
+  const stopRequested = useRef(false)
+  const { streamGenerate, isLoading, activeProvider, isConfigured } = useAI()
+  const { copy } = useClipboard()
+
+  const rewrittenQuery = extractRewrittenQuery(answer)
+
+  const explain = async () => {
+    stopRequested.current = false
+    setAnswer("")
+
+    try {
+      const prompt = buildSqlExplainPrompt({ sql, schema, dialect: dialectLabel })
+      for await (const chunk of streamGenerate({ prompt, temperature: 0.2 })) {
+        // Leaving the loop closes the stream, which ends the request.
+        if (stopRequested.current) break
+        setAnswer((current) => current + chunk)
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to explain the query")
+    }
+  }
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button size="sm" variant="outline" disabled={!sql}>
+          <IconSparkles data-icon="inline-start" />
+          Explain / Optimize
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full gap-0 sm:max-w-2xl">
+        <SheetHeader>
+          <SheetTitle>Explain / Optimize</SheetTitle>
+          <SheetDescription>
+            {activeProvider
+              ? `Sends the filled query to ${getProviderDisplayName(activeProvider)} for an explanation, index suggestions and a rewrite.`
+              : "Sends the filled query to your AI provider for an explanation, index suggestions and a rewrite."}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex flex-1 flex-col gap-4 overflow-y-auto px-4 pb-4">
+          <Field>
+            <FieldLabel htmlFor="sql-explain-schema">Schema DDL (optional)</FieldLabel>
+            <Textarea
+              id="sql-explain-schema"
+              value={schema}
+              onChange={(event) => setSchema(event.target.value)}
+              placeholder="CREATE TABLE ... / CREATE INDEX ... for the tables in the query"
+              className="code-pane-editable min-h-[120px] resize-y"
+            />
+            {!isConfigured && (
+              <FieldDescription>
+                <IconSettings data-icon="inline-start" />
+                Configure AI providers in <a href="/settings" className="underline underline-offset-4">Settings</a>.
+              </FieldDescription>
+            )}
+          </Field>
+
+          <div className="flex gap-2">
+            <Button onClick={explain} disabled={isLoading || !sql || !isConfigured}>
+              <IconSparkles data-icon="inline-start" className={cn(isLoading && "animate-spin")} />
+              {isLoading ? "Explaining..." : "Explain query"}
+            </Button>
+            {isLoading && (
+              <Button variant="outline" onClick={() => (stopRequested.current = true)}>
+                <IconPlayerStop data-icon="inline-start" />
+                Stop
+              </Button>
+            )}
+            <Button variant="outline" className="ml-auto" disabled={!answer} onClick={() => copy(answer)}>
+              Copy answer
+            </Button>
+          </div>
+
+          <div className="code-pane min-h-[240px] flex-1 overflow-y-auto">
+            {answer ? (
+              <pre className="whitespace-pre-wrap">{answer}</pre>
+            ) : (
+              <p className="text-muted-foreground">The explanation will stream in here.</p>
+            )}
+          </div>
+
+          {rewrittenQuery && !isLoading && (
+            <Field>
+              <FieldLabel>Rewritten query</FieldLabel>
+              <SqlCodeBlock code={rewrittenQuery} />
+            </Field>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,143 @@
+"use client"
+
+import { useState } from "react"
+import { IconDownload, IconHistory, IconPin, IconPinFilled, IconTrash } from "@tabler/icons-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
+import { downloadJsonFile } from "@/lib/file-operations"
+import { getSqlDialect } from "@/lib/sql-dialects"
+import { searchSqlHistory, summarizeSqlHistoryEntry, type SqlHistoryEntry } from "@/lib/sql-history"
+
+interface SqlHistorySheetProps {
+  entries: SqlHistoryEntry[]
+  onEntriesChange: (entries: SqlHistoryEntry[]) => void
+  onOpen: (entry: SqlHistoryEntry) => void
+}
+
+export function SqlHistorySheet({ entries, onEntriesChange, onOpen }: SqlHistorySheetProps) {
+  const [open, setOpen] = useState(false)
+  const [search, setSearch] = useState("")
+
+  const visibleEntries = searchSqlHistory(entries, search)
+  const pinnedCount = entries.filter((entry) => entry.pinned).length
+
+  const updateEntry = (id: string, changes: Partial<SqlHistoryEntry>) => {
+    onEntriesChange(entries.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry)))
+  }
+
+  const clearHistory = () => {
+    const removed = entries.length - pinnedCount
+    onEntriesChange(entries.filter((entry) => entry.pinned))
+    toast.success(
+      pinnedCount > 0 ? `Cleared ${removed} entries; pinned queries were kept` : `Cleared ${removed} entries`
+    )
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline">
+          <IconHistory data-icon="inline-start" />
+          History
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full gap-0 sm:max-w-xl">
+        <SheetHeader>
+          <SheetTitle>Query history</SheetTitle>
+          <SheetDescription>Filled queries are kept in this browser only. Pin the ones you want to keep for good.</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex flex-col gap-3 px-4 pb-3">
+          <Input
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            placeholder="Search labels, SQL and parameters"
+            aria-label="Search history"
+          />
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={entries.length === 0}
+              onClick={() => downloadJsonFile(entries, "sql-history.json")}
+            >
+              <IconDownload data-icon="inline-start" />
+              Export
+            </Button>
+            <Button size="sm" variant="outline" disabled={entries.length === pinnedCount} onClick={clearHistory}>
+              <IconTrash data-icon="inline-start" />
+              Clear
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 pb-4">
+          {visibleEntries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {entries.length === 0 ? "Filled queries will show up here." : "No queries match the search."}
+            </p>
+          ) : (
+            <ul className="flex flex-col gap-3">
+              {visibleEntries.map((entry) => (
+                <li key={entry.id} className="flex flex-col gap-2 rounded-lg border p-3">
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={entry.label}
+                      onChange={(event) => updateEntry(entry.id, { label: event.target.value })}
+                      placeholder={summarizeSqlHistoryEntry(entry)}
+                      className="h-8 text-sm"
+                      aria-label="Label"
+                    />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="size-8 shrink-0"
+                      onClick={() => updateEntry(entry.id, { pinned: !entry.pinned })}
+                      aria-label={entry.pinned ? "Unpin" : "Pin"}
+                      aria-pressed={entry.pinned}
+                    >
+                      {entry.pinned ? <IconPinFilled /> : <IconPin />}
+                    </Button>
+                  </div>
+                  <pre className="line-clamp-3 whitespace-pre-wrap break-all font-mono text-xs text-muted-foreground">
+                    {entry.sql}
+                  </pre>
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <span>{new Date(entry.createdAt).toLocaleString()}</span>
+                    <Badge variant="outline">{getSqlDialect(entry.dialect).label}</Badge>
+                    {entry.bindings.length > 0 && <Badge variant="secondary">{entry.bindings.length} parameters</Badge>}
+                    <div className="ml-auto flex gap-1">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          onOpen(entry)
+                          setOpen(false)
+                        }}
+                      >
+                        Open
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="size-8"
+                        onClick={() => onEntriesChange(entries.filter((candidate) => candidate.id !== entry.id))}
+                        aria-label="Delete entry"
+                      >
+                        <IconTrash />
+                      </Button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,79 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Toggle } from "@/components/ui/toggle"
+import type { SqlBinding } from "@/lib/sql-log-parsers"
+import type { SqlParameter } from "@/lib/sql-placeholders"
+
+interface SqlParameterTableProps {
+  parameters: SqlParameter[]
+  bindings: SqlBinding[]
+  onChange: (position: number, binding: SqlBinding) => void
+}
+
+export function SqlParameterTable({ parameters, bindings, onChange }: SqlParameterTableProps) {
+  if (parameters.length === 0) {
+    return <p className="text-sm text-muted-foreground">The query has no placeholders.</p>
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-muted-foreground">
+          <th className="pb-2 font-medium">Placeholder</th>
+          <th className="pb-2 font-medium">Type</th>
+          <th className="pb-2 font-medium">Value</th>
+          <th className="pb-2" />
+        </tr>
+      </thead>
+      <tbody>
+        {parameters.map((parameter) => {
+          const binding = bindings[parameter.position] ?? { value: "", type: null }
+          const isNull = binding.value === null
+
+          return (
+            <tr key={parameter.key} className="align-middle">
+              <td className="py-1 pr-2 font-mono whitespace-nowrap">
+                {parameter.key}
+                {parameter.occurrences > 1 && (
+                  <span className="ml-1 text-xs text-muted-foreground">×{parameter.occurrences}</span>
+                )}
+              </td>
+              <td className="w-32 py-1 pr-2">
+                <Input
+                  value={binding.type ?? ""}
+                  onChange={(event) =>
+                    onChange(parameter.position, { ...binding, type: event.target.value.trim().toUpperCase() || null })
+                  }
+                  placeholder="untyped"
+                  className="h-8 font-mono text-xs"
+                  aria-label={`Type of ${parameter.key}`}
+                />
+              </td>
+              <td className="py-1 pr-2">
+                <Input
+                  value={binding.value ?? ""}
+                  onChange={(event) => onChange(parameter.position, { ...binding, value: event.target.value })}
+                  disabled={isNull}
+                  placeholder={isNull ? "NULL" : ""}
+                  className="h-8 font-mono text-xs"
+                  aria-label={`Value of ${parameter.key}`}
+                />
+              </td>
+              <td className="py-1">
+                <Toggle
+                  variant="outline"
+                  size="sm"
+                  pressed={isNull}
+                  onPressedChange={(pressed) => onChange(parameter.position, { ...binding, value: pressed ? null : "" })}
+                >
+                  NULL
+                </Toggle>
+              </td>
+            </tr>
+          )
+        })}
+      </tbody>
+    </table>
+  )
+}
@@ -0,0 +1,111 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { IconArrowBackUp } from "@tabler/icons-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import type { SqlBinding } from "@/lib/sql-log-parsers"
+import {
+  parameterizeQuery,
+  toJavaArguments,
+  toJsonArguments,
+  toSqlBindings,
+  type SqlParameterizeStyle,
+} from "@/lib/sql-parameterize"
+import { SqlCodeBlock } from "./sql-code-block"
+import { TextareaWithActions } from "./textarea-with-actions"
+
+interface SqlParameterizeViewProps {
+  onOpenInFill: (sql: string, bindings: SqlBinding[]) => void
+}
+
+export function SqlParameterizeView({ onOpenInFill }: SqlParameterizeViewProps) {
+  const [literalSql, setLiteralSql] = useState("")
+  const [style, setStyle] = useState<SqlParameterizeStyle>("positional")
+  const [argumentFormat, setArgumentFormat] = useState<"json" | "java">("json")
+
+  const { sql, parameters } = useMemo(() => parameterizeQuery(literalSql, style), [literalSql, style])
+  const argumentsText =
+    parameters.length === 0
+      ? ""
+      : argumentFormat === "json"
+        ? toJsonArguments(parameters, style)
+        : toJavaArguments(parameters, style)
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 flex-1 min-h-0">
+      <Card className="flex flex-col overflow-hidden">
+        <CardHeader>
+          <CardTitle className="text-base">Query with literals</CardTitle>
+        </CardHeader>
+        <CardContent className="flex-1 min-h-[400px]">
+          <TextareaWithActions
+            value={literalSql}
+            onChange={setLiteralSql}
+            showPaste={true}
+            placeholder="SELECT * FROM users WHERE email = 'ada@example.com' AND active = TRUE"
+          />
+        </CardContent>
+      </Card>
+
+      <div className="flex flex-col gap-4 min-h-0">
+        <Card className="flex-1 flex flex-col overflow-hidden">
+          <CardHeader className="flex flex-row items-center justify-between gap-2">
+            <CardTitle className="flex items-center gap-2 text-base">
+              Prepared statement
+              {parameters.length > 0 && <Badge variant="secondary">{parameters.length} parameters</Badge>}
+            </CardTitle>
+            <div className="flex gap-2">
+              <Select value={style} onValueChange={(value) => setStyle(value as SqlParameterizeStyle)}>
+                <SelectTrigger size="sm" className="w-36" aria-label="Placeholder style">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectGroup>
+                    <SelectItem value="positional">? positional</SelectItem>
+                    <SelectItem value="named">:name named</SelectItem>
+                  </SelectGroup>
+                </SelectContent>
+              </Select>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={parameters.length === 0}
+                onClick={() => onOpenInFill(sql, toSqlBindings(parameters))}
+              >
+                <IconArrowBackUp data-icon="inline-start" />
+                Open in fill mode
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="flex-1 min-h-0">
+            <SqlCodeBlock code={literalSql ? sql : ""} placeholder="The statement with placeholders will appear here..." className="h-full" />
+          </CardContent>
+        </Card>
+
+        <Card className="flex-1 flex flex-col overflow-hidden">
+          <CardHeader className="flex flex-row items-center justify-between gap-2">
+            <CardTitle className="text-base">Arguments</CardTitle>
+            <Tabs value={argumentFormat} onValueChange={(value) => setArgumentFormat(value as "json" | "java")}>
+              <TabsList>
+                <TabsTrigger value="json">JSON</TabsTrigger>
+                <TabsTrigger value="java">Java</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </CardHeader>
+          <CardContent className="flex-1 min-h-0">
+            <TextareaWithActions
+              value={argumentsText}
+              readOnly={true}
+              placeholder="Lifted values will be listed here in placeholder order..."
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -1,11 +1,34 @@
 "use client"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Toggle } from "@/components/ui/toggle"
 import { useClipboard } from "@/hooks/use-clipboard"
+import { segmentSqlLog } from "@/lib/sql-batch"
+import { getSqlDialect, requoteIdentifiers, SQL_DIALECTS, type SqlDialect } from "@/lib/sql-dialects"
+import { formatSql, rewriteHibernateAliases, type SqlKeywordCase } from "@/lib/sql-formatter"
+import { loadSqlHistory, recordSqlHistory, saveSqlHistory, SQL_HISTORY_KEY, type SqlHistoryEntry } from "@/lib/sql-history"
+import {
+  detectSqlLogFormat,
+  getSqlLogParser,
+  SQL_LOG_PARSERS,
+  type SqlBinding,
+  type SqlLogFormat,
+} from "@/lib/sql-log-parsers"
+import { listSqlParameters } from "@/lib/sql-placeholders"
 import { extractBindings, replaceQueryParams, splitSQLAndLog } from "@/lib/sql-utils"
 import { toast } from "sonner"
+import { SqlBatchView } from "./sql-batch-view"
+import { SqlCodeBlock } from "./sql-code-block"
+import { SqlExplainSheet } from "./sql-explain-sheet"
+import { SqlHistorySheet } from "./sql-history-sheet"
+import { SqlParameterizeView } from "./sql-parameterize-view"
+import { SqlSandboxSheet } from "./sql-sandbox-sheet"
+import { SqlParameterTable } from "./sql-parameter-table"
 import { TextareaWithActions } from "./textarea-with-actions"
 
 const defaultSqlQuery = `SELECT * FROM crash_scene_investigations WHERE accident_document_code = ? AND weather_condition_code = ? AND end_date_time >= ? AND end_date_time <= ?;`
@@ -13,9 +36,69 @@ const defaultSqlQuery = `SELECT * FROM crash_scene_investigations WHERE accident
 export function SqlPlaceholder() {
   const [sqlQuery, setSqlQuery] = useState(defaultSqlQuery)
   const [paramText, setParamText] = useState("")
-  const [filledQuery, setFilledQuery] = useState("")
+  const [bindings, setBindings] = useState<SqlBinding[] | null>(null)
+  const [logFormat, setLogFormat] = useState<SqlLogFormat | "auto">("auto")
+  const [dialect, setDialect] = useState<SqlDialect>("generic")
+  const [mode, setMode] = useState<"single" | "batch" | "parameterize">("single")
+  const [batchLog, setBatchLog] = useState("")
+  const [prettyPrint, setPrettyPrint] = useState(true)
+  const [keywordCase, setKeywordCase] = useState<SqlKeywordCase>("upper")
+  const [readableAliases, setReadableAliases] = useState(false)
+  const [history, setHistory] = useState<SqlHistoryEntry[]>([])
   const { paste } = useClipboard()
 
+  // Read storage after hydration so the server and first client render match; other tabs keep it in sync.
+  useEffect(() => {
+    const syncHistory = (event?: StorageEvent) => {
+      if (!event || event.key === SQL_HISTORY_KEY) setHistory(loadSqlHistory())
+    }
+
+    syncHistory()
+    window.addEventListener("storage", syncHistory)
+    return () => window.removeEventListener("storage", syncHistory)
+  }, [])
+
+  const detectedFormat = logFormat === "auto" ? detectSqlLogFormat(paramText) : logFormat
+
+  const renderQuery = (sql: string, values: SqlBinding[]) => {
+    const filled = replaceQueryParams(requoteIdentifiers(sql, dialect), values, getSqlDialect(dialect).rules)
+    if (prettyPrint) return formatSql(filled, { keywordCase, readableAliases })
+    return readableAliases ? rewriteHibernateAliases(filled) : filled
+  }
+
+  const parameters = listSqlParameters(sqlQuery)
+  const filledQuery = bindings ? renderQuery(sqlQuery, bindings) : ""
+
+  const updateHistory = (entries: SqlHistoryEntry[]) => {
+    setHistory(entries)
+    if (!saveSqlHistory(entries)) {
+      toast.error("Failed to save SQL history")
+    }
+  }
+
+  const fillAndRecord = (sql: string, log: string, values: SqlBinding[]) => {
+    setBindings(values)
+    updateHistory(
+      recordSqlHistory(history, { sql, params: log, bindings: values, filledSql: renderQuery(sql, values), dialect })
+    )
+  }
+
+  const openHistoryEntry = (entry: SqlHistoryEntry) => {
+    setSqlQuery(entry.sql)
+    setParamText(entry.params)
+    setBindings(entry.bindings)
+    setDialect(entry.dialect)
+    setMode("single")
+  }
+
+  const handleParameterChange = (position: number, binding: SqlBinding) => {
+    setBindings((current) => {
+      const next = [...(current ?? [])]
+      next[position] = binding
+      return next
+    })
+  }
+
   const fillQuery = () => {
     if (!sqlQuery || !paramText) {
       toast.error("Please provide both SQL query and parameters")
@@ -23,9 +106,12 @@ export function SqlPlaceholder() {
     }
 
     try {
-      const bindings = extractBindings(paramText)
-      const result = replaceQueryParams(sqlQuery, bindings)
-      setFilledQuery(result)
+      if (!detectedFormat) {
+        toast.error("No bind parameters found in the log")
+        return
+      }
+
+      fillAndRecord(sqlQuery, paramText, extractBindings(paramText, detectedFormat))
       toast.success("SQL query filled successfully!")
     } catch (error) {
       toast.error("Failed to fill SQL query")
@@ -37,20 +123,29 @@ export function SqlPlaceholder() {
     const clipboardText = await paste()
     if (!clipboardText) return
 
+    // A trace with several statements is replayed as a batch instead of being squeezed into one query.
+    if (segmentSqlLog(clipboardText).length > 1) {
+      setBatchLog(clipboardText)
+      setMode("batch")
+      toast.success("Multiple statements found; opened them in batch mode")
+      return
+    }
+
     try {
-      const { sqlQuery: sql, logHibernate } = splitSQLAndLog(clipboardText)
+      const { sqlQuery: sql, bindingLog, format } = splitSQLAndLog(
+        clipboardText,
+        logFormat === "auto" ? detectSqlLogFormat(clipboardText) : logFormat
+      )
 
       if (sql) {
         setSqlQuery(sql)
         toast.success("SQL query extracted from clipboard")
       }
 
-      if (logHibernate) {
-        setParamText(logHibernate)
-        const bindings = extractBindings(logHibernate)
-        const result = replaceQueryParams(sql || sqlQuery, bindings)
-        setFilledQuery(result)
-        toast.success("Parameters extracted and SQL filled!")
+      if (bindingLog && format) {
+        setParamText(bindingLog)
+        fillAndRecord(sql, bindingLog, extractBindings(bindingLog, format))
+        toast.success(`${getSqlLogParser(format).label} parameters extracted and SQL filled!`)
       } else if (sql) {
         // If only SQL was pasted, just set the query
         setSqlQuery(sql)
@@ -65,64 +160,175 @@ export function SqlPlaceholder() {
     <div className="flex flex-col h-full max-h-screen gap-4">
       {/* Action Buttons */}
       <div className="flex flex-wrap gap-2">
-        <Button variant="default" onClick={handlePasteFromClipboard}>
-          Paste then fill SQL
-        </Button>
-        <Button variant="outline" onClick={fillQuery}>
-          Fill SQL Query
-        </Button>
+        <Tabs value={mode} onValueChange={(value) => setMode(value as "single" | "batch" | "parameterize")}>
+          <TabsList>
+            <TabsTrigger value="single">Single statement</TabsTrigger>
+            <TabsTrigger value="batch">Batch</TabsTrigger>
+            <TabsTrigger value="parameterize">Parameterize</TabsTrigger>
+          </TabsList>
+        </Tabs>
+        {mode !== "parameterize" && (
+          <Button variant="default" onClick={handlePasteFromClipboard}>
+            Paste then fill SQL
+          </Button>
+        )}
+        {mode === "single" && (
+          <Button variant="outline" onClick={fillQuery}>
+            Fill SQL Query
+          </Button>
+        )}
+        <SqlHistorySheet entries={history} onEntriesChange={updateHistory} onOpen={openHistoryEntry} />
+        <Select value={dialect} onValueChange={(value) => setDialect(value as SqlDialect)}>
+          <SelectTrigger className="w-48" aria-label="SQL dialect">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              {SQL_DIALECTS.map((definition) => (
+                <SelectItem key={definition.value} value={definition.value}>
+                  {definition.label}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+        <Toggle variant="outline" pressed={prettyPrint} onPressedChange={setPrettyPrint}>
+          Format
+        </Toggle>
+        <Select
+          value={keywordCase}
+          onValueChange={(value) => setKeywordCase(value as SqlKeywordCase)}
+          disabled={!prettyPrint}
+        >
+          <SelectTrigger className="w-36" aria-label="Keyword case">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              <SelectItem value="upper">UPPER keywords</SelectItem>
+              <SelectItem value="lower">lower keywords</SelectItem>
+              <SelectItem value="preserve">Keep keywords</SelectItem>
+            </SelectGroup>
+          </SelectContent>
+        </Select>
+        <Toggle
+          variant="outline"
+          pressed={readableAliases}
+          onPressedChange={setReadableAliases}
+          title="Rename Hibernate aliases such as u1_0 after their tables"
+        >
+          Readable aliases
+        </Toggle>
       </div>
 
+      {mode === "batch" && (
+        <SqlBatchView
+          log={batchLog}
+          onLogChange={setBatchLog}
+          render={(statement) => renderQuery(statement.sql, statement.bindings)}
+        />
+      )}
+
+      {mode === "parameterize" && (
+        <SqlParameterizeView
+          onOpenInFill={(sql, values) => {
+            setSqlQuery(sql)
+            setBindings(values)
+            setMode("single")
+          }}
+        />
+      )}
+
       {/* 2-Column Grid Layout */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 flex-1 min-h-0">
-        {/* Left Column - Input SQL (2/3) + Params SQL (1/3) */}
-        <div className="flex flex-col gap-4 min-h-0">
-          {/* Input SQL - 2/3 height */}
-          <Card className="flex-[2] flex flex-col overflow-hidden">
-            <CardHeader>
-              <CardTitle className="text-base">Input SQL</CardTitle>
-            </CardHeader>
-            <CardContent className="flex-1 min-h-0">
-              <TextareaWithActions
-                value={sqlQuery}
-                onChange={setSqlQuery}
-                showPaste={true}
-                placeholder="Paste SQL script with ? placeholders"
-              />
-            </CardContent>
-          </Card>
-
-          {/* Params SQL - 1/3 height */}
-          <Card className="flex-1 flex flex-col overflow-hidden">
-            <CardHeader>
-              <CardTitle className="text-base">Params SQL</CardTitle>
-            </CardHeader>
-            <CardContent className="flex-1 min-h-0">
-              <TextareaWithActions
-                value={paramText}
-                onChange={setParamText}
-                showPaste={true}
-                placeholder="Paste parameter list or Hibernate logs"
-              />
-            </CardContent>
-          </Card>
-        </div>
+      {mode === "single" && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 flex-1 min-h-0">
+          {/* Left Column - Input SQL (2/3) + Params SQL (1/3) */}
+          <div className="flex flex-col gap-4 min-h-0">
+            {/* Input SQL - 2/3 height */}
+            <Card className="flex-[2] flex flex-col overflow-hidden">
+              <CardHeader>
+                <CardTitle className="text-base">Input SQL</CardTitle>
+              </CardHeader>
+              <CardContent className="flex-1 min-h-0">
+                <TextareaWithActions
+                  value={sqlQuery}
+                  onChange={setSqlQuery}
+                  showPaste={true}
+                  placeholder="Paste SQL with ?, :name, $1, @p1 or #{param} placeholders"
+                />
+              </CardContent>
+            </Card>
 
-        {/* Right Column - Result (100% height) */}
-        <Card className="flex flex-col overflow-hidden">
-          <CardHeader>
-            <CardTitle className="text-base">Result</CardTitle>
-          </CardHeader>
-          <CardContent className="flex-1 min-h-0">
-            <TextareaWithActions
-              value={filledQuery}
-              readOnly={true}
-              placeholder="Filled SQL query will appear here..."
-              className="max-h-full overflow-y-auto"
-            />
-          </CardContent>
-        </Card>
-      </div>
+            {/* Params SQL - 1/3 height */}
+            <Card className="flex-1 flex flex-col overflow-hidden">
+              <CardHeader className="flex flex-row items-center justify-between gap-2">
+                <CardTitle className="flex items-center gap-2 text-base">
+                  Params SQL
+                  {logFormat === "auto" && detectedFormat && (
+                    <Badge variant="outline">{getSqlLogParser(detectedFormat).label}</Badge>
+                  )}
+                </CardTitle>
+                <Select value={logFormat} onValueChange={(value) => setLogFormat(value as SqlLogFormat | "auto")}>
+                  <SelectTrigger size="sm" className="w-44" aria-label="Log format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectGroup>
+                      <SelectItem value="auto">Auto detect</SelectItem>
+                      {SQL_LOG_PARSERS.map((parser) => (
+                        <SelectItem key={parser.format} value={parser.format}>
+                          {parser.label}
+                        </SelectItem>
+                      ))}
+                    </SelectGroup>
+                  </SelectContent>
+                </Select>
+              </CardHeader>
+              <CardContent className="flex-1 min-h-0">
+                <TextareaWithActions
+                  value={paramText}
+                  onChange={setParamText}
+                  showPaste={true}
+                  placeholder="Paste Hibernate, MyBatis, jOOQ, JdbcTemplate or p6spy logs"
+                />
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Right Column - Parameters + Result */}
+          <div className="flex flex-col gap-4 min-h-0">
+            <Card className="flex-1 flex flex-col overflow-hidden">
+              <CardHeader>
+                <CardTitle className="text-base">Parameters</CardTitle>
+              </CardHeader>
+              <CardContent className="flex-1 min-h-0 overflow-y-auto">
+                <SqlParameterTable
+                  parameters={parameters}
+                  bindings={bindings ?? []}
+                  onChange={handleParameterChange}
+                />
+              </CardContent>
+            </Card>
+
+            <Card className="flex-[2] flex flex-col overflow-hidden">
+              <CardHeader className="flex flex-row items-center justify-between gap-2">
+                <CardTitle className="text-base">Result</CardTitle>
+                <div className="flex gap-2">
+                  <SqlSandboxSheet sql={filledQuery} dialect={dialect} />
+                  <SqlExplainSheet sql={filledQuery} dialectLabel={getSqlDialect(dialect).label} />
+                </div>
+              </CardHeader>
+              <CardContent className="flex-1 min-h-0">
+                <SqlCodeBlock
+                  code={filledQuery}
+                  placeholder="Filled SQL query will appear here..."
+                  className="h-full"
+                />
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,284 @@
+"use client"
+
+import { useEffect, useRef, useState, type ChangeEvent } from "react"
+import { IconDatabase, IconPlayerPlay, IconRefresh, IconUpload, IconX } from "@tabler/icons-react"
+import { toast } from "sonner"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Field, FieldDescription, FieldLabel } from "@/components/ui/field"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
+import { Textarea } from "@/components/ui/textarea"
+import type { SqlDialect } from "@/lib/sql-dialects"
+import {
+  createSqlSandbox,
+  csvToSqlStatements,
+  formatSandboxValue,
+  loadSandboxSetup,
+  saveSandboxSetup,
+  SQL_SANDBOX_SETUP_KEY,
+  tableNameFromFileName,
+  type CsvImport,
+  type SqlSandbox,
+  type SqlSandboxResult,
+} from "@/lib/sql-sandbox"
+
+const MAX_VISIBLE_ROWS = 500
+
+interface PreparedSandbox {
+  sandbox: SqlSandbox
+  setup: string
+  imports: CsvImport[]
+}
+
+interface PendingSandbox {
+  setup: string
+  imports: CsvImport[]
+  /** Resolves to null when the sheet unmounted or a newer prepare replaced this one. */
+  promise: Promise<SqlSandbox | null>
+}
+
+interface SqlSandboxSheetProps {
+  sql: string
+  dialect: SqlDialect
+}
+
+async function buildSandbox(setup: string, imports: CsvImport[]): Promise<SqlSandbox> {
+  const sandbox = await createSqlSandbox()
+  try {
+    if (setup.trim()) await sandbox.run(setup)
+    for (const imported of imports) await sandbox.run(imported.sql)
+  } catch (setupError) {
+    await sandbox.close()
+    throw new Error(`Setup failed: ${setupError instanceof Error ? setupError.message : "Unknown error"}`)
+  }
+  return sandbox
+}
+
+export function SqlSandboxSheet({ sql, dialect }: SqlSandboxSheetProps) {
+  const [setup, setSetup] = useState("")
+  const [imports, setImports] = useState<CsvImport[]>([])
+  const [results, setResults] = useState<SqlSandboxResult[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const prepared = useRef<PreparedSandbox | null>(null)
+  const pending = useRef<PendingSandbox | null>(null)
+  const isDisposed = useRef(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Read storage after hydration so the server and first client render match; other tabs keep it in sync.
+  useEffect(() => {
+    const syncSetup = (event?: StorageEvent) => {
+      if (!event || event.key === SQL_SANDBOX_SETUP_KEY) setSetup(loadSandboxSetup())
+    }
+
+    syncSetup()
+    window.addEventListener("storage", syncSetup)
+    return () => window.removeEventListener("storage", syncSetup)
+  }, [])
+
+  // Free the in-memory database when the sheet's owner unmounts.
+  useEffect(() => {
+    isDisposed.current = false
+    return () => {
+      isDisposed.current = true
+      pending.current = null
+      void prepared.current?.sandbox.close()
+      prepared.current = null
+    }
+  }, [])
+
+  const handleSetupChange = (value: string) => {
+    setSetup(value)
+    saveSandboxSetup(value)
+  }
+
+  // The database is rebuilt from the setup script and imported CSVs whenever either changes.
+  // Runs started while it is being built share that build; a build that finishes after the
+  // sheet unmounted or after a newer build started closes its database instead of keeping it.
+  const prepareSandbox = (): Promise<SqlSandbox | null> => {
+    const current = prepared.current
+    if (current && current.setup === setup && current.imports === imports) return Promise.resolve(current.sandbox)
+
+    const inFlight = pending.current
+    if (inFlight && inFlight.setup === setup && inFlight.imports === imports) return inFlight.promise
+
+    prepared.current = null
+
+    const build = async (): Promise<SqlSandbox | null> => {
+      try {
+        await current?.sandbox.close()
+        const sandbox = await buildSandbox(setup, imports)
+        if (isDisposed.current || pending.current !== entry) {
+          await sandbox.close()
+          return null
+        }
+        prepared.current = { sandbox, setup, imports }
+        return sandbox
+      } finally {
+        if (pending.current === entry) pending.current = null
+      }
+    }
+
+    const entry: PendingSandbox = { setup, imports, promise: build() }
+    pending.current = entry
+    return entry.promise
+  }
+
+  const runQuery = async () => {
+    setIsRunning(true)
+    setError(null)
+
+    try {
+      const sandbox = await prepareSandbox()
+      if (sandbox) setResults(await sandbox.run(sql))
+    } catch (runError) {
+      setResults(null)
+      setError(runError instanceof Error ? runError.message : "Query failed")
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const resetDatabase = async () => {
+    const current = prepared.current
+    prepared.current = null
+    pending.current = null
+    await current?.sandbox.close()
+    setResults(null)
+    setError(null)
+    toast.success("Sandbox database reset")
+  }
+
+  const handleImportCsv = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    try {
+      const imported = csvToSqlStatements(tableNameFromFileName(file.name), await file.text())
+      setImports((current) => [...current.filter((entry) => entry.table !== imported.table), imported])
+      toast.success(`Imported ${imported.rowCount} rows into ${imported.table}`)
+    } catch (importError) {
+      toast.error(importError instanceof Error ? importError.message : "Failed to import CSV")
+    }
+  }
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button size="sm" variant="outline" disabled={!sql}>
+          <IconDatabase data-icon="inline-start" />
+          Sandbox
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full gap-0 sm:max-w-3xl">
+        <SheetHeader>
+          <SheetTitle>Query sandbox</SheetTitle>
+          <SheetDescription>
+            Runs the filled query in an in-memory PostgreSQL (PGlite) inside your browser. Nothing is sent to a server.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex flex-1 flex-col gap-4 overflow-y-auto px-4 pb-4">
+          <Field>
+            <FieldLabel htmlFor="sql-sandbox-setup">Schema and seed data</FieldLabel>
+            <Textarea
+              id="sql-sandbox-setup"
+              value={setup}
+              onChange={(event) => handleSetupChange(event.target.value)}
+              placeholder="CREATE TABLE ...; INSERT INTO ... VALUES (...);"
+              className="code-pane-editable min-h-[160px] resize-y"
+            />
+            {dialect !== "postgresql" && dialect !== "generic" && (
+              <FieldDescription>
+                The sandbox speaks PostgreSQL; switch the dialect to PostgreSQL if literals fail to parse.
+              </FieldDescription>
+            )}
+          </Field>
+
+          {imports.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {imports.map((imported) => (
+                <Badge key={imported.table} variant="secondary" className="gap-1">
+                  {imported.table} ({imported.rowCount} rows)
+                  <button
+                    type="button"
+                    className="cursor-pointer"
+                    onClick={() => setImports((current) => current.filter((entry) => entry !== imported))}
+                    aria-label={`Remove ${imported.table}`}
+                  >
+                    <IconX className="size-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={runQuery} disabled={isRunning || !sql}>
+              <IconPlayerPlay data-icon="inline-start" />
+              {isRunning ? "Running..." : "Run query"}
+            </Button>
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <IconUpload data-icon="inline-start" />
+              Import CSV
+            </Button>
+            <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImportCsv} />
+            <Button variant="outline" className="ml-auto" onClick={resetDatabase} disabled={isRunning}>
+              <IconRefresh data-icon="inline-start" />
+              Reset
+            </Button>
+          </div>
+
+          {error && (
+            <div className="rounded-lg border border-destructive/20 bg-destructive/5 p-4 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          {results?.map((result, index) => (
+            <div key={index} className="flex flex-col gap-2">
+              <p className="text-xs text-muted-foreground">
+                {result.command ?? "Statement"}
+                {result.rowCount !== null && ` · ${result.rowCount} ${result.rowCount === 1 ? "row" : "rows"}`}
+              </p>
+              {result.columns.length > 0 && (
+                <div className="code-pane max-h-[400px] overflow-auto !p-0">
+                  <table className="w-full text-xs">
+                    <thead className="sticky top-0 bg-muted">
+                      <tr>
+                        {result.columns.map((column, columnIndex) => (
+                          <th key={columnIndex} className="border-b px-3 py-2 text-left font-medium whitespace-nowrap">
+                            {column}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.rows.slice(0, MAX_VISIBLE_ROWS).map((row, rowIndex) => (
+                        <tr key={rowIndex} className="border-b last:border-b-0">
+                          {row.map((value, columnIndex) => (
+                            <td
+                              key={columnIndex}
+                              className={value === null ? "px-3 py-1.5 text-muted-foreground" : "px-3 py-1.5"}
+                            >
+                              {formatSandboxValue(value)}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              {result.rows.length > MAX_VISIBLE_ROWS && (
+                <p className="text-xs text-muted-foreground">Showing first {MAX_VISIBLE_ROWS} rows</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
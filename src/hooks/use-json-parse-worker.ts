@@ -0,0 +1,81 @@
+"use client"
+
+import { useCallback, useEffect, useRef } from "react"
+import { parseLenientJson, type LenientParseResult } from "@/lib/json-lenient"
+import type { JsonParseRequest, JsonParseResponse } from "@/lib/json-parse.worker"
+
+interface PendingParse {
+  text: string
+  resolve: (result: LenientParseResult) => void
+}
+
+/**
+ * Parses JSON input off the main thread so multi-megabyte payloads don't block typing.
+ * Falls back to parsing inline where Web Workers are unavailable.
+ */
+export function useJsonParseWorker() {
+  const workerRef = useRef<Worker | null>(null)
+  const pendingRef = useRef(new Map<number, PendingParse>())
+  const nextIdRef = useRef(0)
+  const workerFailedRef = useRef(false)
+
+  useEffect(() => {
+    const pending = pendingRef.current
+
+    return () => {
+      workerRef.current?.terminate()
+      workerRef.current = null
+      pending.clear()
+    }
+  }, [])
+
+  const getWorker = useCallback(() => {
+    if (workerRef.current || workerFailedRef.current || typeof Worker === "undefined") {
+      return workerRef.current
+    }
+
+    try {
+      const worker = new Worker(new URL("../lib/json-parse.worker.ts", import.meta.url), { type: "module" })
+      worker.addEventListener("message", (event: MessageEvent<JsonParseResponse>) => {
+        const pending = pendingRef.current.get(event.data.id)
+        pendingRef.current.delete(event.data.id)
+        pending?.resolve(event.data.result)
+      })
+      worker.addEventListener("error", (event) => {
+        console.error("JSON parse worker failed, parsing inline instead", event)
+        worker.terminate()
+        workerRef.current = null
+        workerFailedRef.current = true
+        for (const { text, resolve } of pendingRef.current.values()) {
+          resolve(parseLenientJson(text))
+        }
+        pendingRef.current.clear()
+      })
+      workerRef.current = worker
+    } catch (error) {
+      console.error("Failed to start JSON parse worker", error)
+      workerFailedRef.current = true
+    }
+
+    return workerRef.current
+  }, [])
+
+  const parse = useCallback(
+    (text: string): Promise<LenientParseResult> => {
+      const worker = getWorker()
+      if (!worker) {
+        return Promise.resolve(parseLenientJson(text))
+      }
+
+      const id = nextIdRef.current++
+      return new Promise((resolve) => {
+        pendingRef.current.set(id, { text, resolve })
+        const request: JsonParseRequest = { id, text }
+        worker.postMessage(request)
+      })
+    },
+    [getWorker]
+  )
+
+  return { parse }
+}
@@ -0,0 +1,47 @@
+"use client"
+
+import { useCallback, useRef, useState } from "react"
+import { createUndoHistory, recordUndoHistory, redoHistory, undoHistory } from "@/lib/undo-history"
+
+const TYPING_MERGE_WINDOW_MS = 1000
+
+/**
+ * State with a bounded undo/redo stack. Calls to `set` with `{ typing: true }` that arrive in
+ * quick succession are merged into a single step.
+ */
+export function useUndoHistory<T>(initialValue: T) {
+  const [history, setHistory] = useState(() => createUndoHistory(initialValue))
+  const lastTypingAtRef = useRef(0)
+
+  const set = useCallback((value: T, { typing = false }: { typing?: boolean } = {}) => {
+    const now = Date.now()
+    const merge = typing && now - lastTypingAtRef.current < TYPING_MERGE_WINDOW_MS
+    lastTypingAtRef.current = typing ? now : 0
+    setHistory((current) => recordUndoHistory(current, value, { merge }))
+  }, [])
+
+  /** Steps back one edit and returns the restored value. */
+  const undo = useCallback(() => {
+    const next = undoHistory(history)
+    lastTypingAtRef.current = 0
+    setHistory(next)
+    return next.present
+  }, [history])
+
+  /** Steps forward one edit and returns the restored value. */
+  const redo = useCallback(() => {
+    const next = redoHistory(history)
+    lastTypingAtRef.current = 0
+    setHistory(next)
+    return next.present
+  }, [history])
+
+  return {
+    value: history.present,
+    set,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  }
+}
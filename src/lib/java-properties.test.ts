@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test"
+import { formatJavaComment, formatJavaProperty, parseJavaProperties } from "@/lib/java-properties"
+
+function entries(input: string) {
+  return parseJavaProperties(input)
+    .filter((line) => line.kind === "entry")
+    .map((line) => [line.key, line.value])
+}
+
+describe("java-properties", () => {
+  test("accepts every separator form", () => {
+    expect(entries("a=1\nb:2\nc 3\nd = 4\ne\t:\t5\nf   =6\ng\nh=")).toEqual([
+      ["a", "1"],
+      ["b", "2"],
+      ["c", "3"],
+      ["d", "4"],
+      ["e", "5"],
+      ["f", "6"],
+      ["g", ""],
+      ["h", ""],
+    ])
+  })
+
+  test("joins continuation lines and drops their indentation", () => {
+    expect(entries("fruits = apple, \\\n    banana, \\\n\tpear\nnext=1")).toEqual([
+      ["fruits", "apple, banana, pear"],
+      ["next", "1"],
+    ])
+    expect(entries("even=ends with backslash\\\\\nodd=1")).toEqual([
+      ["even", "ends with backslash\\"],
+      ["odd", "1"],
+    ])
+  })
+
+  test("unescapes keys and values", () => {
+    expect(entries("key\\=with\\:sep\\ space = value\nunicode=caf\\u00e9 \\u4f60\\u597d\ntabs=a\\tb\\nc\\d")).toEqual([
+      ["key=with:sep space", "value"],
+      ["unicode", "café 你好"],
+      ["tabs", "a\tb\ncd"],
+    ])
+  })
+
+  test("keeps comments and blank lines, including indented and \\uXXXX ones", () => {
+    expect(parseJavaProperties("# one\n  ! two \\u00e9\n\na=1\r\n#not \\\ncontinued=2")).toEqual([
+      { kind: "comment", text: "# one", line: 1 },
+      { kind: "comment", text: "! two é", line: 2 },
+      { kind: "blank", line: 3 },
+      { kind: "entry", key: "a", value: "1", line: 4 },
+      { kind: "comment", text: "#not \\", line: 5 },
+      { kind: "entry", key: "continued", value: "2", line: 6 },
+    ])
+  })
+
+  test("rejects malformed unicode escapes", () => {
+    expect(() => parseJavaProperties("a=1\nb=\\u12g4")).toThrow("Malformed \\uXXXX escape on line 2")
+  })
+
+  test("writes lines that parse back to the same key and value", () => {
+    const cases: Array<[string, string]> = [
+      ["spring.datasource.url", "jdbc:mysql://db:3306/app?a=b"],
+      ["key with=sep:chars", "  leading spaces"],
+      ["#hash", "!bang"],
+      ["message", "Grüß Gott\nzweite Zeile\t😀"],
+      ["path", "C:\\temp\\"],
+    ]
+
+    for (const [key, value] of cases) {
+      for (const escapeUnicode of [true, false]) {
+        expect(entries(formatJavaProperty(key, value, { escapeUnicode }))).toEqual([[key, value]])
+      }
+    }
+
+    expect(formatJavaProperty("spring.datasource.url", "jdbc:mysql://db")).toBe("spring.datasource.url=jdbc:mysql://db")
+    expect(formatJavaProperty("greeting", "Grüß")).toBe("greeting=Gr\\u00FC\\u00DF")
+    expect(formatJavaProperty("greeting", "Grüß", { escapeUnicode: false })).toBe("greeting=Grüß")
+  })
+
+  test("escapes non-ASCII comments unless asked not to", () => {
+    expect(formatJavaComment("# Grüße")).toBe("# Gr\\u00FC\\u00DFe")
+    expect(formatJavaComment("# Grüße", { escapeUnicode: false })).toBe("# Grüße")
+  })
+})
@@ -0,0 +1,159 @@
+type JavaPropertiesLine =
+  | { kind: "entry"; key: string; value: string; line: number }
+  | { kind: "comment"; text: string; line: number }
+  | { kind: "blank"; line: number }
+
+interface JavaPropertiesWriteOptions {
+  /**
+   * Write characters outside printable ASCII as `\uXXXX`, like `Properties.store(OutputStream)`.
+   * Files written this way read the same as ISO-8859-1 and as UTF-8. Defaults to true.
+   */
+  escapeUnicode?: boolean
+}
+
+const WHITESPACE = new Set([" ", "\t", "\f"])
+const LEADING_WHITESPACE = /^[ \t\f]+/
+
+function endsWithContinuation(line: string): boolean {
+  let backslashes = 0
+  for (let index = line.length - 1; index >= 0 && line[index] === "\\"; index--) backslashes++
+  return backslashes % 2 === 1
+}
+
+function unescapeText(text: string, line: number): string {
+  let result = ""
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]
+    if (char !== "\\") {
+      result += char
+      continue
+    }
+
+    const next = text[++index]
+    if (next === undefined) break
+
+    if (next === "u") {
+      const hex = text.slice(index + 1, index + 5)
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+        throw new Error(`Malformed \\uXXXX escape on line ${line}`)
+      }
+      result += String.fromCharCode(parseInt(hex, 16))
+      index += 4
+    } else {
+      result += next === "t" ? "\t" : next === "n" ? "\n" : next === "r" ? "\r" : next === "f" ? "\f" : next
+    }
+  }
+
+  return result
+}
+
+/** Comments aren't unescaped by Java, but `\uXXXX` is how non-ASCII text is stored in them. */
+function unescapeComment(text: string): string {
+  return text.replace(/\\u([0-9a-fA-F]{4})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+}
+
+/** Splits a logical line at the first unescaped `=`, `:` or whitespace, as `Properties.load` does. */
+function splitKeyValue(line: string): { key: string; value: string } {
+  let keyEnd = line.length
+  let valueStart = line.length
+  let hasSeparator = false
+
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index]
+    if (char === "\\") {
+      index++
+    } else if (char === "=" || char === ":") {
+      keyEnd = index
+      valueStart = index + 1
+      hasSeparator = true
+      break
+    } else if (WHITESPACE.has(char)) {
+      keyEnd = index
+      valueStart = index + 1
+      break
+    }
+  }
+
+  while (valueStart < line.length && WHITESPACE.has(line[valueStart])) valueStart++
+  if (!hasSeparator && (line[valueStart] === "=" || line[valueStart] === ":")) {
+    valueStart++
+    while (valueStart < line.length && WHITESPACE.has(line[valueStart])) valueStart++
+  }
+
+  return { key: line.slice(0, keyEnd), value: line.slice(valueStart) }
+}
+
+/**
+ * Parses `.properties` content following `java.util.Properties.load`: `#` and `!` comments,
+ * `=`, `:` or whitespace separators, backslash line continuations and escapes including
+ * `\uXXXX`. Comments and blank lines are returned too so converters can keep them.
+ */
+export function parseJavaProperties(input: string): JavaPropertiesLine[] {
+  const naturalLines = input.split(/\r\n|\r|\n/)
+  const lines: JavaPropertiesLine[] = []
+
+  for (let index = 0; index < naturalLines.length; index++) {
+    const line = index + 1
+    const text = naturalLines[index].replace(LEADING_WHITESPACE, "")
+
+    if (!text) {
+      lines.push({ kind: "blank", line })
+      continue
+    }
+
+    if (text[0] === "#" || text[0] === "!") {
+      lines.push({ kind: "comment", text: unescapeComment(text), line })
+      continue
+    }
+
+    let logical = text
+    while (endsWithContinuation(logical)) {
+      logical = logical.slice(0, -1)
+      if (++index >= naturalLines.length) break
+      logical += naturalLines[index].replace(LEADING_WHITESPACE, "")
+    }
+
+    const { key, value } = splitKeyValue(logical)
+    lines.push({ kind: "entry", key: unescapeText(key, line), value: unescapeText(value, line), line })
+  }
+
+  return lines
+}
+
+function escapeText(text: string, isKey: boolean, { escapeUnicode = true }: JavaPropertiesWriteOptions): string {
+  let result = ""
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]
+    const code = text.charCodeAt(index)
+
+    if (char === "\\") result += "\\\\"
+    else if (char === "\t") result += "\\t"
+    else if (char === "\n") result += "\\n"
+    else if (char === "\r") result += "\\r"
+    else if (char === "\f") result += "\\f"
+    else if (isKey && (char === "=" || char === ":" || char === " ")) result += `\\${char}`
+    else if (index === 0 && (isKey ? char === "#" || char === "!" : char === " ")) result += `\\${char}`
+    else if (code < 0x20 || (escapeUnicode && code > 0x7e)) result += `\\u${code.toString(16).toUpperCase().padStart(4, "0")}`
+    else result += char
+  }
+
+  return result
+}
+
+/**
+ * Formats one `key=value` line that `Properties.load` reads back unchanged. Only what the
+ * grammar requires is escaped, so `url=jdbc:mysql://host` stays readable.
+ */
+export function formatJavaProperty(key: string, value: string, options: JavaPropertiesWriteOptions = {}): string {
+  return `${escapeText(key, true, options)}=${escapeText(value, false, options)}`
+}
+
+/** Formats a comment line, escaping non-ASCII text the same way as values. */
+export function formatJavaComment(text: string, { escapeUnicode = true }: JavaPropertiesWriteOptions = {}): string {
+  if (!escapeUnicode) return text
+  return text.replace(/[^\x00-\x7e]/g, (char) => `\\u${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, "0")}`)
+}
+
+export type { JavaPropertiesLine, JavaPropertiesWriteOptions }
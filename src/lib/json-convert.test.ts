@@ -0,0 +1,97 @@
+import { describe, expect, test } from "bun:test"
+import { convertJsonTo, convertToJson, type ConversionFormat } from "@/lib/json-convert"
+
+const config = {
+  service: { name: "orders", port: 8080, debug: false, ratio: 0.75 },
+  hosts: ["a.example.com", "b.example.com"],
+  databases: [
+    { name: "primary", replicas: 2 },
+    { name: "analytics", replicas: 1 },
+  ],
+}
+
+const records = [
+  { id: 1, name: "Ada, Countess", address: { city: "London", zip: "007" }, tags: ["math", "code"], active: true },
+  { id: 2, name: 'Grace "Amazing"', address: { city: "New York", zip: "10001" }, tags: ["navy", "cobol"], active: false },
+]
+
+describe("json-convert", () => {
+  const roundTrips: Array<[ConversionFormat, unknown]> = [
+    ["yaml", config],
+    ["toml", config],
+    ["xml", { config }],
+    ["csv", records],
+  ]
+
+  for (const [format, document] of roundTrips) {
+    test(`round-trips JSON through ${format}`, () => {
+      expect(convertToJson(convertJsonTo(document, format), format)).toEqual(document)
+    })
+  }
+
+  const pairs: Array<[ConversionFormat, ConversionFormat]> = [
+    ["yaml", "toml"],
+    ["toml", "yaml"],
+    ["yaml", "xml"],
+    ["xml", "yaml"],
+    ["toml", "xml"],
+    ["xml", "toml"],
+  ]
+
+  for (const [from, to] of pairs) {
+    test(`converts ${from} to ${to} through JSON`, () => {
+      const document = { config }
+      const source = convertJsonTo(document, from)
+      expect(convertToJson(convertJsonTo(convertToJson(source, from), to), to)).toEqual(document)
+    })
+  }
+
+  test("converts CSV to and from YAML and TOML", () => {
+    const fromCsv = convertToJson(convertJsonTo(records, "csv"), "csv")
+    const fromYaml = convertToJson(convertJsonTo(fromCsv, "yaml"), "yaml")
+    const fromToml = convertToJson(convertJsonTo({ people: fromYaml }, "toml"), "toml") as { people: unknown }
+
+    expect(convertToJson(convertJsonTo(fromToml.people, "csv"), "csv")).toEqual(records)
+  })
+
+  test("keeps quoted CSV cells as strings and reads empty cells as missing", () => {
+    expect(convertToJson('id,code,note\n1,"42",\n2,,"x"', "csv")).toEqual([
+      { id: 1, code: "42" },
+      { id: 2, note: "x" },
+    ])
+  })
+
+  test("keeps prototype-named CSV columns as plain keys", () => {
+    const rows = convertToJson("__proto__.polluted,constructor.prototype.x\nyes,1", "csv") as Array<Record<string, unknown>>
+
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+    expect(({} as Record<string, unknown>).x).toBeUndefined()
+    expect(Object.keys(rows[0])).toEqual(["__proto__", "constructor"])
+    expect(Object.getOwnPropertyDescriptor(rows[0], "__proto__")?.value).toEqual({ polluted: "yes" })
+    expect(rows[0].constructor).toEqual({ prototype: { x: 1 } })
+  })
+
+  test("flattens nested values into dotted CSV columns", () => {
+    expect(convertJsonTo(records, "csv").split("\n")).toEqual([
+      "id,name,address.city,address.zip,tags[0],tags[1],active",
+      '1,"Ada, Countess",London,007,math,code,true',
+      '2,"Grace ""Amazing""",New York,"10001",navy,cobol,false',
+    ])
+  })
+
+  test("honours XML attribute and text conventions", () => {
+    const conventions = { attributePrefix: "_", textKey: "value", rootName: "doc" }
+    const xml = convertJsonTo({ price: { _currency: "EUR", value: 9.5 } }, "xml", conventions)
+
+    expect(xml).toBe('<price currency="EUR">9.5</price>')
+    expect(convertToJson(xml, "xml", conventions)).toEqual({ price: { _currency: "EUR", value: 9.5 } })
+    expect(convertJsonTo([1, 2], "xml", conventions)).toBe("<doc>\n  <item>1</item>\n  <item>2</item>\n</doc>")
+  })
+
+  test("reports values a format cannot hold", () => {
+    expect(() => convertJsonTo([1], "toml")).toThrow("TOML requires an object at the top level")
+    expect(() => convertJsonTo({ a: { b: null } }, "toml")).toThrow('replace or remove "a.b"')
+    expect(() => convertToJson("a = ", "toml")).toThrow("Invalid TOML")
+    expect(() => convertToJson('a,b\n"1,2', "csv")).toThrow("unterminated quoted cell")
+  })
+})
@@ -0,0 +1,313 @@
+import { XMLBuilder, XMLParser } from "fast-xml-parser"
+import yaml from "js-yaml"
+import { parse as parseToml, stringify as stringifyToml } from "smol-toml"
+
+import { formatJsonValue, getJsonNodeType, joinJsonPath } from "@/lib/json-utils"
+
+type ConversionFormat = "yaml" | "toml" | "xml" | "csv"
+type DocumentFormat = "json" | ConversionFormat
+
+interface XmlConventions {
+  /** Prefix that marks an object key as an XML attribute, e.g. `@` for `{"@id": 1}`. */
+  attributePrefix: string
+  /** Key that holds an element's text when it also has attributes, e.g. `#text`. */
+  textKey: string
+  /** Element that wraps documents without a single top-level key. */
+  rootName: string
+}
+
+export const DOCUMENT_FORMATS: Array<{ value: DocumentFormat; label: string; extension: string }> = [
+  { value: "json", label: "JSON", extension: "json" },
+  { value: "yaml", label: "YAML", extension: "yaml" },
+  { value: "toml", label: "TOML", extension: "toml" },
+  { value: "xml", label: "XML", extension: "xml" },
+  { value: "csv", label: "CSV", extension: "csv" },
+]
+
+export const DEFAULT_XML_CONVENTIONS: XmlConventions = {
+  attributePrefix: "@",
+  textKey: "#text",
+  rootName: "root",
+}
+
+const ARRAY_ITEM_ELEMENT = "item"
+const CSV_PATH_PATTERN = /[^.[\]]+|\[(\d+)\]/g
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return getJsonNodeType(value) === "object"
+}
+
+/** Drops TOML date objects and other non-JSON values by round-tripping through JSON. */
+function toJsonValue(value: unknown): unknown {
+  return JSON.parse(JSON.stringify(value))
+}
+
+function findNullPath(value: unknown, path = ""): string | null {
+  if (value === null) return path
+  if (Array.isArray(value)) {
+    for (const [index, item] of value.entries()) {
+      const found = findNullPath(item, joinJsonPath(path, index))
+      if (found !== null) return found
+    }
+  } else if (isPlainObject(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      const found = findNullPath(child, joinJsonPath(path, key))
+      if (found !== null) return found
+    }
+  }
+  return null
+}
+
+function toToml(value: unknown): string {
+  if (!isPlainObject(value)) {
+    throw new Error("TOML requires an object at the top level")
+  }
+
+  const nullPath = findNullPath(value)
+  if (nullPath !== null) {
+    throw new Error(`TOML has no null value; replace or remove "${nullPath}" first`)
+  }
+
+  return stringifyToml(value)
+}
+
+function createXmlOptions(conventions: XmlConventions) {
+  return {
+    ignoreAttributes: false,
+    attributeNamePrefix: conventions.attributePrefix,
+    textNodeName: conventions.textKey,
+  }
+}
+
+function toXml(value: unknown, conventions: XmlConventions): string {
+  const keys = isPlainObject(value) ? Object.keys(value) : []
+  const hasSingleRoot = keys.length === 1 && !keys[0].startsWith(conventions.attributePrefix) && !Array.isArray((value as Record<string, unknown>)[keys[0]])
+  const document = hasSingleRoot
+    ? value
+    : { [conventions.rootName]: Array.isArray(value) ? { [ARRAY_ITEM_ELEMENT]: value } : value }
+
+  const builder = new XMLBuilder({ ...createXmlOptions(conventions), format: true, indentBy: "  " })
+  return builder.build(document).trimEnd()
+}
+
+function fromXml(text: string, conventions: XmlConventions): unknown {
+  const parser = new XMLParser({
+    ...createXmlOptions(conventions),
+    ignoreDeclaration: true,
+    parseTagValue: true,
+    parseAttributeValue: true,
+    // Keep identifiers such as "007" as strings.
+    numberParseOptions: { leadingZeros: false, hex: false },
+  })
+  const document = parser.parse(text, true)
+
+  if (!isPlainObject(document) || Object.keys(document).length === 0) {
+    throw new Error("XML input has no root element")
+  }
+  return document
+}
+
+function flattenRow(value: unknown, path: string, row: Map<string, unknown>) {
+  const isContainer = Array.isArray(value) || isPlainObject(value)
+  const entries = Array.isArray(value) ? [...value.entries()] : isPlainObject(value) ? Object.entries(value) : []
+
+  if (!isContainer || entries.length === 0) {
+    row.set(path || "value", value)
+    return
+  }
+  for (const [segment, child] of entries) {
+    flattenRow(child, joinJsonPath(path, segment), row)
+  }
+}
+
+interface CsvCell {
+  text: string
+  quoted: boolean
+}
+
+/** Reads an unquoted cell back into a JSON scalar; quoted cells always stay strings. */
+function parseCsvCell({ text, quoted }: CsvCell): unknown {
+  if (quoted) return text
+  if (text === "true" || text === "false") return text === "true"
+  if (text === "null") return null
+  if (/^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/.test(text)) return Number(text)
+  if (/^[[{]/.test(text)) {
+    try {
+      return JSON.parse(text)
+    } catch {
+      return text
+    }
+  }
+  return text
+}
+
+function formatCsvCell(value: unknown): string {
+  if (value === undefined) return ""
+  if (typeof value !== "string") return JSON.stringify(value)
+
+  // Strings that would read back as another type (e.g. "10001" or "true") are quoted to keep them strings.
+  const needsQuotes =
+    value === "" ||
+    /[",\r\n]/.test(value) ||
+    value !== value.trim() ||
+    parseCsvCell({ text: value, quoted: false }) !== value
+  return needsQuotes ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function toCsv(value: unknown): string {
+  const records = Array.isArray(value) ? value : [value]
+  const rows = records.map((record) => {
+    const row = new Map<string, unknown>()
+    flattenRow(record, "", row)
+    return row
+  })
+  const columns = [...new Set(rows.flatMap((row) => [...row.keys()]))]
+
+  return [
+    columns.map(formatCsvCell).join(","),
+    ...rows.map((row) => columns.map((column) => formatCsvCell(row.get(column))).join(",")),
+  ].join("\n")
+}
+
+/** Splits CSV text into rows of cells following RFC 4180 quoting. */
+export function parseCsvRows(text: string): CsvCell[][] {
+  const rows: CsvCell[][] = []
+  let row: CsvCell[] = []
+  let cell: CsvCell = { text: "", quoted: false }
+  let inQuotes = false
+
+  const endCell = () => {
+    row.push(cell)
+    cell = { text: "", quoted: false }
+  }
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]
+
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell.text += '"'
+        index++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell.text += char
+      }
+    } else if (char === '"' && cell.text === "") {
+      inQuotes = true
+      cell.quoted = true
+    } else if (char === ",") {
+      endCell()
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index++
+      endCell()
+      rows.push(row)
+      row = []
+    } else {
+      cell.text += char
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error("CSV input has an unterminated quoted cell")
+  }
+  if (cell.text !== "" || cell.quoted || row.length > 0) {
+    endCell()
+    rows.push(row)
+  }
+  return rows.filter((cells) => cells.some((entry) => entry.text !== "" || entry.quoted))
+}
+
+function setAtCsvPath(target: Record<string, unknown>, column: string, value: unknown) {
+  const segments = [...column.matchAll(CSV_PATH_PATTERN)].map((match) => (match[1] === undefined ? match[0] : Number(match[1])))
+  let current: Record<string | number, unknown> = target
+
+  // Own properties only, so headers like `__proto__.x` or `constructor.prototype.x` stay plain keys.
+  segments.forEach((segment, index) => {
+    if (index === segments.length - 1) {
+      defineOwnProperty(current, segment, value)
+      return
+    }
+    if (!Object.prototype.hasOwnProperty.call(current, segment)) {
+      defineOwnProperty(current, segment, typeof segments[index + 1] === "number" ? [] : {})
+    }
+    current = current[segment] as Record<string | number, unknown>
+  })
+}
+
+function defineOwnProperty(target: Record<string | number, unknown>, key: string | number, value: unknown) {
+  Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true })
+}
+
+function fromCsv(text: string): unknown {
+  const [header, ...rows] = parseCsvRows(text)
+  if (!header) {
+    throw new Error("CSV input is empty")
+  }
+
+  return rows.map((cells) => {
+    const record: Record<string, unknown> = {}
+    header.forEach((column, index) => {
+      const cell = cells[index]
+      if (cell && (cell.text !== "" || cell.quoted)) {
+        setAtCsvPath(record, column.text, parseCsvCell(cell))
+      }
+    })
+    return record
+  })
+}
+
+/** Serializes a parsed JSON document into another format. */
+export function convertJsonTo(
+  value: unknown,
+  format: ConversionFormat,
+  xmlConventions: XmlConventions = DEFAULT_XML_CONVENTIONS
+): string {
+  switch (format) {
+    case "yaml":
+      return yaml.dump(value, { lineWidth: -1, noRefs: true }).trimEnd()
+    case "toml":
+      return toToml(value).trimEnd()
+    case "xml":
+      return toXml(value, xmlConventions)
+    case "csv":
+      return toCsv(value)
+  }
+}
+
+/** Parses YAML, TOML, XML or CSV text into a JSON-compatible value. */
+export function convertToJson(
+  text: string,
+  format: ConversionFormat,
+  xmlConventions: XmlConventions = DEFAULT_XML_CONVENTIONS
+): unknown {
+  try {
+    switch (format) {
+      case "yaml":
+        return toJsonValue(yaml.load(text) ?? null)
+      case "toml":
+        return toJsonValue(parseToml(text))
+      case "xml":
+        return fromXml(text, xmlConventions)
+      case "csv":
+        return fromCsv(text)
+    }
+  } catch (error) {
+    throw new Error(`Invalid ${getDocumentFormatLabel(format)}: ${error instanceof Error ? error.message : "Unknown error"}`)
+  }
+}
+
+/** Serializes a document in any supported format, including pretty-printed JSON. */
+export function serializeDocument(
+  value: unknown,
+  format: DocumentFormat,
+  xmlConventions: XmlConventions = DEFAULT_XML_CONVENTIONS
+): string {
+  return format === "json" ? formatJsonValue(value) : convertJsonTo(value, format, xmlConventions)
+}
+
+export function getDocumentFormatLabel(format: DocumentFormat) {
+  return DOCUMENT_FORMATS.find((entry) => entry.value === format)?.label ?? format
+}
+
+export type { ConversionFormat, CsvCell, DocumentFormat, XmlConventions }
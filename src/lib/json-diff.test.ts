@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test"
+import { applyJsonPatch, diffJson } from "@/lib/json-diff"
+
+describe("json-diff", () => {
+  test("applies patches to own properties only", () => {
+    expect(() => applyJsonPatch({}, [{ op: "add", path: "/__proto__/polluted", value: 1 }])).toThrow(
+      "Path not found: /__proto__/polluted"
+    )
+    expect(() => applyJsonPatch({}, [{ op: "remove", path: "/toString" }])).toThrow("Path not found: /toString")
+
+    const patched = applyJsonPatch({}, [{ op: "add", path: "/__proto__", value: { x: 1 } }]) as Record<string, unknown>
+    expect(Object.getOwnPropertyDescriptor(patched, "__proto__")?.value).toEqual({ x: 1 })
+    expect(Object.getPrototypeOf(patched)).toBe(Object.prototype)
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+  })
+
+  test("ignores key order when comparing objects", () => {
+    const result = diffJson({ a: 1, b: { c: 2 } }, { b: { c: 2 }, a: 1 })
+    expect(result.tree.status).toBe("unchanged")
+    expect(result.changes).toEqual([])
+    expect(result.patch).toEqual([])
+  })
+
+  test("reports added, removed and changed values with tree paths", () => {
+    const result = diffJson(
+      { name: "api", limits: { rps: 10 }, tags: ["a", "b"], legacy: true },
+      { name: "api", limits: { rps: 20, burst: 5 }, tags: ["a"] }
+    )
+
+    expect(result.changes).toEqual([
+      { path: "limits.rps", status: "changed", before: 10, after: 20 },
+      { path: "limits.burst", status: "added", before: undefined, after: 5 },
+      { path: "tags[1]", status: "removed", before: "b", after: undefined },
+      { path: "legacy", status: "removed", before: true, after: undefined },
+    ])
+  })
+
+  test("produces an RFC 6902 patch that transforms before into after", () => {
+    const before = { users: [{ id: 1, name: "Ann" }, { id: 2, name: "Bob" }], "a/b": 1 }
+    const after = { users: [{ id: 1, name: "Ann" }], "a/b": 2, added: null }
+    const { patch } = diffJson(before, after)
+
+    expect(patch).toContainEqual({ op: "replace", path: "/a~1b", value: 2 })
+    expect(applyJsonPatch(before, patch)).toEqual(after)
+  })
+
+  test("matches array items by id key", () => {
+    const before = [{ id: "a", v: 1 }, { id: "b", v: 2 }, { id: "c", v: 3 }]
+    const after = [{ id: "c", v: 3 }, { id: "d", v: 4 }, { id: "a", v: 10 }]
+
+    const byIndex = diffJson(before, after)
+    const byKey = diffJson(before, after, { strategy: "key", key: "id" })
+
+    expect(byIndex.changes.length).toBeGreaterThan(byKey.changes.length)
+    expect(byKey.changes).toEqual([
+      { path: "[2].v", status: "changed", before: 1, after: 10 },
+      { path: "[1]", status: "removed", before: { id: "b", v: 2 }, after: undefined },
+      { path: "[1]", status: "added", before: undefined, after: { id: "d", v: 4 } },
+    ])
+    expect(applyJsonPatch(before, byKey.patch)).toEqual(after)
+    expect(applyJsonPatch(before, byIndex.patch)).toEqual(after)
+  })
+
+  test("replaces values whose type changes", () => {
+    const { patch, tree } = diffJson({ a: [1] }, { a: { 0: 1 } })
+    expect(tree.children?.[0]?.status).toBe("changed")
+    expect(patch).toEqual([{ op: "replace", path: "/a", value: { 0: 1 } }])
+  })
+})
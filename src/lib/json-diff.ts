@@ -0,0 +1,322 @@
+import { joinJsonPath } from "@/lib/json-utils"
+
+type DiffStatus = "unchanged" | "added" | "removed" | "changed" | "modified"
+
+type ArrayMatching = { strategy: "index" } | { strategy: "key"; key: string }
+
+interface JsonDiffNode {
+  key: string
+  path: string
+  status: DiffStatus
+  before?: unknown
+  after?: unknown
+  children?: JsonDiffNode[]
+}
+
+interface JsonDiffChange {
+  path: string
+  status: Exclude<DiffStatus, "unchanged" | "modified">
+  before?: unknown
+  after?: unknown
+}
+
+type JsonPatchOperation =
+  | { op: "add" | "replace"; path: string; value: unknown }
+  | { op: "remove"; path: string }
+  | { op: "move"; from: string; path: string }
+
+interface JsonDiffResult {
+  tree: JsonDiffNode
+  changes: JsonDiffChange[]
+  patch: JsonPatchOperation[]
+}
+
+type JsonObject = Record<string, unknown>
+
+function isObject(value: unknown): value is JsonObject {
+  return value !== null && typeof value === "object" && !Array.isArray(value)
+}
+
+function isSameKind(before: unknown, after: unknown): boolean {
+  return (Array.isArray(before) && Array.isArray(after)) || (isObject(before) && isObject(after))
+}
+
+export function deepEqualJson(before: unknown, after: unknown): boolean {
+  if (before === after) return true
+  if (Array.isArray(before) && Array.isArray(after)) {
+    return before.length === after.length && before.every((item, index) => deepEqualJson(item, after[index]))
+  }
+  if (isObject(before) && isObject(after)) {
+    const beforeKeys = Object.keys(before)
+    return (
+      beforeKeys.length === Object.keys(after).length &&
+      beforeKeys.every((key) => Object.prototype.hasOwnProperty.call(after, key) && deepEqualJson(before[key], after[key]))
+    )
+  }
+  return false
+}
+
+function escapePointerSegment(segment: string | number): string {
+  return String(segment).replace(/~/g, "~0").replace(/\//g, "~1")
+}
+
+function joinPointer(pointer: string, segment: string | number): string {
+  return `${pointer}/${escapePointerSegment(segment)}`
+}
+
+function itemKey(item: unknown, key: string): string | undefined {
+  if (!isObject(item) || !Object.prototype.hasOwnProperty.call(item, key)) {
+    return undefined
+  }
+  return JSON.stringify(item[key])
+}
+
+interface ArrayPairing {
+  /** Pairs of matched [beforeIndex, afterIndex]. */
+  matched: Array<[number, number]>
+  removed: number[]
+  added: number[]
+}
+
+function pairArrayItems(before: unknown[], after: unknown[], matching: ArrayMatching): ArrayPairing {
+  if (matching.strategy === "index") {
+    const common = Math.min(before.length, after.length)
+    return {
+      matched: Array.from({ length: common }, (_, index) => [index, index] as [number, number]),
+      removed: Array.from({ length: before.length - common }, (_, offset) => common + offset),
+      added: Array.from({ length: after.length - common }, (_, offset) => common + offset),
+    }
+  }
+
+  const beforeByKey = new Map<string, number>()
+  before.forEach((item, index) => {
+    const key = itemKey(item, matching.key)
+    if (key !== undefined && !beforeByKey.has(key)) {
+      beforeByKey.set(key, index)
+    }
+  })
+
+  const matched: Array<[number, number]> = []
+  const matchedBefore = new Set<number>()
+  const added: number[] = []
+
+  after.forEach((item, index) => {
+    const key = itemKey(item, matching.key)
+    const beforeIndex = key === undefined ? undefined : beforeByKey.get(key)
+    if (beforeIndex === undefined || matchedBefore.has(beforeIndex)) {
+      added.push(index)
+      return
+    }
+    matched.push([beforeIndex, index])
+    matchedBefore.add(beforeIndex)
+  })
+
+  return {
+    matched,
+    removed: before.map((_, index) => index).filter((index) => !matchedBefore.has(index)),
+    added,
+  }
+}
+
+function buildDiffNode(key: string, path: string, before: unknown, after: unknown, matching: ArrayMatching): JsonDiffNode {
+  if (!isSameKind(before, after)) {
+    const status = deepEqualJson(before, after) ? "unchanged" : "changed"
+    return { key, path, status, before, after }
+  }
+
+  const children: JsonDiffNode[] = []
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const pairing = pairArrayItems(before, after, matching)
+    for (const [beforeIndex, afterIndex] of pairing.matched) {
+      children.push(buildDiffNode(String(afterIndex), joinJsonPath(path, afterIndex), before[beforeIndex], after[afterIndex], matching))
+    }
+    for (const index of pairing.removed) {
+      children.push({ key: String(index), path: joinJsonPath(path, index), status: "removed", before: before[index] })
+    }
+    for (const index of pairing.added) {
+      children.push({ key: String(index), path: joinJsonPath(path, index), status: "added", after: after[index] })
+    }
+  } else if (isObject(before) && isObject(after)) {
+    for (const [childKey, value] of Object.entries(before)) {
+      const childPath = joinJsonPath(path, childKey)
+      children.push(
+        Object.prototype.hasOwnProperty.call(after, childKey)
+          ? buildDiffNode(childKey, childPath, value, after[childKey], matching)
+          : { key: childKey, path: childPath, status: "removed", before: value }
+      )
+    }
+    for (const [childKey, value] of Object.entries(after)) {
+      if (!Object.prototype.hasOwnProperty.call(before, childKey)) {
+        children.push({ key: childKey, path: joinJsonPath(path, childKey), status: "added", after: value })
+      }
+    }
+  }
+
+  const status = children.every((child) => child.status === "unchanged") ? "unchanged" : "modified"
+  return { key, path, status, before, after, children }
+}
+
+function collectChanges(node: JsonDiffNode, changes: JsonDiffChange[]): JsonDiffChange[] {
+  if (node.status === "added" || node.status === "removed" || node.status === "changed") {
+    changes.push({ path: node.path, status: node.status, before: node.before, after: node.after })
+  }
+  node.children?.forEach((child) => collectChanges(child, changes))
+  return changes
+}
+
+function buildPatch(pointer: string, before: unknown, after: unknown, matching: ArrayMatching, patch: JsonPatchOperation[]) {
+  if (!isSameKind(before, after)) {
+    if (!deepEqualJson(before, after)) {
+      patch.push({ op: "replace", path: pointer, value: after })
+    }
+    return
+  }
+
+  if (isObject(before) && isObject(after)) {
+    for (const key of Object.keys(before)) {
+      if (!Object.prototype.hasOwnProperty.call(after, key)) {
+        patch.push({ op: "remove", path: joinPointer(pointer, key) })
+      }
+    }
+    for (const [key, value] of Object.entries(after)) {
+      if (Object.prototype.hasOwnProperty.call(before, key)) {
+        buildPatch(joinPointer(pointer, key), before[key], value, matching, patch)
+      } else {
+        patch.push({ op: "add", path: joinPointer(pointer, key), value })
+      }
+    }
+    return
+  }
+
+  const beforeItems = before as unknown[]
+  const afterItems = after as unknown[]
+  const pairing = pairArrayItems(beforeItems, afterItems, matching)
+
+  // Edit matched items in place first, while indices still refer to the "before" array.
+  for (const [beforeIndex, afterIndex] of pairing.matched) {
+    buildPatch(joinPointer(pointer, beforeIndex), beforeItems[beforeIndex], afterItems[afterIndex], matching, patch)
+  }
+
+  // Remove from the end so earlier indices stay valid.
+  for (const index of [...pairing.removed].sort((left, right) => right - left)) {
+    patch.push({ op: "remove", path: joinPointer(pointer, index) })
+  }
+
+  // Walk the target order, moving surviving items into place and inserting new ones.
+  const working = pairing.matched
+    .map(([beforeIndex, afterIndex]) => ({ beforeIndex, afterIndex }))
+    .sort((left, right) => left.beforeIndex - right.beforeIndex)
+    .map(({ afterIndex }) => afterIndex)
+  const addedIndices = new Set(pairing.added)
+
+  for (let targetIndex = 0; targetIndex < afterItems.length; targetIndex++) {
+    if (addedIndices.has(targetIndex)) {
+      patch.push({ op: "add", path: joinPointer(pointer, targetIndex), value: afterItems[targetIndex] })
+      working.splice(targetIndex, 0, targetIndex)
+      continue
+    }
+    const currentIndex = working.indexOf(targetIndex)
+    if (currentIndex !== targetIndex) {
+      patch.push({ op: "move", from: joinPointer(pointer, currentIndex), path: joinPointer(pointer, targetIndex) })
+      working.splice(currentIndex, 1)
+      working.splice(targetIndex, 0, targetIndex)
+    }
+  }
+}
+
+export function diffJson(before: unknown, after: unknown, matching: ArrayMatching = { strategy: "index" }): JsonDiffResult {
+  const tree = buildDiffNode("root", "", before, after, matching)
+  const patch: JsonPatchOperation[] = []
+  buildPatch("", before, after, matching, patch)
+
+  return {
+    tree,
+    changes: collectChanges(tree, []),
+    patch,
+  }
+}
+
+function parsePointer(pointer: string): string[] {
+  if (pointer === "") return []
+  if (!pointer.startsWith("/")) {
+    throw new Error(`Invalid JSON Pointer: ${pointer}`)
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+}
+
+function locateParent(document: unknown, pointer: string): { parent: unknown; key: string } {
+  const segments = parsePointer(pointer)
+  const key = segments.pop()
+  if (key === undefined) {
+    throw new Error("Cannot address the document root")
+  }
+
+  // Only own properties are followed, so `/__proto__/x` can't reach a prototype.
+  let parent = document
+  for (const segment of segments) {
+    if (parent === null || typeof parent !== "object" || !Object.prototype.hasOwnProperty.call(parent, segment)) {
+      throw new Error(`Path not found: ${pointer}`)
+    }
+    parent = (parent as JsonObject)[segment]
+  }
+  if (parent === null || typeof parent !== "object") {
+    throw new Error(`Path not found: ${pointer}`)
+  }
+  return { parent, key }
+}
+
+export function applyJsonPatch(document: unknown, patch: JsonPatchOperation[]): unknown {
+  let result = structuredClone(document)
+
+  const remove = (pointer: string): unknown => {
+    const { parent, key } = locateParent(result, pointer)
+    if (Array.isArray(parent)) {
+      return parent.splice(Number(key), 1)[0]
+    }
+    if (!Object.prototype.hasOwnProperty.call(parent, key)) {
+      throw new Error(`Path not found: ${pointer}`)
+    }
+    const value = (parent as JsonObject)[key]
+    delete (parent as JsonObject)[key]
+    return value
+  }
+
+  const insert = (pointer: string, value: unknown, replace: boolean) => {
+    if (pointer === "") {
+      result = value
+      return
+    }
+    const { parent, key } = locateParent(result, pointer)
+    if (Array.isArray(parent)) {
+      const index = key === "-" ? parent.length : Number(key)
+      parent.splice(index, replace ? 1 : 0, value)
+    } else {
+      Object.defineProperty(parent, key, { value, enumerable: true, writable: true, configurable: true })
+    }
+  }
+
+  for (const operation of patch) {
+    switch (operation.op) {
+      case "add":
+        insert(operation.path, structuredClone(operation.value), false)
+        break
+      case "replace":
+        insert(operation.path, structuredClone(operation.value), true)
+        break
+      case "remove":
+        remove(operation.path)
+        break
+      case "move":
+        insert(operation.path, remove(operation.from), false)
+        break
+    }
+  }
+
+  return result
+}
+
+export type { ArrayMatching, DiffStatus, JsonDiffChange, JsonDiffNode, JsonDiffResult, JsonPatchOperation }
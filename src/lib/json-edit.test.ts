@@ -0,0 +1,68 @@
+import { describe, expect, test } from "bun:test"
+import { applyJsonTreeEdit, parseScalarInput, remapExpandedPaths } from "@/lib/json-edit"
+
+const document = {
+  user: { id: 1, name: "Ada", "a.b": true },
+  roles: ["admin", "user", "guest"],
+}
+
+describe("json-edit", () => {
+  test("sets values without mutating the original document", () => {
+    const result = applyJsonTreeEdit(document, { type: "set-value", path: "user.id", value: 2 })
+
+    expect(result.document).toEqual({ ...document, user: { ...document.user, id: 2 } })
+    expect(document.user.id).toBe(1)
+    expect((result.document as typeof document).roles).toBe(document.roles)
+  })
+
+  test("renames keys in place and rejects duplicates", () => {
+    const result = applyJsonTreeEdit(document, { type: "rename", path: "user.name", key: "fullName" })
+
+    expect(Object.keys((result.document as typeof document).user)).toEqual(["id", "fullName", "a.b"])
+    expect(result.path).toBe("user.fullName")
+    expect(() => applyJsonTreeEdit(document, { type: "rename", path: "user.name", key: "id" })).toThrow('Key "id" already exists')
+    expect(() => applyJsonTreeEdit(document, { type: "rename", path: "roles[0]", key: "x" })).toThrow(
+      "Only object properties can be renamed"
+    )
+  })
+
+  test("adds and removes children", () => {
+    const withItem = applyJsonTreeEdit(document, { type: "add-child", path: "roles" })
+    expect((withItem.document as typeof document).roles).toEqual(["admin", "user", "guest", null])
+    expect(withItem.path).toBe("roles[3]")
+
+    const withKey = applyJsonTreeEdit(document, { type: "add-child", path: "user" })
+    expect(withKey.path).toBe("user.newKey")
+
+    const removed = applyJsonTreeEdit(document, { type: "remove", path: "user.a.b" })
+    expect((removed.document as typeof document).user).toEqual({ id: 1, name: "Ada" })
+    expect(() => applyJsonTreeEdit(document, { type: "remove", path: "" })).toThrow("The root value cannot be removed")
+  })
+
+  test("reorders siblings only", () => {
+    const moved = applyJsonTreeEdit(document, { type: "move", path: "roles[2]", targetPath: "roles[0]" })
+    expect((moved.document as typeof document).roles).toEqual(["guest", "admin", "user"])
+    expect(moved.path).toBe("roles[0]")
+
+    const movedKey = applyJsonTreeEdit(document, { type: "move", path: "user.id", targetPath: "user.a.b" })
+    expect(Object.keys((movedKey.document as typeof document).user)).toEqual(["name", "a.b", "id"])
+
+    expect(() => applyJsonTreeEdit(document, { type: "move", path: "roles[0]", targetPath: "user.id" })).toThrow(
+      "Items can only be reordered within the same parent"
+    )
+  })
+
+  test("parses scalar input by type", () => {
+    expect(parseScalarInput("42.5", "number")).toBe(42.5)
+    expect(parseScalarInput("42", "string")).toBe("42")
+    expect(parseScalarInput("false", "boolean")).toBe(false)
+    expect(parseScalarInput("anything", "null")).toBeNull()
+    expect(() => parseScalarInput("4x", "number")).toThrow('"4x" is not a valid number')
+    expect(() => parseScalarInput(" ", "number")).toThrow()
+  })
+
+  test("remaps expanded paths after a rename", () => {
+    const expanded = remapExpandedPaths(new Set(["", "user", "user.tags", "users"]), "user", "account")
+    expect([...expanded]).toEqual(["", "account", "account.tags", "users"])
+  })
+})
@@ -0,0 +1,213 @@
+import { getJsonNodeType, joinJsonPath, resolveJsonPath, type JsonNodeType } from "@/lib/json-utils"
+
+type JsonScalarType = Exclude<JsonNodeType, "object" | "array">
+
+type JsonTreeEdit =
+  | { type: "set-value"; path: string; value: unknown }
+  | { type: "rename"; path: string; key: string }
+  | { type: "remove"; path: string }
+  | { type: "add-child"; path: string }
+  | { type: "move"; path: string; targetPath: string }
+
+interface JsonTreeEditResult {
+  document: unknown
+  /** Path of the node the edit produced, e.g. the renamed key or the appended child. */
+  path: string
+}
+
+type Segment = string | number
+
+const NEW_KEY_PREFIX = "newKey"
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return getJsonNodeType(value) === "object"
+}
+
+function toPath(segments: Segment[]): string {
+  return segments.reduce<string>((path, segment) => joinJsonPath(path, segment), "")
+}
+
+function resolveSegments(document: unknown, path: string): Segment[] {
+  const segments = resolveJsonPath(document, path)
+  if (!segments) {
+    throw new Error(`Path "${path}" no longer exists in the document`)
+  }
+  return segments
+}
+
+function getAt(document: unknown, segments: Segment[]): unknown {
+  return segments.reduce<unknown>((current, segment) => (current as Record<string, unknown>)[segment], document)
+}
+
+/** Copies only the containers along `segments`, sharing every untouched branch with the original. */
+function updateAt(document: unknown, segments: Segment[], update: (value: unknown) => unknown): unknown {
+  if (segments.length === 0) {
+    return update(document)
+  }
+
+  const [segment, ...rest] = segments
+  if (Array.isArray(document)) {
+    const next = [...document]
+    next[segment as number] = updateAt(document[segment as number], rest, update)
+    return next
+  }
+
+  const object = document as Record<string, unknown>
+  return Object.fromEntries(
+    Object.entries(object).map(([key, child]) => [key, key === segment ? updateAt(child, rest, update) : child])
+  )
+}
+
+function reorder<T>(items: T[], from: number, to: number): T[] {
+  const next = [...items]
+  const [moved] = next.splice(from, 1)
+  next.splice(to, 0, moved)
+  return next
+}
+
+function renameKey(document: unknown, segments: Segment[], key: string): JsonTreeEditResult {
+  const parentSegments = segments.slice(0, -1)
+  const parent = getAt(document, parentSegments)
+  const currentKey = segments[segments.length - 1]
+
+  if (!isPlainObject(parent)) {
+    throw new Error("Only object properties can be renamed")
+  }
+  if (!key) {
+    throw new Error("Key cannot be empty")
+  }
+  if (key !== currentKey && Object.prototype.hasOwnProperty.call(parent, key)) {
+    throw new Error(`Key "${key}" already exists`)
+  }
+
+  return {
+    document: updateAt(document, parentSegments, (value) =>
+      Object.fromEntries(
+        Object.entries(value as Record<string, unknown>).map(([name, child]) => [name === currentKey ? key : name, child])
+      )
+    ),
+    path: toPath([...parentSegments, key]),
+  }
+}
+
+function removeNode(document: unknown, segments: Segment[]): JsonTreeEditResult {
+  if (segments.length === 0) {
+    throw new Error("The root value cannot be removed")
+  }
+
+  const parentSegments = segments.slice(0, -1)
+  const segment = segments[segments.length - 1]
+
+  return {
+    document: updateAt(document, parentSegments, (parent) =>
+      Array.isArray(parent)
+        ? parent.filter((_, index) => index !== segment)
+        : Object.fromEntries(Object.entries(parent as Record<string, unknown>).filter(([key]) => key !== segment))
+    ),
+    path: toPath(parentSegments),
+  }
+}
+
+function addChild(document: unknown, segments: Segment[]): JsonTreeEditResult {
+  const container = getAt(document, segments)
+
+  if (Array.isArray(container)) {
+    return {
+      document: updateAt(document, segments, () => [...container, null]),
+      path: toPath([...segments, container.length]),
+    }
+  }
+  if (!isPlainObject(container)) {
+    throw new Error("Children can only be added to objects and arrays")
+  }
+
+  let key = NEW_KEY_PREFIX
+  for (let suffix = 2; Object.prototype.hasOwnProperty.call(container, key); suffix++) {
+    key = `${NEW_KEY_PREFIX}${suffix}`
+  }
+
+  return {
+    document: updateAt(document, segments, () => ({ ...container, [key]: null })),
+    path: toPath([...segments, key]),
+  }
+}
+
+function moveNode(document: unknown, segments: Segment[], targetSegments: Segment[]): JsonTreeEditResult {
+  const parentSegments = segments.slice(0, -1)
+  if (
+    segments.length === 0 ||
+    targetSegments.length !== segments.length ||
+    toPath(targetSegments.slice(0, -1)) !== toPath(parentSegments)
+  ) {
+    throw new Error("Items can only be reordered within the same parent")
+  }
+
+  const parent = getAt(document, parentSegments)
+  const from = segments[segments.length - 1]
+  const to = targetSegments[targetSegments.length - 1]
+
+  if (Array.isArray(parent)) {
+    return {
+      document: updateAt(document, parentSegments, () => reorder(parent, from as number, to as number)),
+      path: toPath([...parentSegments, to]),
+    }
+  }
+
+  const entries = Object.entries(parent as Record<string, unknown>)
+  const fromIndex = entries.findIndex(([key]) => key === from)
+  const toIndex = entries.findIndex(([key]) => key === to)
+
+  return {
+    document: updateAt(document, parentSegments, () => Object.fromEntries(reorder(entries, fromIndex, toIndex))),
+    path: toPath(segments),
+  }
+}
+
+/** Applies a tree edit immutably and returns the new document. */
+export function applyJsonTreeEdit(document: unknown, edit: JsonTreeEdit): JsonTreeEditResult {
+  const segments = resolveSegments(document, edit.path)
+
+  switch (edit.type) {
+    case "set-value":
+      return { document: updateAt(document, segments, () => edit.value), path: edit.path }
+    case "rename":
+      return renameKey(document, segments, edit.key)
+    case "remove":
+      return removeNode(document, segments)
+    case "add-child":
+      return addChild(document, segments)
+    case "move":
+      return moveNode(document, segments, resolveSegments(document, edit.targetPath))
+  }
+}
+
+/** Converts the text of an inline editor into a scalar of the chosen type. */
+export function parseScalarInput(text: string, type: JsonScalarType): unknown {
+  switch (type) {
+    case "string":
+      return text
+    case "null":
+      return null
+    case "boolean":
+      if (text === "true" || text === "false") return text === "true"
+      throw new Error(`"${text}" is not a boolean`)
+    case "number": {
+      const number = Number(text.trim())
+      if (!text.trim() || !Number.isFinite(number)) {
+        throw new Error(`"${text}" is not a valid number`)
+      }
+      return number
+    }
+  }
+}
+
+/** Moves expanded-state entries for `from` and its descendants over to `to` after a rename. */
+export function remapExpandedPaths(expandedPaths: ReadonlySet<string>, from: string, to: string): Set<string> {
+  return new Set(
+    [...expandedPaths].map((path) =>
+      path === from || path.startsWith(`${from}.`) || path.startsWith(`${from}[`) ? `${to}${path.slice(from.length)}` : path
+    )
+  )
+}
+
+export type { JsonScalarType, JsonTreeEdit, JsonTreeEditResult }
@@ -0,0 +1,62 @@
+import { describe, expect, test } from "bun:test"
+import {
+  DEFAULT_JSON_OUTPUT_OPTIONS,
+  LosslessNumber,
+  parseJsonPreservingNumbers,
+  stringifyJson,
+  type JsonOutputOptions,
+} from "@/lib/json-format"
+
+const options = (patch: Partial<JsonOutputOptions>): JsonOutputOptions => ({ ...DEFAULT_JSON_OUTPUT_OPTIONS, ...patch })
+
+describe("json-format", () => {
+  const document = { b: [1, { z: true, a: null }], a: "café", empty: {} }
+
+  test("matches JSON.stringify for the default pretty output", () => {
+    expect(stringifyJson(document)).toBe(JSON.stringify(document, null, 2))
+    expect(stringifyJson(document, options({ indent: "tab" }))).toBe(JSON.stringify(document, null, "\t"))
+    expect(stringifyJson(document, options({ style: "minified" }))).toBe(JSON.stringify(document))
+  })
+
+  test("sorts keys recursively and escapes non-ASCII characters", () => {
+    expect(stringifyJson(document, options({ style: "minified", sortKeys: true, escapeNonAscii: true }))).toBe(
+      '{"a":"caf\\u00e9","b":[1,{"a":null,"z":true}],"empty":{}}'
+    )
+  })
+
+  test("emits RFC 8785 canonical JSON", () => {
+    // Sample from RFC 8785 section 3.2.2, keys ordered by UTF-16 code units.
+    const value = {
+      numbers: [333333333.33333329, 1e30, 4.5, 2e-3, 0.000000000000000000000000001],
+      string: "€$\u000f\nA'B\"\\\\\"/",
+      literals: [null, true, false],
+    }
+    expect(stringifyJson(value, options({ style: "canonical", escapeNonAscii: true }))).toBe(
+      '{"literals":[null,true,false],"numbers":[333333333.3333333,1e+30,4.5,0.002,1e-27],"string":"€$\\u000f\\nA\'B\\"\\\\\\\\\\"/"}'
+    )
+    expect(stringifyJson({ "€": 1, "\r": 2, "😀": 3, "1": 4 }, options({ style: "canonical" }))).toBe(
+      '{"\\r":2,"1":4,"€":1,"😀":3}'
+    )
+  })
+
+  test("keeps 64-bit integers exact when preserving big numbers", () => {
+    const text = '{"id": 9007199254740993, "ids": [12345678901234567890, 42], "note": "9007199254740993", "price": 1.5}'
+    const result = parseJsonPreservingNumbers(text)
+    if (!result.ok) throw new Error("expected a successful parse")
+
+    expect((result.value as { id: LosslessNumber }).id).toBeInstanceOf(LosslessNumber)
+    expect(stringifyJson(result.value, options({ style: "minified" }))).toBe(
+      '{"id":9007199254740993,"ids":[12345678901234567890,42],"note":"9007199254740993","price":1.5}'
+    )
+    expect(stringifyJson(result.value, options({ style: "canonical" }))).toContain('"id":9007199254740992')
+  })
+
+  test("preserves big numbers in lenient input and reports errors against the original text", () => {
+    const result = parseJsonPreservingNumbers("{\n  // comment 12345678901234567890\n  id: 12345678901234567890,\n}")
+    expect(result.ok && stringifyJson(result.value, options({ style: "minified" }))).toBe('{"id":12345678901234567890}')
+
+    const invalid = parseJsonPreservingNumbers('{"id": 12345678901234567890,, }')
+    expect(invalid.ok).toBe(false)
+    expect(!invalid.ok && invalid.error.offset).toBe(28)
+  })
+})
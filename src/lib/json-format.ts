@@ -0,0 +1,143 @@
+import { parseLenientJson, type LenientParseResult } from "@/lib/json-lenient"
+
+type JsonOutputStyle = "pretty" | "minified" | "canonical"
+type JsonIndent = "2" | "4" | "tab"
+
+interface JsonOutputOptions {
+  style: JsonOutputStyle
+  indent: JsonIndent
+  sortKeys: boolean
+  escapeNonAscii: boolean
+  preserveBigNumbers: boolean
+}
+
+export const DEFAULT_JSON_OUTPUT_OPTIONS: JsonOutputOptions = {
+  style: "pretty",
+  indent: "2",
+  sortKeys: false,
+  escapeNonAscii: false,
+  preserveBigNumbers: true,
+}
+
+/** A number whose literal text would lose precision as a JavaScript double. */
+export class LosslessNumber {
+  constructor(readonly raw: string) {}
+
+  toJSON() {
+    return Number(this.raw)
+  }
+}
+
+// Strings and comments are matched first so digits inside them are left alone.
+const NUMBER_LITERAL_PATTERN =
+  /"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\/\/[^\n]*|\/\*[\s\S]*?\*\/|(?<![\w$.])-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/g
+const BIG_NUMBER_MARKER = "\u0000big-number:"
+const MAX_EXACT_SIGNIFICANT_DIGITS = 15
+
+function losesPrecision(literal: string): boolean {
+  if (/^-?\d+$/.test(literal)) {
+    return !Number.isSafeInteger(Number(literal))
+  }
+  const significant = literal.replace(/[eE].*$/, "").replace(/[-.]/g, "").replace(/^0+/, "").replace(/0+$/, "")
+  return significant.length > MAX_EXACT_SIGNIFICANT_DIGITS
+}
+
+function restoreBigNumbers(value: unknown): unknown {
+  if (typeof value === "string" && value.startsWith(BIG_NUMBER_MARKER)) {
+    return new LosslessNumber(value.slice(BIG_NUMBER_MARKER.length))
+  }
+  if (Array.isArray(value)) {
+    return value.map(restoreBigNumbers)
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, restoreBigNumbers(child)]))
+  }
+  return value
+}
+
+/**
+ * Parses like `parseLenientJson`, but keeps numbers that a double cannot hold exactly
+ * (e.g. 64-bit IDs) as `LosslessNumber` instances instead of silently rounding them.
+ */
+export function parseJsonPreservingNumbers(text: string): LenientParseResult {
+  let replaced = false
+  const marked = text.replace(NUMBER_LITERAL_PATTERN, (match) => {
+    if (!/^-?\d/.test(match) || !losesPrecision(match)) return match
+    replaced = true
+    return JSON.stringify(`${BIG_NUMBER_MARKER}${match}`)
+  })
+
+  if (!replaced) {
+    return parseLenientJson(text)
+  }
+
+  const result = parseLenientJson(marked)
+  // Error positions refer to the marked text, so report them against the original instead.
+  if (!result.ok) return parseLenientJson(text)
+  return { ...result, value: restoreBigNumbers(result.value) }
+}
+
+function escapeNonAsciiCharacters(text: string): string {
+  return text.replace(/[\u007f-\uffff]/g, (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, "0")}`)
+}
+
+function getIndentUnit(options: JsonOutputOptions): string {
+  if (options.style !== "pretty") return ""
+  return options.indent === "tab" ? "\t" : " ".repeat(Number(options.indent))
+}
+
+/** Orders keys by UTF-16 code units, as RFC 8785 requires. */
+function compareKeys(left: string, right: string) {
+  return left < right ? -1 : left > right ? 1 : 0
+}
+
+function serialize(value: unknown, options: JsonOutputOptions, indentUnit: string, indent: string): string {
+  const canonical = options.style === "canonical"
+
+  if (value instanceof LosslessNumber) {
+    // JCS serializes every number as an IEEE 754 double, so precision is dropped on purpose.
+    return canonical ? JSON.stringify(value.toJSON()) : value.raw
+  }
+  if (typeof value === "string") {
+    const text = JSON.stringify(value)
+    return options.escapeNonAscii && !canonical ? escapeNonAsciiCharacters(text) : text
+  }
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value) ?? "null"
+  }
+
+  const nextIndent = indent + indentUnit
+  const separator = indentUnit ? `,\n${nextIndent}` : ","
+  const wrap = (open: string, items: string[], close: string) =>
+    items.length === 0
+      ? `${open}${close}`
+      : indentUnit
+        ? `${open}\n${nextIndent}${items.join(separator)}\n${indent}${close}`
+        : `${open}${items.join(separator)}${close}`
+
+  if (Array.isArray(value)) {
+    return wrap("[", value.map((item) => serialize(item, options, indentUnit, nextIndent)), "]")
+  }
+
+  const keys = Object.keys(value).filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+  if (options.sortKeys || canonical) {
+    keys.sort(compareKeys)
+  }
+
+  const colon = indentUnit ? ": " : ":"
+  return wrap(
+    "{",
+    keys.map((key) => {
+      const serializedKey = serialize(key, options, indentUnit, nextIndent)
+      return `${serializedKey}${colon}${serialize((value as Record<string, unknown>)[key], options, indentUnit, nextIndent)}`
+    }),
+    "}"
+  )
+}
+
+/** Serializes a parsed document with the chosen layout, key order and escaping. */
+export function stringifyJson(value: unknown, options: JsonOutputOptions = DEFAULT_JSON_OUTPUT_OPTIONS): string {
+  return serialize(value, options, getIndentUnit(options), "")
+}
+
+export type { JsonIndent, JsonOutputOptions, JsonOutputStyle }
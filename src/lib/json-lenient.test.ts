@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test"
+import { formatParseIssue, parseLenientJson } from "@/lib/json-lenient"
+
+describe("json-lenient", () => {
+  test("parses strict JSON without repairs", () => {
+    expect(parseLenientJson('{"a":[1,2]}')).toEqual({ ok: true, value: { a: [1, 2] }, format: "json", repairs: [] })
+  })
+
+  test("accepts JSONC comments and trailing commas", () => {
+    const result = parseLenientJson(`{
+      // service config
+      "port": 8080, /* default */
+      "hosts": ["a", "b",],
+    }`)
+
+    expect(result).toEqual({
+      ok: true,
+      value: { port: 8080, hosts: ["a", "b"] },
+      format: "jsonc",
+      repairs: ["Removed comments", "Removed trailing commas"],
+    })
+  })
+
+  test("accepts JSON5 syntax", () => {
+    const result = parseLenientJson("{unquoted: 'single', hex: 0x1F, half: .5, plus: +1, nan: NaN}")
+
+    expect(result.ok && result.format).toBe("json5")
+    expect(result.ok && result.value).toEqual({ unquoted: "single", hex: 31, half: 0.5, plus: 1, nan: null })
+    expect(result.ok && result.repairs).toContain("Quoted unquoted object keys")
+  })
+
+  test("combines NDJSON lines into an array", () => {
+    const result = parseLenientJson('{"id":1}\n{"id":2}\n\n{"id":3}\n')
+    expect(result.ok && result.format).toBe("ndjson")
+    expect(result.ok && result.value).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }])
+  })
+
+  test("unwraps JSON escaped as a string", () => {
+    expect(parseLenientJson('"{\\"a\\":1}"')).toMatchObject({ ok: true, value: { a: 1 }, format: "escaped" })
+    expect(parseLenientJson('{\\"a\\":{\\"b\\":true}}')).toMatchObject({ ok: true, value: { a: { b: true } }, format: "escaped" })
+  })
+
+  test("extracts JSON embedded in a log line", () => {
+    const result = parseLenientJson('2024-05-01 12:00:00 INFO [main] Response body: {"status":"ok","items":[1]}\n')
+    expect(result.ok && result.format).toBe("embedded")
+    expect(result.ok && result.value).toEqual({ status: "ok", items: [1] })
+  })
+
+  test("skips bracketed log prefixes in favour of the payload", () => {
+    expect(parseLenientJson('[12] INFO payload={"a":1}')).toMatchObject({ ok: true, value: { a: 1 }, format: "embedded" })
+    expect(parseLenientJson("[12] INFO ids=[1, 2, 3]")).toMatchObject({ ok: true, value: [1, 2, 3] })
+    expect(parseLenientJson('INFO items=[{"a":1},{"b":2}]')).toMatchObject({ ok: true, value: [{ a: 1 }, { b: 2 }] })
+  })
+
+  test("reports broken JSON instead of extracting a fragment", () => {
+    const cases: Array<[string, { line: number; column: number }]> = [
+      ['[{"a":1},{"b":2 "c":3},{"d":4}]', { line: 1, column: 17 }],
+      ['{"a": 1}}', { line: 1, column: 9 }],
+      ['{"a":1}\n{"b":2}\n{"c":', { line: 3, column: 6 }],
+    ]
+
+    for (const [input, position] of cases) {
+      const result = parseLenientJson(input)
+      expect(result.ok).toBe(false)
+      if (!result.ok) expect(result.error).toMatchObject(position)
+    }
+  })
+
+  test("keeps __proto__ as an ordinary key", () => {
+    const result = parseLenientJson('{"__proto__":{"x":1},b:2}')
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      const value = result.value as Record<string, unknown>
+      expect(Object.keys(value)).toEqual(["__proto__", "b"])
+      expect(Object.getOwnPropertyDescriptor(value, "__proto__")?.value).toEqual({ x: 1 })
+      expect(Object.getPrototypeOf(value)).toBe(Object.prototype)
+    }
+  })
+
+  test("reports line and column of the failure", () => {
+    const result = parseLenientJson('{\n  "a": 1,\n  "b": @\n}')
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.error).toMatchObject({ line: 3, column: 8, offset: 19 })
+      expect(formatParseIssue(result.error)).toBe('Unexpected "@" at line 3, column 8')
+    }
+  })
+})
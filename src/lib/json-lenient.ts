@@ -0,0 +1,525 @@
+type JsonInputFormat = "json" | "jsonc" | "json5" | "ndjson" | "escaped" | "embedded"
+
+interface JsonParseIssue {
+  message: string
+  /** 1-based line of the offending character. */
+  line: number
+  /** 1-based column of the offending character. */
+  column: number
+  /** 0-based character offset, usable with `setSelectionRange`. */
+  offset: number
+}
+
+type LenientParseResult =
+  | { ok: true; value: unknown; format: JsonInputFormat; repairs: string[] }
+  | { ok: false; error: JsonParseIssue }
+
+const REPAIRS = {
+  comments: "Removed comments",
+  trailingCommas: "Removed trailing commas",
+  singleQuotes: "Converted single-quoted strings",
+  unquotedKeys: "Quoted unquoted object keys",
+  numbers: "Normalized JSON5 number literals",
+  nonFinite: "Replaced NaN/Infinity with null",
+  literals: "Converted True/False/None/undefined literals",
+  controlCharacters: "Escaped raw control characters in strings",
+  stringEscapes: "Normalized non-JSON string escapes",
+} as const
+
+type RepairKind = keyof typeof REPAIRS
+
+// Repairs that JSONC (JSON with comments, as used by VS Code and tsconfig) tolerates.
+const JSONC_REPAIRS: RepairKind[] = ["comments", "trailingCommas"]
+
+const MAX_EMBEDDED_CANDIDATES = 20
+const MAX_UNWRAP_DEPTH = 3
+
+class ParseFailure extends Error {
+  constructor(message: string, readonly offset: number) {
+    super(message)
+  }
+}
+
+class LenientJsonParser {
+  private pos = 0
+  readonly repairs = new Set<RepairKind>()
+
+  constructor(private readonly text: string) {}
+
+  parse(): unknown {
+    if (this.text.charCodeAt(0) === 0xfeff) {
+      this.pos = 1
+    }
+    this.skipIgnored()
+    if (this.pos >= this.text.length) {
+      this.fail("Unexpected end of input")
+    }
+    const value = this.parseValue()
+    this.skipIgnored()
+    if (this.pos < this.text.length) {
+      this.fail(`Unexpected "${this.text[this.pos]}" after JSON value`)
+    }
+    return value
+  }
+
+  private fail(message: string, offset = this.pos): never {
+    throw new ParseFailure(message, Math.min(offset, this.text.length))
+  }
+
+  private skipIgnored() {
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos]
+      if (/\s/.test(char)) {
+        this.pos++
+      } else if (this.text.startsWith("//", this.pos)) {
+        this.repairs.add("comments")
+        const end = this.text.indexOf("\n", this.pos)
+        this.pos = end === -1 ? this.text.length : end + 1
+      } else if (this.text.startsWith("/*", this.pos)) {
+        this.repairs.add("comments")
+        const end = this.text.indexOf("*/", this.pos + 2)
+        if (end === -1) {
+          this.fail("Unterminated block comment")
+        }
+        this.pos = end + 2
+      } else {
+        return
+      }
+    }
+  }
+
+  private parseValue(): unknown {
+    const char = this.text[this.pos]
+
+    if (char === "{") return this.parseObject()
+    if (char === "[") return this.parseArray()
+    if (char === '"' || char === "'") return this.parseString()
+    if (char !== undefined && /[-+.\d]/.test(char)) return this.parseNumber()
+
+    const word = /^[A-Za-z_$][\w$]*/.exec(this.text.slice(this.pos))?.[0]
+    switch (word) {
+      case "true":
+      case "false":
+      case "null":
+        this.pos += word.length
+        return JSON.parse(word)
+      case "True":
+      case "False":
+      case "None":
+      case "undefined":
+        this.repairs.add("literals")
+        this.pos += word.length
+        return word === "True" ? true : word === "False" ? false : null
+      case "NaN":
+      case "Infinity":
+        this.repairs.add("nonFinite")
+        this.pos += word.length
+        return null
+    }
+
+    if (char === undefined) {
+      this.fail("Unexpected end of input")
+    }
+    this.fail(`Unexpected "${char}"`)
+  }
+
+  private parseObject(): Record<string, unknown> {
+    const result: Record<string, unknown> = {}
+    this.pos++
+    this.skipIgnored()
+
+    if (this.text[this.pos] === "}") {
+      this.pos++
+      return result
+    }
+
+    while (true) {
+      const key = this.parseKey()
+      this.skipIgnored()
+      if (this.text[this.pos] !== ":") {
+        this.fail(`Expected ":" after key "${key}"`)
+      }
+      this.pos++
+      this.skipIgnored()
+      // Define the property so a "__proto__" key is kept as data instead of replacing the prototype.
+      Object.defineProperty(result, key, { value: this.parseValue(), enumerable: true, writable: true, configurable: true })
+      this.skipIgnored()
+
+      const char = this.text[this.pos]
+      if (char === "}") {
+        this.pos++
+        return result
+      }
+      if (char !== ",") {
+        this.fail(char === undefined ? 'Unexpected end of input, expected "}"' : 'Expected "," or "}"')
+      }
+      this.pos++
+      this.skipIgnored()
+      if (this.text[this.pos] === "}") {
+        this.repairs.add("trailingCommas")
+        this.pos++
+        return result
+      }
+    }
+  }
+
+  private parseKey(): string {
+    const char = this.text[this.pos]
+    if (char === '"' || char === "'") {
+      return this.parseString()
+    }
+    const identifier = /^[A-Za-z_$][\w$-]*/.exec(this.text.slice(this.pos))?.[0]
+    if (!identifier) {
+      this.fail(char === undefined ? "Unexpected end of input, expected a key" : "Expected a property name")
+    }
+    this.repairs.add("unquotedKeys")
+    this.pos += identifier.length
+    return identifier
+  }
+
+  private parseArray(): unknown[] {
+    const result: unknown[] = []
+    this.pos++
+    this.skipIgnored()
+
+    if (this.text[this.pos] === "]") {
+      this.pos++
+      return result
+    }
+
+    while (true) {
+      result.push(this.parseValue())
+      this.skipIgnored()
+
+      const char = this.text[this.pos]
+      if (char === "]") {
+        this.pos++
+        return result
+      }
+      if (char !== ",") {
+        this.fail(char === undefined ? 'Unexpected end of input, expected "]"' : 'Expected "," or "]"')
+      }
+      this.pos++
+      this.skipIgnored()
+      if (this.text[this.pos] === "]") {
+        this.repairs.add("trailingCommas")
+        this.pos++
+        return result
+      }
+    }
+  }
+
+  private parseString(): string {
+    const quote = this.text[this.pos]
+    const start = this.pos
+    if (quote === "'") {
+      this.repairs.add("singleQuotes")
+    }
+    this.pos++
+
+    let result = ""
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos]
+
+      if (char === quote) {
+        this.pos++
+        return result
+      }
+
+      if (char === "\\") {
+        result += this.parseEscape()
+        continue
+      }
+
+      if (char < " ") {
+        this.repairs.add("controlCharacters")
+      }
+      result += char
+      this.pos++
+    }
+
+    this.fail("Unterminated string", start)
+  }
+
+  private parseEscape(): string {
+    const escaped = this.text[this.pos + 1]
+    this.pos += 2
+
+    switch (escaped) {
+      case '"':
+      case "\\":
+      case "/":
+        return escaped
+      case "b":
+        return "\b"
+      case "f":
+        return "\f"
+      case "n":
+        return "\n"
+      case "r":
+        return "\r"
+      case "t":
+        return "\t"
+      case "u": {
+        const hex = this.text.slice(this.pos, this.pos + 4)
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+          this.fail("Invalid unicode escape", this.pos - 2)
+        }
+        this.pos += 4
+        return String.fromCharCode(parseInt(hex, 16))
+      }
+      case undefined:
+        this.fail("Unterminated string")
+    }
+
+    this.repairs.add("stringEscapes")
+    if (escaped === "x") {
+      const hex = this.text.slice(this.pos, this.pos + 2)
+      if (!/^[0-9a-fA-F]{2}$/.test(hex)) {
+        this.fail("Invalid hex escape", this.pos - 2)
+      }
+      this.pos += 2
+      return String.fromCharCode(parseInt(hex, 16))
+    }
+    if (escaped === "\n") return ""
+    if (escaped === "\r") {
+      if (this.text[this.pos] === "\n") this.pos++
+      return ""
+    }
+    if (escaped === "0") return "\0"
+    if (escaped === "v") return "\v"
+    return escaped
+  }
+
+  private parseNumber(): number | null {
+    const match = /^[+-]?(?:0[xX][0-9a-fA-F]+|Infinity|NaN|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/.exec(
+      this.text.slice(this.pos)
+    )
+    if (!match) {
+      this.fail("Invalid number")
+    }
+
+    const literal = match[0]
+    this.pos += literal.length
+
+    if (/^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?$/.test(literal)) {
+      return Number(literal)
+    }
+
+    const unsigned = literal.replace(/^[+-]/, "")
+    const sign = literal.startsWith("-") ? -1 : 1
+    if (unsigned === "Infinity" || unsigned === "NaN") {
+      this.repairs.add("nonFinite")
+      return null
+    }
+
+    this.repairs.add("numbers")
+    return sign * (/^0[xX]/.test(unsigned) ? parseInt(unsigned, 16) : Number(unsigned))
+  }
+}
+
+function toIssue(text: string, message: string, offset: number): JsonParseIssue {
+  const before = text.slice(0, offset)
+  const line = before.split("\n").length
+  const column = offset - before.lastIndexOf("\n")
+  return { message, line, column, offset }
+}
+
+function parseStrict(text: string): { ok: true; value: unknown } | { ok: false } {
+  try {
+    return { ok: true, value: JSON.parse(text) }
+  } catch {
+    return { ok: false }
+  }
+}
+
+function parseWithRepairs(text: string): { value: unknown; repairs: Set<RepairKind> } {
+  const parser = new LenientJsonParser(text)
+  const value = parser.parse()
+  return { value, repairs: parser.repairs }
+}
+
+function describeRepairs(repairs: Set<RepairKind>): string[] {
+  return [...repairs].map((kind) => REPAIRS[kind])
+}
+
+function formatForRepairs(repairs: Set<RepairKind>): JsonInputFormat {
+  if (repairs.size === 0) return "json"
+  return [...repairs].every((kind) => JSONC_REPAIRS.includes(kind)) ? "jsonc" : "json5"
+}
+
+function looksLikeJsonText(value: unknown): value is string {
+  return typeof value === "string" && /^\s*[[{]/.test(value)
+}
+
+/** Parses JSON that was serialized into a string one or more times, e.g. `"{\"a\":1}"`. */
+function unwrapEscapedJson(value: unknown): { value: unknown; unwrapped: boolean } {
+  let current = value
+  let unwrapped = false
+
+  for (let depth = 0; depth < MAX_UNWRAP_DEPTH && looksLikeJsonText(current); depth++) {
+    const inner = parseStrict(current)
+    if (!inner.ok) break
+    current = inner.value
+    unwrapped = true
+  }
+
+  return { value: current, unwrapped }
+}
+
+function parseNdjson(text: string): unknown[] | null {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim())
+  if (lines.length < 2) {
+    return null
+  }
+
+  const records: unknown[] = []
+  for (const line of lines) {
+    const parsed = parseStrict(line)
+    if (!parsed.ok) return null
+    records.push(parsed.value)
+  }
+  return records
+}
+
+/** Points a failure at the first broken line of input whose earlier lines are complete NDJSON records. */
+function locateNdjsonFailure(text: string): ParseFailure | null {
+  let records = 0
+  let offset = 0
+
+  for (const line of text.split("\n")) {
+    if (line.trim() && !parseStrict(line).ok) {
+      try {
+        parseWithRepairs(line)
+      } catch (error) {
+        if (!(error instanceof ParseFailure)) throw error
+        return records > 0 ? new ParseFailure(error.message, offset + error.offset) : null
+      }
+    }
+    if (line.trim()) records++
+    offset += line.length + 1
+  }
+
+  return null
+}
+
+/** Returns the end offset (exclusive) of the bracketed region starting at `start`, honouring strings. */
+function findBalancedEnd(text: string, start: number): number | null {
+  const stack: string[] = []
+  let quote: string | null = null
+
+  for (let index = start; index < text.length; index++) {
+    const char = text[index]
+
+    if (quote) {
+      if (char === "\\") index++
+      else if (char === quote) quote = null
+      continue
+    }
+
+    if (char === '"' || char === "'") quote = char
+    else if (char === "{") stack.push("}")
+    else if (char === "[") stack.push("]")
+    else if (char === "}" || char === "]") {
+      if (stack.pop() !== char) return null
+      if (stack.length === 0) return index + 1
+    }
+  }
+
+  return null
+}
+
+/**
+ * Finds the JSON payload at the end of a log line or prose, starting the search at `from`, the
+ * point where the text stopped parsing as JSON. The payload has to run to the end of the text,
+ * so broken JSON is reported instead of being cut down to a fragment that happens to parse.
+ */
+function extractEmbeddedJson(
+  text: string,
+  from: number
+): { value: unknown; repairs: Set<RepairKind>; offset: number } | null {
+  const contentEnd = text.trimEnd().length
+  let candidates = 0
+
+  for (let start = from; start < contentEnd && candidates < MAX_EMBEDDED_CANDIDATES; start++) {
+    if (text[start] !== "{" && text[start] !== "[") continue
+    candidates++
+
+    if (findBalancedEnd(text, start) !== contentEnd) continue
+
+    try {
+      const { value, repairs } = parseWithRepairs(text.slice(start, contentEnd))
+      if (value !== null && typeof value === "object") {
+        return { value, repairs, offset: start }
+      }
+    } catch {
+      // Not JSON after all; try the next bracket.
+    }
+  }
+
+  return null
+}
+
+/**
+ * Parses JSON, falling back through JSONC/JSON5 repairs, NDJSON, string-escaped
+ * JSON and JSON embedded in log lines. Successful results list every repair applied.
+ */
+export function parseLenientJson(text: string): LenientParseResult {
+  const strict = parseStrict(text)
+  if (strict.ok) {
+    const { value, unwrapped } = unwrapEscapedJson(strict.value)
+    return unwrapped
+      ? { ok: true, value, format: "escaped", repairs: ["Unwrapped JSON encoded as a string"] }
+      : { ok: true, value, format: "json", repairs: [] }
+  }
+
+  const records = parseNdjson(text)
+  if (records) {
+    return {
+      ok: true,
+      value: records,
+      format: "ndjson",
+      repairs: [`Combined ${records.length} newline-delimited records into an array`],
+    }
+  }
+
+  let failure: ParseFailure
+  try {
+    const { value, repairs } = parseWithRepairs(text)
+    return { ok: true, value, format: formatForRepairs(repairs), repairs: describeRepairs(repairs) }
+  } catch (error) {
+    if (!(error instanceof ParseFailure)) throw error
+    failure = locateNdjsonFailure(text) ?? error
+  }
+
+  // Escaped JSON pasted without its surrounding quotes, e.g. {\"a\":1}
+  if (text.includes('\\"')) {
+    const quoted = parseStrict(`"${text.trim()}"`)
+    if (quoted.ok) {
+      const { value, unwrapped } = unwrapEscapedJson(quoted.value)
+      if (unwrapped) {
+        return { ok: true, value, format: "escaped", repairs: ["Unescaped JSON copied from a string literal"] }
+      }
+    }
+  }
+
+  // Only text that failed before any payload began is a log prefix; a later failure means the JSON itself is broken.
+  const embedded = extractEmbeddedJson(text, failure.offset)
+  if (embedded) {
+    const line = text.slice(0, embedded.offset).split("\n").length
+    return {
+      ok: true,
+      value: embedded.value,
+      format: "embedded",
+      repairs: [`Extracted JSON embedded in surrounding text at line ${line}`, ...describeRepairs(embedded.repairs)],
+    }
+  }
+
+  return { ok: false, error: toIssue(text, failure.message, failure.offset) }
+}
+
+export function formatParseIssue(issue: JsonParseIssue): string {
+  return `${issue.message} at line ${issue.line}, column ${issue.column}`
+}
+
+export type { JsonInputFormat, JsonParseIssue, LenientParseResult }
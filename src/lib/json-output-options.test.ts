@@ -0,0 +1,18 @@
+import { describe, expect, test } from "bun:test"
+import { DEFAULT_JSON_OUTPUT_OPTIONS } from "@/lib/json-format"
+import { parseJsonOutputOptions } from "@/lib/json-output-options"
+
+describe("json-output-options", () => {
+  test("loads valid stored options", () => {
+    const stored = { style: "canonical", indent: "tab", sortKeys: true, escapeNonAscii: false, preserveBigNumbers: false }
+    expect(parseJsonOutputOptions(JSON.stringify(stored))).toEqual(stored)
+  })
+
+  test("falls back to defaults for missing or malformed options", () => {
+    expect(parseJsonOutputOptions(null)).toEqual(DEFAULT_JSON_OUTPUT_OPTIONS)
+    expect(parseJsonOutputOptions("not-json")).toEqual(DEFAULT_JSON_OUTPUT_OPTIONS)
+    expect(parseJsonOutputOptions(JSON.stringify({ ...DEFAULT_JSON_OUTPUT_OPTIONS, indent: 3 }))).toEqual(
+      DEFAULT_JSON_OUTPUT_OPTIONS
+    )
+  })
+})
@@ -0,0 +1,62 @@
+import { DEFAULT_JSON_OUTPUT_OPTIONS, type JsonOutputOptions } from "@/lib/json-format"
+
+export const JSON_OUTPUT_OPTIONS_KEY = "codelessshipmore:json-output-options"
+
+const OUTPUT_STYLES = ["pretty", "minified", "canonical"]
+const INDENTS = ["2", "4", "tab"]
+
+function isJsonOutputOptions(value: unknown): value is JsonOutputOptions {
+  if (!value || typeof value !== "object") {
+    return false
+  }
+
+  const candidate = value as Record<string, unknown>
+
+  return (
+    typeof candidate.style === "string" &&
+    OUTPUT_STYLES.includes(candidate.style) &&
+    typeof candidate.indent === "string" &&
+    INDENTS.includes(candidate.indent) &&
+    typeof candidate.sortKeys === "boolean" &&
+    typeof candidate.escapeNonAscii === "boolean" &&
+    typeof candidate.preserveBigNumbers === "boolean"
+  )
+}
+
+export function parseJsonOutputOptions(value: string | null): JsonOutputOptions {
+  if (!value) {
+    return DEFAULT_JSON_OUTPUT_OPTIONS
+  }
+
+  try {
+    const parsed = JSON.parse(value)
+    return isJsonOutputOptions(parsed) ? parsed : DEFAULT_JSON_OUTPUT_OPTIONS
+  } catch {
+    return DEFAULT_JSON_OUTPUT_OPTIONS
+  }
+}
+
+export function loadJsonOutputOptions() {
+  if (typeof window === "undefined") {
+    return DEFAULT_JSON_OUTPUT_OPTIONS
+  }
+
+  try {
+    return parseJsonOutputOptions(window.localStorage.getItem(JSON_OUTPUT_OPTIONS_KEY))
+  } catch {
+    return DEFAULT_JSON_OUTPUT_OPTIONS
+  }
+}
+
+export function saveJsonOutputOptions(options: JsonOutputOptions) {
+  if (typeof window === "undefined") {
+    return false
+  }
+
+  try {
+    window.localStorage.setItem(JSON_OUTPUT_OPTIONS_KEY, JSON.stringify(options))
+    return true
+  } catch {
+    return false
+  }
+}
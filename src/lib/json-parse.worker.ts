@@ -0,0 +1,21 @@
+import { parseLenientJson, type LenientParseResult } from "@/lib/json-lenient"
+
+interface JsonParseRequest {
+  id: number
+  text: string
+}
+
+interface JsonParseResponse {
+  id: number
+  result: LenientParseResult
+}
+
+const worker = self as unknown as Worker
+
+worker.addEventListener("message", (event: MessageEvent<JsonParseRequest>) => {
+  const { id, text } = event.data
+  const response: JsonParseResponse = { id, result: parseLenientJson(text) }
+  worker.postMessage(response)
+})
+
+export type { JsonParseRequest, JsonParseResponse }
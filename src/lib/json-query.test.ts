@@ -0,0 +1,69 @@
+import { describe, expect, test } from "bun:test"
+import { detectQuerySyntax, runJsonQuery } from "@/lib/json-query"
+import { expandToPath, flattenVisibleTree } from "@/lib/json-utils"
+
+const document = {
+  status: "partial",
+  items: [
+    { id: 1, status: "OK", tags: ["a"] },
+    { id: 2, status: "FAILED", tags: [] },
+    { id: 3, status: "FAILED", price: 12.5 },
+  ],
+  meta: { total: 3 },
+}
+
+describe("json-query", () => {
+  test("detects query syntax from the leading character", () => {
+    expect(detectQuerySyntax("$.items[*]")).toBe("jsonpath")
+    expect(detectQuerySyntax(".items[]")).toBe("jq")
+  })
+
+  test("evaluates JSONPath selectors with tree-compatible paths", () => {
+    expect(runJsonQuery(document, "$.items[*].id").matches).toEqual([
+      { path: "items[0].id", value: 1 },
+      { path: "items[1].id", value: 2 },
+      { path: "items[2].id", value: 3 },
+    ])
+    expect(runJsonQuery(document, "$['meta']['total']").matches).toEqual([{ path: "meta.total", value: 3 }])
+    expect(runJsonQuery(document, "$.items[-1].id").matches[0]?.path).toBe("items[2].id")
+    expect(runJsonQuery(document, "$.items[0:2].id").matches.map((match) => match.value)).toEqual([1, 2])
+  })
+
+  test("supports JSONPath recursive descent and filters", () => {
+    expect(runJsonQuery(document, "$..status").matches.map((match) => match.path)).toEqual([
+      "status",
+      "items[0].status",
+      "items[1].status",
+      "items[2].status",
+    ])
+    expect(runJsonQuery(document, '$.items[?(@.status == "FAILED" && @.price > 10)].id').matches).toEqual([
+      { path: "items[2].id", value: 3 },
+    ])
+    expect(runJsonQuery(document, "$.items[?(@.price)]").matches).toHaveLength(1)
+  })
+
+  test("evaluates jq pipelines with select", () => {
+    expect(runJsonQuery(document, '.items[] | select(.status=="FAILED") | .id').matches).toEqual([
+      { path: "items[1].id", value: 2 },
+      { path: "items[2].id", value: 3 },
+    ])
+    expect(runJsonQuery(document, ".items | length").matches).toEqual([{ path: null, value: 3 }])
+    expect(runJsonQuery(document, ".meta, .items[0].tags[0]").matches.map((match) => match.path)).toEqual([
+      "meta",
+      "items[0].tags[0]",
+    ])
+  })
+
+  test("reports syntax and runtime errors", () => {
+    expect(() => runJsonQuery(document, "$.items[")).toThrow()
+    expect(() => runJsonQuery(document, ".items | frobnicate")).toThrow('Unsupported jq function "frobnicate"')
+    expect(() => runJsonQuery(document, ".status[]")).toThrow("Cannot iterate over string")
+    expect(() => runJsonQuery(document, "  ")).toThrow("Query is empty")
+  })
+
+  test("expands the tree to a matched path", () => {
+    const [match] = runJsonQuery(document, '.items[] | select(.price) | .price').matches
+    const rows = flattenVisibleTree(document, expandToPath(document, new Set(), match!.path!))
+    expect(rows.map((row) => row.path)).toContain("items[2].price")
+  })
+})
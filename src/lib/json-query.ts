@@ -0,0 +1,767 @@
+import { joinJsonPath } from "@/lib/json-utils"
+
+type QuerySyntax = "jsonpath" | "jq"
+
+interface QueryMatch {
+  /** Tree path of the matched node, or null for computed values such as `length`. */
+  path: string | null
+  value: unknown
+}
+
+interface QueryResult {
+  syntax: QuerySyntax
+  matches: QueryMatch[]
+}
+
+type Segment = string | number
+
+interface Located {
+  value: unknown
+  segments: Segment[] | null
+}
+
+type TokenKind = "punct" | "ident" | "string" | "number"
+
+interface Token {
+  kind: TokenKind
+  value: string
+  pos: number
+}
+
+const PUNCTUATION = ["..", "==", "!=", "<=", ">=", "&&", "||", ".", "[", "]", "(", ")", ",", "|", "*", ":", "?", "@", "$", "<", ">", "!"]
+
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = []
+  let pos = 0
+
+  while (pos < query.length) {
+    const char = query[pos]
+
+    if (/\s/.test(char)) {
+      pos++
+      continue
+    }
+
+    if (char === '"' || char === "'") {
+      const start = pos
+      let text = ""
+      pos++
+      while (pos < query.length && query[pos] !== char) {
+        if (query[pos] === "\\" && pos + 1 < query.length) {
+          const escaped = query[pos + 1]
+          text += escaped === "n" ? "\n" : escaped === "t" ? "\t" : escaped === "r" ? "\r" : escaped
+          pos += 2
+        } else {
+          text += query[pos++]
+        }
+      }
+      if (pos >= query.length) {
+        throw new Error(`Unterminated string at position ${start + 1}`)
+      }
+      pos++
+      tokens.push({ kind: "string", value: text, pos: start })
+      continue
+    }
+
+    const numberMatch = /^-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/.exec(query.slice(pos))
+    if (numberMatch && (char !== "-" || /\d/.test(query[pos + 1] ?? ""))) {
+      tokens.push({ kind: "number", value: numberMatch[0], pos })
+      pos += numberMatch[0].length
+      continue
+    }
+
+    const identMatch = /^[A-Za-z_][\w-]*/.exec(query.slice(pos))
+    if (identMatch) {
+      tokens.push({ kind: "ident", value: identMatch[0], pos })
+      pos += identMatch[0].length
+      continue
+    }
+
+    const punct = PUNCTUATION.find((candidate) => query.startsWith(candidate, pos))
+    if (!punct) {
+      throw new Error(`Unexpected character "${char}" at position ${pos + 1}`)
+    }
+    tokens.push({ kind: "punct", value: punct, pos })
+    pos += punct.length
+  }
+
+  return tokens
+}
+
+class TokenStream {
+  private index = 0
+
+  constructor(private readonly tokens: Token[]) {}
+
+  peek(offset = 0): Token | undefined {
+    return this.tokens[this.index + offset]
+  }
+
+  isPunct(value: string, offset = 0): boolean {
+    const token = this.peek(offset)
+    return token?.kind === "punct" && token.value === value
+  }
+
+  isIdent(value: string): boolean {
+    const token = this.peek()
+    return token?.kind === "ident" && token.value === value
+  }
+
+  next(): Token {
+    const token = this.tokens[this.index++]
+    if (!token) {
+      throw new Error("Unexpected end of query")
+    }
+    return token
+  }
+
+  accept(value: string): boolean {
+    if (this.isPunct(value)) {
+      this.index++
+      return true
+    }
+    return false
+  }
+
+  expect(value: string): void {
+    const token = this.peek()
+    if (!this.accept(value)) {
+      throw unexpected(token, `expected "${value}"`)
+    }
+  }
+
+  done(): boolean {
+    return this.index >= this.tokens.length
+  }
+}
+
+function unexpected(token: Token | undefined, hint?: string): Error {
+  const suffix = hint ? ` (${hint})` : ""
+  if (!token) {
+    return new Error(`Unexpected end of query${suffix}`)
+  }
+  return new Error(`Unexpected "${token.value}" at position ${token.pos + 1}${suffix}`)
+}
+
+function isContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+  return value !== null && typeof value === "object"
+}
+
+function childrenOf(node: Located): Located[] {
+  const { value, segments } = node
+  if (Array.isArray(value)) {
+    return value.map((item, index) => ({ value: item, segments: segments && [...segments, index] }))
+  }
+  if (isContainer(value)) {
+    return Object.entries(value).map(([key, item]) => ({ value: item, segments: segments && [...segments, key] }))
+  }
+  return []
+}
+
+function descendantsOf(node: Located): Located[] {
+  const result: Located[] = [node]
+  for (const child of childrenOf(node)) {
+    result.push(...descendantsOf(child))
+  }
+  return result
+}
+
+function deepEqual(left: unknown, right: unknown): boolean {
+  if (left === right) return true
+  if (!isContainer(left) || !isContainer(right) || Array.isArray(left) !== Array.isArray(right)) {
+    return false
+  }
+  const leftKeys = Object.keys(left)
+  const rightKeys = Object.keys(right)
+  if (leftKeys.length !== rightKeys.length) return false
+  return leftKeys.every((key) =>
+    Object.prototype.hasOwnProperty.call(right, key) &&
+    deepEqual((left as Record<string, unknown>)[key], (right as Record<string, unknown>)[key])
+  )
+}
+
+type Comparator = "==" | "!=" | "<" | "<=" | ">" | ">="
+
+const COMPARATORS: Comparator[] = ["==", "!=", "<", "<=", ">", ">="]
+
+function compareValues(operator: Comparator, left: unknown, right: unknown, order: (a: unknown, b: unknown) => number | null): boolean {
+  if (operator === "==") return deepEqual(left, right)
+  if (operator === "!=") return !deepEqual(left, right)
+
+  const result = order(left, right)
+  if (result === null) return false
+  switch (operator) {
+    case "<":
+      return result < 0
+    case "<=":
+      return result <= 0
+    case ">":
+      return result > 0
+    case ">=":
+      return result >= 0
+  }
+}
+
+// ---------------------------------------------------------------------------
+// JSONPath
+// ---------------------------------------------------------------------------
+
+type JsonPathSelector =
+  | { type: "name"; name: string }
+  | { type: "wildcard" }
+  | { type: "index"; index: number }
+  | { type: "slice"; start?: number; end?: number; step?: number }
+  | { type: "filter"; expression: FilterExpression }
+  | { type: "union"; selectors: JsonPathSelector[] }
+  | { type: "descendant"; selector: JsonPathSelector }
+
+type FilterExpression =
+  | { type: "or" | "and"; left: FilterExpression; right: FilterExpression }
+  | { type: "not"; operand: FilterExpression }
+  | { type: "compare"; operator: Comparator; left: FilterOperand; right: FilterOperand }
+  | { type: "test"; operand: FilterOperand }
+
+type FilterOperand =
+  | { type: "literal"; value: unknown }
+  | { type: "query"; root: "@" | "$"; selectors: JsonPathSelector[] }
+
+function parseJsonPath(query: string): JsonPathSelector[] {
+  const stream = new TokenStream(tokenize(query))
+  stream.expect("$")
+  const selectors = parseJsonPathSegments(stream)
+  if (!stream.done()) {
+    throw unexpected(stream.peek())
+  }
+  return selectors
+}
+
+function parseJsonPathSegments(stream: TokenStream): JsonPathSelector[] {
+  const selectors: JsonPathSelector[] = []
+
+  while (!stream.done()) {
+    if (stream.accept("..")) {
+      const selector = stream.accept("[") ? parseBracketSelector(stream) : parseDotSelector(stream)
+      selectors.push({ type: "descendant", selector })
+    } else if (stream.accept(".")) {
+      selectors.push(parseDotSelector(stream))
+    } else if (stream.accept("[")) {
+      selectors.push(parseBracketSelector(stream))
+    } else {
+      break
+    }
+  }
+
+  return selectors
+}
+
+function parseDotSelector(stream: TokenStream): JsonPathSelector {
+  if (stream.accept("*")) {
+    return { type: "wildcard" }
+  }
+  const token = stream.next()
+  if (token.kind !== "ident" && token.kind !== "number") {
+    throw unexpected(token, "expected a property name")
+  }
+  return { type: "name", name: token.value }
+}
+
+function parseBracketSelector(stream: TokenStream): JsonPathSelector {
+  const selectors: JsonPathSelector[] = []
+
+  do {
+    selectors.push(parseBracketItem(stream))
+  } while (stream.accept(","))
+
+  stream.expect("]")
+  return selectors.length === 1 ? selectors[0] : { type: "union", selectors }
+}
+
+function parseBracketItem(stream: TokenStream): JsonPathSelector {
+  if (stream.accept("*")) {
+    return { type: "wildcard" }
+  }
+
+  if (stream.accept("?")) {
+    const wrapped = stream.accept("(")
+    const expression = parseFilterOr(stream)
+    if (wrapped) stream.expect(")")
+    return { type: "filter", expression }
+  }
+
+  const token = stream.peek()
+  if (token?.kind === "string") {
+    stream.next()
+    return { type: "name", name: token.value }
+  }
+
+  const parts: Array<number | undefined> = [undefined]
+  let isSlice = false
+  while (!stream.isPunct("]") && !stream.isPunct(",")) {
+    if (stream.accept(":")) {
+      isSlice = true
+      parts.push(undefined)
+      continue
+    }
+    const numberToken = stream.next()
+    if (numberToken.kind !== "number" || !Number.isInteger(Number(numberToken.value))) {
+      throw unexpected(numberToken, "expected an integer index")
+    }
+    parts[parts.length - 1] = Number(numberToken.value)
+  }
+
+  if (isSlice) {
+    const [start, end, step] = parts
+    return { type: "slice", start, end, step }
+  }
+  if (parts[0] === undefined) {
+    throw unexpected(stream.peek(), "expected a selector")
+  }
+  return { type: "index", index: parts[0] }
+}
+
+function parseFilterOr(stream: TokenStream): FilterExpression {
+  let left = parseFilterAnd(stream)
+  while (stream.accept("||")) {
+    left = { type: "or", left, right: parseFilterAnd(stream) }
+  }
+  return left
+}
+
+function parseFilterAnd(stream: TokenStream): FilterExpression {
+  let left = parseFilterUnary(stream)
+  while (stream.accept("&&")) {
+    left = { type: "and", left, right: parseFilterUnary(stream) }
+  }
+  return left
+}
+
+function parseFilterUnary(stream: TokenStream): FilterExpression {
+  if (stream.accept("!")) {
+    return { type: "not", operand: parseFilterUnary(stream) }
+  }
+  if (stream.accept("(")) {
+    const expression = parseFilterOr(stream)
+    stream.expect(")")
+    return expression
+  }
+
+  const left = parseFilterOperand(stream)
+  const operator = COMPARATORS.find((candidate) => stream.isPunct(candidate))
+  if (!operator) {
+    return { type: "test", operand: left }
+  }
+  stream.next()
+  return { type: "compare", operator, left, right: parseFilterOperand(stream) }
+}
+
+function parseFilterOperand(stream: TokenStream): FilterOperand {
+  const token = stream.next()
+
+  if (token.kind === "punct" && (token.value === "@" || token.value === "$")) {
+    return { type: "query", root: token.value, selectors: parseJsonPathSegments(stream) }
+  }
+  if (token.kind === "string") {
+    return { type: "literal", value: token.value }
+  }
+  if (token.kind === "number") {
+    return { type: "literal", value: Number(token.value) }
+  }
+  if (token.kind === "ident" && ["true", "false", "null"].includes(token.value)) {
+    return { type: "literal", value: JSON.parse(token.value) }
+  }
+  throw unexpected(token, "expected a value or @ path")
+}
+
+function applyJsonPathSelector(selector: JsonPathSelector, node: Located, root: Located): Located[] {
+  switch (selector.type) {
+    case "name": {
+      const { value } = node
+      if (!isContainer(value) || Array.isArray(value) || !Object.prototype.hasOwnProperty.call(value, selector.name)) {
+        return []
+      }
+      return [{ value: value[selector.name], segments: node.segments && [...node.segments, selector.name] }]
+    }
+    case "wildcard":
+      return childrenOf(node)
+    case "index": {
+      if (!Array.isArray(node.value)) return []
+      const index = selector.index < 0 ? node.value.length + selector.index : selector.index
+      if (index < 0 || index >= node.value.length) return []
+      return [{ value: node.value[index], segments: node.segments && [...node.segments, index] }]
+    }
+    case "slice": {
+      if (!Array.isArray(node.value)) return []
+      const children = childrenOf(node)
+      return sliceIndices(children.length, selector.start, selector.end, selector.step).map((index) => children[index])
+    }
+    case "filter":
+      return childrenOf(node).filter((child) => evaluateFilter(selector.expression, child, root))
+    case "union":
+      return selector.selectors.flatMap((item) => applyJsonPathSelector(item, node, root))
+    case "descendant":
+      return descendantsOf(node).flatMap((item) => applyJsonPathSelector(selector.selector, item, root))
+  }
+}
+
+function sliceIndices(length: number, start?: number, end?: number, step = 1): number[] {
+  if (step === 0) return []
+  const normalize = (index: number) => (index < 0 ? Math.max(length + index, -1) : Math.min(index, length))
+  const indices: number[] = []
+
+  if (step > 0) {
+    const from = Math.max(normalize(start ?? 0), 0)
+    const to = normalize(end ?? length)
+    for (let index = from; index < to; index += step) indices.push(index)
+  } else {
+    const from = Math.min(normalize(start ?? length - 1), length - 1)
+    const to = end === undefined ? -1 : normalize(end)
+    for (let index = from; index > to; index += step) indices.push(index)
+  }
+
+  return indices
+}
+
+function evaluateFilter(expression: FilterExpression, current: Located, root: Located): boolean {
+  switch (expression.type) {
+    case "or":
+      return evaluateFilter(expression.left, current, root) || evaluateFilter(expression.right, current, root)
+    case "and":
+      return evaluateFilter(expression.left, current, root) && evaluateFilter(expression.right, current, root)
+    case "not":
+      return !evaluateFilter(expression.operand, current, root)
+    case "test":
+      return expression.operand.type === "literal"
+        ? Boolean(expression.operand.value)
+        : resolveOperand(expression.operand, current, root).length > 0
+    case "compare": {
+      const [left] = resolveOperand(expression.left, current, root)
+      const [right] = resolveOperand(expression.right, current, root)
+      if (left === undefined || right === undefined) {
+        return expression.operator === "!=" ? left !== right : false
+      }
+      return compareValues(expression.operator, left, right, orderScalars)
+    }
+  }
+}
+
+function resolveOperand(operand: FilterOperand, current: Located, root: Located): unknown[] {
+  if (operand.type === "literal") {
+    return [operand.value]
+  }
+  const start = operand.root === "@" ? current : root
+  return selectAll(operand.selectors, start, root).map((node) => node.value)
+}
+
+function orderScalars(left: unknown, right: unknown): number | null {
+  if (typeof left === "number" && typeof right === "number") return left - right
+  if (typeof left === "string" && typeof right === "string") return left < right ? -1 : left > right ? 1 : 0
+  return null
+}
+
+function selectAll(selectors: JsonPathSelector[], start: Located, root: Located): Located[] {
+  return selectors.reduce<Located[]>(
+    (nodes, selector) => nodes.flatMap((node) => applyJsonPathSelector(selector, node, root)),
+    [start]
+  )
+}
+
+function evaluateJsonPath(document: unknown, query: string): Located[] {
+  const selectors = parseJsonPath(query)
+  const root: Located = { value: document, segments: [] }
+  return selectAll(selectors, root, root)
+}
+
+// ---------------------------------------------------------------------------
+// jq subset
+// ---------------------------------------------------------------------------
+
+type JqExpression =
+  | { type: "identity" }
+  | { type: "recurse" }
+  | { type: "literal"; value: unknown }
+  | { type: "field"; target: JqExpression; name: string }
+  | { type: "index"; target: JqExpression; index: number }
+  | { type: "iterate"; target: JqExpression }
+  | { type: "pipe" | "comma" | "and" | "or"; left: JqExpression; right: JqExpression }
+  | { type: "compare"; operator: Comparator; left: JqExpression; right: JqExpression }
+  | { type: "call"; name: "select" | "not" | "length" | "keys" | "empty"; argument?: JqExpression }
+
+const JQ_FUNCTIONS = ["select", "not", "length", "keys", "empty"] as const
+
+function parseJq(query: string): JqExpression {
+  const stream = new TokenStream(tokenize(query))
+  const expression = parseJqPipe(stream)
+  if (!stream.done()) {
+    throw unexpected(stream.peek())
+  }
+  return expression
+}
+
+function parseJqPipe(stream: TokenStream): JqExpression {
+  let left = parseJqComma(stream)
+  while (stream.accept("|")) {
+    left = { type: "pipe", left, right: parseJqComma(stream) }
+  }
+  return left
+}
+
+function parseJqComma(stream: TokenStream): JqExpression {
+  let left = parseJqOr(stream)
+  while (stream.accept(",")) {
+    left = { type: "comma", left, right: parseJqOr(stream) }
+  }
+  return left
+}
+
+function parseJqOr(stream: TokenStream): JqExpression {
+  let left = parseJqAnd(stream)
+  while (stream.isIdent("or")) {
+    stream.next()
+    left = { type: "or", left, right: parseJqAnd(stream) }
+  }
+  return left
+}
+
+function parseJqAnd(stream: TokenStream): JqExpression {
+  let left = parseJqCompare(stream)
+  while (stream.isIdent("and")) {
+    stream.next()
+    left = { type: "and", left, right: parseJqCompare(stream) }
+  }
+  return left
+}
+
+function parseJqCompare(stream: TokenStream): JqExpression {
+  const left = parseJqPostfix(stream)
+  const operator = COMPARATORS.find((candidate) => stream.isPunct(candidate))
+  if (!operator) {
+    return left
+  }
+  stream.next()
+  return { type: "compare", operator, left, right: parseJqPostfix(stream) }
+}
+
+function parseJqPostfix(stream: TokenStream): JqExpression {
+  let expression = parseJqPrimary(stream)
+
+  while (true) {
+    if (stream.isPunct(".") && (stream.peek(1)?.kind === "ident" || stream.peek(1)?.kind === "string")) {
+      stream.next()
+      expression = { type: "field", target: expression, name: stream.next().value }
+    } else if (stream.isPunct(".") && stream.isPunct("[", 1)) {
+      stream.next()
+    } else if (stream.accept("[")) {
+      expression = parseJqBracket(stream, expression)
+    } else if (stream.accept("?")) {
+      continue
+    } else {
+      return expression
+    }
+  }
+}
+
+function parseJqBracket(stream: TokenStream, target: JqExpression): JqExpression {
+  if (stream.accept("]")) {
+    return { type: "iterate", target }
+  }
+  const token = stream.next()
+  stream.expect("]")
+  if (token.kind === "string") {
+    return { type: "field", target, name: token.value }
+  }
+  if (token.kind === "number" && Number.isInteger(Number(token.value))) {
+    return { type: "index", target, index: Number(token.value) }
+  }
+  throw unexpected(token, "expected an index or key")
+}
+
+function parseJqPrimary(stream: TokenStream): JqExpression {
+  const token = stream.next()
+
+  if (token.kind === "punct") {
+    if (token.value === "..") return { type: "recurse" }
+    if (token.value === ".") {
+      const following = stream.peek()
+      if (following?.kind === "ident" || following?.kind === "string") {
+        stream.next()
+        return { type: "field", target: { type: "identity" }, name: following.value }
+      }
+      return { type: "identity" }
+    }
+    if (token.value === "(") {
+      const expression = parseJqPipe(stream)
+      stream.expect(")")
+      return expression
+    }
+  }
+
+  if (token.kind === "string") return { type: "literal", value: token.value }
+  if (token.kind === "number") return { type: "literal", value: Number(token.value) }
+
+  if (token.kind === "ident") {
+    if (["true", "false", "null"].includes(token.value)) {
+      return { type: "literal", value: JSON.parse(token.value) }
+    }
+    const name = JQ_FUNCTIONS.find((candidate) => candidate === token.value)
+    if (name === "select") {
+      stream.expect("(")
+      const argument = parseJqPipe(stream)
+      stream.expect(")")
+      return { type: "call", name, argument }
+    }
+    if (name) {
+      return { type: "call", name }
+    }
+    throw new Error(`Unsupported jq function "${token.value}" at position ${token.pos + 1}`)
+  }
+
+  throw unexpected(token)
+}
+
+function isTruthy(value: unknown): boolean {
+  return value !== null && value !== false && value !== undefined
+}
+
+const JQ_TYPE_RANK = (value: unknown): number => {
+  if (value === null) return 0
+  if (value === false) return 1
+  if (value === true) return 2
+  if (typeof value === "number") return 3
+  if (typeof value === "string") return 4
+  if (Array.isArray(value)) return 5
+  return 6
+}
+
+function orderJq(left: unknown, right: unknown): number {
+  const rankDifference = JQ_TYPE_RANK(left) - JQ_TYPE_RANK(right)
+  if (rankDifference !== 0) return rankDifference
+  if (typeof left === "number" && typeof right === "number") return left - right
+  const leftText = typeof left === "string" ? left : JSON.stringify(left)
+  const rightText = typeof right === "string" ? right : JSON.stringify(right)
+  return leftText < rightText ? -1 : leftText > rightText ? 1 : 0
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  return typeof value
+}
+
+function evaluateJq(expression: JqExpression, input: Located): Located[] {
+  switch (expression.type) {
+    case "identity":
+      return [input]
+    case "recurse":
+      return descendantsOf(input)
+    case "literal":
+      return [{ value: expression.value, segments: null }]
+    case "field":
+      return evaluateJq(expression.target, input).map((node) => {
+        if (node.value === null) {
+          return { value: null, segments: node.segments && [...node.segments, expression.name] }
+        }
+        if (!isContainer(node.value) || Array.isArray(node.value)) {
+          throw new Error(`Cannot index ${describeType(node.value)} with "${expression.name}"`)
+        }
+        return { value: node.value[expression.name] ?? null, segments: node.segments && [...node.segments, expression.name] }
+      })
+    case "index":
+      return evaluateJq(expression.target, input).map((node) => {
+        if (node.value === null) {
+          return { value: null, segments: null }
+        }
+        if (!Array.isArray(node.value)) {
+          throw new Error(`Cannot index ${describeType(node.value)} with number`)
+        }
+        const index = expression.index < 0 ? node.value.length + expression.index : expression.index
+        return { value: node.value[index] ?? null, segments: node.segments && [...node.segments, index] }
+      })
+    case "iterate":
+      return evaluateJq(expression.target, input).flatMap((node) => {
+        if (!isContainer(node.value)) {
+          throw new Error(`Cannot iterate over ${describeType(node.value)}`)
+        }
+        return childrenOf(node)
+      })
+    case "pipe":
+      return evaluateJq(expression.left, input).flatMap((node) => evaluateJq(expression.right, node))
+    case "comma":
+      return [...evaluateJq(expression.left, input), ...evaluateJq(expression.right, input)]
+    case "and":
+    case "or":
+      return evaluateJq(expression.left, input).flatMap((left) => {
+        if (expression.type === "and" && !isTruthy(left.value)) return [{ value: false, segments: null }]
+        if (expression.type === "or" && isTruthy(left.value)) return [{ value: true, segments: null }]
+        return evaluateJq(expression.right, input).map((right) => ({ value: isTruthy(right.value), segments: null }))
+      })
+    case "compare":
+      return evaluateJq(expression.right, input).flatMap((right) =>
+        evaluateJq(expression.left, input).map((left) => ({
+          value: compareValues(expression.operator, left.value, right.value, orderJq),
+          segments: null,
+        }))
+      )
+    case "call":
+      return evaluateJqCall(expression.name, expression.argument, input)
+  }
+}
+
+function evaluateJqCall(name: (typeof JQ_FUNCTIONS)[number], argument: JqExpression | undefined, input: Located): Located[] {
+  const { value } = input
+
+  switch (name) {
+    case "select":
+      return evaluateJq(argument!, input).filter((result) => isTruthy(result.value)).map(() => input)
+    case "not":
+      return [{ value: !isTruthy(value), segments: null }]
+    case "empty":
+      return []
+    case "length": {
+      if (value === null) return [{ value: 0, segments: null }]
+      if (typeof value === "number") return [{ value: Math.abs(value), segments: null }]
+      if (typeof value === "string" || Array.isArray(value)) return [{ value: value.length, segments: null }]
+      if (isContainer(value)) return [{ value: Object.keys(value).length, segments: null }]
+      throw new Error(`${describeType(value)} has no length`)
+    }
+    case "keys": {
+      if (Array.isArray(value)) return [{ value: value.map((_, index) => index), segments: null }]
+      if (isContainer(value)) return [{ value: Object.keys(value).sort(), segments: null }]
+      throw new Error(`${describeType(value)} has no keys`)
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+function segmentsToPath(segments: Segment[]): string {
+  return segments.reduce<string>((path, segment) => joinJsonPath(path, segment), "")
+}
+
+export function detectQuerySyntax(query: string): QuerySyntax {
+  return query.trim().startsWith("$") ? "jsonpath" : "jq"
+}
+
+export function runJsonQuery(document: unknown, query: string): QueryResult {
+  const trimmed = query.trim()
+  if (!trimmed) {
+    throw new Error("Query is empty")
+  }
+
+  const syntax = detectQuerySyntax(trimmed)
+  const located =
+    syntax === "jsonpath"
+      ? evaluateJsonPath(document, trimmed)
+      : evaluateJq(parseJq(trimmed), { value: document, segments: [] })
+
+  return {
+    syntax,
+    matches: located.map((node) => ({
+      path: node.segments ? segmentsToPath(node.segments) : null,
+      value: node.value,
+    })),
+  }
+}
+
+export type { QueryMatch, QueryResult, QuerySyntax }
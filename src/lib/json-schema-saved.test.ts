@@ -0,0 +1,31 @@
+import { describe, expect, test } from "bun:test"
+import { parseSavedJsonSchemas } from "@/lib/json-schema-saved"
+
+describe("json-schema-saved", () => {
+  test("loads valid stored schemas", () => {
+    const schemas = parseSavedJsonSchemas(JSON.stringify([
+      {
+        id: "schema-1",
+        name: "Order",
+        schema: "{\"type\":\"object\"}",
+        createdAt: "2026-03-08T00:00:00.000Z"
+      }
+    ]))
+
+    expect(schemas).toHaveLength(1)
+    expect(schemas[0]?.name).toBe("Order")
+  })
+
+  test("returns empty list for null, invalid JSON and non-array payloads", () => {
+    expect(parseSavedJsonSchemas(null)).toEqual([])
+    expect(parseSavedJsonSchemas("not-json")).toEqual([])
+    expect(parseSavedJsonSchemas(JSON.stringify({ id: "not-an-array" }))).toEqual([])
+  })
+
+  test("rejects malformed entries", () => {
+    expect(
+      parseSavedJsonSchemas(JSON.stringify([{ id: "1", name: "", schema: "{}", createdAt: "2026-03-08T00:00:00.000Z" }]))
+    ).toEqual([])
+    expect(parseSavedJsonSchemas(JSON.stringify([{ id: "1", name: "Order", schema: {}, createdAt: "date" }]))).toEqual([])
+  })
+})
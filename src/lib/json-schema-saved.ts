@@ -0,0 +1,69 @@
+export type SavedJsonSchema = {
+  id: string
+  name: string
+  schema: string
+  createdAt: string
+}
+
+export const JSON_SCHEMAS_KEY = "codelessshipmore:json-schemas"
+
+function isSavedJsonSchema(value: unknown): value is SavedJsonSchema {
+  if (!value || typeof value !== "object") {
+    return false
+  }
+
+  const candidate = value as Record<string, unknown>
+
+  return (
+    typeof candidate.id === "string" &&
+    candidate.id.length > 0 &&
+    typeof candidate.name === "string" &&
+    candidate.name.length > 0 &&
+    typeof candidate.schema === "string" &&
+    typeof candidate.createdAt === "string" &&
+    !Number.isNaN(Date.parse(candidate.createdAt))
+  )
+}
+
+export function parseSavedJsonSchemas(value: string | null): SavedJsonSchema[] {
+  if (!value) {
+    return []
+  }
+
+  try {
+    const parsed = JSON.parse(value)
+
+    if (!Array.isArray(parsed) || !parsed.every(isSavedJsonSchema)) {
+      return []
+    }
+
+    return parsed
+  } catch {
+    return []
+  }
+}
+
+export function loadSavedJsonSchemas() {
+  if (typeof window === "undefined") {
+    return []
+  }
+
+  try {
+    return parseSavedJsonSchemas(window.localStorage.getItem(JSON_SCHEMAS_KEY))
+  } catch {
+    return []
+  }
+}
+
+export function saveJsonSchemas(schemas: SavedJsonSchema[]) {
+  if (typeof window === "undefined") {
+    return false
+  }
+
+  try {
+    window.localStorage.setItem(JSON_SCHEMAS_KEY, JSON.stringify(schemas))
+    return true
+  } catch {
+    return false
+  }
+}
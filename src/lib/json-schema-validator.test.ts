@@ -0,0 +1,117 @@
+import { describe, expect, test } from "bun:test"
+import { countViolationsByPath, validateJsonSchema } from "@/lib/json-schema-validator"
+
+const orderSchema = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  type: "object",
+  required: ["id", "items"],
+  additionalProperties: false,
+  properties: {
+    id: { type: "integer", minimum: 1 },
+    status: { enum: ["OPEN", "CLOSED"] },
+    createdAt: { type: "string", format: "date-time" },
+    items: { type: "array", minItems: 1, items: { $ref: "#/$defs/item" } },
+  },
+  $defs: {
+    item: {
+      type: "object",
+      required: ["sku"],
+      properties: {
+        sku: { type: "string", pattern: "^[A-Z]{3}-\\d+$" },
+        quantity: { type: "number", exclusiveMinimum: 0 },
+      },
+    },
+  },
+}
+
+describe("json-schema-validator", () => {
+  test("accepts a valid document", () => {
+    const order = { id: 7, status: "OPEN", createdAt: "2026-03-08T10:00:00Z", items: [{ sku: "ABC-1", quantity: 2 }] }
+    expect(validateJsonSchema(order, orderSchema)).toEqual([])
+  })
+
+  test("reports violations with tree paths, pointers and keywords", () => {
+    const order = { id: 0, status: "PENDING", extra: true, items: [{ sku: "abc", quantity: 0 }, {}] }
+    const violations = validateJsonSchema(order, orderSchema)
+
+    expect(violations.map(({ path, keyword }) => [path, keyword])).toEqual([
+      ["id", "minimum"],
+      ["status", "enum"],
+      ["extra", "additionalProperties"],
+      ["items[0].sku", "pattern"],
+      ["items[0].quantity", "exclusiveMinimum"],
+      ["items[1]", "required"],
+    ])
+    expect(violations[3]).toMatchObject({
+      instancePath: "/items/0/sku",
+      schemaPath: "#/properties/items/items/$ref/properties/sku/pattern",
+    })
+    expect(violations[5]?.message).toBe('Missing required property "sku"')
+  })
+
+  test("stops at a type mismatch instead of repeating it", () => {
+    expect(validateJsonSchema("x", { type: ["number", "null"], minimum: 3 })).toEqual([
+      { path: "", instancePath: "", schemaPath: "#/type", keyword: "type", message: "Expected number or null but got string" },
+    ])
+  })
+
+  test("evaluates combinators and conditionals", () => {
+    const schema = {
+      oneOf: [{ type: "string" }, { type: "number" }],
+      not: { const: 3 },
+    }
+    expect(validateJsonSchema(3, schema).map((violation) => violation.keyword)).toEqual(["not"])
+    expect(validateJsonSchema(true, schema).map((violation) => violation.keyword)).toEqual(["oneOf"])
+
+    const conditional = {
+      if: { properties: { kind: { const: "card" } } },
+      then: { required: ["cardNumber"] },
+      else: { required: ["iban"] },
+    }
+    expect(validateJsonSchema({ kind: "card" }, conditional)[0]?.message).toBe('Missing required property "cardNumber"')
+    expect(validateJsonSchema({ kind: "bank" }, conditional)[0]?.message).toBe('Missing required property "iban"')
+  })
+
+  test("supports draft-07 tuples, definitions and uniqueItems", () => {
+    const schema = {
+      definitions: { point: { type: "array", items: [{ type: "number" }, { type: "number" }], additionalItems: false } },
+      type: "array",
+      uniqueItems: true,
+      items: { $ref: "#/definitions/point" },
+    }
+    const violations = validateJsonSchema([[1, 2], [1, 2], [1, "y", 3]], schema)
+
+    expect(violations.map(({ path, keyword }) => [path, keyword])).toEqual([
+      ["", "uniqueItems"],
+      ["[2][1]", "type"],
+      ["[2][2]", "false"],
+    ])
+  })
+
+  test("checks dependentRequired against own properties only", () => {
+    const schema = { dependentRequired: { card: ["toString"], constructor: ["billing"] } }
+
+    expect(validateJsonSchema({ card: "4111" }, schema).map((violation) => violation.message)).toEqual([
+      'Property "toString" is required when "card" is present',
+    ])
+    expect(validateJsonSchema({}, schema)).toEqual([])
+  })
+
+  test("limits $ref hops but not the depth of the document", () => {
+    let deep: unknown = "leaf"
+    for (let level = 0; level < 150; level++) deep = { child: deep }
+    const tree = { $defs: { node: { anyOf: [{ type: "string" }, { properties: { child: { $ref: "#/$defs/node" } } }] } }, $ref: "#/$defs/node" }
+
+    expect(validateJsonSchema(deep, tree)).toEqual([])
+    expect(() => validateJsonSchema(1, { $defs: { a: { $ref: "#/$defs/b" }, b: { allOf: [{ $ref: "#/$defs/a" }] } }, $ref: "#/$defs/a" })).toThrow(
+      "Schema $ref nesting is too deep"
+    )
+  })
+
+  test("counts violations per path and rejects invalid schemas", () => {
+    const violations = validateJsonSchema({ a: "x" }, { properties: { a: { type: "string", minLength: 2, pattern: "^y" } } })
+    expect(countViolationsByPath(violations).get("a")).toBe(2)
+    expect(() => validateJsonSchema({}, [])).toThrow("A JSON Schema must be an object or a boolean")
+    expect(() => validateJsonSchema({}, { $ref: "https://example.com/schema" })).toThrow("Only local $ref values are supported")
+  })
+})
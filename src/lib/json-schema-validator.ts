@@ -0,0 +1,368 @@
+import { deepEqualJson } from "@/lib/json-diff"
+import { getJsonNodeType, joinJsonPath } from "@/lib/json-utils"
+
+interface SchemaViolation {
+  /** Tree path of the offending value, matching `JsonNode.path`. */
+  path: string
+  /** JSON Pointer of the offending value, e.g. `/items/0/id`. */
+  instancePath: string
+  /** JSON Pointer of the failing keyword within the schema. */
+  schemaPath: string
+  keyword: string
+  message: string
+}
+
+type Schema = boolean | Record<string, unknown>
+
+interface Location {
+  path: string
+  pointer: string
+}
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  "date-time": /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:[Zz]|[+-]\d{2}:\d{2})$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  time: /^\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:[Zz]|[+-]\d{2}:\d{2})?$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}$/,
+  uri: /^[A-Za-z][A-Za-z\d+.-]*:[^\s]*$/,
+  ipv4: /^(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)$/,
+}
+
+/** `$ref` hops allowed without moving into a child value; more means the references loop. */
+const MAX_REF_DEPTH = 100
+
+function isSchemaObject(schema: unknown): schema is Record<string, unknown> {
+  return schema !== null && typeof schema === "object" && !Array.isArray(schema)
+}
+
+function escapePointer(segment: string | number): string {
+  return String(segment).replace(/~/g, "~0").replace(/\//g, "~1")
+}
+
+function child(location: Location, segment: string | number): Location {
+  return {
+    path: joinJsonPath(location.path, segment),
+    pointer: `${location.pointer}/${escapePointer(segment)}`,
+  }
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = getJsonNodeType(value)
+  if (type === "integer") return actual === "number" && Number.isInteger(value)
+  return actual === type
+}
+
+function describe(value: unknown): string {
+  const text = JSON.stringify(value)
+  return text.length > 40 ? `${text.slice(0, 37)}...` : text
+}
+
+function resolvePointer(root: Schema, ref: string): Schema {
+  if (!ref.startsWith("#")) {
+    throw new Error(`Only local $ref values are supported: ${ref}`)
+  }
+
+  const segments = ref
+    .slice(1)
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~"))
+
+  let current: unknown = root
+  for (const segment of segments) {
+    if (!isSchemaObject(current) && !Array.isArray(current)) {
+      throw new Error(`Unresolvable $ref: ${ref}`)
+    }
+    current = (current as Record<string, unknown>)[segment]
+  }
+
+  if (typeof current !== "boolean" && !isSchemaObject(current)) {
+    throw new Error(`Unresolvable $ref: ${ref}`)
+  }
+  return current
+}
+
+class SchemaValidator {
+  constructor(private readonly root: Schema) {}
+
+  validate(value: unknown, schema: Schema, location: Location, schemaPath: string, refDepth = 0): SchemaViolation[] {
+    if (schema === true) return []
+    if (schema === false) {
+      return [this.violation(location, schemaPath, "false", "No value is allowed here")]
+    }
+    if (refDepth > MAX_REF_DEPTH) {
+      throw new Error("Schema $ref nesting is too deep")
+    }
+
+    const errors: SchemaViolation[] = []
+    const report = (keyword: string, message: string) => {
+      errors.push(this.violation(location, `${schemaPath}/${keyword}`, keyword, message))
+    }
+
+    if (typeof schema.$ref === "string") {
+      errors.push(...this.validate(value, resolvePointer(this.root, schema.$ref), location, `${schemaPath}/$ref`, refDepth + 1))
+    }
+
+    if (schema.type !== undefined) {
+      const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string]
+      if (!types.some((type) => matchesType(value, type))) {
+        report("type", `Expected ${types.join(" or ")} but got ${getJsonNodeType(value)}`)
+        // Other keywords would only repeat the type mismatch.
+        return errors
+      }
+    }
+
+    if (Array.isArray(schema.enum) && !schema.enum.some((option) => deepEqualJson(option, value))) {
+      report("enum", `Must be one of ${schema.enum.map(describe).join(", ")}`)
+    }
+    if ("const" in schema && !deepEqualJson(schema.const, value)) {
+      report("const", `Must equal ${describe(schema.const)}`)
+    }
+
+    if (typeof value === "number") this.validateNumber(value, schema, report)
+    if (typeof value === "string") this.validateString(value, schema, report)
+    if (Array.isArray(value)) errors.push(...this.validateArray(value, schema, location, schemaPath, report))
+    else if (isSchemaObject(value)) errors.push(...this.validateObject(value, schema, location, schemaPath, report))
+
+    errors.push(...this.validateCombinators(value, schema, location, schemaPath, refDepth, report))
+    return errors
+  }
+
+  private violation(location: Location, schemaPath: string, keyword: string, message: string): SchemaViolation {
+    return { path: location.path, instancePath: location.pointer, schemaPath: schemaPath || "#", keyword, message }
+  }
+
+  private validateNumber(value: number, schema: Record<string, unknown>, report: (keyword: string, message: string) => void) {
+    const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf } = schema
+
+    if (typeof minimum === "number") {
+      if (exclusiveMinimum === true ? value <= minimum : value < minimum) {
+        report("minimum", `Must be ${exclusiveMinimum === true ? ">" : ">="} ${minimum}`)
+      }
+    }
+    if (typeof maximum === "number") {
+      if (exclusiveMaximum === true ? value >= maximum : value > maximum) {
+        report("maximum", `Must be ${exclusiveMaximum === true ? "<" : "<="} ${maximum}`)
+      }
+    }
+    if (typeof exclusiveMinimum === "number" && value <= exclusiveMinimum) {
+      report("exclusiveMinimum", `Must be > ${exclusiveMinimum}`)
+    }
+    if (typeof exclusiveMaximum === "number" && value >= exclusiveMaximum) {
+      report("exclusiveMaximum", `Must be < ${exclusiveMaximum}`)
+    }
+    if (typeof multipleOf === "number" && multipleOf > 0) {
+      const quotient = value / multipleOf
+      if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+        report("multipleOf", `Must be a multiple of ${multipleOf}`)
+      }
+    }
+  }
+
+  private validateString(value: string, schema: Record<string, unknown>, report: (keyword: string, message: string) => void) {
+    const length = [...value].length
+
+    if (typeof schema.minLength === "number" && length < schema.minLength) {
+      report("minLength", `Must be at least ${schema.minLength} characters`)
+    }
+    if (typeof schema.maxLength === "number" && length > schema.maxLength) {
+      report("maxLength", `Must be at most ${schema.maxLength} characters`)
+    }
+    if (typeof schema.pattern === "string" && !new RegExp(schema.pattern, "u").test(value)) {
+      report("pattern", `Must match pattern ${schema.pattern}`)
+    }
+    if (typeof schema.format === "string") {
+      const pattern = FORMAT_PATTERNS[schema.format]
+      const invalidDate = (schema.format === "date" || schema.format === "date-time") && Number.isNaN(Date.parse(value))
+      if ((pattern && !pattern.test(value)) || invalidDate) {
+        report("format", `Must be a valid ${schema.format}`)
+      }
+    }
+  }
+
+  private validateArray(
+    value: unknown[],
+    schema: Record<string, unknown>,
+    location: Location,
+    schemaPath: string,
+    report: (keyword: string, message: string) => void
+  ): SchemaViolation[] {
+    const errors: SchemaViolation[] = []
+
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      report("minItems", `Must contain at least ${schema.minItems} items`)
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      report("maxItems", `Must contain at most ${schema.maxItems} items`)
+    }
+    if (schema.uniqueItems === true) {
+      const duplicate = value.findIndex((item, index) => value.slice(0, index).some((other) => deepEqualJson(item, other)))
+      if (duplicate !== -1) {
+        report("uniqueItems", `Item ${duplicate} is a duplicate`)
+      }
+    }
+
+    // Draft 2020-12 uses prefixItems + items; earlier drafts use an items array + additionalItems.
+    const tuple = Array.isArray(schema.prefixItems)
+      ? { schemas: schema.prefixItems as Schema[], keyword: "prefixItems", rest: schema.items, restKeyword: "items" }
+      : Array.isArray(schema.items)
+        ? { schemas: schema.items as Schema[], keyword: "items", rest: schema.additionalItems, restKeyword: "additionalItems" }
+        : { schemas: [], keyword: "prefixItems", rest: schema.items, restKeyword: "items" }
+
+    value.forEach((item, index) => {
+      const itemLocation = child(location, index)
+      if (index < tuple.schemas.length) {
+        errors.push(...this.validate(item, tuple.schemas[index], itemLocation, `${schemaPath}/${tuple.keyword}/${index}`))
+      } else if (tuple.rest !== undefined) {
+        errors.push(...this.validate(item, tuple.rest as Schema, itemLocation, `${schemaPath}/${tuple.restKeyword}`))
+      }
+    })
+
+    if (schema.contains !== undefined) {
+      const matches = value.filter((item, index) =>
+        this.validate(item, schema.contains as Schema, child(location, index), `${schemaPath}/contains`).length === 0
+      ).length
+      const minContains = typeof schema.minContains === "number" ? schema.minContains : 1
+      if (matches < minContains) {
+        report("contains", `Must contain at least ${minContains} matching item${minContains === 1 ? "" : "s"}`)
+      }
+      if (typeof schema.maxContains === "number" && matches > schema.maxContains) {
+        report("maxContains", `Must contain at most ${schema.maxContains} matching items`)
+      }
+    }
+
+    return errors
+  }
+
+  private validateObject(
+    value: Record<string, unknown>,
+    schema: Record<string, unknown>,
+    location: Location,
+    schemaPath: string,
+    report: (keyword: string, message: string) => void
+  ): SchemaViolation[] {
+    const errors: SchemaViolation[] = []
+    const keys = Object.keys(value)
+    const properties = isSchemaObject(schema.properties) ? (schema.properties as Record<string, Schema>) : {}
+    const patternProperties = isSchemaObject(schema.patternProperties)
+      ? (schema.patternProperties as Record<string, Schema>)
+      : {}
+
+    if (Array.isArray(schema.required)) {
+      for (const key of schema.required as string[]) {
+        if (!Object.prototype.hasOwnProperty.call(value, key)) {
+          report("required", `Missing required property "${key}"`)
+        }
+      }
+    }
+    if (typeof schema.minProperties === "number" && keys.length < schema.minProperties) {
+      report("minProperties", `Must have at least ${schema.minProperties} properties`)
+    }
+    if (typeof schema.maxProperties === "number" && keys.length > schema.maxProperties) {
+      report("maxProperties", `Must have at most ${schema.maxProperties} properties`)
+    }
+
+    const dependentRequired = isSchemaObject(schema.dependentRequired) ? schema.dependentRequired : {}
+    for (const [key, dependencies] of Object.entries(dependentRequired)) {
+      if (!Object.prototype.hasOwnProperty.call(value, key) || !Array.isArray(dependencies)) continue
+      for (const dependency of dependencies as string[]) {
+        if (!Object.prototype.hasOwnProperty.call(value, dependency)) {
+          report("dependentRequired", `Property "${dependency}" is required when "${key}" is present`)
+        }
+      }
+    }
+
+    for (const key of keys) {
+      const keyLocation = child(location, key)
+      let evaluated = false
+
+      if (Object.prototype.hasOwnProperty.call(properties, key)) {
+        evaluated = true
+        errors.push(...this.validate(value[key], properties[key], keyLocation, `${schemaPath}/properties/${escapePointer(key)}`))
+      }
+      for (const [pattern, patternSchema] of Object.entries(patternProperties)) {
+        if (new RegExp(pattern, "u").test(key)) {
+          evaluated = true
+          errors.push(...this.validate(value[key], patternSchema, keyLocation, `${schemaPath}/patternProperties/${escapePointer(pattern)}`))
+        }
+      }
+
+      if (!evaluated && schema.additionalProperties !== undefined) {
+        if (schema.additionalProperties === false) {
+          errors.push(this.violation(keyLocation, `${schemaPath}/additionalProperties`, "additionalProperties", `Property "${key}" is not allowed`))
+        } else {
+          errors.push(...this.validate(value[key], schema.additionalProperties as Schema, keyLocation, `${schemaPath}/additionalProperties`))
+        }
+      }
+
+      if (schema.propertyNames !== undefined) {
+        const nameErrors = this.validate(key, schema.propertyNames as Schema, keyLocation, `${schemaPath}/propertyNames`)
+        if (nameErrors.length > 0) {
+          errors.push(this.violation(keyLocation, `${schemaPath}/propertyNames`, "propertyNames", `Property name "${key}" is invalid: ${nameErrors[0].message}`))
+        }
+      }
+    }
+
+    return errors
+  }
+
+  private validateCombinators(
+    value: unknown,
+    schema: Record<string, unknown>,
+    location: Location,
+    schemaPath: string,
+    refDepth: number,
+    report: (keyword: string, message: string) => void
+  ): SchemaViolation[] {
+    const errors: SchemaViolation[] = []
+    // Subschemas apply to the same value, so `$ref` hops made through them still count.
+    const run = (subschema: unknown, path: string) => this.validate(value, subschema as Schema, location, path, refDepth)
+
+    if (Array.isArray(schema.allOf)) {
+      schema.allOf.forEach((subschema, index) => errors.push(...run(subschema, `${schemaPath}/allOf/${index}`)))
+    }
+    if (Array.isArray(schema.anyOf)) {
+      const results = schema.anyOf.map((subschema, index) => run(subschema, `${schemaPath}/anyOf/${index}`))
+      if (results.every((result) => result.length > 0)) {
+        report("anyOf", "Must match at least one schema in anyOf")
+      }
+    }
+    if (Array.isArray(schema.oneOf)) {
+      const passing = schema.oneOf.filter((subschema, index) => run(subschema, `${schemaPath}/oneOf/${index}`).length === 0).length
+      if (passing !== 1) {
+        report("oneOf", `Must match exactly one schema in oneOf (matched ${passing})`)
+      }
+    }
+    if (schema.not !== undefined && run(schema.not, `${schemaPath}/not`).length === 0) {
+      report("not", "Must not match the schema in not")
+    }
+    if (schema.if !== undefined) {
+      const branch = run(schema.if, `${schemaPath}/if`).length === 0 ? "then" : "else"
+      if (schema[branch] !== undefined) {
+        errors.push(...run(schema[branch], `${schemaPath}/${branch}`))
+      }
+    }
+
+    return errors
+  }
+}
+
+/** Validates a document against a JSON Schema (draft-07 through 2020-12, local `$ref` only). */
+export function validateJsonSchema(value: unknown, schema: unknown): SchemaViolation[] {
+  if (typeof schema !== "boolean" && !isSchemaObject(schema)) {
+    throw new Error("A JSON Schema must be an object or a boolean")
+  }
+  return new SchemaValidator(schema).validate(value, schema, { path: "", pointer: "" }, "#")
+}
+
+/** Counts violations per tree path so rows can show an error badge. */
+export function countViolationsByPath(violations: SchemaViolation[]): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const violation of violations) {
+    counts.set(violation.path, (counts.get(violation.path) ?? 0) + 1)
+  }
+  return counts
+}
+
+export type { SchemaViolation }
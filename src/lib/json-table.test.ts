@@ -0,0 +1,65 @@
+import { describe, expect, test } from "bun:test"
+import {
+  buildJsonTable,
+  filterTableRows,
+  findTableCandidates,
+  formatTableCell,
+  sortTableRows,
+} from "@/lib/json-table"
+
+const document = {
+  meta: { count: 4 },
+  users: [
+    { id: 3, name: "Grace", age: 85, roles: [{ name: "admin" }] },
+    { id: 1, name: "ada", age: null },
+    { id: 4, name: "Linus", age: 54, email: "linus@example.com" },
+    { id: 2, name: "Barbara" },
+  ],
+  tags: ["a", "b"],
+}
+
+describe("json-table", () => {
+  test("finds arrays of objects, shallowest first", () => {
+    expect(findTableCandidates(document)).toEqual(["users", "users[0].roles"])
+    expect(findTableCandidates([{ a: 1 }])).toEqual([""])
+    expect(findTableCandidates({ empty: [], mixed: [{ a: 1 }, 2] })).toEqual([])
+  })
+
+  test("builds columns from the union of record keys", () => {
+    const table = buildJsonTable(document, "users")
+
+    expect(table.columns).toEqual(["id", "name", "age", "roles", "email"])
+    expect(table.rows.map((row) => row.index)).toEqual([0, 1, 2, 3])
+    expect(table.rows[1].record).toEqual({ id: 1, name: "ada", age: null })
+  })
+
+  test("rejects paths that are not arrays of objects", () => {
+    expect(() => buildJsonTable(document, "tags")).toThrow("tags is not an array of objects")
+    expect(() => buildJsonTable(document, "missing")).toThrow("missing is not an array of objects")
+    expect(() => buildJsonTable(document, "")).toThrow("The root value is not an array of objects")
+  })
+
+  test("formats cells for display and filtering", () => {
+    expect(formatTableCell(undefined)).toBe("")
+    expect(formatTableCell("text")).toBe("text")
+    expect(formatTableCell(null)).toBe("null")
+    expect(formatTableCell({ a: [1] })).toBe('{"a":[1]}')
+  })
+
+  test("filters rows by a case-insensitive match in any column", () => {
+    const table = buildJsonTable(document, "users")
+
+    expect(filterTableRows(table.rows, table.columns, "ADA").map((row) => row.index)).toEqual([1])
+    expect(filterTableRows(table.rows, table.columns, "admin").map((row) => row.index)).toEqual([0])
+    expect(filterTableRows(table.rows, table.columns, "  ")).toBe(table.rows)
+  })
+
+  test("sorts numbers and strings with missing cells last in both directions", () => {
+    const { rows } = buildJsonTable(document, "users")
+
+    expect(sortTableRows(rows, "age", "asc").map((row) => row.index)).toEqual([2, 0, 1, 3])
+    expect(sortTableRows(rows, "age", "desc").map((row) => row.index)).toEqual([0, 2, 1, 3])
+    expect(sortTableRows(rows, "name", "asc").map((row) => row.record.name)).toEqual(["ada", "Barbara", "Grace", "Linus"])
+    expect(rows.map((row) => row.index)).toEqual([0, 1, 2, 3])
+  })
+})
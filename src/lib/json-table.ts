@@ -0,0 +1,117 @@
+import { getJsonNodeType, joinJsonPath, resolveJsonPath } from "@/lib/json-utils"
+
+interface JsonTableRow {
+  /** Position of the record in the source array, kept stable across sorting and filtering. */
+  index: number
+  record: Record<string, unknown>
+}
+
+interface JsonTable {
+  path: string
+  columns: string[]
+  rows: JsonTableRow[]
+}
+
+type SortDirection = "asc" | "desc"
+
+const MAX_TABLE_CANDIDATES = 50
+const MAX_CANDIDATE_DEPTH = 6
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return getJsonNodeType(value) === "object"
+}
+
+function isRecordArray(value: unknown): value is Record<string, unknown>[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isPlainObject)
+}
+
+/** Lists paths of arrays of objects, breadth-first so the shallowest tables come first. */
+export function findTableCandidates(value: unknown): string[] {
+  const candidates: string[] = []
+  const queue: Array<{ value: unknown; path: string; depth: number }> = [{ value, path: "", depth: 0 }]
+
+  while (queue.length > 0 && candidates.length < MAX_TABLE_CANDIDATES) {
+    const entry = queue.shift()!
+
+    if (isRecordArray(entry.value)) {
+      candidates.push(entry.path)
+    }
+    if (entry.depth >= MAX_CANDIDATE_DEPTH) continue
+
+    if (Array.isArray(entry.value)) {
+      // Records of a table share a shape, so the first item is enough to find nested tables.
+      if (entry.value.length > 0) {
+        queue.push({ value: entry.value[0], path: joinJsonPath(entry.path, 0), depth: entry.depth + 1 })
+      }
+    } else if (isPlainObject(entry.value)) {
+      for (const [key, child] of Object.entries(entry.value)) {
+        queue.push({ value: child, path: joinJsonPath(entry.path, key), depth: entry.depth + 1 })
+      }
+    }
+  }
+
+  return candidates
+}
+
+/** Builds a table from the array of objects at `path`, with the union of keys as columns. */
+export function buildJsonTable(value: unknown, path: string): JsonTable {
+  const segments = resolveJsonPath(value, path)
+  const target = segments?.reduce<unknown>((current, segment) => (current as Record<string, unknown>)[segment], value)
+
+  if (!isRecordArray(target)) {
+    throw new Error(`${path || "The root value"} is not an array of objects`)
+  }
+
+  const columns = new Set<string>()
+  for (const record of target) {
+    for (const key of Object.keys(record)) {
+      columns.add(key)
+    }
+  }
+
+  return {
+    path,
+    columns: [...columns],
+    rows: target.map((record, index) => ({ index, record })),
+  }
+}
+
+export function formatTableCell(value: unknown): string {
+  if (value === undefined) return ""
+  if (typeof value === "string") return value
+  return JSON.stringify(value)
+}
+
+export function filterTableRows(rows: JsonTableRow[], columns: string[], query: string): JsonTableRow[] {
+  const needle = query.trim().toLowerCase()
+  if (!needle) return rows
+
+  return rows.filter((row) =>
+    columns.some((column) => formatTableCell(row.record[column]).toLowerCase().includes(needle))
+  )
+}
+
+function compareCells(left: unknown, right: unknown): number {
+  if (typeof left === "number" && typeof right === "number") return left - right
+  if (typeof left === "boolean" && typeof right === "boolean") return Number(left) - Number(right)
+  return formatTableCell(left).localeCompare(formatTableCell(right), undefined, { numeric: true })
+}
+
+/** Sorts by a column; missing and null cells always sort last. */
+export function sortTableRows(rows: JsonTableRow[], column: string, direction: SortDirection): JsonTableRow[] {
+  const sign = direction === "asc" ? 1 : -1
+
+  return [...rows].sort((left, right) => {
+    const leftValue = left.record[column]
+    const rightValue = right.record[column]
+    const leftMissing = leftValue === undefined || leftValue === null
+    const rightMissing = rightValue === undefined || rightValue === null
+
+    if (leftMissing || rightMissing) {
+      return leftMissing === rightMissing ? left.index - right.index : leftMissing ? 1 : -1
+    }
+    return sign * compareCells(leftValue, rightValue) || left.index - right.index
+  })
+}
+
+export type { JsonTable, JsonTableRow, SortDirection }
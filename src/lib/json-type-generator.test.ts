@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test"
+import { generateTypes, inferJsonShape } from "@/lib/json-type-generator"
+
+const orders = {
+  id: 9007199254,
+  createdAt: "2024-05-01T10:00:00Z",
+  items: [
+    { sku: "a", status: "OK", price: 1.5 },
+    { sku: "b", status: "FAILED" },
+    { sku: "c", status: "OK", price: null },
+    { sku: "d", status: "FAILED", price: 2 },
+  ],
+}
+
+describe("json-type-generator", () => {
+  test("merges array element shapes", () => {
+    const shape = inferJsonShape(orders)
+    const items = shape.object?.fields.get("items")?.array?.items
+    expect(items?.count).toBe(4)
+    expect(items?.object?.fields.get("price")?.count).toBe(3)
+    expect(items?.object?.fields.get("price")?.nullCount).toBe(1)
+  })
+
+  test("emits TypeScript interfaces with optional, nullable and enum fields", () => {
+    expect(generateTypes(orders, "typescript", "Order")).toBe(`export interface Order {
+  id: number
+  createdAt: string // ISO date-time
+  items: Item[]
+}
+
+export interface Item {
+  sku: string
+  status: "FAILED" | "OK"
+  price?: number | null
+}
+`)
+  })
+
+  test("emits Zod schemas with dependencies declared first", () => {
+    const output = generateTypes(orders, "zod", "Order")
+    expect(output.indexOf("ItemSchema = z.object")).toBeLessThan(output.indexOf("OrderSchema = z.object"))
+    expect(output).toContain('status: z.enum(["FAILED", "OK"]),')
+    expect(output).toContain("price: z.number().nullable().optional(),")
+    expect(output).toContain("id: z.number().int(),")
+  })
+
+  test("emits Java records with nested types and wide integers", () => {
+    const output = generateTypes({ ...orders, "order-type": "web" }, "java", "Order")
+    expect(output).toContain("public record Order(")
+    expect(output).toContain("    Long id,")
+    expect(output).toContain("    OffsetDateTime createdAt,")
+    expect(output).toContain('@JsonProperty("order-type") String orderType')
+    expect(output).toContain("    public record Item(")
+    expect(output).toContain("    public enum Status {")
+    expect(output).toContain("import java.util.List;")
+  })
+
+  test("emits JSON Schema draft 2020-12", () => {
+    const schema = JSON.parse(generateTypes(orders, "json-schema", "Order"))
+    expect(schema.$schema).toBe("https://json-schema.org/draft/2020-12/schema")
+    expect(schema.properties.createdAt).toEqual({ type: "string", format: "date-time" })
+    expect(schema.properties.items).toEqual({ type: "array", items: { $ref: "#/$defs/Item" } })
+    expect(schema.$defs.Item.required).toEqual(["sku", "status"])
+    expect(schema.$defs.Item.properties.price).toEqual({ type: ["number", "null"] })
+  })
+
+  test("handles non-object roots", () => {
+    expect(generateTypes([1, 2.5], "typescript")).toBe("export type Root = number[]\n")
+    expect(generateTypes([], "zod")).toContain("export const RootSchema = z.array(z.unknown())")
+  })
+})
@@ -0,0 +1,566 @@
+import { getJsonNodeType } from "@/lib/json-utils"
+
+type TypeTarget = "typescript" | "zod" | "java" | "json-schema"
+
+/**
+ * Aggregated observations for every value seen at one position in the document.
+ * Array items and repeated objects are merged into a single shape, so a field is
+ * optional when it is missing from some objects and nullable when any sample was null.
+ */
+interface Shape {
+  count: number
+  nullCount: number
+  booleanCount: number
+  integerCount: number
+  floatCount: number
+  maxAbsInteger: number
+  strings: StringShape | null
+  array: ArrayShape | null
+  object: ObjectShape | null
+}
+
+interface StringShape {
+  count: number
+  values: Set<string>
+  dateTimes: number
+  dates: number
+}
+
+interface ArrayShape {
+  count: number
+  items: Shape
+}
+
+interface ObjectShape {
+  count: number
+  fields: Map<string, Shape>
+}
+
+const MAX_ENUM_VALUES = 5
+const MAX_ENUM_VALUE_LENGTH = 40
+const MAX_JAVA_INT = 2 ** 31 - 1
+
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?$/
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/
+
+const TARGET_LABELS: Record<TypeTarget, string> = {
+  typescript: "TypeScript",
+  zod: "Zod",
+  java: "Java record",
+  "json-schema": "JSON Schema",
+}
+
+function createShape(): Shape {
+  return {
+    count: 0,
+    nullCount: 0,
+    booleanCount: 0,
+    integerCount: 0,
+    floatCount: 0,
+    maxAbsInteger: 0,
+    strings: null,
+    array: null,
+    object: null,
+  }
+}
+
+function observe(shape: Shape, value: unknown) {
+  shape.count++
+
+  switch (getJsonNodeType(value)) {
+    case "null":
+      shape.nullCount++
+      return
+    case "boolean":
+      shape.booleanCount++
+      return
+    case "number": {
+      const number = value as number
+      if (Number.isInteger(number)) {
+        shape.integerCount++
+        shape.maxAbsInteger = Math.max(shape.maxAbsInteger, Math.abs(number))
+      } else {
+        shape.floatCount++
+      }
+      return
+    }
+    case "string": {
+      const text = String(value)
+      shape.strings ??= { count: 0, values: new Set(), dateTimes: 0, dates: 0 }
+      shape.strings.count++
+      if (shape.strings.values.size <= MAX_ENUM_VALUES) {
+        shape.strings.values.add(text)
+      }
+      if (ISO_DATE_TIME.test(text)) shape.strings.dateTimes++
+      else if (ISO_DATE.test(text)) shape.strings.dates++
+      return
+    }
+    case "array": {
+      shape.array ??= { count: 0, items: createShape() }
+      shape.array.count++
+      for (const item of value as unknown[]) {
+        observe(shape.array.items, item)
+      }
+      return
+    }
+    case "object": {
+      shape.object ??= { count: 0, fields: new Map() }
+      shape.object.count++
+      for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+        let field = shape.object.fields.get(key)
+        if (!field) {
+          field = createShape()
+          shape.object.fields.set(key, field)
+        }
+        observe(field, child)
+      }
+    }
+  }
+}
+
+export function inferJsonShape(value: unknown): Shape {
+  const shape = createShape()
+  observe(shape, value)
+  return shape
+}
+
+// ---------------------------------------------------------------------------
+// Shape queries shared by every emitter
+// ---------------------------------------------------------------------------
+
+type StringFormat = "date-time" | "date"
+
+function stringFormat(strings: StringShape): StringFormat | undefined {
+  if (strings.dateTimes === strings.count) return "date-time"
+  if (strings.dates === strings.count) return "date"
+  return undefined
+}
+
+function enumValues(strings: StringShape): string[] | undefined {
+  const { values, count } = strings
+  if (
+    values.size > MAX_ENUM_VALUES ||
+    values.size === 0 ||
+    count < values.size * 2 ||
+    stringFormat(strings) ||
+    [...values].some((value) => !value || value.length > MAX_ENUM_VALUE_LENGTH)
+  ) {
+    return undefined
+  }
+  return [...values].sort()
+}
+
+function isNullable(shape: Shape): boolean {
+  return shape.nullCount > 0
+}
+
+function isOptional(field: Shape, parent: ObjectShape): boolean {
+  return field.count < parent.count
+}
+
+/** Non-null kinds observed for a shape, in a stable order. */
+type ShapeKind = "boolean" | "integer" | "number" | "string" | "array" | "object"
+
+function shapeKinds(shape: Shape): ShapeKind[] {
+  const kinds: ShapeKind[] = []
+  if (shape.booleanCount) kinds.push("boolean")
+  if (shape.floatCount) kinds.push("number")
+  else if (shape.integerCount) kinds.push("integer")
+  if (shape.strings) kinds.push("string")
+  if (shape.array) kinds.push("array")
+  if (shape.object) kinds.push("object")
+  return kinds
+}
+
+// ---------------------------------------------------------------------------
+// Naming
+// ---------------------------------------------------------------------------
+
+function toPascalCase(text: string): string {
+  const words = text
+    .replace(/([a-z\d])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z\d]+/)
+    .filter(Boolean)
+  const name = words.map((word) => word[0].toUpperCase() + word.slice(1).toLowerCase()).join("")
+  if (!name) return "Item"
+  return /^\d/.test(name) ? `_${name}` : name
+}
+
+function toCamelCase(text: string): string {
+  const pascal = toPascalCase(text)
+  return pascal.startsWith("_") ? pascal : pascal[0].toLowerCase() + pascal.slice(1)
+}
+
+function singularize(name: string): string {
+  if (/ies$/.test(name)) return `${name.slice(0, -3)}y`
+  if (/(ss|us)$/.test(name)) return name
+  if (/(sh|ch|x)es$/.test(name)) return name.slice(0, -2)
+  if (/s$/.test(name)) return name.slice(0, -1)
+  return `${name}Item`
+}
+
+interface NamedObject {
+  name: string
+  shape: ObjectShape
+}
+
+interface TypeRegistry {
+  rootName: string
+  /** Object shapes in pre-order: every type appears after the type that references it. */
+  objects: NamedObject[]
+  objectNames: Map<ObjectShape, string>
+  enumNames: Map<StringShape, string>
+}
+
+function buildRegistry(root: Shape, rootName: string): TypeRegistry {
+  const usedNames = new Set<string>()
+
+  const reserve = (base: string) => {
+    let name = base
+    for (let suffix = 2; usedNames.has(name); suffix++) {
+      name = `${base}${suffix}`
+    }
+    usedNames.add(name)
+    return name
+  }
+
+  const registry: TypeRegistry = {
+    rootName: reserve(toPascalCase(rootName)),
+    objects: [],
+    objectNames: new Map(),
+    enumNames: new Map(),
+  }
+
+  const visit = (shape: Shape, name: string, reservedName?: string) => {
+    if (shape.object) {
+      const objectName = reservedName ?? reserve(name)
+      registry.objectNames.set(shape.object, objectName)
+      registry.objects.push({ name: objectName, shape: shape.object })
+      for (const [key, field] of shape.object.fields) {
+        visit(field, toPascalCase(key))
+      }
+    }
+    if (shape.array) {
+      visit(shape.array.items, singularize(name))
+    }
+    if (shape.strings && enumValues(shape.strings)) {
+      registry.enumNames.set(shape.strings, reserve(name))
+    }
+  }
+
+  visit(root, registry.rootName, registry.rootName)
+  return registry
+}
+
+// ---------------------------------------------------------------------------
+// TypeScript
+// ---------------------------------------------------------------------------
+
+function tsPropertyName(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)
+}
+
+function tsType(shape: Shape, registry: TypeRegistry): string {
+  const variants = shapeKinds(shape).map((kind) => {
+    switch (kind) {
+      case "boolean":
+        return "boolean"
+      case "integer":
+      case "number":
+        return "number"
+      case "string": {
+        const values = enumValues(shape.strings!)
+        return values ? values.map((value) => JSON.stringify(value)).join(" | ") : "string"
+      }
+      case "array": {
+        const items = tsType(shape.array!.items, registry)
+        return /[|\s]/.test(items) ? `Array<${items}>` : `${items}[]`
+      }
+      case "object":
+        return registry.objectNames.get(shape.object!)!
+    }
+  })
+
+  if (variants.length === 0) {
+    return isNullable(shape) ? "null" : "unknown"
+  }
+  if (isNullable(shape)) variants.push("null")
+  return variants.join(" | ")
+}
+
+function emitTypeScript(root: Shape, registry: TypeRegistry): string {
+  const blocks = registry.objects.map(({ name, shape }) => {
+    const lines = [...shape.fields].map(([key, field]) => {
+      const comment = field.strings && stringFormat(field.strings) ? ` // ISO ${stringFormat(field.strings)}` : ""
+      return `  ${tsPropertyName(key)}${isOptional(field, shape) ? "?" : ""}: ${tsType(field, registry)}${comment}`
+    })
+    return `export interface ${name} {\n${lines.join("\n")}\n}`
+  })
+
+  if (!root.object) {
+    blocks.unshift(`export type ${registry.rootName} = ${tsType(root, registry)}`)
+  }
+
+  return `${blocks.join("\n\n")}\n`
+}
+
+// ---------------------------------------------------------------------------
+// Zod
+// ---------------------------------------------------------------------------
+
+function zodType(shape: Shape, registry: TypeRegistry): string {
+  const variants = shapeKinds(shape).map((kind) => {
+    switch (kind) {
+      case "boolean":
+        return "z.boolean()"
+      case "integer":
+        return "z.number().int()"
+      case "number":
+        return "z.number()"
+      case "string": {
+        const values = enumValues(shape.strings!)
+        if (values) return `z.enum([${values.map((value) => JSON.stringify(value)).join(", ")}])`
+        const format = stringFormat(shape.strings!)
+        return format === "date-time" ? "z.string().datetime({ offset: true, local: true })" : format === "date" ? "z.string().date()" : "z.string()"
+      }
+      case "array":
+        return `z.array(${zodType(shape.array!.items, registry)})`
+      case "object":
+        return `${registry.objectNames.get(shape.object!)}Schema`
+    }
+  })
+
+  let type: string
+  if (variants.length === 0) type = isNullable(shape) ? "z.null()" : "z.unknown()"
+  else if (variants.length === 1) type = variants[0]
+  else type = `z.union([${variants.join(", ")}])`
+
+  return isNullable(shape) && variants.length > 0 ? `${type}.nullable()` : type
+}
+
+function emitZod(root: Shape, registry: TypeRegistry): string {
+  const blocks = [...registry.objects].reverse().map(({ name, shape }) => {
+    const lines = [...shape.fields].map(([key, field]) => {
+      const optional = isOptional(field, shape) ? ".optional()" : ""
+      return `  ${tsPropertyName(key)}: ${zodType(field, registry)}${optional},`
+    })
+    return [
+      `export const ${name}Schema = z.object({\n${lines.join("\n")}\n})`,
+      `export type ${name} = z.infer<typeof ${name}Schema>`,
+    ].join("\n\n")
+  })
+
+  if (!root.object) {
+    const { rootName } = registry
+    blocks.push(`export const ${rootName}Schema = ${zodType(root, registry)}\n\nexport type ${rootName} = z.infer<typeof ${rootName}Schema>`)
+  }
+
+  return `import { z } from "zod"\n\n${blocks.join("\n\n")}\n`
+}
+
+// ---------------------------------------------------------------------------
+// Java 17 records
+// ---------------------------------------------------------------------------
+
+const JAVA_RESERVED = new Set(
+  (
+    "abstract assert boolean break byte case catch char class const continue default do double else enum extends " +
+    "final finally float for goto if implements import instanceof int interface long native new package private " +
+    "protected public return short static strictfp super switch synchronized this throw throws transient try void " +
+    "volatile while record var yield true false null"
+  ).split(" ")
+)
+
+function javaIdentifier(key: string): string {
+  const name = toCamelCase(key)
+  return JAVA_RESERVED.has(name) ? `${name}_` : name
+}
+
+function javaEnumConstant(value: string): string {
+  const constant = value
+    .replace(/([a-z\d])([A-Z])/g, "$1_$2")
+    .replace(/[^A-Za-z\d]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .toUpperCase()
+  if (!constant) return "EMPTY"
+  return /^\d/.test(constant) ? `_${constant}` : constant
+}
+
+interface JavaImports {
+  list: boolean
+  time: Set<string>
+  jsonProperty: boolean
+}
+
+function javaType(shape: Shape, registry: TypeRegistry, imports: JavaImports): string {
+  const kinds = shapeKinds(shape)
+  if (kinds.length !== 1) return "Object"
+
+  switch (kinds[0]) {
+    case "boolean":
+      return "Boolean"
+    case "integer":
+      return shape.maxAbsInteger > MAX_JAVA_INT ? "Long" : "Integer"
+    case "number":
+      return "Double"
+    case "string": {
+      const enumName = registry.enumNames.get(shape.strings!)
+      if (enumName) return enumName
+      const format = stringFormat(shape.strings!)
+      if (format === "date-time") {
+        imports.time.add("OffsetDateTime")
+        return "OffsetDateTime"
+      }
+      if (format === "date") {
+        imports.time.add("LocalDate")
+        return "LocalDate"
+      }
+      return "String"
+    }
+    case "array":
+      imports.list = true
+      return `List<${javaType(shape.array!.items, registry, imports)}>`
+    case "object":
+      return registry.objectNames.get(shape.object!)!
+  }
+}
+
+function indent(text: string, prefix = "    "): string {
+  return text
+    .split("\n")
+    .map((line) => (line ? `${prefix}${line}` : line))
+    .join("\n")
+}
+
+function emitJava(root: Shape, registry: TypeRegistry): string {
+  const imports: JavaImports = { list: false, time: new Set(), jsonProperty: false }
+
+  const records = registry.objects.map(({ name, shape }) => {
+    const components = [...shape.fields].map(([key, field]) => {
+      const identifier = javaIdentifier(key)
+      const annotation = identifier === key ? "" : `@JsonProperty(${JSON.stringify(key)}) `
+      if (annotation) imports.jsonProperty = true
+      return `${annotation}${javaType(field, registry, imports)} ${identifier}`
+    })
+    return `public record ${name}(\n${indent(components.join(",\n"))}\n) {}`
+  })
+
+  const enums = [...registry.enumNames].map(([strings, name]) => {
+    const constants = enumValues(strings)!.map((value) => {
+      const constant = javaEnumConstant(value)
+      if (constant === value) return constant
+      imports.jsonProperty = true
+      return `@JsonProperty(${JSON.stringify(value)}) ${constant}`
+    })
+    return `public enum ${name} {\n${indent(constants.join(",\n"))}\n}`
+  })
+
+  let body: string
+  if (root.object && records.length > 0) {
+    // Nest every other type inside the root record so the output compiles as a single file.
+    const [rootRecord, ...nested] = records
+    const members = [...nested, ...enums]
+    body = members.length
+      ? `${rootRecord.slice(0, -1)}\n${indent(members.join("\n\n"))}\n}`
+      : rootRecord
+  } else {
+    const rootType = javaType(root, registry, imports)
+    body = [`// Root value type: ${rootType}`, ...records, ...enums].join("\n\n")
+  }
+
+  const importLines = [
+    ...(imports.jsonProperty ? ["import com.fasterxml.jackson.annotation.JsonProperty;"] : []),
+    ...[...imports.time].sort().map((type) => `import java.time.${type};`),
+    ...(imports.list ? ["import java.util.List;"] : []),
+  ]
+
+  return `${importLines.length ? `${importLines.join("\n")}\n\n` : ""}${body}\n`
+}
+
+// ---------------------------------------------------------------------------
+// JSON Schema draft 2020-12
+// ---------------------------------------------------------------------------
+
+type JsonSchema = Record<string, unknown>
+
+function schemaFor(shape: Shape, registry: TypeRegistry): JsonSchema {
+  const variants: JsonSchema[] = shapeKinds(shape).map((kind) => {
+    switch (kind) {
+      case "boolean":
+      case "integer":
+      case "number":
+        return { type: kind }
+      case "string": {
+        const values = enumValues(shape.strings!)
+        const format = stringFormat(shape.strings!)
+        return { type: "string", ...(values ? { enum: values } : {}), ...(format ? { format } : {}) }
+      }
+      case "array":
+        return { type: "array", items: schemaFor(shape.array!.items, registry) }
+      case "object":
+        return { $ref: `#/$defs/${registry.objectNames.get(shape.object!)}` }
+    }
+  })
+
+  if (isNullable(shape)) variants.push({ type: "null" })
+  if (variants.length === 0) return {}
+  if (variants.length === 1) return variants[0]
+
+  // Collapse plain scalar unions into the compact `type: [...]` form.
+  if (variants.every((variant) => Object.keys(variant).length === 1 && typeof variant.type === "string")) {
+    return { type: variants.map((variant) => variant.type) }
+  }
+  return { anyOf: variants }
+}
+
+function objectSchema(shape: ObjectShape, registry: TypeRegistry): JsonSchema {
+  const required = [...shape.fields].filter(([, field]) => !isOptional(field, shape)).map(([key]) => key)
+  return {
+    type: "object",
+    properties: Object.fromEntries([...shape.fields].map(([key, field]) => [key, schemaFor(field, registry)])),
+    ...(required.length ? { required } : {}),
+  }
+}
+
+function emitJsonSchema(root: Shape, registry: TypeRegistry): string {
+  // A root object is inlined into the document; every other object lives under $defs.
+  const definitions = registry.objects.filter(({ shape }) => shape !== root.object)
+  const body = root.object ? objectSchema(root.object, registry) : schemaFor(root, registry)
+  const schema: JsonSchema = {
+    $schema: "https://json-schema.org/draft/2020-12/schema",
+    title: registry.rootName,
+    ...body,
+    ...(definitions.length
+      ? { $defs: Object.fromEntries(definitions.map(({ name, shape }) => [name, objectSchema(shape, registry)])) }
+      : {}),
+  }
+  return `${JSON.stringify(schema, null, 2)}\n`
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+export function generateTypes(value: unknown, target: TypeTarget, rootName = "Root"): string {
+  const shape = inferJsonShape(value)
+  const registry = buildRegistry(shape, rootName)
+
+  switch (target) {
+    case "typescript":
+      return emitTypeScript(shape, registry)
+    case "zod":
+      return emitZod(shape, registry)
+    case "java":
+      return emitJava(shape, registry)
+    case "json-schema":
+      return emitJsonSchema(shape, registry)
+  }
+}
+
+export function getTypeTargetLabel(target: TypeTarget): string {
+  return TARGET_LABELS[target]
+}
+
+export const TYPE_TARGETS = Object.keys(TARGET_LABELS) as TypeTarget[]
+
+export type { Shape, TypeTarget }
@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test"
+import {
+  expandToPath,
+  flattenVisibleTree,
+  getDefaultExpandedPaths,
+  resolveJsonPath,
+  toggleExpandedPath,
+} from "@/lib/json-utils"
+
+const TREE_BUDGET_MS = 1500
+
+describe("json-utils tree", () => {
+  const document = { user: { id: 1, roles: ["admin", "user"] }, active: true }
+
+  test("expands the root and its direct children by default", () => {
+    const rows = flattenVisibleTree(document, getDefaultExpandedPaths(document))
+    expect(rows.map((row) => row.path)).toEqual(["", "user", "user.id", "user.roles", "active"])
+    expect(rows.find((row) => row.path === "user.roles")).toMatchObject({ type: "array", childCount: 2, expanded: false })
+  })
+
+  test("materializes children only when a node is expanded", () => {
+    const collapsed = flattenVisibleTree(document, new Set())
+    expect(collapsed).toHaveLength(1)
+    expect(collapsed[0]).toMatchObject({ key: "root", type: "object", childCount: 2, expanded: false })
+
+    const expanded = toggleExpandedPath(getDefaultExpandedPaths(document), "user.roles")
+    expect(flattenVisibleTree(document, expanded).map((row) => row.path)).toContain("user.roles[1]")
+    expect(flattenVisibleTree(document, toggleExpandedPath(expanded, "user")).map((row) => row.path)).toEqual([
+      "",
+      "user",
+      "active",
+    ])
+  })
+
+  test("expands every ancestor of a nested path", () => {
+    const expanded = expandToPath(document, new Set(), "user.roles[1]")
+    expect([...expanded].sort()).toEqual(["", "user", "user.roles"])
+  })
+
+  test("resolves tree paths back into segments", () => {
+    const tricky = { "a.b": { "c[0]": [1, { d: 2 }] } }
+    expect(resolveJsonPath(tricky, "a.b.c[0][1].d")).toEqual(["a.b", "c[0]", 1, "d"])
+    expect(resolveJsonPath(tricky, "")).toEqual([])
+    expect(resolveJsonPath(tricky, "missing")).toBeNull()
+  })
+
+  test(`builds and toggles a 100k-node document within ${TREE_BUDGET_MS}ms`, () => {
+    const records = Array.from({ length: 25_000 }, (_, index) => ({
+      id: index,
+      name: `record-${index}`,
+      tags: ["a", "b"],
+    }))
+    const started = performance.now()
+
+    let expanded = getDefaultExpandedPaths(records)
+    let rows = flattenVisibleTree(records, expanded)
+    expect(rows.length).toBeGreaterThan(100_000)
+
+    for (const path of ["[10]", "[10].tags", "[24999].tags", "[10]", ""]) {
+      expanded = toggleExpandedPath(expanded, path)
+      rows = flattenVisibleTree(records, expanded)
+    }
+
+    expect(rows).toHaveLength(1)
+    expect(performance.now() - started).toBeLessThan(TREE_BUDGET_MS)
+  })
+})
@@ -1,90 +1,185 @@
+type JsonNodeType = "object" | "array" | "string" | "number" | "boolean" | "null"
+
+/**
+ * A single visible row of the tree view. Rows are materialized lazily: children of a
+ * collapsed node are never visited, so huge documents only pay for what is on screen.
+ */
 interface JsonNode {
   key: string
-  value: any
-  type: "object" | "array" | "string" | "number" | "boolean" | "null"
-  children?: JsonNode[]
-  expanded?: boolean
+  value: unknown
+  type: JsonNodeType
   path: string
   depth: number
+  childCount: number
+  expanded: boolean
+  parentType: JsonNodeType | null
 }
 
-export function validateJson(jsonString: string): { isValid: boolean; error?: string } {
-  try {
-    JSON.parse(jsonString)
-    return { isValid: true }
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : "Unknown error"
-    return { isValid: false, error: errorMessage }
-  }
+export function formatJsonValue(value: unknown): string {
+  return JSON.stringify(value, null, 2)
 }
 
-export function prettyPrintJson(jsonString: string): string {
-  try {
-    const parsed = JSON.parse(jsonString)
-    return JSON.stringify(parsed, null, 2)
-  } catch {
-    throw new Error("Invalid JSON input")
+export function joinJsonPath(path: string, segment: string | number): string {
+  if (typeof segment === "number") {
+    return `${path}[${segment}]`
   }
+  return path ? `${path}.${segment}` : segment
 }
 
-export function jsonToTree(jsonString: string): JsonNode[] {
-  try {
-    const parsed = JSON.parse(jsonString)
-    return [buildTreeNode("", parsed, "", 0)]
-  } catch {
-    throw new Error("Invalid JSON input")
+export function getJsonNodeType(value: unknown): JsonNodeType {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  switch (typeof value) {
+    case "boolean":
+      return "boolean"
+    case "number":
+      return "number"
+    case "object":
+      return "object"
+    default:
+      return "string"
   }
 }
 
-function buildTreeNode(key: string, value: any, path: string, depth: number): JsonNode {
-  let nodeType: "object" | "array" | "string" | "number" | "boolean" | "null"
-  let children: JsonNode[] | undefined = undefined
-
-  if (value === null) {
-    nodeType = "null"
-  } else if (typeof value === "boolean") {
-    nodeType = "boolean"
-  } else if (typeof value === "number") {
-    nodeType = "number"
-  } else if (typeof value === "string") {
-    nodeType = "string"
-  } else if (Array.isArray(value)) {
-    nodeType = "array"
-    children = value.map((item, index) => {
-      const itemPath = path ? `${path}[${index}]` : `[${index}]`
-      return buildTreeNode(index.toString(), item, itemPath, depth + 1)
-    })
-  } else if (typeof value === "object") {
-    nodeType = "object"
-    children = Object.entries(value).map(([k, v]) => {
-      const itemPath = path ? `${path}.${k}` : k
-      return buildTreeNode(k, v, itemPath, depth + 1)
-    })
-  } else {
-    nodeType = "string"
+function getChildEntries(value: unknown): Array<[segment: string | number, child: unknown]> {
+  if (Array.isArray(value)) {
+    return value.map((item, index) => [index, item])
   }
+  if (value !== null && typeof value === "object") {
+    return Object.entries(value)
+  }
+  return []
+}
+
+function countChildren(value: unknown): number {
+  if (Array.isArray(value)) return value.length
+  if (value !== null && typeof value === "object") return Object.keys(value).length
+  return 0
+}
+
+function buildTreeNode(
+  key: string,
+  value: unknown,
+  path: string,
+  depth: number,
+  parentType: JsonNodeType | null,
+  expandedPaths: ReadonlySet<string>
+): JsonNode {
+  const childCount = countChildren(value)
 
   return {
     key: key || "root",
     value,
-    type: nodeType,
+    type: getJsonNodeType(value),
     path,
     depth,
-    expanded: depth < 2,
-    children
+    childCount,
+    expanded: childCount > 0 && expandedPaths.has(path),
+    parentType,
   }
 }
 
-export function toggleTreeNode(nodes: JsonNode[], path: string): JsonNode[] {
-  return nodes.map((node) => {
-    if (node.path === path) {
-      return { ...node, expanded: !node.expanded }
+/** Expands the root and its direct children, matching the tree's initial two-level view. */
+export function getDefaultExpandedPaths(value: unknown): Set<string> {
+  const expanded = new Set<string>([""])
+  for (const [segment, child] of getChildEntries(value)) {
+    if (countChildren(child) > 0) {
+      expanded.add(joinJsonPath("", segment))
     }
-    if (node.children) {
-      return { ...node, children: toggleTreeNode(node.children, path) }
+  }
+  return expanded
+}
+
+/** Lists the rows currently visible in the tree, visiting only expanded nodes. */
+export function flattenVisibleTree(value: unknown, expandedPaths: ReadonlySet<string>): JsonNode[] {
+  const rows: JsonNode[] = []
+  const stack: Array<{ key: string; value: unknown; path: string; depth: number; parentType: JsonNodeType | null }> = [
+    { key: "", value, path: "", depth: 0, parentType: null },
+  ]
+
+  while (stack.length > 0) {
+    const entry = stack.pop()!
+    const node = buildTreeNode(entry.key, entry.value, entry.path, entry.depth, entry.parentType, expandedPaths)
+    rows.push(node)
+
+    if (!node.expanded) continue
+
+    const children = getChildEntries(entry.value)
+    for (let index = children.length - 1; index >= 0; index--) {
+      const [segment, child] = children[index]
+      stack.push({
+        key: String(segment),
+        value: child,
+        path: joinJsonPath(entry.path, segment),
+        depth: entry.depth + 1,
+        parentType: node.type,
+      })
     }
-    return node
-  })
+  }
+
+  return rows
+}
+
+export function toggleExpandedPath(expandedPaths: ReadonlySet<string>, path: string): Set<string> {
+  const next = new Set(expandedPaths)
+  if (next.has(path)) {
+    next.delete(path)
+  } else {
+    next.add(path)
+  }
+  return next
+}
+
+function findChildOnPath(value: unknown, currentPath: string, path: string) {
+  const entries = getChildEntries(value)
+  return (
+    entries.find(([segment]) => joinJsonPath(currentPath, segment) === path) ??
+    entries.find(([segment]) => {
+      const childPath = joinJsonPath(currentPath, segment)
+      return path.startsWith(`${childPath}.`) || path.startsWith(`${childPath}[`)
+    })
+  )
+}
+
+/** Expands every ancestor of `path` so the node becomes visible. */
+export function expandToPath(value: unknown, expandedPaths: ReadonlySet<string>, path: string): Set<string> {
+  const next = new Set(expandedPaths)
+  let current = value
+  let currentPath = ""
+
+  while (currentPath !== path) {
+    next.add(currentPath)
+    const match = findChildOnPath(current, currentPath, path)
+    if (!match) break
+
+    const [segment, child] = match
+    currentPath = joinJsonPath(currentPath, segment)
+    current = child
+  }
+
+  return next
+}
+
+/**
+ * Resolves a tree path back into key/index segments. Paths are ambiguous once keys contain
+ * "." or "[", so they are matched against the document instead of being split.
+ */
+export function resolveJsonPath(value: unknown, path: string): Array<string | number> | null {
+  const segments: Array<string | number> = []
+  let current = value
+  let currentPath = ""
+
+  while (currentPath !== path) {
+    const match = findChildOnPath(current, currentPath, path)
+    if (!match) return null
+
+    const [segment, child] = match
+    segments.push(segment)
+    currentPath = joinJsonPath(currentPath, segment)
+    current = child
+  }
+
+  return segments
 }
 
-export { type JsonNode }
\ No newline at end of file
+export { type JsonNode, type JsonNodeType }
@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test"
+import {
+  buildHelmChart,
+  buildK8sManifests,
+  DEFAULT_K8S_MANIFEST_OPTIONS,
+  getSecretName,
+  isSensitiveVariable,
+} from "@/lib/k8s-manifests"
+import { collectK8sEnvVariables } from "@/lib/properties-utils"
+
+const VARIABLES: Array<[string, string]> = [
+  ["SERVER_PORT", "8080"],
+  ["DB_PASSWORD", "pässword"],
+  ["API_TOKEN", "abc"],
+]
+
+describe("k8s-manifests", () => {
+  test("matches sensitive names case-insensitively and names the Secret after the ConfigMap", () => {
+    expect(isSensitiveVariable("DB_PASSWORD", ["password"])).toBe(true)
+    expect(isSensitiveVariable("SERVER_PORT", ["password", " "])).toBe(false)
+    expect(getSecretName("app-config")).toBe("app-secret")
+    expect(getSecretName("orders")).toBe("orders-secret")
+  })
+
+  test("builds a ConfigMap, a base64 Secret and an envFrom snippet", () => {
+    const [manifests, deployment] = buildK8sManifests(VARIABLES, { ...DEFAULT_K8S_MANIFEST_OPTIONS, namespace: "shop" })
+
+    expect(manifests).toEqual({
+      filename: "app-config.yaml",
+      content: [
+        "apiVersion: v1",
+        "kind: ConfigMap",
+        "metadata:",
+        "  name: app-config",
+        "  namespace: shop",
+        "data:",
+        '  SERVER_PORT: "8080"',
+        "---",
+        "apiVersion: v1",
+        "kind: Secret",
+        "metadata:",
+        "  name: app-secret",
+        "  namespace: shop",
+        "type: Opaque",
+        "data:",
+        "  DB_PASSWORD: cMOkc3N3b3Jk",
+        "  API_TOKEN: YWJj",
+        "",
+      ].join("\n"),
+    })
+    expect(deployment.content).toContain("envFrom:\n  - configMapRef:\n      name: app-config\n  - secretRef:\n      name: app-secret\n")
+  })
+
+  test("keeps everything in the ConfigMap without a Secret and references keys one by one", () => {
+    const files = buildK8sManifests(VARIABLES, {
+      ...DEFAULT_K8S_MANIFEST_OPTIONS,
+      name: "orders",
+      includeSecret: false,
+      referenceStyle: "valueFrom",
+    })
+
+    expect(files[0].content).not.toContain("kind: Secret")
+    expect(files[0].content).toContain("  DB_PASSWORD: pässword\n")
+    expect(files[1].content).toContain(
+      "  - name: SERVER_PORT\n    valueFrom:\n      configMapKeyRef:\n        name: orders\n        key: SERVER_PORT\n"
+    )
+  })
+
+  test("builds Helm values and templates", () => {
+    const files = buildHelmChart(VARIABLES, { ...DEFAULT_K8S_MANIFEST_OPTIONS, referenceStyle: "valueFrom" })
+
+    expect(files.map((file) => file.filename)).toEqual([
+      "values.yaml",
+      "templates/configmap.yaml",
+      "templates/secret.yaml",
+      "deployment-env.yaml",
+    ])
+    expect(files[0].content).toBe(
+      'config:\n  SERVER_PORT: "8080"\n# Replace these at install time, e.g. --set secrets.DB_PASSWORD=...\nsecrets:\n  DB_PASSWORD: pässword\n  API_TOKEN: abc\n'
+    )
+    expect(files[2].content).toContain("  name: {{ .Release.Name }}-app-secret\n")
+    expect(files[2].content).toContain("  {{ $key }}: {{ $value | toString | b64enc | quote }}\n")
+    expect(files[3].content).toContain("  {{- range $key, $value := .Values.secrets }}\n")
+  })
+
+  test("rejects names Kubernetes would refuse", () => {
+    expect(() => buildK8sManifests(VARIABLES, { ...DEFAULT_K8S_MANIFEST_OPTIONS, name: "App_Config" })).toThrow(
+      "Invalid ConfigMap name: App_Config"
+    )
+    expect(() => buildHelmChart(VARIABLES, { ...DEFAULT_K8S_MANIFEST_OPTIONS, namespace: "my.ns" })).toThrow(
+      "Invalid namespace: my.ns"
+    )
+  })
+
+  test("collects variables from non-profile documents, later ones winning", () => {
+    expect(
+      collectK8sEnvVariables("server:\n  port: 8080\n---\nserver:\n  port: 9090\n---\nspring.config.activate.on-profile: prod\nserver.port: 80\n")
+    ).toEqual([["SERVER_PORT", "9090"]])
+  })
+})
@@ -0,0 +1,224 @@
+import yaml from "js-yaml"
+
+type K8sOutputFormat = "env-list" | "manifests" | "helm"
+
+/** How the Deployment snippet pulls variables in: whole objects, or one reference per key. */
+type K8sReferenceStyle = "envFrom" | "valueFrom"
+
+interface K8sManifestOptions {
+  /** ConfigMap name; the Secret is named after it (`app-config` → `app-secret`). */
+  name: string
+  /** Left out of the manifests when empty. Helm output always uses the release namespace. */
+  namespace: string
+  includeSecret: boolean
+  /** Case-insensitive parts of a variable name that mark it as sensitive. */
+  sensitivePatterns: string[]
+  referenceStyle: K8sReferenceStyle
+}
+
+interface K8sOutputFile {
+  filename: string
+  content: string
+}
+
+type EnvVariable = [name: string, value: string]
+
+export const DEFAULT_SENSITIVE_PATTERNS = ["password", "secret", "token"]
+
+export const DEFAULT_K8S_MANIFEST_OPTIONS: K8sManifestOptions = {
+  name: "app-config",
+  namespace: "",
+  includeSecret: true,
+  sensitivePatterns: DEFAULT_SENSITIVE_PATTERNS,
+  referenceStyle: "envFrom",
+}
+
+const YAML_DUMP_OPTIONS: yaml.DumpOptions = { indent: 2, lineWidth: -1, noRefs: true, quotingType: '"' }
+
+const DEPLOYMENT_SNIPPET_HEADER = "# Add to spec.template.spec.containers[] in your Deployment\n"
+
+export function isSensitiveVariable(name: string, patterns: string[]): boolean {
+  const lowerName = name.toLowerCase()
+  return patterns.some((pattern) => pattern.trim() && lowerName.includes(pattern.trim().toLowerCase()))
+}
+
+export function getSecretName(configMapName: string): string {
+  return `${configMapName.replace(/-config$/, "")}-secret`
+}
+
+function splitVariables(variables: EnvVariable[], options: K8sManifestOptions) {
+  const config: EnvVariable[] = []
+  const secrets: EnvVariable[] = []
+
+  for (const variable of variables) {
+    if (options.includeSecret && isSensitiveVariable(variable[0], options.sensitivePatterns)) {
+      secrets.push(variable)
+    } else {
+      config.push(variable)
+    }
+  }
+
+  return { config, secrets }
+}
+
+function validateOptions({ name, namespace }: K8sManifestOptions) {
+  // Secret names add up to 4 characters, so keep room for them under the 253 character limit.
+  if (!/^[a-z0-9]([-a-z0-9.]*[a-z0-9])?$/.test(name) || name.length > 249) {
+    throw new Error(`Invalid ConfigMap name: ${name || "(empty)"}. Use lowercase letters, digits, "-" and "."`)
+  }
+
+  if (namespace && (!/^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/.test(namespace) || namespace.length > 63)) {
+    throw new Error(`Invalid namespace: ${namespace}. Use lowercase letters, digits and "-"`)
+  }
+}
+
+function encodeBase64(value: string): string {
+  const bytes = new TextEncoder().encode(value)
+  let binary = ""
+  for (let index = 0; index < bytes.length; index++) {
+    binary += String.fromCharCode(bytes[index])
+  }
+  return btoa(binary)
+}
+
+function buildDeploymentEnv(
+  config: EnvVariable[],
+  secrets: EnvVariable[],
+  configMapName: string,
+  secretName: string,
+  referenceStyle: K8sReferenceStyle
+): Record<string, unknown> {
+  if (referenceStyle === "envFrom") {
+    return {
+      envFrom: [
+        { configMapRef: { name: configMapName } },
+        ...(secrets.length > 0 ? [{ secretRef: { name: secretName } }] : []),
+      ],
+    }
+  }
+
+  return {
+    env: [
+      ...config.map(([key]) => ({ name: key, valueFrom: { configMapKeyRef: { name: configMapName, key } } })),
+      ...secrets.map(([key]) => ({ name: key, valueFrom: { secretKeyRef: { name: secretName, key } } })),
+    ],
+  }
+}
+
+/**
+ * Builds a ConfigMap, plus a Secret with base64 values for sensitive variables, and the
+ * Deployment snippet that loads them into a container.
+ */
+export function buildK8sManifests(variables: EnvVariable[], options: K8sManifestOptions): K8sOutputFile[] {
+  validateOptions(options)
+
+  const { config, secrets } = splitVariables(variables, options)
+  const secretName = getSecretName(options.name)
+  const metadata = (name: string) => (options.namespace ? { name, namespace: options.namespace } : { name })
+
+  const documents: Record<string, unknown>[] = [
+    { apiVersion: "v1", kind: "ConfigMap", metadata: metadata(options.name), data: Object.fromEntries(config) },
+  ]
+
+  if (secrets.length > 0) {
+    documents.push({
+      apiVersion: "v1",
+      kind: "Secret",
+      metadata: metadata(secretName),
+      type: "Opaque",
+      data: Object.fromEntries(secrets.map(([key, value]) => [key, encodeBase64(value)])),
+    })
+  }
+
+  const deploymentEnv = buildDeploymentEnv(config, secrets, options.name, secretName, options.referenceStyle)
+
+  return [
+    {
+      filename: `${options.name}.yaml`,
+      content: documents.map((document) => yaml.dump(document, YAML_DUMP_OPTIONS)).join("---\n"),
+    },
+    { filename: "deployment-env.yaml", content: DEPLOYMENT_SNIPPET_HEADER + yaml.dump(deploymentEnv, YAML_DUMP_OPTIONS) },
+  ]
+}
+
+function buildHelmDeploymentEnv(
+  hasSecrets: boolean,
+  configMapName: string,
+  secretName: string,
+  referenceStyle: K8sReferenceStyle
+): string {
+  if (referenceStyle === "envFrom") {
+    const lines = ["envFrom:", "  - configMapRef:", `      name: ${configMapName}`]
+    if (hasSecrets) lines.push("  - secretRef:", `      name: ${secretName}`)
+    return `${lines.join("\n")}\n`
+  }
+
+  const reference = (values: string, refKind: string, name: string) => [
+    `  {{- range $key, $value := .Values.${values} }}`,
+    "  - name: {{ $key }}",
+    "    valueFrom:",
+    `      ${refKind}:`,
+    `        name: ${name}`,
+    "        key: {{ $key }}",
+    "  {{- end }}",
+  ]
+
+  return `${[
+    "env:",
+    ...reference("config", "configMapKeyRef", configMapName),
+    ...(hasSecrets ? reference("secrets", "secretKeyRef", secretName) : []),
+  ].join("\n")}\n`
+}
+
+/**
+ * Builds a Helm `values.yaml` holding the variables and the ConfigMap/Secret templates that
+ * render them, named after the release and deployed to the release namespace.
+ */
+export function buildHelmChart(variables: EnvVariable[], options: K8sManifestOptions): K8sOutputFile[] {
+  validateOptions(options)
+
+  const { config, secrets } = splitVariables(variables, options)
+  const configMapName = `{{ .Release.Name }}-${options.name}`
+  const secretName = `{{ .Release.Name }}-${getSecretName(options.name)}`
+
+  let values = yaml.dump({ config: Object.fromEntries(config) }, YAML_DUMP_OPTIONS)
+  if (secrets.length > 0) {
+    values += `# Replace these at install time, e.g. --set secrets.${secrets[0][0]}=...\n`
+    values += yaml.dump({ secrets: Object.fromEntries(secrets) }, YAML_DUMP_OPTIONS)
+  }
+
+  const template = (kind: string, name: string, valuesKey: string, encode: string, type = "") =>
+    [
+      "apiVersion: v1",
+      `kind: ${kind}`,
+      "metadata:",
+      `  name: ${name}`,
+      "  namespace: {{ .Release.Namespace }}",
+      ...(type ? [`type: ${type}`] : []),
+      "data:",
+      `  {{- range $key, $value := .Values.${valuesKey} }}`,
+      `  {{ $key }}: {{ $value | toString${encode} | quote }}`,
+      "  {{- end }}",
+      "",
+    ].join("\n")
+
+  const files: K8sOutputFile[] = [
+    { filename: "values.yaml", content: values },
+    { filename: "templates/configmap.yaml", content: template("ConfigMap", configMapName, "config", "") },
+  ]
+
+  if (secrets.length > 0) {
+    files.push({ filename: "templates/secret.yaml", content: template("Secret", secretName, "secrets", " | b64enc", "Opaque") })
+  }
+
+  files.push({
+    filename: "deployment-env.yaml",
+    content:
+      DEPLOYMENT_SNIPPET_HEADER +
+      buildHelmDeploymentEnv(secrets.length > 0, configMapName, secretName, options.referenceStyle),
+  })
+
+  return files
+}
+
+export type { K8sManifestOptions, K8sOutputFile, K8sOutputFormat, K8sReferenceStyle }
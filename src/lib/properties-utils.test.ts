@@ -0,0 +1,233 @@
+import { describe, expect, test } from "bun:test"
+import {
+  convertEnvToProperties,
+  convertEnvToYaml,
+  convertK8sEnvToYaml,
+  convertProperties,
+  convertPropertiesToYaml,
+  convertYamlToEnv,
+  convertYamlToK8sEnv,
+  convertYamlToProperties,
+} from "@/lib/properties-utils"
+
+const PROFILE_YAML = [
+  "# Shared settings",
+  "app:",
+  "  name: demo",
+  "",
+  "  # Upstream servers",
+  "  servers:",
+  "    - host: a.example.com",
+  "      port: 8080",
+  "    - host: b.example.com",
+  "      port: 8081",
+  "  ratio: 1.0",
+  "  enabled: true",
+  "  zip: \"02134\"",
+  "---",
+  "spring:",
+  "  config:",
+  "    activate:",
+  "      on-profile: prod",
+  "app:",
+  "  name: demo-prod",
+  "",
+].join("\n")
+
+describe("properties-utils round trips", () => {
+  test("writes lists as indexed keys and keeps comments and documents", () => {
+    expect(convertYamlToProperties(PROFILE_YAML)).toBe(
+      [
+        "# Shared settings",
+        "app.name=demo",
+        "",
+        "# Upstream servers",
+        "app.servers[0].host=a.example.com",
+        "app.servers[0].port=8080",
+        "app.servers[1].host=b.example.com",
+        "app.servers[1].port=8081",
+        "app.ratio=1.0",
+        "app.enabled=true",
+        "app.zip=02134",
+        "#---",
+        "spring.config.activate.on-profile=prod",
+        "app.name=demo-prod",
+      ].join("\n")
+    )
+  })
+
+  test("rebuilds lists, typed scalars, comments and documents from properties", () => {
+    expect(convertPropertiesToYaml(convertYamlToProperties(PROFILE_YAML))).toBe(
+      [
+        "# Shared settings",
+        "app:",
+        "  name: demo",
+        "",
+        "  # Upstream servers",
+        "  servers:",
+        "    - host: a.example.com",
+        "      port: 8080",
+        "    - host: b.example.com",
+        "      port: 8081",
+        '  ratio: "1.0"',
+        "  enabled: true",
+        '  zip: "02134"',
+        "---",
+        "spring:",
+        "  config:",
+        "    activate:",
+        "      on-profile: prod",
+        "app:",
+        "  name: demo-prod",
+        "",
+      ].join("\n")
+    )
+  })
+
+  test("keeps properties comments in either syntax", () => {
+    expect(convertPropertiesToYaml("! Pool\npool.size=10\n\n# Names\nnames[0]=a\nnames[1]=b\n# end")).toBe(
+      "# Pool\npool:\n  size: 10\n\n# Names\nnames:\n  - a\n  - b\n# end\n"
+    )
+  })
+
+  test("introduces profile documents with a comment in env output", () => {
+    const expected = [
+      "APP_NAME=demo",
+      "APP_SERVERS_0_HOST=a.example.com",
+      "APP_SERVERS_0_PORT=8080",
+      "APP_SERVERS_1_HOST=b.example.com",
+      "APP_SERVERS_1_PORT=8081",
+      "APP_RATIO=1.0",
+      "APP_ENABLED=true",
+      "APP_ZIP=02134",
+      "# spring.config.activate.on-profile=prod",
+      "APP_NAME=demo-prod",
+    ]
+
+    expect(convertYamlToEnv(PROFILE_YAML)).toBe(expected.join("\n"))
+    expect(convertYamlToK8sEnv("a: 1\n---\nb: 2")).toBe("- name: A\n  value: '1'\n# Document 2\n- name: B\n  value: '2'")
+  })
+
+  test("reads escapes, continuations and non-ASCII text from .properties files", () => {
+    const bundle = [
+      "# Gr\\u00fc\\u00dfe",
+      "greeting.hello = Gr\\u00fc\\u00df Gott",
+      "greeting.long : first line \\",
+      "    second line",
+      "path\\=with\\:colon   C:\\\\temp",
+      "multi.line=one\\ntwo",
+    ].join("\n")
+
+    expect(convertPropertiesToYaml(bundle)).toBe(
+      [
+        "# Grüße",
+        "greeting:",
+        "  hello: Grüß Gott",
+        "  long: first line second line",
+        "path=with:colon: C:\\temp",
+        "multi:",
+        "  line: |-",
+        "    one",
+        "    two",
+        "",
+      ].join("\n")
+    )
+    expect(convertYamlToEnv("greeting.long=first \\\n  line")).toBe("GREETING_LONG=first line")
+  })
+
+  test("escapes only what .properties needs when writing", () => {
+    const yamlInput = 'greeting: "Grüß Gott"\nurl: "jdbc:mysql://db:3306/app"\nlines: "a\\nb"\n"key with space": " padded"\n'
+
+    expect(convertYamlToProperties(yamlInput)).toBe(
+      "greeting=Gr\\u00FC\\u00DF Gott\nurl=jdbc:mysql://db:3306/app\nlines=a\\nb\nkey\\ with\\ space=\\ padded"
+    )
+    expect(convertProperties(yamlInput, "yaml-to-properties", { escapeUnicode: false }).split("\n")[0]).toBe(
+      "greeting=Grüß Gott"
+    )
+  })
+
+  test("writes YAML nulls as empty values and resolves merge keys", () => {
+    const yamlInput = "a:\n  b: ~\n  c: null\n  d: 'null'\nbase: &base\n  x: 1\nchild:\n  <<: *base\n  y: 2.50\n"
+
+    expect(convertYamlToEnv(yamlInput)).toBe("A_B=\nA_C=\nA_D=null\nBASE_X=1\nCHILD_X=1\nCHILD_Y=2.50")
+    expect(convertYamlToProperties(yamlInput)).toBe("a.b=\na.c=\na.d=null\nbase.x=1\nchild.x=1\nchild.y=2.50")
+  })
+
+  test("falls back to properties input for env conversions", () => {
+    expect(convertYamlToEnv("app.name=demo\napp.tags[0]=x")).toBe("APP_NAME=demo\nAPP_TAGS_0=x")
+  })
+})
+
+describe("properties-utils env sources", () => {
+  test("rebuilds nested YAML with lists and typed scalars", () => {
+    const env = [
+      "# local overrides",
+      "export APP_REDIS_HOST=localhost",
+      'APP_REDIS_PASSWORD="s3cr=t"',
+      "APP_REDIS_PORT=6379",
+      "APP_SERVERS_0_NAME=primary",
+      "APP_SERVERS_1_NAME=replica",
+      "APP_ZIP=02134",
+      "SPRING_JPA_SHOW_SQL=true",
+    ].join("\n")
+
+    expect(convertEnvToYaml(env)).toBe(
+      [
+        "app:",
+        "  redis:",
+        "    host: localhost",
+        "    password: s3cr=t",
+        "    port: 6379",
+        "  servers:",
+        "    - name: primary",
+        "    - name: replica",
+          '  zip: "02134"',
+        "spring:",
+        "  jpa:",
+        "    show-sql: true",
+        "",
+      ].join("\n")
+    )
+  })
+
+  test("uses known and custom property names to keep dashed elements", () => {
+    expect(convertEnvToProperties("SERVER_SERVLET_CONTEXT_PATH=/api\nAPP_RETRY_MAX_ATTEMPTS=3")).toBe(
+      "server.servlet.context-path=/api\napp.retry.max.attempts=3"
+    )
+    expect(
+      convertProperties("APP_RETRY_MAX_ATTEMPTS=3", "env-to-properties", { propertyHints: ["app.retry.max-attempts"] })
+    ).toBe("app.retry.max-attempts=3")
+  })
+
+  test("expands SPRING_APPLICATION_JSON so env output round-trips", () => {
+    const yamlInput = "app:\n  maxPoolSize: 10\n  feature_flags:\n    beta: true\n"
+
+    expect(convertEnvToYaml(convertYamlToEnv(yamlInput))).toBe(
+      "app:\n  maxpoolsize: 10\n  feature_flags:\n    beta: true\n"
+    )
+  })
+
+  test("reads bare and wrapped Kubernetes env lists", () => {
+    const k8s = "env:\n  - name: SERVER_PORT\n    value: '8080'\n  - name: DB_PASSWORD\n    valueFrom:\n      secretKeyRef:\n        name: db\n        key: password\n"
+
+    expect(convertK8sEnvToYaml(k8s)).toBe("server:\n  port: 8080\n")
+    expect(convertK8sEnvToYaml("- name: APP_NAME\n  value: demo")).toBe("app:\n  name: demo\n")
+  })
+
+  test("keeps __proto__ keys as ordinary properties", () => {
+    expect(convertYamlToEnv("__proto__:\n  x: 1\n")).toBe('SPRING_APPLICATION_JSON={"__proto__":{"x":1}}')
+    expect(convertPropertiesToYaml("__proto__.x=1")).toBe("__proto__:\n  x: 1\n")
+    expect(convertEnvToYaml('SPRING_APPLICATION_JSON={"__proto__":{"x":1}}')).toBe("__proto__:\n  x: 1\n")
+  })
+
+  test("reports conflicting and invalid names", () => {
+    expect(() => convertEnvToYaml("APP=1\nAPP_NAME=demo")).toThrow("app.name is both a value and a parent")
+    expect(() => convertEnvToYaml("APP-NAME=demo")).toThrow("Invalid environment variable name: APP-NAME")
+    expect(() => convertK8sEnvToYaml("server:\n  port: 8080")).toThrow("Expected a Kubernetes env list")
+    expect(() => convertEnvToYaml("MY_LIST_99999999_NAME=x")).toThrow(
+      "List index 99999999 in my.list[99999999].name is too far past the end of the list"
+    )
+    expect(() => convertPropertiesToYaml("l[99999999]=x")).toThrow("List index 99999999 in l[99999999]")
+    expect(convertPropertiesToYaml("l[2]=x")).toBe("l:\n  - null\n  - null\n  - x\n")
+  })
+})
@@ -1,87 +1,267 @@
 import yaml from "js-yaml"
 
-type ConversionMode = "yaml-to-env" | "spring-to-env" | "yaml-to-properties" | "properties-to-yaml" | "yaml-to-k8s-env"
+import { parseEnvOutput, type EnvLine } from "@/lib/env-parser"
+import {
+  formatJavaComment,
+  formatJavaProperty,
+  parseJavaProperties,
+  type JavaPropertiesWriteOptions,
+} from "@/lib/java-properties"
+import {
+  buildSpringApplicationJson,
+  checkListIndex,
+  envVarToPropertyKey,
+  KNOWN_PROPERTY_PREFIXES,
+  parsePropertyName,
+  propertyKeyToEnvVar,
+} from "@/lib/spring-relaxed-binding"
+import {
+  collectYamlComments,
+  insertYamlComments,
+  splitYamlDocuments,
+  type DocumentComments,
+} from "@/lib/yaml-comments"
+
+type ConversionMode =
+  | "yaml-to-env"
+  | "spring-to-env"
+  | "yaml-to-properties"
+  | "properties-to-yaml"
+  | "yaml-to-k8s-env"
+  | "env-to-yaml"
+  | "env-to-properties"
+  | "k8s-env-to-yaml"
+
+interface ConversionOptions extends JavaPropertiesWriteOptions {
+  /** Known property names used to tell dashes from nesting when reading env var names. */
+  propertyHints?: readonly string[]
+}
 
-function flattenObject(obj: any, prefix = ""): Record<string, any> {
-  const flattened: Record<string, any> = {}
+const YAML_DUMP_OPTIONS: yaml.DumpOptions = {
+  indent: 2,
+  lineWidth: -1,
+  noRefs: true,
+  sortKeys: false,
+  quotingType: '"',
+  forceQuotes: false
+}
 
-  for (const [key, value] of Object.entries(obj)) {
-    const newKey = prefix ? `${prefix}.${key}` : key
+type PropertyEntry = [key: string, value: unknown]
 
-    if (value !== null && typeof value === "object" && !Array.isArray(value)) {
-      Object.assign(flattened, flattenObject(value, newKey))
-    } else if (Array.isArray(value)) {
-      flattened[newKey] = value.join(",")
-    } else {
-      flattened[newKey] = value
+/** One `---` (YAML) or `#---` (properties) section with its properties in source order. */
+interface ConfigDocument {
+  entries: PropertyEntry[]
+  comments: DocumentComments
+}
+
+/** Activation keys that select a profile document rather than configure the application. */
+const PROFILE_ACTIVATION_PREFIX = "spring.config.activate."
+
+/** Flattens nested values to properties, writing list items as indexed keys (`servers[0].host`). */
+function flattenObject(value: unknown, prefix = "", entries: PropertyEntry[] = []): PropertyEntry[] {
+  if (Array.isArray(value)) {
+    if (value.length === 0) entries.push([prefix, ""])
+    value.forEach((item, index) => flattenObject(item, `${prefix}[${index}]`, entries))
+  } else if (value !== null && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      flattenObject(child, prefix ? `${prefix}.${key}` : key, entries)
     }
+  } else {
+    entries.push([prefix, value])
   }
 
-  return flattened
+  return entries
 }
 
-function parsePropertiesFormat(input: string): Record<string, any> {
-  const result: Record<string, any> = {}
-  const lines = input.split("\n")
+/** Splits a properties file into the documents Spring Boot reads, separated by `#---` or `!---` lines. */
+function splitPropertiesDocuments(input: string): string[] {
+  return input.split(/^[#!]---[ \t]*\r?$/m)
+}
 
-  for (const line of lines) {
-    const trimmed = line.trim()
-    if (!trimmed || trimmed.startsWith("#") || trimmed.startsWith("//")) {
-      continue
+function parsePropertiesDocument(input: string): ConfigDocument {
+  const entries: PropertyEntry[] = []
+  const comments = new Map<string, string[]>()
+  let pending: string[] = []
+
+  for (const line of parseJavaProperties(input)) {
+    if (line.kind === "blank") {
+      if (entries.length > 0 || pending.length > 0) pending.push("")
+    } else if (line.kind === "comment") {
+      // `!` comments become `#` so they stay comments in YAML.
+      pending.push(`#${line.text.slice(1)}`)
+    } else {
+      if (pending.length > 0) comments.set(line.key, [...(comments.get(line.key) ?? []), ...pending])
+      pending = []
+      entries.push([line.key, line.value])
     }
+  }
+
+  while (pending[pending.length - 1] === "") pending.pop()
+  return { entries, comments: { comments, trailing: pending } }
+}
 
-    const match = trimmed.match(/^([^=:]+)[=:]\s*(.*)$/)
-    if (match) {
-      const [, key, value] = match
-      setNestedProperty(result, key.trim(), value.trim())
+/**
+ * Resolves nulls and `<<` merge keys like the default schema, but keeps numbers, booleans and
+ * dates as written so `1.0` or `2024-01-01` aren't reformatted.
+ */
+const YAML_TEXT_SCHEMA = yaml.FAILSAFE_SCHEMA.extend({
+  implicit: [
+    new yaml.Type("tag:yaml.org,2002:null", {
+      kind: "scalar",
+      resolve: (data: string | null) => data === null || /^(?:~|null|Null|NULL)$/.test(data),
+      construct: () => null,
+    }),
+    new yaml.Type("tag:yaml.org,2002:merge", {
+      kind: "scalar",
+      resolve: (data: string | null) => data === "<<",
+    }),
+  ],
+})
+
+function parseYamlDocuments(input: string): ConfigDocument[] {
+  return splitYamlDocuments(input).map((source) => {
+    const parsed = yaml.load(source, { schema: YAML_TEXT_SCHEMA })
+
+    if (parsed !== null && parsed !== undefined && (typeof parsed !== "object" || Array.isArray(parsed))) {
+      throw new Error("Invalid YAML format")
     }
-  }
 
-  return result
+    return { entries: parsed ? flattenObject(parsed) : [], comments: collectYamlComments(source) }
+  })
 }
 
-function setNestedProperty(obj: any, path: string, value: string) {
-  const keys = path.split(".")
-  let current = obj
+function parseYamlOrProperties(input: string): ConfigDocument[] {
+  let documents: ConfigDocument[] = []
+  try {
+    documents = parseYamlDocuments(input)
+  } catch {
+    documents = []
+  }
 
-  for (let i = 0; i < keys.length - 1; i++) {
-    const key = keys[i]
-    if (!(key in current) || typeof current[key] !== "object") {
-      current[key] = {}
-    }
-    current = current[key]
+  if (!documents.some((document) => document.entries.length > 0)) {
+    documents = splitPropertiesDocuments(input).map(parsePropertiesDocument)
+  }
+
+  if (!documents.some((document) => document.entries.length > 0)) {
+    throw new Error("Invalid input format - expected YAML or properties format")
   }
 
-  current[keys[keys.length - 1]] = value
+  return documents
 }
 
-function propertyKeyToEnvVar(key: string): string {
-  return key.replace(/[.-]/g, "_").toUpperCase()
+/** Paths of a property and its parents, outermost first: `a`, `a.b`, `a.b[0]`. */
+function propertyPathPrefixes(key: string): string[] {
+  let path = ""
+  return parsePropertyName(key).map((element) => {
+    path = element.indexed ? `${path}[${element.value}]` : path ? `${path}.${element.value}` : element.value
+    return path
+  })
 }
 
-export function convertYamlToEnv(input: string): string {
-  try {
-    let parsed: any
-    try {
-      parsed = yaml.load(input)
-    } catch {
-      parsed = parsePropertiesFormat(input)
+/** Writes properties with the comments and blank lines that preceded each one (or its parent) in the source. */
+function writePropertiesDocument({ entries, comments }: ConfigDocument, options: JavaPropertiesWriteOptions): string {
+  const lines: string[] = []
+  const written = new Set<string>()
+
+  for (const [key, value] of entries) {
+    for (const path of propertyPathPrefixes(key)) {
+      if (comments.comments.has(path) && !written.has(path)) {
+        lines.push(...(comments.comments.get(path) ?? []))
+        written.add(path)
+      }
     }
+    lines.push(formatJavaProperty(key, String(value ?? ""), options))
+  }
 
-    if (!parsed || typeof parsed !== "object") {
-      throw new Error("Invalid input format - expected YAML or properties format")
+  for (const [path, block] of comments.comments) {
+    if (!written.has(path)) lines.push(...block)
+  }
+  lines.push(...comments.trailing)
+
+  return lines.map((line) => (line.startsWith("#") ? formatJavaComment(line, options) : line)).join("\n")
+}
+
+/**
+ * Moves each properties comment to the outermost YAML key its property opens, so a comment
+ * above the first `app.*` property lands above `app:` instead of inside it.
+ */
+function anchorCommentsToParents({ entries, comments }: ConfigDocument): DocumentComments {
+  const pending = new Map(comments.comments)
+  const anchored = new Map<string, string[]>()
+  const opened = new Set<string>()
+
+  for (const [key] of entries) {
+    const prefixes = propertyPathPrefixes(key)
+    const block = pending.get(key)
+
+    if (block) {
+      const anchor = prefixes.find((path) => !opened.has(path)) ?? key
+      anchored.set(anchor, [...(anchored.get(anchor) ?? []), ...block])
+      pending.delete(key)
     }
+    prefixes.forEach((path) => opened.add(path))
+  }
 
-    const flattened = flattenObject(parsed)
-    const envVars: string[] = []
+  return { comments: anchored, trailing: comments.trailing }
+}
+
+function hasContent(document: ConfigDocument): boolean {
+  return document.entries.length > 0 || document.comments.comments.size > 0 || document.comments.trailing.length > 0
+}
 
-    for (const [key, value] of Object.entries(flattened)) {
-      const envKey = propertyKeyToEnvVar(key)
-      const envValue = value?.toString() || ""
-      envVars.push(`${envKey}=${envValue}`)
+/**
+ * Env variables per document. Profile documents are introduced by a comment naming their
+ * activation instead of exporting the activation keys, which only mean something in config files.
+ */
+function toEnvDocuments(documents: ConfigDocument[]): Array<{ header: string | null; entries: Array<[string, string]> }> {
+  return documents
+    .filter((document) => document.entries.length > 0)
+    .map((document, index) => {
+      const activation = document.entries.filter(([key]) => key.startsWith(PROFILE_ACTIVATION_PREFIX))
+      const properties = document.entries.filter(([key]) => !key.startsWith(PROFILE_ACTIVATION_PREFIX))
+      const header =
+        activation.length > 0
+          ? `# ${activation.map(([key, value]) => `${key}=${value ?? ""}`).join(", ")}`
+          : index > 0
+            ? `# Document ${index + 1}`
+            : null
+
+      return { header, entries: toEnvEntries(properties) }
+    })
+}
+
+/**
+ * Pairs each property with the environment variable that binds to it. Properties that no
+ * variable name can express are collected into a single SPRING_APPLICATION_JSON entry.
+ */
+function toEnvEntries(properties: Array<[key: string, value: unknown]>): Array<[name: string, value: string]> {
+  const entries: Array<[string, string]> = []
+  const unbindable: Array<[string, unknown]> = []
+
+  for (const [key, value] of properties) {
+    const envKey = propertyKeyToEnvVar(key)
+    if (envKey) {
+      entries.push([envKey, value?.toString() || ""])
+    } else {
+      unbindable.push([key, typeof value === "string" ? parseScalarValue(value) : value])
     }
+  }
 
-    return envVars.join("\n")
+  if (unbindable.length > 0) {
+    entries.push(["SPRING_APPLICATION_JSON", buildSpringApplicationJson(unbindable)])
+  }
+
+  return entries
+}
+
+export function convertYamlToEnv(input: string): string {
+  try {
+    return toEnvDocuments(parseYamlOrProperties(input))
+      .flatMap(({ header, entries }) => [
+        ...(header ? [header] : []),
+        ...entries.map(([envKey, envValue]) => `${envKey}=${envValue}`),
+      ])
+      .join("\n")
   } catch (error) {
     throw new Error(`YAML to environment variables conversion failed: ${error instanceof Error ? error.message : "Unknown error"}`)
   }
@@ -121,7 +301,7 @@ export function convertSpringToEnv(input: string): string {
           const parts = trimmed.split("=")
           propertyKey = parts[0].trim()
           defaultValue = parts.slice(1).join("=").trim()
-        } else if (trimmed.includes(":") && !trimmed.match(/^[a-zA-Z0-9._-]+:[a-zA-Z0-9._-]+$/)) {
+        } else if (trimmed.includes(":") && !trimmed.match(/^[a-zA-Z0-9._\[\]-]+:[a-zA-Z0-9._\[\]-]+$/)) {
           const colonIdx = trimmed.lastIndexOf(":")
           propertyKey = trimmed.substring(0, colonIdx).trim()
           defaultValue = trimmed.substring(colonIdx + 1).trim()
@@ -129,7 +309,7 @@ export function convertSpringToEnv(input: string): string {
           propertyKey = trimmed
         }
 
-        if (propertyKey && propertyKey.match(/^[a-zA-Z0-9._-]+$/)) {
+        if (propertyKey && propertyKey.match(/^[a-zA-Z0-9._\[\]-]+$/)) {
           properties.add(`${propertyKey}|${defaultValue}`)
         }
       }
@@ -139,36 +319,31 @@ export function convertSpringToEnv(input: string): string {
       throw new Error("No properties found in the input. Enter @Value annotations or property keys")
     }
 
-    const envVars: string[] = []
-    for (const prop of properties) {
+    const entries = Array.from(properties, (prop): [string, string] => {
       const [propertyKey, defaultValue] = prop.split("|")
-      const envKey = propertyKeyToEnvVar(propertyKey)
-      envVars.push(`${envKey}=${defaultValue}`)
-    }
+      return [propertyKey, defaultValue]
+    })
 
-    return envVars.join("\n")
+    return toEnvEntries(entries)
+      .map(([envKey, envValue]) => `${envKey}=${envValue}`)
+      .join("\n")
   } catch (error) {
     throw new Error(`Spring to environment variables conversion failed: ${error instanceof Error ? error.message : "Unknown error"}`)
   }
 }
 
-export function convertYamlToProperties(input: string): string {
+export function convertYamlToProperties(input: string, options: JavaPropertiesWriteOptions = {}): string {
   try {
-    const parsed = yaml.load(input)
+    const documents = parseYamlDocuments(input)
 
-    if (!parsed || typeof parsed !== "object") {
+    if (!documents.some((document) => document.entries.length > 0)) {
       throw new Error("Invalid YAML format")
     }
 
-    const flattened = flattenObject(parsed)
-    const properties: string[] = []
-
-    for (const [key, value] of Object.entries(flattened)) {
-      const propValue = value?.toString() || ""
-      properties.push(`${key}=${propValue}`)
-    }
-
-    return properties.join("\n")
+    return documents
+      .filter(hasContent)
+      .map((document) => writePropertiesDocument(document, options))
+      .join("\n#---\n")
   } catch (error) {
     throw new Error(`YAML to properties conversion failed: ${error instanceof Error ? error.message : "Unknown error"}`)
   }
@@ -176,22 +351,24 @@ export function convertYamlToProperties(input: string): string {
 
 export function convertPropertiesToYaml(input: string): string {
   try {
-    const parsed = parsePropertiesFormat(input)
+    const documents = splitPropertiesDocuments(input).map(parsePropertiesDocument)
 
-    if (!parsed || Object.keys(parsed).length === 0) {
+    if (!documents.some((document) => document.entries.length > 0)) {
       throw new Error("No valid properties found")
     }
 
-    const yamlOutput = yaml.dump(parsed, {
-      indent: 2,
-      lineWidth: -1,
-      noRefs: true,
-      sortKeys: false,
-      quotingType: '"',
-      forceQuotes: false
-    })
+    return documents
+      .filter(hasContent)
+      .map((document) => {
+        const tree: PropertyTree = Object.create(null)
+        for (const [key, value] of document.entries) {
+          setIndexedProperty(tree, key, parseScalarValue(String(value)))
+        }
 
-    return yamlOutput
+        const yamlOutput = document.entries.length > 0 ? yaml.dump(tree, YAML_DUMP_OPTIONS) : ""
+        return insertYamlComments(yamlOutput, anchorCommentsToParents(document))
+      })
+      .join("---\n")
   } catch (error) {
     throw new Error(`Properties to YAML conversion failed: ${error instanceof Error ? error.message : "Unknown error"}`)
   }
@@ -199,32 +376,51 @@ export function convertPropertiesToYaml(input: string): string {
 
 export function convertYamlToK8sEnv(input: string): string {
   try {
-    let parsed: any
-    try {
-      parsed = yaml.load(input)
-    } catch {
-      parsed = parsePropertiesFormat(input)
-    }
+    const k8sEnvVars: string[] = []
+
+    for (const { header, entries } of toEnvDocuments(parseYamlOrProperties(input))) {
+      if (header) {
+        k8sEnvVars.push(header)
+      }
 
-    if (!parsed || typeof parsed !== "object") {
-      throw new Error("Invalid input format - expected YAML or properties format")
+      for (const [envKey, envValue] of entries) {
+        if (!isValidK8sEnvName(envKey)) {
+          throw new Error(`Invalid Kubernetes environment variable name: ${envKey}`)
+        }
+
+        k8sEnvVars.push(`- name: ${envKey}\n  value: '${envValue}'`)
+      }
     }
 
-    const flattened = flattenObject(parsed)
-    const k8sEnvVars: string[] = []
+    return k8sEnvVars.join("\n")
+  } catch (error) {
+    throw new Error(`YAML to K8s environment variables conversion failed: ${error instanceof Error ? error.message : "Unknown error"}`)
+  }
+}
 
-    for (const [key, value] of Object.entries(flattened)) {
-      const envKey = propertyKeyToEnvVar(key)
+/**
+ * Environment variables for one deployment: documents without an activation condition,
+ * merged in order so later documents win, the way Spring Boot applies them.
+ */
+export function collectK8sEnvVariables(input: string): Array<[name: string, value: string]> {
+  try {
+    const variables = new Map<string, string>()
 
-      if (!isValidK8sEnvName(envKey)) {
-        throw new Error(`Invalid Kubernetes environment variable name: ${envKey}`)
+    for (const document of parseYamlOrProperties(input)) {
+      if (document.entries.some(([key]) => key.startsWith(PROFILE_ACTIVATION_PREFIX))) {
+        continue
       }
 
-      const envValue = value?.toString() || ""
-      k8sEnvVars.push(`- name: ${envKey}\n  value: '${envValue}'`)
+      for (const [envKey, envValue] of toEnvEntries(document.entries)) {
+        if (!isValidK8sEnvName(envKey)) {
+          throw new Error(`Invalid Kubernetes environment variable name: ${envKey}`)
+        }
+
+        variables.set(envKey, envValue)
+      }
     }
 
-    return k8sEnvVars.join("\n")
+    return Array.from(variables)
   } catch (error) {
     throw new Error(`YAML to K8s environment variables conversion failed: ${error instanceof Error ? error.message : "Unknown error"}`)
   }
@@ -239,7 +435,169 @@ function isValidK8sEnvName(name: string): boolean {
   return k8sNamePattern.test(name)
 }
 
-export function convertProperties(input: string, mode: ConversionMode): string {
+/** Reads `.env` content, skipping comments and `export` prefixes and unquoting values. */
+function parseEnvFile(input: string): EnvLine[] {
+  const lines = input
+    .split("\n")
+    .filter((line) => !line.trim().startsWith("#"))
+    .map((line) => line.replace(/^\s*export\s+/, ""))
+    .join("\n")
+
+  return parseEnvOutput(lines).map((line) => {
+    const quoted = line.value.match(/^(["'])([\s\S]*)\1$/)
+    return quoted ? { ...line, value: quoted[2] } : line
+  })
+}
+
+/** Reads a Kubernetes `env:` list, either bare or under an `env` key; `valueFrom` entries are skipped. */
+function parseK8sEnv(input: string): EnvLine[] {
+  const parsed = yaml.load(input) as { env?: unknown } | unknown[] | null
+  const list = Array.isArray(parsed) ? parsed : parsed?.env
+
+  if (!Array.isArray(list)) {
+    throw new Error("Expected a Kubernetes env list of name/value entries")
+  }
+
+  return (list as Array<{ name?: unknown; value?: unknown } | null>)
+    .filter((entry) => typeof entry?.name === "string" && entry.value !== undefined)
+    .map((entry) => {
+      const name = String(entry?.name)
+      const value = entry?.value === null ? "" : String(entry?.value)
+      return { key: name, value, fullLine: `${name}=${value}` }
+    })
+}
+
+/**
+ * Turns strings back into YAML scalars: booleans and numbers lose their quotes when the
+ * number prints back exactly as written, so `1.0` and `0123` stay strings.
+ */
+function parseScalarValue(value: string): unknown {
+  if (value === "true" || value === "false") {
+    return value === "true"
+  }
+
+  if (/^-?(0|[1-9]\d*)(\.\d+)?$/.test(value)) {
+    const number = Number(value)
+    if (String(number) === value && (value.includes(".") || Number.isSafeInteger(number))) {
+      return number
+    }
+  }
+
+  return value
+}
+
+/** Built on null-prototype objects so keys such as `__proto__` stay ordinary properties. */
+type PropertyTree = Record<string | number, unknown>
+
+function setIndexedProperty(obj: PropertyTree, key: string, value: unknown) {
+  const elements = parsePropertyName(key)
+  let current = obj
+
+  elements.forEach((element, position) => {
+    const slot = element.indexed && /^\d+$/.test(element.value) ? Number(element.value) : element.value
+
+    // Fill skipped list indexes so the YAML keeps every item at its original position.
+    if (Array.isArray(current)) {
+      const list: unknown[] = current
+      checkListIndex(list, Number(slot), key)
+      while (list.length < Number(slot)) list.push(null)
+    }
+
+    if (position === elements.length - 1) {
+      if (current[slot] !== null && typeof current[slot] === "object") {
+        throw new Error(`${key} is both a value and a parent of other properties`)
+      }
+      current[slot] = value
+      return
+    }
+
+    if (current[slot] === undefined || (Array.isArray(current) && current[slot] === null)) {
+      const next = elements[position + 1]
+      current[slot] = next.indexed && /^\d+$/.test(next.value) ? [] : Object.create(null)
+    } else if (current[slot] === null || typeof current[slot] !== "object") {
+      throw new Error(`${key} is both a value and a parent of other properties`)
+    }
+    current = current[slot] as PropertyTree
+  })
+}
+
+/**
+ * Maps env entries to property keys and values. SPRING_APPLICATION_JSON is expanded into
+ * the properties it carries, the reverse of the fallback used when generating env output.
+ */
+function envToPropertyEntries(lines: EnvLine[], hints: readonly string[]): PropertyEntry[] {
+  const entries: PropertyEntry[] = []
+
+  for (const line of lines) {
+    if (line.key === "SPRING_APPLICATION_JSON") {
+      let parsed: unknown
+      try {
+        parsed = JSON.parse(line.value)
+      } catch {
+        throw new Error("SPRING_APPLICATION_JSON is not valid JSON")
+      }
+      if (parsed === null || typeof parsed !== "object" || Array.isArray(parsed)) {
+        throw new Error("SPRING_APPLICATION_JSON must be a JSON object")
+      }
+      flattenObject(parsed, "", entries)
+      continue
+    }
+
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(line.key)) {
+      throw new Error(`Invalid environment variable name: ${line.key}`)
+    }
+
+    entries.push([envVarToPropertyKey(line.key, hints), parseScalarValue(line.value)])
+  }
+
+  if (entries.length === 0) {
+    throw new Error("No environment variables found")
+  }
+
+  return entries
+}
+
+function envEntriesToYaml(lines: EnvLine[], hints: readonly string[]): string {
+  const result: PropertyTree = Object.create(null)
+
+  for (const [key, value] of envToPropertyEntries(lines, hints)) {
+    setIndexedProperty(result, key, value)
+  }
+
+  return yaml.dump(result, YAML_DUMP_OPTIONS)
+}
+
+export function convertEnvToYaml(input: string, hints: readonly string[] = KNOWN_PROPERTY_PREFIXES): string {
+  try {
+    return envEntriesToYaml(parseEnvFile(input), hints)
+  } catch (error) {
+    throw new Error(`Environment variables to YAML conversion failed: ${error instanceof Error ? error.message : "Unknown error"}`)
+  }
+}
+
+export function convertEnvToProperties(
+  input: string,
+  hints: readonly string[] = KNOWN_PROPERTY_PREFIXES,
+  options: JavaPropertiesWriteOptions = {}
+): string {
+  try {
+    return envToPropertyEntries(parseEnvFile(input), hints)
+      .map(([key, value]) => formatJavaProperty(key, String(value ?? ""), options))
+      .join("\n")
+  } catch (error) {
+    throw new Error(`Environment variables to properties conversion failed: ${error instanceof Error ? error.message : "Unknown error"}`)
+  }
+}
+
+export function convertK8sEnvToYaml(input: string, hints: readonly string[] = KNOWN_PROPERTY_PREFIXES): string {
+  try {
+    return envEntriesToYaml(parseK8sEnv(input), hints)
+  } catch (error) {
+    throw new Error(`K8s environment variables to YAML conversion failed: ${error instanceof Error ? error.message : "Unknown error"}`)
+  }
+}
+
+export function convertProperties(input: string, mode: ConversionMode, options: ConversionOptions = {}): string {
   if (!input.trim()) {
     return ""
   }
@@ -250,14 +608,24 @@ export function convertProperties(input: string, mode: ConversionMode): string {
     case "spring-to-env":
       return convertSpringToEnv(input)
     case "yaml-to-properties":
-      return convertYamlToProperties(input)
+      return convertYamlToProperties(input, options)
     case "properties-to-yaml":
       return convertPropertiesToYaml(input)
     case "yaml-to-k8s-env":
       return convertYamlToK8sEnv(input)
+    case "env-to-yaml":
+      return convertEnvToYaml(input, withDefaultHints(options))
+    case "env-to-properties":
+      return convertEnvToProperties(input, withDefaultHints(options), options)
+    case "k8s-env-to-yaml":
+      return convertK8sEnvToYaml(input, withDefaultHints(options))
     default:
       throw new Error(`Invalid conversion mode: ${mode}`)
   }
 }
 
-export type { ConversionMode }
\ No newline at end of file
+function withDefaultHints(options: ConversionOptions): readonly string[] {
+  return [...KNOWN_PROPERTY_PREFIXES, ...(options.propertyHints ?? [])]
+}
+
+export type { ConversionMode, ConversionOptions }
\ No newline at end of file
@@ -0,0 +1,103 @@
+import { describe, expect, test } from "bun:test"
+import { convertSpringToEnv, convertYamlToEnv, convertYamlToK8sEnv } from "@/lib/properties-utils"
+import {
+  buildSpringApplicationJson,
+  envVarToPropertyKey,
+  isSamePropertyName,
+  parsePropertyName,
+  propertyKeyToEnvVar,
+  toCanonicalPropertyName,
+} from "@/lib/spring-relaxed-binding"
+
+describe("spring-relaxed-binding", () => {
+  test("parses dotted, indexed and bracketed map key elements", () => {
+    expect(parsePropertyName("my.list[0].name")).toEqual([
+      { value: "my", indexed: false },
+      { value: "list", indexed: false },
+      { value: "0", indexed: true },
+      { value: "name", indexed: false },
+    ])
+    expect(parsePropertyName("my.map[key.with.dots]")).toEqual([
+      { value: "my", indexed: false },
+      { value: "map", indexed: false },
+      { value: "key.with.dots", indexed: true },
+    ])
+  })
+
+  test("converts names to the canonical kebab-case form", () => {
+    expect(toCanonicalPropertyName("spring.datasource.hikari.maxPoolSize")).toBe("spring.datasource.hikari.max-pool-size")
+    expect(toCanonicalPropertyName("app.URLPath[0].firstName")).toBe("app.url-path[0].first-name")
+  })
+
+  test("maps properties to the documented environment variable names", () => {
+    const cases: Array<[string, string]> = [
+      ["spring.main.log-startup-info", "SPRING_MAIN_LOGSTARTUPINFO"],
+      ["spring.datasource.hikari.maxPoolSize", "SPRING_DATASOURCE_HIKARI_MAXPOOLSIZE"],
+      ["my.service[0].other", "MY_SERVICE_0_OTHER"],
+      ["my.list[0][1].name", "MY_LIST_0_1_NAME"],
+      ["my.props[region]", "MY_PROPS_REGION"],
+    ]
+
+    for (const [key, envVar] of cases) {
+      expect(propertyKeyToEnvVar(key)).toBe(envVar)
+    }
+  })
+
+  test("returns null when no variable name can bind back", () => {
+    expect(propertyKeyToEnvVar("my.map[key.with.dots]")).toBeNull()
+    expect(propertyKeyToEnvVar("my.map[Region]")).toBeNull()
+    expect(propertyKeyToEnvVar("my.map[eu-west]")).toBeNull()
+    expect(propertyKeyToEnvVar("my.snake_case")).toBeNull()
+    expect(propertyKeyToEnvVar("")).toBeNull()
+  })
+
+  test("reads environment variables back as canonical property names", () => {
+    expect(envVarToPropertyKey("MY_LIST_0_NAME")).toBe("my.list[0].name")
+    expect(envVarToPropertyKey("SPRING_MAIN_LOGSTARTUPINFO")).toBe("spring.main.logstartupinfo")
+  })
+
+  test("prefers the longest matching property hint", () => {
+    const hints = ["server.servlet", "server.servlet.context-path", "app.cacheNames"]
+
+    expect(envVarToPropertyKey("SERVER_SERVLET_CONTEXT_PATH", hints)).toBe("server.servlet.context-path")
+    expect(envVarToPropertyKey("SERVER_SERVLET_CONTEXTPATH", hints)).toBe("server.servlet.context-path")
+    expect(envVarToPropertyKey("SERVER_SERVLET_SESSION_TIMEOUT", hints)).toBe("server.servlet.session.timeout")
+    expect(envVarToPropertyKey("APP_CACHE_NAMES_0", hints)).toBe("app.cache-names[0]")
+    expect(envVarToPropertyKey("SERVER_PORT", hints)).toBe("server.port")
+  })
+
+  test("every generated variable binds back to its property", () => {
+    const keys = [
+      "spring.main.log-startup-info",
+      "spring.datasource.hikari.maxPoolSize",
+      "my.service[0].other",
+      "my.props[region]",
+      "server.port",
+    ]
+
+    for (const key of keys) {
+      const envVar = propertyKeyToEnvVar(key)
+      expect(envVar).not.toBeNull()
+      expect(isSamePropertyName(envVarToPropertyKey(envVar!), key)).toBe(true)
+    }
+  })
+
+  test("nests unbindable properties for SPRING_APPLICATION_JSON", () => {
+    expect(
+      buildSpringApplicationJson([
+        ["my.map[key.with.dots]", "a"],
+        ["my.items[1].snake_name", 2],
+      ])
+    ).toBe('{"my":{"map":{"key.with.dots":"a"},"items":[null,{"snake_name":2}]}}')
+    expect(buildSpringApplicationJson([["__proto__.x", 1]])).toBe('{"__proto__":{"x":1}}')
+    expect(() => buildSpringApplicationJson([["my.Items[99999999]", 1]])).toThrow("List index 99999999 in my.Items[99999999]")
+  })
+
+  test("converters emit relaxed-binding names and a JSON fallback", () => {
+    expect(convertYamlToEnv("app:\n  maxPoolSize: 10\n  feature_flags:\n    beta: true\n")).toBe(
+      'APP_MAXPOOLSIZE=10\nSPRING_APPLICATION_JSON={"app":{"feature_flags":{"beta":true}}}'
+    )
+    expect(convertSpringToEnv('@Value("${my.servers[0].host-name:localhost}")')).toBe("MY_SERVERS_0_HOSTNAME=localhost")
+    expect(convertYamlToK8sEnv("server:\n  port: 8080\n")).toBe("- name: SERVER_PORT\n  value: '8080'")
+  })
+})
@@ -0,0 +1,220 @@
+interface PropertyNameElement {
+  value: string
+  /** Written in brackets, e.g. `[0]` or `[key.with.dots]`. */
+  indexed: boolean
+}
+
+const NUMERIC_INDEX = /^\d+$/
+
+/** How far past the end of a list an index may point; skipped items are filled with nulls. */
+const MAX_LIST_INDEX_GAP = 1000
+
+/** Splits a property name into its elements: `a.b[0][x.y]` gives `a`, `b`, `[0]` and `[x.y]`. */
+export function parsePropertyName(key: string): PropertyNameElement[] {
+  const elements: PropertyNameElement[] = []
+  let current = ""
+
+  const pushCurrent = () => {
+    if (current) elements.push({ value: current, indexed: false })
+    current = ""
+  }
+
+  for (let index = 0; index < key.length; index++) {
+    const char = key[index]
+
+    if (char === ".") {
+      pushCurrent()
+    } else if (char === "[") {
+      pushCurrent()
+      const close = key.indexOf("]", index)
+      const end = close === -1 ? key.length : close
+      elements.push({ value: key.slice(index + 1, end), indexed: true })
+      index = end
+    } else {
+      current += char
+    }
+  }
+
+  pushCurrent()
+  return elements
+}
+
+function toKebabCase(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1-$2")
+    .toLowerCase()
+}
+
+/**
+ * Returns Spring Boot's canonical form of a property name: dot separated, lower-case
+ * kebab-case elements, e.g. `app.maxPoolSize` becomes `app.max-pool-size`. Bracketed
+ * elements such as list indexes and map keys are kept as written.
+ */
+export function toCanonicalPropertyName(key: string): string {
+  return parsePropertyName(key)
+    .map((element, position) => {
+      if (element.indexed) return `[${element.value}]`
+      return `${position > 0 ? "." : ""}${toKebabCase(element.value)}`
+    })
+    .join("")
+}
+
+/**
+ * Maps a property to the environment variable Spring Boot binds to it: dots become
+ * underscores, dashes are removed, list indexes become their own segment and the result
+ * is upper-cased (`my.list[0].first-name` → `MY_LIST_0_FIRSTNAME`).
+ *
+ * Returns null when no variable name can bind back to the property, e.g. when an element
+ * contains an underscore or a map key contains dots, dashes or upper-case letters.
+ */
+export function propertyKeyToEnvVar(key: string): string | null {
+  const elements = parsePropertyName(key)
+  if (elements.length === 0) return null
+
+  const segments: string[] = []
+  for (const element of elements) {
+    if (element.indexed) {
+      // Map keys are bound lower-cased and verbatim, so only plain alphanumerics survive.
+      if (!NUMERIC_INDEX.test(element.value) && !/^[a-z0-9]+$/.test(element.value)) return null
+      segments.push(element.value.toUpperCase())
+      continue
+    }
+
+    const canonical = toKebabCase(element.value)
+    if (!/^[a-z0-9-]+$/.test(canonical)) return null
+
+    const segment = canonical.replace(/-/g, "")
+    if (!segment) return null
+    segments.push(segment.toUpperCase())
+  }
+
+  return segments.join("_")
+}
+
+/**
+ * Well-known Spring Boot properties whose dashed elements can't be told apart from nesting
+ * in an environment variable name, e.g. `SERVER_SERVLET_CONTEXT_PATH`.
+ */
+export const KNOWN_PROPERTY_PREFIXES = [
+  "server.servlet.context-path",
+  "server.forward-headers-strategy",
+  "server.max-http-request-header-size",
+  "spring.application.name",
+  "spring.config.activate.on-profile",
+  "spring.datasource.driver-class-name",
+  "spring.datasource.hikari.connection-timeout",
+  "spring.datasource.hikari.maximum-pool-size",
+  "spring.datasource.hikari.minimum-idle",
+  "spring.jpa.hibernate.ddl-auto",
+  "spring.jpa.open-in-view",
+  "spring.jpa.show-sql",
+  "spring.kafka.bootstrap-servers",
+  "spring.kafka.consumer.group-id",
+  "spring.profiles.active",
+  "spring.servlet.multipart.max-file-size",
+  "spring.servlet.multipart.max-request-size",
+  "management.endpoints.web.exposure.include",
+  "management.endpoint.health.show-details",
+  "logging.level.root",
+] as const
+
+/** Number of name segments `hint` accounts for, or 0 when it doesn't match the start of `segments`. */
+function matchPrefixHint(segments: string[], hint: string): number {
+  let consumed = 0
+
+  for (const element of parsePropertyName(hint)) {
+    const parts = element.indexed ? [element.value.toLowerCase()] : toKebabCase(element.value).split("-")
+
+    if (parts.every((part, offset) => segments[consumed + offset] === part)) {
+      consumed += parts.length
+    } else if (segments[consumed] === parts.join("")) {
+      consumed += 1
+    } else {
+      return 0
+    }
+  }
+
+  return consumed
+}
+
+/**
+ * Reads an environment variable name back as the canonical property it binds to,
+ * the reverse of {@link propertyKeyToEnvVar}: `MY_LIST_0_NAME` → `my.list[0].name`.
+ *
+ * Every underscore is a level of nesting unless the longest matching entry of `hints`
+ * says otherwise, so `SERVER_SERVLET_CONTEXT_PATH` becomes `server.servlet.context-path`.
+ */
+export function envVarToPropertyKey(name: string, hints: readonly string[] = []): string {
+  const segments = name.toLowerCase().split("_").filter(Boolean)
+
+  let prefix = ""
+  let consumed = 0
+  for (const hint of hints) {
+    const matched = matchPrefixHint(segments, hint)
+    if (matched > consumed) {
+      prefix = toCanonicalPropertyName(hint)
+      consumed = matched
+    }
+  }
+
+  return segments
+    .slice(consumed)
+    .reduce(
+      (key, segment) => (NUMERIC_INDEX.test(segment) ? `${key}[${segment}]` : key ? `${key}.${segment}` : segment),
+      prefix
+    )
+}
+
+/** Whether two property names refer to the same property under relaxed binding. */
+export function isSamePropertyName(a: string, b: string): boolean {
+  // Spring compares `[key]` and `.key` as the same element; only bean property elements ignore case and dashes.
+  const uniform = (key: string) =>
+    parsePropertyName(key).map((element) =>
+      element.indexed ? element.value : toKebabCase(element.value).replace(/-/g, "")
+    )
+  return JSON.stringify(uniform(a)) === JSON.stringify(uniform(b))
+}
+
+/** Rejects indexes so far past the end of a list that padding it would exhaust memory. */
+export function checkListIndex(list: unknown[], index: number, key: string) {
+  if (index > list.length + MAX_LIST_INDEX_GAP) {
+    throw new Error(`List index ${index} in ${key} is too far past the end of the list`)
+  }
+}
+
+/**
+ * Builds the `SPRING_APPLICATION_JSON` value for properties that cannot be expressed as
+ * environment variable names, nesting them the way Spring reads the JSON back.
+ */
+export function buildSpringApplicationJson(entries: Array<[key: string, value: unknown]>): string {
+  // Null-prototype containers keep keys such as `__proto__` as ordinary properties.
+  const root: Record<string, unknown> = Object.create(null)
+
+  for (const [key, value] of entries) {
+    const elements = parsePropertyName(key)
+    let current: Record<string, unknown> | unknown[] = root
+
+    elements.forEach((element, position) => {
+      const slot: string | number =
+        element.indexed && NUMERIC_INDEX.test(element.value) ? Number(element.value) : element.value
+      const container = current as Record<string | number, unknown>
+      if (Array.isArray(current) && typeof slot === "number") checkListIndex(current, slot, key)
+
+      if (position === elements.length - 1) {
+        container[slot] = value
+        return
+      }
+
+      const next = elements[position + 1]
+      if (container[slot] === null || typeof container[slot] !== "object") {
+        container[slot] = next.indexed && NUMERIC_INDEX.test(next.value) ? [] : Object.create(null)
+      }
+      current = container[slot] as Record<string, unknown> | unknown[]
+    })
+  }
+
+  return JSON.stringify(root)
+}
+
+export type { PropertyNameElement }
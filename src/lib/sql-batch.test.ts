@@ -0,0 +1,77 @@
+import { describe, expect, test } from "bun:test"
+import { buildSqlScript, segmentSqlLog } from "@/lib/sql-batch"
+import { replaceQueryParams } from "@/lib/sql-utils"
+
+const springBootTrace = `2024-05-01T10:00:00.101Z  INFO 1 --- [nio-8080-exec-1] c.e.OrderController : Creating order
+2024-05-01T10:00:00.120Z DEBUG 1 --- [nio-8080-exec-1] org.hibernate.SQL : select c1_0.id from customers c1_0 where c1_0.email=?
+2024-05-01T10:00:00.121Z TRACE 1 --- [nio-8080-exec-1] org.hibernate.orm.jdbc.bind : binding parameter (1:VARCHAR) <- [ada@example.com]
+2024-05-01T10:00:00.130Z DEBUG 1 --- [nio-8080-exec-1] org.hibernate.SQL :
+    insert
+    into
+        orders
+        (customer_id, total)
+    values
+        (?, ?)
+2024-05-01T10:00:00.131Z TRACE 1 --- [nio-8080-exec-1] org.hibernate.orm.jdbc.bind : binding parameter (1:BIGINT) <- [7]
+2024-05-01T10:00:00.131Z TRACE 1 --- [nio-8080-exec-1] org.hibernate.orm.jdbc.bind : binding parameter (2:NUMERIC) <- [19.90]
+2024-05-01T10:00:00.140Z DEBUG 1 --- [nio-8080-exec-1] org.hibernate.SQL : select nextval('orders_seq')`
+
+describe("sql-batch", () => {
+  test("segments a trace into statements with their bindings, thread and time", () => {
+    const statements = segmentSqlLog(springBootTrace)
+
+    expect(statements.map((statement) => statement.bindings.map((binding) => binding.value))).toEqual([
+      ["ada@example.com"],
+      ["7", "19.90"],
+      [],
+    ])
+    expect(statements[0]).toMatchObject({
+      sql: "select c1_0.id from customers c1_0 where c1_0.email=?",
+      format: "hibernate-6",
+      timestamp: "2024-05-01T10:00:00.120Z",
+      thread: "nio-8080-exec-1",
+      elapsedMs: null,
+    })
+    expect(statements[1].sql).toBe("insert\n    into\n        orders\n        (customer_id, total)\n    values\n        (?, ?)")
+    expect(statements[2].format).toBeNull()
+  })
+
+  test("segments MyBatis, jOOQ and p6spy statements in log order", () => {
+    const log = `10:00:00.100 [main] DEBUG c.e.UserMapper.find - ==>  Preparing: select * from users where id = ?
+10:00:00.101 [main] DEBUG c.e.UserMapper.find - ==> Parameters: 5(Long)
+10:00:00.102 [main] DEBUG c.e.UserMapper.find - <==      Total: 1
+10:00:00.200 [worker-2] DEBUG org.jooq.tools.LoggerListener - Executing query          : delete from "users" where "id" = ?
+10:00:00.200 [worker-2] DEBUG org.jooq.tools.LoggerListener - -> with bind values      : delete from "users" where "id" = 5
+10:00:00.205 [worker-2] DEBUG org.jooq.tools.LoggerListener - Finishing                : Total: 4.8ms
+1714557600000|3|statement|connection 7|url jdbc:h2:mem:test|select 1 from dual where x = ?|select 1 from dual where x = 'y'
+#1714557600000 | took 2ms | statement | connection 7| url jdbc:h2:mem:test
+update users set name = ? where id = ?
+update users set name = 'Ada' where id = 5;`
+
+    const statements = segmentSqlLog(log)
+
+    expect(statements.map((statement) => [statement.format, statement.thread, statement.elapsedMs])).toEqual([
+      ["mybatis", "main", null],
+      ["jooq", "worker-2", 4.8],
+      ["p6spy", null, 3],
+      ["p6spy", null, 2],
+    ])
+    expect(statements[3].sql).toBe("update users set name = ? where id = ?")
+    expect(statements[3].bindings.map((binding) => binding.value)).toEqual(["Ada", "5"])
+  })
+
+  test("splits bare statements pasted back to back", () => {
+    const statements = segmentSqlLog("select 1;\nselect 2\n  from dual;")
+
+    expect(statements.map((statement) => statement.sql)).toEqual(["select 1;", "select 2\n  from dual;"])
+  })
+
+  test("builds one labelled script from filled statements", () => {
+    const statements = segmentSqlLog(springBootTrace).slice(0, 1)
+    const script = buildSqlScript(statements, (statement) => replaceQueryParams(statement.sql, statement.bindings))
+
+    expect(script).toBe(
+      "-- #1 2024-05-01T10:00:00.120Z [nio-8080-exec-1]\nselect c1_0.id from customers c1_0 where c1_0.email='ada@example.com';\n"
+    )
+  })
+})
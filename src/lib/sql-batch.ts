@@ -0,0 +1,168 @@
+import {
+  detectSqlLogFormat,
+  getSqlLogParser,
+  SQL_LOG_PARSERS,
+  type SqlBinding,
+  type SqlLogFormat,
+} from "@/lib/sql-log-parsers"
+
+interface SqlLogStatement {
+  sql: string
+  bindings: SqlBinding[]
+  format: SqlLogFormat | null
+  /** Timestamp from the log line that announced the statement, as written. */
+  timestamp: string | null
+  thread: string | null
+  elapsedMs: number | null
+}
+
+interface PendingStatement {
+  prefix: string
+  sqlLines: string[]
+  logLines: string[]
+  /** Whether following unprefixed lines still belong to the SQL, e.g. Hibernate's format_sql output. */
+  open: boolean
+  elapsedMs: number | null
+}
+
+const LOG_LINE_PREFIX = /^\s*(?:\d{4}-\d{2}-\d{2}|\d{2}:\d{2}:\d{2}|\[|(?:TRACE|DEBUG|INFO|WARN|ERROR)\b)/
+const SQL_STATEMENT_START = /^\s*\(?\s*(?:select|insert|update|delete|merge|with|call|upsert|replace)\b/i
+const LOG_TIMESTAMP = /(?:\d{4}-\d{2}-\d{2}[T ])?\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?/
+const JOOQ_FINISHING = /Finishing\s*:\s*Total:\s*([\d.]+)\s*ms/
+const P6SPY_FIELDS = /^\s*#?(\d+)\s*\|\s*(?:took\s*)?(\d+)(?:ms)?\s*\|/
+
+function readThread(prefix: string): string | null {
+  // Spring Boot prints "--- [app] [thread]"; other layouts put the thread in the first brackets.
+  const afterDashes = prefix.split("---")[1]
+  const groups = [...(afterDashes ?? prefix).matchAll(/\[\s*([^\]]*?)\s*\]/g)].map((match) => match[1])
+  return (afterDashes ? groups.at(-1) : groups[0]) || null
+}
+
+function completeStatement(pending: PendingStatement): SqlLogStatement {
+  const log = pending.logLines.join("\n")
+  const format = detectSqlLogFormat(log)
+
+  return {
+    sql: pending.sqlLines.join("\n").trim(),
+    bindings: format ? getSqlLogParser(format).parseBindings(log) : [],
+    format,
+    timestamp: LOG_TIMESTAMP.exec(pending.prefix)?.[0] ?? null,
+    thread: readThread(pending.prefix),
+    elapsedMs: pending.elapsedMs,
+  }
+}
+
+function readP6spyStatement(block: string): SqlLogStatement {
+  const parser = getSqlLogParser("p6spy")
+  const fields = P6SPY_FIELDS.exec(block)
+
+  return {
+    sql: parser.split(block).sql,
+    bindings: parser.parseBindings(block),
+    format: "p6spy",
+    timestamp: fields ? new Date(Number(fields[1])).toISOString() : null,
+    thread: null,
+    elapsedMs: fields ? Number(fields[2]) : null,
+  }
+}
+
+/**
+ * Splits a log holding many statements into statement + bindings pairs, in log order.
+ * Lines unrelated to SQL are skipped.
+ */
+export function segmentSqlLog(log: string): SqlLogStatement[] {
+  const statements: SqlLogStatement[] = []
+  const lines = log.split(/\r?\n/)
+  const p6spy = getSqlLogParser("p6spy")
+  let pending: PendingStatement | null = null
+
+  const finish = () => {
+    if (pending && (pending.sqlLines.some((line) => line.trim()) || pending.logLines.length > 0)) {
+      statements.push(completeStatement(pending))
+    }
+    pending = null
+  }
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index]
+    if (!line.trim()) continue
+
+    if (p6spy.detect(line)) {
+      finish()
+      const block = [line]
+      // The multi-line layout follows its header with the prepared and the effective SQL.
+      if (line.trimStart().startsWith("#")) {
+        while (block.length < 3 && index + 1 < lines.length) {
+          index++
+          if (lines[index].trim()) block.push(lines[index])
+        }
+      }
+      statements.push(readP6spyStatement(block.join("\n")))
+      continue
+    }
+
+    const statementMatch = SQL_LOG_PARSERS.map((parser) => parser.statementLine?.exec(line)).find(Boolean)
+    if (statementMatch) {
+      finish()
+      pending = {
+        prefix: line.slice(0, statementMatch.index),
+        sqlLines: [statementMatch[1]],
+        logLines: [line],
+        open: true,
+        elapsedMs: null,
+      }
+      continue
+    }
+
+    if (SQL_LOG_PARSERS.some((parser) => parser.bindingLine?.test(line))) {
+      pending ??= { prefix: "", sqlLines: [], logLines: [], open: false, elapsedMs: null }
+      pending.logLines.push(line)
+      pending.open = false
+      continue
+    }
+
+    const finishing = JOOQ_FINISHING.exec(line)
+    if (finishing && pending) {
+      pending.elapsedMs = Number(finishing[1])
+      continue
+    }
+
+    if (LOG_LINE_PREFIX.test(line)) {
+      if (pending) pending.open = false
+      continue
+    }
+
+    const previousSql = pending?.sqlLines.at(-1)?.trimEnd() ?? ""
+    if (pending?.open && !(previousSql.endsWith(";") && SQL_STATEMENT_START.test(line))) {
+      pending.sqlLines.push(line)
+    } else if (SQL_STATEMENT_START.test(line)) {
+      finish()
+      pending = { prefix: "", sqlLines: [line], logLines: [], open: true, elapsedMs: null }
+    }
+  }
+
+  finish()
+  return statements
+}
+
+function describeStatement(statement: SqlLogStatement, position: number): string {
+  const details = [
+    statement.timestamp,
+    statement.thread && `[${statement.thread}]`,
+    statement.elapsedMs !== null && `${statement.elapsedMs} ms`,
+  ].filter(Boolean)
+  return `-- #${position}${details.length > 0 ? ` ${details.join(" ")}` : ""}`
+}
+
+/** Joins filled statements into one script, each terminated and labelled with its log details. */
+export function buildSqlScript(statements: SqlLogStatement[], render: (statement: SqlLogStatement) => string): string {
+  return statements
+    .map((statement, index) => {
+      const sql = render(statement).trim().replace(/;*$/, ";")
+      return `${describeStatement(statement, index + 1)}\n${sql}`
+    })
+    .join("\n\n")
+    .concat("\n")
+}
+
+export type { SqlLogStatement }
@@ -0,0 +1,77 @@
+import { describe, expect, test } from "bun:test"
+import { getSqlDialect, quoteIdentifier, requoteIdentifiers, type SqlDialect } from "@/lib/sql-dialects"
+import type { SqlBinding } from "@/lib/sql-log-parsers"
+import { replaceQueryParams } from "@/lib/sql-utils"
+
+const bindings: SqlBinding[] = [
+  { type: "BOOLEAN", value: "true" },
+  { type: "TIMESTAMP", value: "2024-05-01T10:00:00.5" },
+  { type: "DATE", value: "2024-05-01" },
+  { type: "VARCHAR", value: "C:\\temp\\it's" },
+  { type: "VARBINARY", value: "CAFE" },
+]
+
+function fill(dialect: SqlDialect, params: SqlBinding[] = bindings): string {
+  return replaceQueryParams(params.map(() => "?").join(", "), params, getSqlDialect(dialect).rules)
+}
+
+describe("sql-dialects", () => {
+  test("renders literals for each dialect", () => {
+    expect(fill("generic")).toBe(
+      "TRUE, TIMESTAMP '2024-05-01T10:00:00.5', DATE '2024-05-01', 'C:\\temp\\it''s', X'CAFE'"
+    )
+    expect(fill("postgresql")).toBe(
+      "TRUE, TIMESTAMP '2024-05-01T10:00:00.5', DATE '2024-05-01', 'C:\\temp\\it''s', '\\xCAFE'::bytea"
+    )
+    expect(fill("mysql")).toBe(
+      "TRUE, TIMESTAMP '2024-05-01 10:00:00.5', DATE '2024-05-01', 'C:\\\\temp\\\\it''s', X'CAFE'"
+    )
+    expect(fill("oracle")).toBe(
+      "1, TO_TIMESTAMP('2024-05-01 10:00:00.5', 'YYYY-MM-DD HH24:MI:SS.FF'), TO_DATE('2024-05-01', 'YYYY-MM-DD'), 'C:\\temp\\it''s', HEXTORAW('CAFE')"
+    )
+    expect(fill("sqlserver")).toBe(
+      "1, CONVERT(DATETIME2, '2024-05-01 10:00:00.5', 121), CONVERT(DATE, '2024-05-01', 23), 'C:\\temp\\it''s', 0xCAFE"
+    )
+    expect(fill("sqlite")).toBe("1, '2024-05-01 10:00:00.5', '2024-05-01', 'C:\\temp\\it''s', X'CAFE'")
+  })
+
+  test("keeps time zone offsets where the dialect supports them", () => {
+    const zoned: SqlBinding[] = [{ type: "TIMESTAMP_WITH_TIMEZONE", value: "2024-05-01T10:00:00Z" }]
+
+    expect(fill("postgresql", zoned)).toBe("TIMESTAMPTZ '2024-05-01T10:00:00Z'")
+    expect(fill("h2", zoned)).toBe("TIMESTAMP WITH TIME ZONE '2024-05-01T10:00:00Z'")
+    expect(fill("oracle", zoned)).toBe(
+      "TO_TIMESTAMP_TZ('2024-05-01 10:00:00 +00:00', 'YYYY-MM-DD HH24:MI:SS TZH:TZM')"
+    )
+    expect(fill("sqlserver", zoned)).toBe("CONVERT(DATETIMEOFFSET, '2024-05-01 10:00:00 +00:00', 121)")
+  })
+
+  test("shifts zoned timestamps to UTC where literals cannot keep the offset", () => {
+    const offsets: SqlBinding[] = [
+      { type: "TIMESTAMP_WITH_TIMEZONE", value: "2024-05-01T01:30:00.250+02:00" },
+      { type: "TIMESTAMP_WITH_TIMEZONE", value: "2024-12-31T23:15-0530" },
+    ]
+
+    expect(fill("mysql", offsets)).toBe("TIMESTAMP '2024-04-30 23:30:00.250', TIMESTAMP '2025-01-01 04:45'")
+    expect(fill("sqlite", offsets)).toBe("'2024-04-30 23:30:00.250', '2025-01-01 04:45'")
+  })
+
+  test("prefixes non-ASCII strings for SQL Server", () => {
+    expect(fill("sqlserver", [{ type: "VARCHAR", value: "Zoë" }])).toBe("N'Zoë'")
+  })
+
+  test("quotes identifiers in the dialect's style", () => {
+    expect(quoteIdentifier('my"col', "postgresql")).toBe('"my""col"')
+    expect(quoteIdentifier("order", "mysql")).toBe("`order`")
+    expect(quoteIdentifier("order", "sqlserver")).toBe("[order]")
+    expect(quoteIdentifier("order", "generic")).toBe("order")
+  })
+
+  test("requotes identifiers without touching literals, comments or subscripts", () => {
+    const sql = `select "u"."id", tags[1] from "users" "u" where name = '"x"' -- "comment"`
+
+    expect(requoteIdentifiers(sql, "mysql")).toBe("select `u`.`id`, tags[1] from `users` `u` where name = '\"x\"' -- \"comment\"")
+    expect(requoteIdentifiers("select [id] from [dbo].[users]", "postgresql")).toBe('select "id" from "dbo"."users"')
+    expect(requoteIdentifiers(sql, "generic")).toBe(sql)
+  })
+})
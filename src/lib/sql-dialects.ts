@@ -0,0 +1,210 @@
+import type { FormatRules } from "@/lib/sql-utils"
+
+type SqlDialect = "generic" | "postgresql" | "mysql" | "oracle" | "sqlserver" | "h2" | "sqlite"
+
+interface SqlDialectDefinition {
+  value: SqlDialect
+  label: string
+  /** Literal rules passed to `replaceQueryParams`; empty rules keep the generic output. */
+  rules: FormatRules
+  /** Opening and closing identifier quotes, or null to leave identifiers as written. */
+  identifierQuotes: [string, string] | null
+}
+
+// Splits "2024-05-01T10:00:00.5+02:00" into "2024-05-01 10:00:00.5" and "+02:00".
+const TEMPORAL_PATTERN = /^(\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)?|\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)\s*(Z|[+-]\d{2}:?\d{2})?$/
+
+function parseTemporal(value: string): { local: string; zone: string | null } | null {
+  const match = TEMPORAL_PATTERN.exec(value.trim())
+  if (!match) return null
+
+  const zone = match[2] === "Z" ? "+00:00" : (match[2]?.replace(/^([+-]\d{2})(\d{2})$/, "$1:$2") ?? null)
+  return { local: match[1].replace("T", " "), zone }
+}
+
+/**
+ * Writes a timestamp as local date-time text, shifting zoned values to UTC first so dialects
+ * whose literals can't carry an offset still name the same instant.
+ */
+function toUtcLocal(value: string): string | null {
+  const temporal = parseTemporal(value)
+  if (!temporal?.zone) return temporal?.local ?? null
+
+  const match = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2})(?::(\d{2})(\.\d+)?)?$/.exec(temporal.local)
+  if (!match) return temporal.local
+
+  const [, year, month, day, hour, minute, second, fraction = ""] = match
+  const [offsetHours, offsetMinutes] = temporal.zone.slice(1).split(":").map(Number)
+  const offset = (temporal.zone.startsWith("-") ? -1 : 1) * (offsetHours * 60 + offsetMinutes)
+  const utc = new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute - offset, Number(second ?? 0)))
+
+  const pad = (part: number) => String(part).padStart(2, "0")
+  const date = `${String(utc.getUTCFullYear()).padStart(4, "0")}-${pad(utc.getUTCMonth() + 1)}-${pad(utc.getUTCDate())}`
+  const seconds = second === undefined ? "" : `:${pad(utc.getUTCSeconds())}${fraction}`
+  return `${date} ${pad(utc.getUTCHours())}:${pad(utc.getUTCMinutes())}${seconds}`
+}
+
+function quoteStandard(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`
+}
+
+// MySQL treats backslashes in string literals as escapes unless NO_BACKSLASH_ESCAPES is set.
+function quoteMySql(value: string): string {
+  return `'${value.replace(/\\/g, "\\\\").replace(/'/g, "''")}'`
+}
+
+// Without the N prefix SQL Server converts the literal to the database code page.
+function quoteSqlServer(value: string): string {
+  return /[^\x00-\x7f]/.test(value) ? `N${quoteStandard(value)}` : quoteStandard(value)
+}
+
+function oracleFormat(local: string): string {
+  const [date, time] = local.includes("-") ? local.split(" ") : [null, local]
+  const timeFormat =
+    time === undefined ? "" : time.includes(".") ? "HH24:MI:SS.FF" : time.length > 5 ? "HH24:MI:SS" : "HH24:MI"
+  return [date && "YYYY-MM-DD", timeFormat].filter(Boolean).join(" ")
+}
+
+function oracleTimestamp(value: string): string {
+  const temporal = parseTemporal(value)
+  if (!temporal) return quoteStandard(value)
+
+  const format = oracleFormat(temporal.local)
+  return temporal.zone
+    ? `TO_TIMESTAMP_TZ(${quoteStandard(`${temporal.local} ${temporal.zone}`)}, '${format} TZH:TZM')`
+    : `TO_TIMESTAMP(${quoteStandard(temporal.local)}, '${format}')`
+}
+
+function sqlServerConvert(type: string, value: string, style?: number): string {
+  const temporal = parseTemporal(value)
+  if (!temporal) return quoteStandard(value)
+
+  if (temporal.zone) {
+    return `CONVERT(DATETIMEOFFSET, ${quoteStandard(`${temporal.local} ${temporal.zone}`)}, 121)`
+  }
+  return `CONVERT(${type}, ${quoteStandard(temporal.local)}${style === undefined ? "" : `, ${style}`})`
+}
+
+// Keeps the offset of zoned values, which a plain TIMESTAMP literal would drop.
+function zonedTimestamp(zonedKeyword: string) {
+  return (value: string) => {
+    const temporal = parseTemporal(value)
+    return temporal?.zone ? `${zonedKeyword} ${quoteStandard(value)}` : `TIMESTAMP ${quoteStandard(value)}`
+  }
+}
+
+const trueFalseKeywords: FormatRules = {
+  true: () => "TRUE",
+  false: () => "FALSE",
+  boolean: (param: string) => param.toUpperCase(),
+}
+
+const oneZeroBooleans: FormatRules = {
+  true: () => "1",
+  false: () => "0",
+  boolean: (param: string) => (param.toLowerCase() === "true" ? "1" : "0"),
+}
+
+export const SQL_DIALECTS: SqlDialectDefinition[] = [
+  { value: "generic", label: "Generic SQL", rules: {}, identifierQuotes: null },
+  {
+    value: "postgresql",
+    label: "PostgreSQL",
+    rules: {
+      ...trueFalseKeywords,
+      timestamp: zonedTimestamp("TIMESTAMPTZ"),
+      binary: (param: string) => `'\\x${param}'::bytea`,
+    },
+    identifierQuotes: ['"', '"'],
+  },
+  {
+    value: "mysql",
+    label: "MySQL / MariaDB",
+    rules: {
+      ...trueFalseKeywords,
+      // TIMESTAMP literals carry no offset, so zoned values are written in UTC.
+      timestamp: (param: string) => `TIMESTAMP ${quoteMySql(toUtcLocal(param) ?? param)}`,
+      date: (param: string) => `DATE ${quoteMySql(param)}`,
+      time: (param: string) => `TIME ${quoteMySql(param)}`,
+      default: quoteMySql,
+    },
+    identifierQuotes: ["`", "`"],
+  },
+  {
+    value: "oracle",
+    label: "Oracle",
+    rules: {
+      ...oneZeroBooleans,
+      timestamp: oracleTimestamp,
+      date: (param: string) => `TO_DATE(${quoteStandard(param)}, 'YYYY-MM-DD')`,
+      time: oracleTimestamp,
+      binary: (param: string) => `HEXTORAW('${param}')`,
+    },
+    identifierQuotes: ['"', '"'],
+  },
+  {
+    value: "sqlserver",
+    label: "SQL Server",
+    rules: {
+      ...oneZeroBooleans,
+      timestamp: (param: string) => sqlServerConvert("DATETIME2", param, 121),
+      date: (param: string) => sqlServerConvert("DATE", param, 23),
+      time: (param: string) => sqlServerConvert("TIME", param),
+      binary: (param: string) => `0x${param}`,
+      default: quoteSqlServer,
+    },
+    identifierQuotes: ["[", "]"],
+  },
+  {
+    value: "h2",
+    label: "H2",
+    rules: {
+      ...trueFalseKeywords,
+      timestamp: zonedTimestamp("TIMESTAMP WITH TIME ZONE"),
+    },
+    identifierQuotes: ['"', '"'],
+  },
+  {
+    value: "sqlite",
+    label: "SQLite",
+    rules: {
+      ...oneZeroBooleans,
+      // SQLite has no temporal types; its date functions read ISO-8601 text, zoned values in UTC.
+      timestamp: (param: string) => quoteStandard(toUtcLocal(param) ?? param),
+      date: quoteStandard,
+      time: quoteStandard,
+    },
+    identifierQuotes: ['"', '"'],
+  },
+]
+
+export function getSqlDialect(dialect: SqlDialect): SqlDialectDefinition {
+  return SQL_DIALECTS.find((definition) => definition.value === dialect)!
+}
+
+export function quoteIdentifier(name: string, dialect: SqlDialect): string {
+  const quotes = getSqlDialect(dialect).identifierQuotes
+  if (!quotes) return name
+
+  const [open, close] = quotes
+  return `${open}${name.replaceAll(close, close + close)}${close}`
+}
+
+// String literals and comments are matched first so quotes inside them are left alone.
+// Brackets only count as identifiers where no expression precedes them, skipping `arr[1]`.
+const QUOTED_TOKEN_PATTERN =
+  /'(?:[^']|'')*'|--[^\n]*|\/\*[\s\S]*?\*\/|"((?:[^"]|"")*)"|`((?:[^`]|``)*)`|(?<![\w\])])\[([^\]\n]*)\]/g
+
+/** Rewrites quoted identifiers (`"x"`, `` `x` `` or `[x]`) into the dialect's own quoting. */
+export function requoteIdentifiers(sql: string, dialect: SqlDialect): string {
+  if (!getSqlDialect(dialect).identifierQuotes) return sql
+
+  return sql.replace(QUOTED_TOKEN_PATTERN, (token, doubleQuoted, backticked, bracketed) => {
+    if (doubleQuoted !== undefined) return quoteIdentifier(doubleQuoted.replaceAll('""', '"'), dialect)
+    if (backticked !== undefined) return quoteIdentifier(backticked.replaceAll("``", "`"), dialect)
+    if (bracketed !== undefined) return quoteIdentifier(bracketed, dialect)
+    return token
+  })
+}
+
+export type { SqlDialect, SqlDialectDefinition }
@@ -0,0 +1,40 @@
+import { describe, expect, test } from "bun:test"
+import { buildSqlExplainPrompt, extractRewrittenQuery } from "@/lib/sql-explain"
+
+describe("sql-explain", () => {
+  test("includes the query, the dialect and the schema when given", () => {
+    const prompt = buildSqlExplainPrompt({
+      sql: "select * from users where email = 'ada@example.com'\n",
+      schema: "create table users (id bigint primary key, email text);",
+      dialect: "PostgreSQL",
+    })
+
+    expect(prompt).toContain("reviewing a PostgreSQL query")
+    expect(prompt).toContain("```sql\ncreate table users (id bigint primary key, email text);\n```")
+    expect(prompt).toEndWith("```sql\nselect * from users where email = 'ada@example.com'\n```")
+    expect(prompt).toContain("## Rewritten query")
+  })
+
+  test("asks for assumptions when no schema is given", () => {
+    expect(buildSqlExplainPrompt({ sql: "select 1", schema: "  ", dialect: "MySQL" })).toContain(
+      "No schema was provided"
+    )
+  })
+
+  test("picks the rewritten query rather than the index suggestions", () => {
+    const answer = `## Index suggestions
+\`\`\`sql
+CREATE INDEX users_email_idx ON users (email);
+\`\`\`
+
+## Rewritten query
+\`\`\`sql
+SELECT id, email FROM users WHERE email = 'ada@example.com'
+\`\`\`
+Selecting only the needed columns lets the index cover the query.`
+
+    expect(extractRewrittenQuery(answer)).toBe("SELECT id, email FROM users WHERE email = 'ada@example.com'")
+    expect(extractRewrittenQuery("```\nselect 1\n```\ntext\n```sql\nselect 2\n```")).toBe("select 2")
+    expect(extractRewrittenQuery("## Rewritten query\nstill streaming ```sql\nsel")).toBeNull()
+  })
+})
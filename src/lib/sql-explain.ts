@@ -0,0 +1,50 @@
+interface SqlExplainRequest {
+  sql: string
+  /** Optional CREATE TABLE / CREATE INDEX statements describing the tables involved. */
+  schema?: string
+  /** Human readable dialect name, e.g. "PostgreSQL". */
+  dialect: string
+}
+
+const SQL_FENCE = /```(?:sql)?[^\S\n]*\n([\s\S]*?)```/gi
+const REWRITTEN_HEADING = /^#+\s*Rewritten query\b/im
+
+/** Builds the prompt asking the model to explain a filled query and suggest how to speed it up. */
+export function buildSqlExplainPrompt({ sql, schema, dialect }: SqlExplainRequest): string {
+  const schemaSection = schema?.trim()
+    ? `Schema (DDL provided by the user):\n\`\`\`sql\n${schema.trim()}\n\`\`\``
+    : "No schema was provided; state any assumptions you make about tables, keys and existing indexes."
+
+  return `You are a senior database engineer reviewing a ${dialect} query captured from an application log.
+
+Answer in three sections, using these exact headings:
+
+## Explanation
+Describe in plain language what the query returns or changes, how the tables are joined and filtered, and anything surprising such as implicit casts or N+1 patterns.
+
+## Index suggestions
+List the indexes most likely to help, each as a ${dialect} CREATE INDEX statement followed by one sentence on why. Say so if the existing indexes already look sufficient.
+
+## Rewritten query
+Give one optimized version of the query in a single \`\`\`sql code block that returns the same result, then list what changed. If no rewrite would help, repeat the original query and say why.
+
+${schemaSection}
+
+Query:
+\`\`\`sql
+${sql.trim()}
+\`\`\``
+}
+
+/**
+ * Returns the SQL of the first code block under the "Rewritten query" heading, falling back
+ * to the last code block when the model ignored the headings.
+ */
+export function extractRewrittenQuery(answer: string): string | null {
+  const heading = REWRITTEN_HEADING.exec(answer)
+  const section = heading ? answer.slice(heading.index) : answer
+  const blocks = [...section.matchAll(SQL_FENCE)].map((match) => match[1].trim()).filter(Boolean)
+  return (heading ? blocks[0] : blocks.at(-1)) ?? null
+}
+
+export type { SqlExplainRequest }
@@ -0,0 +1,78 @@
+import { describe, expect, test } from "bun:test"
+import { formatSql, rewriteHibernateAliases, tokenizeSql } from "@/lib/sql-formatter"
+
+const hibernateQuery =
+  "select u1_0.id,u1_0.name,o1_0.total from users u1_0 left join orders o1_0 on o1_0.user_id=u1_0.id and o1_0.status='NEW' where u1_0.id in (select a1_0.user_id from audits a1_0 where a1_0.created between '2024-01-01' and '2024-02-01') order by u1_0.name desc"
+
+describe("sql-formatter", () => {
+  test("tokenizes without losing any text", () => {
+    const sql = "select 'it''s -- not a comment', \"Order\".id::text from \"Order\" -- trailing\nwhere x <> $1"
+
+    expect(tokenizeSql(sql).map((token) => token.text).join("")).toBe(sql)
+    expect(tokenizeSql(sql).filter((token) => token.type === "comment").map((token) => token.text)).toEqual([
+      "-- trailing",
+    ])
+  })
+
+  test("puts clauses, list items, joins and conditions on their own lines", () => {
+    expect(formatSql(hibernateQuery)).toBe(
+      [
+        "SELECT",
+        "  u1_0.id,",
+        "  u1_0.name,",
+        "  o1_0.total",
+        "FROM",
+        "  users u1_0",
+        "  LEFT JOIN orders o1_0 ON o1_0.user_id = u1_0.id",
+        "    AND o1_0.status = 'NEW'",
+        "WHERE",
+        "  u1_0.id IN (",
+        "    SELECT",
+        "      a1_0.user_id",
+        "    FROM",
+        "      audits a1_0",
+        "    WHERE",
+        "      a1_0.created BETWEEN '2024-01-01' AND '2024-02-01'",
+        "  )",
+        "ORDER BY",
+        "  u1_0.name DESC",
+      ].join("\n")
+    )
+  })
+
+  test("applies the keyword case without touching identifiers or literals", () => {
+    const sql = "SELECT Count(*) AS total FROM \"Select\" WHERE name = 'SELECT' GROUP BY kind"
+
+    expect(formatSql(sql, { keywordCase: "lower" })).toBe(
+      "select\n  Count(*) as total\nfrom\n  \"Select\"\nwhere\n  name = 'SELECT'\ngroup by\n  kind"
+    )
+    expect(formatSql("Select 1 From dual", { keywordCase: "preserve" })).toBe("Select\n  1\nFrom\n  dual")
+  })
+
+  test("keeps function parentheses, casts and insert columns inline", () => {
+    expect(formatSql("insert into orders (id, total) values (?, cast(? as numeric)), (?, ?::numeric)")).toBe(
+      "INSERT INTO\n  orders (id, total)\nVALUES\n  (?, CAST(? AS numeric)),\n  (?, ?::numeric)"
+    )
+  })
+
+  test("separates statements and does not mistake typed literals for clauses", () => {
+    expect(formatSql("select TIMESTAMP WITH TIME ZONE '2024-01-01 00:00:00+00';select 2")).toBe(
+      "SELECT\n  TIMESTAMP WITH TIME ZONE '2024-01-01 00:00:00+00';\n\nSELECT\n  2"
+    )
+  })
+
+  test("renames Hibernate 6 and Hibernate 5 aliases after their tables", () => {
+    expect(rewriteHibernateAliases("select u1_0.id from users u1_0 join users u2_0 on u2_0.id=u1_0.manager_id")).toBe(
+      "select users.id from users users join users users2 on users2.id=users.manager_id"
+    )
+    expect(rewriteHibernateAliases("select order0_.id as id1_0_ from app.\"order\" order0_ where order0_.note='order0_'")).toBe(
+      "select order2.id as id1_0_ from app.\"order\" order2 where order2.note='order0_'"
+    )
+  })
+
+  test("formats with readable aliases", () => {
+    expect(formatSql("select c1_0.id from customers c1_0 where c1_0.email=?", { readableAliases: true })).toBe(
+      "SELECT\n  customers.id\nFROM\n  customers customers\nWHERE\n  customers.email = ?"
+    )
+  })
+})
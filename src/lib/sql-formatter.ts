@@ -0,0 +1,379 @@
+type SqlKeywordCase = "upper" | "lower" | "preserve"
+
+interface SqlFormatOptions {
+  keywordCase: SqlKeywordCase
+  /** Renames Hibernate-generated table aliases such as `u1_0` or `user0_` after their tables. */
+  readableAliases: boolean
+}
+
+type SqlTokenType =
+  | "whitespace"
+  | "comment"
+  | "string"
+  | "identifier"
+  | "number"
+  | "word"
+  | "placeholder"
+  | "open"
+  | "close"
+  | "comma"
+  | "semicolon"
+  | "dot"
+  | "operator"
+
+interface SqlToken {
+  type: SqlTokenType
+  text: string
+}
+
+const DEFAULT_FORMAT_OPTIONS: SqlFormatOptions = { keywordCase: "upper", readableAliases: false }
+
+const TOKEN_PATTERNS: Array<[SqlTokenType, RegExp]> = [
+  ["whitespace", /\s+/y],
+  ["comment", /--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)/y],
+  ["string", /[eE]'(?:[^'\\]|''|\\[\s\S])*'?|[nNxXbB]?'(?:[^']|'')*'?|\$([A-Za-z_]\w*)?\$[\s\S]*?\$\1\$/y],
+  ["identifier", /"(?:[^"]|"")*"?|`(?:[^`]|``)*`?/y],
+  ["number", /(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/y],
+  ["word", /[A-Za-z_\u00c0-\uffff][\w$\u00c0-\uffff]*/y],
+  ["placeholder", /\?(?![?|&])|:[A-Za-z_]\w*|\$\d+|@[A-Za-z_]\w*|#\{[^}]*\}/y],
+  ["open", /[([]/y],
+  ["close", /[)\]]/y],
+  ["comma", /,/y],
+  ["semicolon", /;/y],
+  ["dot", /\./y],
+  ["operator", /::|<>|!=|<=|>=|\|\||->>|->|#>>|#>|\?\?|\?\||\?&|[-+*/%=<>!|&^~?@#:]/y],
+]
+
+const KEYWORDS = new Set(
+  `ADD ALL ALTER AND ANY AS ASC BETWEEN BY CASCADE CASE CAST COLLATE CONFLICT CONSTRAINT CREATE CROSS CURRENT_DATE
+  CURRENT_TIME CURRENT_TIMESTAMP DATE DEFAULT DELETE DESC DISTINCT DO DROP ELSE END ESCAPE EXCEPT EXISTS FALSE FETCH
+  FILTER FIRST FOR FROM FULL GROUP HAVING ILIKE IN INDEX INNER INSERT INTERSECT INTERVAL INTO IS JOIN KEY LAST LATERAL
+  LEFT LIKE LIMIT LOCKED MATCHED MERGE NATURAL NEXT NOT NOTHING NOWAIT NULL NULLS OF OFFSET ON ONLY OR ORDER OUTER
+  OVER PARTITION PRIMARY RECURSIVE REFERENCES RETURNING RIGHT ROW ROWS SELECT SET SHARE SKIP SOME TABLE THEN TIME
+  TIMESTAMP TO TOP TRUE UNION UNIQUE UPDATE USING VALUES VIEW WHEN WHERE WINDOW WITH ZONE`.split(/\s+/)
+)
+
+/** Clauses that start a new line at the statement's indentation, longest phrase first. */
+const CLAUSES = [
+  "UNION ALL",
+  "INSERT INTO",
+  "DELETE FROM",
+  "GROUP BY",
+  "ORDER BY",
+  "ON CONFLICT",
+  "FOR UPDATE",
+  "SELECT",
+  "FROM",
+  "WHERE",
+  "HAVING",
+  "LIMIT",
+  "OFFSET",
+  "FETCH",
+  "UNION",
+  "INTERSECT",
+  "EXCEPT",
+  "VALUES",
+  "UPDATE",
+  "SET",
+  "RETURNING",
+  "WITH",
+  "WINDOW",
+]
+
+const JOINS = [
+  "LEFT OUTER JOIN",
+  "RIGHT OUTER JOIN",
+  "FULL OUTER JOIN",
+  "LEFT JOIN",
+  "RIGHT JOIN",
+  "FULL JOIN",
+  "INNER JOIN",
+  "CROSS JOIN",
+  "NATURAL JOIN",
+  "JOIN",
+]
+
+/** Clauses whose top-level comma-separated items each get their own line. */
+const LIST_CLAUSES = new Set(["SELECT", "FROM", "SET", "GROUP BY", "ORDER BY", "VALUES", "RETURNING", "WITH"])
+/** Clauses followed directly by another clause rather than by indented content. */
+const INLINE_CLAUSES = new Set(["UNION", "UNION ALL", "INTERSECT", "EXCEPT", "FOR UPDATE", "ON CONFLICT"])
+const CONDITION_CLAUSES = new Set(["WHERE", "HAVING", "JOIN"])
+
+// Hibernate 6 aliases look like "u1_0", Hibernate 5 ones like "user0_".
+const HIBERNATE_ALIAS = /^(?:[A-Za-z]+\d+_\d+|[A-Za-z][A-Za-z_]*?\d+_)$/
+const ALIAS_INTRODUCERS = new Set(["FROM", "JOIN", "UPDATE", "INTO"])
+
+/** Splits SQL into tokens; concatenating their text gives back the input. */
+export function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = []
+  let index = 0
+
+  outer: while (index < sql.length) {
+    for (const [type, pattern] of TOKEN_PATTERNS) {
+      pattern.lastIndex = index
+      const match = pattern.exec(sql)
+      if (match && match[0].length > 0) {
+        tokens.push({ type, text: match[0] })
+        index += match[0].length
+        continue outer
+      }
+    }
+    tokens.push({ type: "operator", text: sql[index] })
+    index++
+  }
+
+  return tokens
+}
+
+function isKeyword(token: SqlToken | undefined, keyword: string): boolean {
+  return token?.type === "word" && token.text.toUpperCase() === keyword
+}
+
+function nextSignificant(tokens: SqlToken[], from: number): number {
+  let index = from
+  while (index < tokens.length && (tokens[index].type === "whitespace" || tokens[index].type === "comment")) index++
+  return index
+}
+
+function unquoteIdentifier(text: string): string {
+  return /^["`]/.test(text) ? text.slice(1, -1) : text
+}
+
+function readableAliasFor(table: string, taken: Set<string>): string {
+  const base = unquoteIdentifier(table).toLowerCase().replace(/\W+/g, "_") || "t"
+  let alias = base
+  for (let suffix = 2; taken.has(alias) || KEYWORDS.has(alias.toUpperCase()); suffix++) {
+    alias = `${base}${suffix}`
+  }
+  taken.add(alias)
+  return alias
+}
+
+/**
+ * Renames Hibernate-generated table aliases after the table they stand for, e.g.
+ * `from users u1_0` becomes `from users users`, keeping literals untouched.
+ */
+export function rewriteHibernateAliases(sql: string): string {
+  const tokens = tokenizeSql(sql)
+  const renames = new Map<string, string>()
+  const taken = new Set<string>()
+
+  for (let index = 0; index < tokens.length; index++) {
+    if (tokens[index].type !== "word" || !ALIAS_INTRODUCERS.has(tokens[index].text.toUpperCase())) continue
+
+    // Table name, possibly schema-qualified, then an optional AS and the alias.
+    let cursor = nextSignificant(tokens, index + 1)
+    let table: string | null = null
+    while (tokens[cursor]?.type === "word" || tokens[cursor]?.type === "identifier") {
+      table = tokens[cursor].text
+      if (tokens[cursor + 1]?.type !== "dot") break
+      cursor += 2
+    }
+    if (!table) continue
+
+    cursor = nextSignificant(tokens, cursor + 1)
+    if (isKeyword(tokens[cursor], "AS")) cursor = nextSignificant(tokens, cursor + 1)
+
+    const alias = tokens[cursor]
+    if (alias?.type === "word" && HIBERNATE_ALIAS.test(alias.text) && !renames.has(alias.text)) {
+      renames.set(alias.text, readableAliasFor(table, taken))
+    }
+  }
+
+  return tokens
+    .map((token) => (token.type === "word" && renames.has(token.text) ? renames.get(token.text)! : token.text))
+    .join("")
+}
+
+function matchPhrase(tokens: SqlToken[], index: number, phrases: string[]): { phrase: string; end: number } | null {
+  for (const phrase of phrases) {
+    const words = phrase.split(" ")
+    let cursor = index
+    let matched = true
+
+    for (let position = 0; position < words.length; position++) {
+      if (position > 0) cursor = nextSignificant(tokens, cursor + 1)
+      if (!isKeyword(tokens[cursor], words[position])) {
+        matched = false
+        break
+      }
+    }
+
+    if (matched) return { phrase, end: cursor }
+  }
+  return null
+}
+
+function phraseText(tokens: SqlToken[], start: number, end: number): string {
+  return tokens
+    .slice(start, end + 1)
+    .filter((token) => token.type === "word")
+    .map((token) => token.text)
+    .join(" ")
+}
+
+function applyKeywordCase(text: string, keywordCase: SqlKeywordCase): string {
+  if (keywordCase === "upper") return text.toUpperCase()
+  if (keywordCase === "lower") return text.toLowerCase()
+  return text
+}
+
+interface Scope {
+  /** Indentation level of the clauses in this (sub)query. */
+  base: number
+  clause: string | null
+  /** Parentheses opened inside the current clause that are not subqueries, e.g. function calls. */
+  depth: number
+  /** Set after BETWEEN so its AND stays on the same line. */
+  between: boolean
+}
+
+/**
+ * Pretty-prints SQL with one clause per line, list items and conditions on their own
+ * lines and subqueries indented under their parenthesis.
+ */
+export function formatSql(sql: string, options: Partial<SqlFormatOptions> = {}): string {
+  const { keywordCase, readableAliases } = { ...DEFAULT_FORMAT_OPTIONS, ...options }
+  const tokens = tokenizeSql(readableAliases ? rewriteHibernateAliases(sql) : sql)
+  const indent = "  "
+
+  const lines: string[] = []
+  let line = ""
+  let pendingIndent: number | null = 0
+  // Assigned from the closures below, so declared wide to keep TypeScript from narrowing it to null.
+  let previous = null as SqlToken | null
+  const scopes: Scope[] = [{ base: 0, clause: null, depth: 0, between: false }]
+  const parens: Array<"subquery" | "group"> = []
+
+  const breakLine = (level: number) => {
+    if (line.trim()) lines.push(line.trimEnd())
+    line = ""
+    pendingIndent = level
+  }
+
+  const needsSpace = (token: SqlToken): boolean => {
+    if (!previous || previous.type === "dot" || previous.text === "(" || previous.text === "[") return false
+    if (previous.text === "::" || token.text === "::") return false
+    if (["comma", "semicolon", "dot", "close"].includes(token.type)) return false
+    if (token.type === "open") {
+      const upper = previous.text.toUpperCase()
+      const isFunctionCall = previous.type === "word" && (!KEYWORDS.has(upper) || upper === "CAST")
+      // "insert into orders (id, name)" keeps the space between the table and its column list.
+      if (scopes[scopes.length - 1].clause === "INSERT INTO") return true
+      return !(isFunctionCall || previous.type === "identifier" || previous.type === "close")
+    }
+    return true
+  }
+
+  const emit = (token: SqlToken, text = token.text) => {
+    if (pendingIndent !== null) {
+      line = indent.repeat(pendingIndent)
+      pendingIndent = null
+    } else if (needsSpace(token)) {
+      line += " "
+    }
+    line += text
+    previous = token
+  }
+
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index]
+    const scope = scopes[scopes.length - 1]
+
+    if (token.type === "whitespace") continue
+
+    if (token.type === "comment") {
+      emit(token, token.text.trim())
+      if (token.text.startsWith("--")) breakLine(scope.clause ? scope.base + 1 : scope.base)
+      continue
+    }
+
+    if (token.type === "word" && scope.depth === 0) {
+      const clause = matchPhrase(tokens, index, CLAUSES)
+      // "TIMESTAMP WITH TIME ZONE" is a type, not a common table expression.
+      if (clause && !(clause.phrase === "WITH" && isKeyword(tokens[nextSignificant(tokens, index + 1)], "TIME"))) {
+        breakLine(scope.base)
+        emit(token, applyKeywordCase(phraseText(tokens, index, clause.end), keywordCase))
+        scope.clause = clause.phrase
+        scope.between = false
+        index = clause.end
+        if (!INLINE_CLAUSES.has(clause.phrase)) breakLine(scope.base + 1)
+        continue
+      }
+
+      const join = matchPhrase(tokens, index, JOINS)
+      if (join) {
+        breakLine(scope.base + 1)
+        emit(token, applyKeywordCase(phraseText(tokens, index, join.end), keywordCase))
+        scope.clause = "JOIN"
+        index = join.end
+        continue
+      }
+
+      const upper = token.text.toUpperCase()
+      if (upper === "BETWEEN") scope.between = true
+      if ((upper === "AND" || upper === "OR") && CONDITION_CLAUSES.has(scope.clause ?? "")) {
+        if (upper === "AND" && scope.between) {
+          scope.between = false
+        } else {
+          breakLine(scope.base + (scope.clause === "JOIN" ? 2 : 1))
+        }
+      }
+    }
+
+    if (token.type === "open") {
+      const next = tokens[nextSignificant(tokens, index + 1)]
+      const isSubquery = token.text === "(" && (isKeyword(next, "SELECT") || isKeyword(next, "WITH"))
+      emit(token)
+      if (isSubquery) {
+        parens.push("subquery")
+        scopes.push({ base: scope.base + 2, clause: null, depth: 0, between: false })
+      } else {
+        parens.push("group")
+        scope.depth++
+      }
+      continue
+    }
+
+    if (token.type === "close") {
+      const kind = parens.pop()
+      if (kind === "subquery" && scopes.length > 1) {
+        scopes.pop()
+        breakLine(scopes[scopes.length - 1].base + 1)
+      } else if (kind === "group") {
+        scope.depth = Math.max(0, scope.depth - 1)
+      }
+      emit(token)
+      continue
+    }
+
+    if (token.type === "comma") {
+      emit(token)
+      if (scope.depth === 0 && LIST_CLAUSES.has(scope.clause ?? "")) breakLine(scope.base + 1)
+      continue
+    }
+
+    if (token.type === "semicolon") {
+      emit(token)
+      breakLine(0)
+      lines.push("")
+      scopes.splice(1)
+      scopes[0] = { base: 0, clause: null, depth: 0, between: false }
+      parens.length = 0
+      previous = null
+      continue
+    }
+
+    const isKeywordWord =
+      token.type === "word" &&
+      KEYWORDS.has(token.text.toUpperCase()) &&
+      previous?.type !== "dot" &&
+      tokens[index + 1]?.type !== "dot"
+    emit(token, isKeywordWord ? applyKeywordCase(token.text, keywordCase) : token.text)
+  }
+
+  breakLine(0)
+  return lines.join("\n").trim()
+}
+
+export type { SqlFormatOptions, SqlKeywordCase, SqlToken, SqlTokenType }
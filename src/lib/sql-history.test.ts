@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test"
+import {
+  parseSqlHistory,
+  recordSqlHistory,
+  searchSqlHistory,
+  serializeSqlHistory,
+  summarizeSqlHistoryEntry,
+  type SqlHistoryEntry,
+  type SqlHistoryInput,
+} from "@/lib/sql-history"
+import type { SqlBinding } from "@/lib/sql-log-parsers"
+
+function fill(sql: string, params = ""): SqlHistoryInput {
+  return { sql, params, bindings: [{ value: "1", type: "BIGINT" }], filledSql: sql.replace("?", "1"), dialect: "generic" }
+}
+
+function entry(overrides: Partial<SqlHistoryEntry>): SqlHistoryEntry {
+  return {
+    id: "entry-1",
+    label: "",
+    sql: "select 1",
+    params: "",
+    bindings: [],
+    filledSql: "select 1",
+    dialect: "generic",
+    createdAt: "2026-03-08T00:00:00.000Z",
+    pinned: false,
+    ...overrides,
+  }
+}
+
+describe("sql-history", () => {
+  test("loads valid stored entries", () => {
+    const stored = [entry({ label: "Orders", bindings: [{ value: null, type: "VARCHAR" }] })]
+
+    expect(parseSqlHistory(JSON.stringify(stored))).toEqual(stored)
+  })
+
+  test("returns empty list for null and invalid JSON, and drops only malformed entries", () => {
+    expect(parseSqlHistory(null)).toEqual([])
+    expect(parseSqlHistory("not-json")).toEqual([])
+    expect(parseSqlHistory(JSON.stringify({ id: "not-an-array" }))).toEqual([])
+    expect(parseSqlHistory(JSON.stringify([entry({ dialect: "db2" as never })]))).toEqual([])
+    expect(parseSqlHistory(JSON.stringify([entry({}), { ...entry({}), bindings: [{ value: 1 }] }]))).toEqual([entry({})])
+  })
+
+  test("round-trips sparse binding arrays", () => {
+    const bindings: SqlBinding[] = []
+    bindings[2] = { value: "3", type: "BIGINT" }
+    const stored = [entry({ bindings }), entry({ id: "entry-2" })]
+
+    expect(parseSqlHistory(serializeSqlHistory(stored))).toEqual([
+      entry({ bindings: [{ value: "", type: null }, { value: "", type: null }, { value: "3", type: "BIGINT" }] }),
+      entry({ id: "entry-2" }),
+    ])
+    expect(parseSqlHistory(JSON.stringify(stored))).toHaveLength(2)
+  })
+
+  test("records fills newest first and refreshes repeated fills", () => {
+    let history = recordSqlHistory([], fill("select * from a where id = ?", "1"), new Date("2026-03-08T10:00:00Z"))
+    history = recordSqlHistory(history, fill("select * from b"), new Date("2026-03-08T11:00:00Z"))
+    history[1] = { ...history[1], label: "Lookup", pinned: true }
+    history = recordSqlHistory(history, fill("select * from a where id = ?", "1"), new Date("2026-03-08T12:00:00Z"))
+
+    expect(history.map((item) => [item.sql, item.label, item.pinned, item.createdAt])).toEqual([
+      ["select * from a where id = ?", "Lookup", true, "2026-03-08T12:00:00.000Z"],
+      ["select * from b", "", false, "2026-03-08T11:00:00.000Z"],
+    ])
+  })
+
+  test("caps unpinned entries but keeps pinned ones", () => {
+    let history = [entry({ id: "pinned", sql: "select 0", pinned: true })]
+    for (let index = 1; index <= 4; index++) {
+      history = recordSqlHistory(history, fill(`select ${index}`), new Date(), 2)
+    }
+
+    expect(history.map((item) => item.sql)).toEqual(["select 4", "select 3", "select 0"])
+  })
+
+  test("searches every word and sorts pinned entries first", () => {
+    const history = [
+      entry({ id: "1", sql: "select * from orders", createdAt: "2026-03-08T12:00:00.000Z" }),
+      entry({ id: "2", sql: "select * from users", label: "Login lookup", createdAt: "2026-03-08T11:00:00.000Z" }),
+      entry({ id: "3", sql: "select * from orders o", pinned: true, dialect: "postgresql", createdAt: "2026-03-08T10:00:00.000Z" }),
+    ]
+
+    expect(searchSqlHistory(history, "").map((item) => item.id)).toEqual(["3", "1", "2"])
+    expect(searchSqlHistory(history, "ORDERS postgresql").map((item) => item.id)).toEqual(["3"])
+    expect(searchSqlHistory(history, "login").map((item) => item.id)).toEqual(["2"])
+  })
+
+  test("summarizes unlabelled entries on one line", () => {
+    expect(summarizeSqlHistoryEntry(entry({ sql: "select *\n  from users\n where id = ?" }))).toBe(
+      "select * from users where id = ?"
+    )
+    expect(summarizeSqlHistoryEntry(entry({ sql: `select ${"x, ".repeat(40)}1` }))).toHaveLength(80)
+  })
+})
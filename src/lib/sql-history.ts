@@ -0,0 +1,167 @@
+import { SQL_DIALECTS, type SqlDialect } from "@/lib/sql-dialects"
+import type { SqlBinding } from "@/lib/sql-log-parsers"
+
+export type SqlHistoryEntry = {
+  id: string
+  /** Name given by the user; empty until they set one. */
+  label: string
+  sql: string
+  /** Bind parameter log the query was filled from. */
+  params: string
+  bindings: SqlBinding[]
+  filledSql: string
+  dialect: SqlDialect
+  createdAt: string
+  pinned: boolean
+}
+
+export type SqlHistoryInput = Pick<SqlHistoryEntry, "sql" | "params" | "bindings" | "filledSql" | "dialect">
+
+export const SQL_HISTORY_KEY = "codelessshipmore:sql-history"
+
+/** Unpinned entries kept; pinned entries are never evicted. */
+export const SQL_HISTORY_LIMIT = 100
+
+/** Stands in for parameters with no logged value, which JSON would otherwise store as `null`. */
+const EMPTY_BINDING: SqlBinding = { value: "", type: null }
+
+function isSqlBinding(value: unknown): value is SqlBinding {
+  if (!value || typeof value !== "object") {
+    return false
+  }
+
+  const candidate = value as Record<string, unknown>
+
+  return (
+    (typeof candidate.value === "string" || candidate.value === null) &&
+    (typeof candidate.type === "string" || candidate.type === null)
+  )
+}
+
+function isSqlHistoryEntry(value: unknown): value is SqlHistoryEntry {
+  if (!value || typeof value !== "object") {
+    return false
+  }
+
+  const candidate = value as Record<string, unknown>
+
+  return (
+    typeof candidate.id === "string" &&
+    candidate.id.length > 0 &&
+    typeof candidate.label === "string" &&
+    typeof candidate.sql === "string" &&
+    typeof candidate.params === "string" &&
+    Array.isArray(candidate.bindings) &&
+    candidate.bindings.every(isSqlBinding) &&
+    typeof candidate.filledSql === "string" &&
+    SQL_DIALECTS.some((definition) => definition.value === candidate.dialect) &&
+    typeof candidate.createdAt === "string" &&
+    !Number.isNaN(Date.parse(candidate.createdAt)) &&
+    typeof candidate.pinned === "boolean"
+  )
+}
+
+/** Fills the holes parameter logs leave in sparse binding arrays. */
+function fillBindingHoles(bindings: Array<SqlBinding | null | undefined>): SqlBinding[] {
+  return Array.from(bindings, (binding) => binding ?? EMPTY_BINDING)
+}
+
+/** Reads stored history, dropping only the entries that fail validation. */
+export function parseSqlHistory(value: string | null): SqlHistoryEntry[] {
+  if (!value) {
+    return []
+  }
+
+  try {
+    const parsed = JSON.parse(value)
+
+    if (!Array.isArray(parsed)) {
+      return []
+    }
+
+    return parsed
+      .map((candidate) =>
+        candidate && typeof candidate === "object" && Array.isArray(candidate.bindings)
+          ? { ...candidate, bindings: fillBindingHoles(candidate.bindings) }
+          : candidate
+      )
+      .filter(isSqlHistoryEntry)
+  } catch {
+    return []
+  }
+}
+
+export function serializeSqlHistory(entries: SqlHistoryEntry[]): string {
+  return JSON.stringify(entries.map((entry) => ({ ...entry, bindings: fillBindingHoles(entry.bindings) })))
+}
+
+export function loadSqlHistory() {
+  if (typeof window === "undefined") {
+    return []
+  }
+
+  try {
+    return parseSqlHistory(window.localStorage.getItem(SQL_HISTORY_KEY))
+  } catch {
+    return []
+  }
+}
+
+export function saveSqlHistory(entries: SqlHistoryEntry[]) {
+  if (typeof window === "undefined") {
+    return false
+  }
+
+  try {
+    window.localStorage.setItem(SQL_HISTORY_KEY, serializeSqlHistory(entries))
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Adds a fill to the top of the history. Filling the same query and parameters again
+ * refreshes the existing entry instead of duplicating it; the oldest unpinned entries
+ * beyond the limit are dropped.
+ */
+export function recordSqlHistory(
+  entries: SqlHistoryEntry[],
+  input: SqlHistoryInput,
+  now = new Date(),
+  limit = SQL_HISTORY_LIMIT
+): SqlHistoryEntry[] {
+  const existing = entries.find(
+    (entry) => entry.sql === input.sql && entry.params === input.params && entry.dialect === input.dialect
+  )
+  const entry: SqlHistoryEntry = {
+    id: existing?.id ?? crypto.randomUUID(),
+    label: existing?.label ?? "",
+    pinned: existing?.pinned ?? false,
+    ...input,
+    createdAt: now.toISOString(),
+  }
+
+  let unpinned = 0
+  return [entry, ...entries.filter((candidate) => candidate !== existing)].filter(
+    (candidate) => candidate.pinned || ++unpinned <= limit
+  )
+}
+
+/** One-line summary used when an entry has no label. */
+export function summarizeSqlHistoryEntry(entry: SqlHistoryEntry): string {
+  const summary = entry.sql.replace(/\s+/g, " ").trim()
+  return summary.length > 80 ? `${summary.slice(0, 79)}…` : summary || "Empty query"
+}
+
+/** Filters by every search word (label, SQL, parameters or dialect), pinned entries first, newest first. */
+export function searchSqlHistory(entries: SqlHistoryEntry[], query: string): SqlHistoryEntry[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+
+  return entries
+    .filter((entry) => {
+      const haystack = [entry.label, entry.sql, entry.params, entry.filledSql, entry.dialect].join("\n").toLowerCase()
+      return words.every((word) => haystack.includes(word))
+    })
+    .sort((a, b) => Number(b.pinned) - Number(a.pinned) || Date.parse(b.createdAt) - Date.parse(a.createdAt))
+}
@@ -0,0 +1,107 @@
+import { describe, expect, test } from "bun:test"
+import { detectSqlLogFormat, getSqlLogParser, type SqlLogFormat } from "@/lib/sql-log-parsers"
+import { extractBindings, replaceQueryParams, splitSQLAndLog } from "@/lib/sql-utils"
+
+const logs: Record<SqlLogFormat, string> = {
+  "hibernate-6": `select u1_0.id from users u1_0 where u1_0.name=? and u1_0.team_id=?
+2024-05-01T10:00:00.000Z TRACE 1 --- [main] org.hibernate.orm.jdbc.bind : binding parameter (1:VARCHAR) <- [O'Brien [ops]]
+2024-05-01T10:00:00.000Z TRACE 1 --- [main] org.hibernate.orm.jdbc.bind : binding parameter (2:BIGINT) <- [null]`,
+  "hibernate-5": `select user0_.id from users user0_ where user0_.name=? and user0_.team_id=?
+2024-05-01 10:00:00 TRACE o.h.type.descriptor.sql.BasicBinder - binding parameter [2] as [BIGINT] - [null]
+2024-05-01 10:00:00 TRACE o.h.type.descriptor.sql.BasicBinder - binding parameter [1] as [VARCHAR] - [O'Brien [ops]]`,
+  mybatis: `DEBUG [main] - ==>  Preparing: select id from users where name = ? and team_id = ?
+DEBUG [main] - ==> Parameters: O'Brien [ops](String), null
+DEBUG [main] - <==      Total: 1`,
+  jooq: `DEBUG org.jooq.tools.LoggerListener - Executing query          : select "users"."id" from "users" where ("users"."name" = ? and "users"."team_id" = ?)
+DEBUG org.jooq.tools.LoggerListener - -> with bind values      : select "users"."id" from "users" where ("users"."name" = 'O''Brien [ops]' and "users"."team_id" = null)`,
+  "jdbc-template": `DEBUG o.s.jdbc.core.JdbcTemplate - Executing prepared SQL statement [select id from users where name = ? and team_id = ?]
+TRACE o.s.jdbc.core.StatementCreatorUtils - Setting SQL statement parameter value: column index 1, parameter value [O'Brien [ops]], value class [java.lang.String], SQL type unknown
+TRACE o.s.jdbc.core.StatementCreatorUtils - Setting SQL statement parameter value: column index 2, parameter value [null], value class [null], SQL type -5`,
+  p6spy: `1714557600000|3|statement|connection 7|url jdbc:h2:mem:test|select id from users where name = ? and team_id = ?|select id from users where name = 'O''Brien [ops]' and team_id = NULL`,
+}
+
+const expectedTypes: Record<SqlLogFormat, Array<string | null>> = {
+  "hibernate-6": ["VARCHAR", "BIGINT"],
+  "hibernate-5": ["VARCHAR", "BIGINT"],
+  mybatis: ["VARCHAR", null],
+  jooq: ["VARCHAR", null],
+  "jdbc-template": ["VARCHAR", "BIGINT"],
+  p6spy: ["VARCHAR", null],
+}
+
+describe("sql-log-parsers", () => {
+  for (const [format, log] of Object.entries(logs) as Array<[SqlLogFormat, string]>) {
+    test(`detects and parses ${format} logs`, () => {
+      expect(detectSqlLogFormat(log)).toBe(format)
+
+      const { sqlQuery, bindingLog } = splitSQLAndLog(log)
+      const bindings = getSqlLogParser(format).parseBindings(bindingLog)
+
+      expect(bindings.map((binding) => binding.value)).toEqual(["O'Brien [ops]", null])
+      expect(bindings.map((binding) => binding.type)).toEqual(expectedTypes[format])
+      expect(replaceQueryParams(sqlQuery, extractBindings(bindingLog))).toMatch(/= ?'O''Brien \[ops\]' and [\w."]+ ?= ?NULL/)
+    })
+  }
+
+  test("keeps the prepared statement and only the bind lines when splitting", () => {
+    expect(splitSQLAndLog(logs.mybatis)).toEqual({
+      sqlQuery: "select id from users where name = ? and team_id = ?",
+      bindingLog: "DEBUG [main] - ==> Parameters: O'Brien [ops](String), null",
+      format: "mybatis",
+    })
+    expect(splitSQLAndLog("select 1")).toEqual({ sqlQuery: "select 1", bindingLog: "", format: null })
+  })
+
+  test("drops the Hibernate logger prefix from the statement", () => {
+    const log = [
+      "2024-05-01T10:00:00.000Z DEBUG 1 --- [main] org.hibernate.SQL : select u1_0.id from users u1_0 where u1_0.id=?",
+      "2024-05-01T10:00:00.000Z TRACE 1 --- [main] org.hibernate.orm.jdbc.bind : binding parameter (1:BIGINT) <- [7]",
+    ].join("\n")
+
+    expect(splitSQLAndLog(log).sqlQuery).toBe("select u1_0.id from users u1_0 where u1_0.id=?")
+    const formatted = `Hibernate: \n    select\n        id\n    from\n        users\n${log.split("\n")[1]}`
+    expect(splitSQLAndLog(formatted).sqlQuery).toBe("select\n        id\n    from\n        users")
+  })
+
+  test("reads MyBatis values containing separators and the string null", () => {
+    const log = "==> Parameters: a, b(String), null(String), 42(Long), 2024-05-01 10:00:00.0(Timestamp), (String)"
+    const bindings = getSqlLogParser("mybatis").parseBindings(log)
+
+    expect(bindings).toEqual([
+      { value: "a, b", type: "VARCHAR" },
+      { value: "null", type: "VARCHAR" },
+      { value: "42", type: "BIGINT" },
+      { value: "2024-05-01 10:00:00.0", type: "TIMESTAMP" },
+      { value: "", type: "VARCHAR" },
+    ])
+  })
+
+  test("types inlined literals from jOOQ and p6spy", () => {
+    const log = `Executing query          : select * from t where a = ? and b = ? and c = ? and d = ? and e = ?
+-> with bind values      : select * from t where a = 42 and b = true and c = timestamp '2024-05-01 10:00:00.0' and d = cast('9f1c' as uuid) and e = 1.5`
+
+    expect(getSqlLogParser("jooq").parseBindings(log)).toEqual([
+      { value: "42", type: "BIGINT" },
+      { value: "true", type: "BOOLEAN" },
+      { value: "2024-05-01 10:00:00.0", type: "TIMESTAMP" },
+      { value: "9f1c", type: "UUID" },
+      { value: "1.5", type: "NUMERIC" },
+    ])
+  })
+
+  test("splits p6spy lines whose SQL contains pipes", () => {
+    const log = "1|0|statement|connection 1|url jdbc:postgresql://db|select a || ? from t|select a || 'x' from t"
+
+    expect(splitSQLAndLog(log).sqlQuery).toBe("select a || ? from t")
+    expect(extractBindings(log)).toEqual([{ value: "x", type: "VARCHAR" }])
+  })
+
+  test("reads p6spy multi-line entries", () => {
+    const log = `#1714557600000 | took 3ms | statement | connection 7| url jdbc:h2:mem:test
+select id from users where id = ?
+select id from users where id = 5;`
+
+    expect(detectSqlLogFormat(log)).toBe("p6spy")
+    expect(extractBindings(log)).toEqual([{ value: "5", type: "BIGINT" }])
+  })
+})
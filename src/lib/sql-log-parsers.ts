@@ -0,0 +1,326 @@
+type SqlLogFormat = "hibernate-6" | "hibernate-5" | "mybatis" | "jooq" | "jdbc-template" | "p6spy"
+
+interface SqlBinding {
+  /** Bound value as logged; `null` when the log reports a SQL NULL. */
+  value: string | null
+  /** JDBC type name such as `VARCHAR` or `BIGINT`, when the log reveals one. */
+  type: string | null
+}
+
+interface SqlLogParser {
+  format: SqlLogFormat
+  label: string
+  /** Whether the text contains bind parameters logged in this format. */
+  detect: (text: string) => boolean
+  /** Separates the prepared statement from the lines that carry its bind values. */
+  split: (text: string) => { sql: string; log: string }
+  /** Reads the bound values in placeholder order. */
+  parseBindings: (log: string) => SqlBinding[]
+  /** Matches a log line that starts a statement, with the SQL in group 1. */
+  statementLine?: RegExp
+  /** Matches a log line that carries bind values for the preceding statement. */
+  bindingLine?: RegExp
+}
+
+// Java types as printed by MyBatis (simple names) or Spring (qualified names).
+const JAVA_TYPE_TO_JDBC: Record<string, string> = {
+  String: "VARCHAR",
+  Character: "CHAR",
+  Integer: "INTEGER",
+  Long: "BIGINT",
+  Short: "SMALLINT",
+  Byte: "TINYINT",
+  Boolean: "BOOLEAN",
+  BigDecimal: "NUMERIC",
+  BigInteger: "NUMERIC",
+  Double: "DOUBLE",
+  Float: "REAL",
+  Timestamp: "TIMESTAMP",
+  LocalDateTime: "TIMESTAMP",
+  OffsetDateTime: "TIMESTAMP_WITH_TIMEZONE",
+  ZonedDateTime: "TIMESTAMP_WITH_TIMEZONE",
+  Instant: "TIMESTAMP",
+  Date: "TIMESTAMP",
+  LocalDate: "DATE",
+  Time: "TIME",
+  LocalTime: "TIME",
+  UUID: "UUID",
+  "byte[]": "VARBINARY",
+}
+
+// java.sql.Types codes, as printed by Spring's StatementCreatorUtils.
+const SQL_TYPE_CODES: Record<string, string> = {
+  "-7": "BIT",
+  "-6": "TINYINT",
+  "5": "SMALLINT",
+  "4": "INTEGER",
+  "-5": "BIGINT",
+  "6": "FLOAT",
+  "7": "REAL",
+  "8": "DOUBLE",
+  "2": "NUMERIC",
+  "3": "DECIMAL",
+  "1": "CHAR",
+  "12": "VARCHAR",
+  "-1": "LONGVARCHAR",
+  "91": "DATE",
+  "92": "TIME",
+  "93": "TIMESTAMP",
+  "-2": "BINARY",
+  "-3": "VARBINARY",
+  "1111": "OTHER",
+  "2004": "BLOB",
+  "2005": "CLOB",
+  "16": "BOOLEAN",
+}
+
+function javaTypeToJdbc(javaType: string): string {
+  const simpleName = javaType.slice(javaType.lastIndexOf(".") + 1)
+  return JAVA_TYPE_TO_JDBC[simpleName] ?? simpleName.toUpperCase()
+}
+
+function splitAtFirstMatch(text: string, pattern: RegExp): { sql: string; log: string } {
+  const lines = text.split("\n")
+  const index = lines.findIndex((line) => pattern.test(line))
+  if (index === -1) return { sql: text.trim(), log: "" }
+
+  return {
+    sql: lines.slice(0, index).join("\n").trim(),
+    log: lines.slice(index).join("\n").trim(),
+  }
+}
+
+function collectLines(text: string, pattern: RegExp): string {
+  return text
+    .split("\n")
+    .filter((line) => pattern.test(line))
+    .join("\n")
+    .trim()
+}
+
+/** Reads one SQL literal as rendered by jOOQ or p6spy back into a typed binding. */
+function parseInlinedLiteral(literal: string): SqlBinding {
+  const text = literal.trim()
+
+  const cast = /^cast\(([\s\S]*) as (\w+)(?:\s*\([^)]*\))?\)$/i.exec(text)
+  if (cast) {
+    return { value: parseInlinedLiteral(cast[1]).value, type: cast[2].toUpperCase() }
+  }
+  if (/^null$/i.test(text)) return { value: null, type: null }
+  if (/^(?:true|false)$/i.test(text)) return { value: text.toLowerCase(), type: "BOOLEAN" }
+  if (/^-?\d+$/.test(text)) return { value: text, type: "BIGINT" }
+  if (/^-?\d*\.\d+(?:e[+-]?\d+)?$/i.test(text)) return { value: text, type: "NUMERIC" }
+
+  const typed = /^(timestamp|date|time)\s*'((?:[^']|'')*)'$/i.exec(text)
+  if (typed) return { value: typed[2], type: typed[1].toUpperCase() }
+
+  const binary = /^x'([0-9a-f]*)'$/i.exec(text)
+  if (binary) return { value: binary[1], type: "VARBINARY" }
+
+  const string = /^'((?:[^']|'')*)'$/.exec(text)
+  if (string) return { value: string[1].replace(/''/g, "'"), type: "VARCHAR" }
+
+  return { value: text, type: null }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Recovers bind values by lining up a prepared statement with the same statement
+ * rendered with inline values, as jOOQ and p6spy log them. Returns null when the
+ * two statements do not line up.
+ */
+function alignInlinedStatement(prepared: string, inlined: string): SqlBinding[] | null {
+  const parts = prepared.trim().split("?")
+  const pattern = new RegExp(`^${parts.map(escapeRegExp).join("([\\s\\S]*?)")};?$`)
+  const match = pattern.exec(inlined.trim())
+  return match ? match.slice(1).map(parseInlinedLiteral) : null
+}
+
+const HIBERNATE_6_BIND = /binding parameter \((\d+):(\w+)\) <- \[(.*)\]\s*$/
+const HIBERNATE_LEGACY_BIND = /binding parameter \[(\d+)\] as \[(\w+)\] - \[(.*)\]\s*$/
+const HIBERNATE_BIND_LINE = /binding parameter [[(]\d+/
+const HIBERNATE_STATEMENT_LINE = /(?:\borg\.hibernate\.SQL\s*[:-]|^\s*Hibernate:)\s*(.*)$/
+
+function parseHibernateBindings(log: string): SqlBinding[] {
+  const bindings: SqlBinding[] = []
+
+  for (const line of log.split("\n")) {
+    const match = HIBERNATE_6_BIND.exec(line) ?? HIBERNATE_LEGACY_BIND.exec(line)
+    if (!match) continue
+
+    const value = match[3]
+    bindings[Number(match[1]) - 1] = { value: value === "null" ? null : value, type: match[2] }
+  }
+
+  return bindings
+}
+
+/** Splits at the first bind line and drops the `org.hibernate.SQL :` or `Hibernate:` prefix from the statement. */
+function splitHibernateLog(text: string): { sql: string; log: string } {
+  const { sql, log } = splitAtFirstMatch(text, HIBERNATE_BIND_LINE)
+  const statement = sql
+    .split("\n")
+    .map((line) => HIBERNATE_STATEMENT_LINE.exec(line)?.[1] ?? line)
+    .join("\n")
+
+  return { sql: statement.trim(), log }
+}
+
+const MYBATIS_PREPARING = /==>\s*Preparing:\s*(.*)$/m
+const MYBATIS_PARAMETERS = /==>\s*Parameters:[ \t]?(.*?)\r?$/m
+// Each value is followed by its Java type in parentheses; NULLs are printed bare.
+const MYBATIS_PARAMETER = /(?:null|([\s\S]*?)\(([\w.[\]]+)\))(?=, |$)(?:, )?/y
+
+function parseMyBatisBindings(log: string): SqlBinding[] {
+  const parameters = MYBATIS_PARAMETERS.exec(log)?.[1] ?? ""
+  const bindings: SqlBinding[] = []
+
+  MYBATIS_PARAMETER.lastIndex = 0
+  while (MYBATIS_PARAMETER.lastIndex < parameters.length) {
+    const match = MYBATIS_PARAMETER.exec(parameters)
+    if (!match) break
+    bindings.push(
+      match[2] === undefined ? { value: null, type: null } : { value: match[1], type: javaTypeToJdbc(match[2]) }
+    )
+  }
+
+  return bindings
+}
+
+const JOOQ_EXECUTING = /Executing query\s*:\s*(.*?)\r?$/m
+const JOOQ_BIND_VALUES = /-> with bind values\s*:\s*(.*?)\r?$/m
+
+const JDBC_TEMPLATE_STATEMENT =
+  /Executing (?:prepared )?SQL (?:statement|query|update)(?: and returning generated keys)? \[([\s\S]*?)\]\s*$/m
+const JDBC_TEMPLATE_STATEMENT_LINE =
+  /Executing (?:prepared )?SQL (?:statement|query|update)(?: and returning generated keys)? \[(.*)\]\s*$/
+const JDBC_TEMPLATE_PARAMETER =
+  /Setting SQL statement parameter value: column index (\d+), parameter value \[(.*)\], value class \[(.*)\], SQL type (\S+)/
+
+function parseJdbcTemplateBindings(log: string): SqlBinding[] {
+  const bindings: SqlBinding[] = []
+
+  for (const line of log.split("\n")) {
+    const match = JDBC_TEMPLATE_PARAMETER.exec(line)
+    if (!match) continue
+
+    const [, index, value, valueClass, sqlType] = match
+    const type = SQL_TYPE_CODES[sqlType] ?? (valueClass === "null" ? null : javaTypeToJdbc(valueClass))
+    bindings[Number(index) - 1] = { value: valueClass === "null" ? null : value, type }
+  }
+
+  return bindings
+}
+
+// Single-line format: time|elapsed|category|connection id|url|prepared|sql
+const P6SPY_SINGLE_LINE = /^\s*\d+\|\s*\d+\|\s*[\w-]+\|\s*connection \d+\|[^|]*\|(.*)$/m
+// Multi-line format: a "#time | took Nms | ..." header, then the prepared and the effective SQL.
+const P6SPY_MULTI_LINE_HEADER = /^#\d+ \| took \d+ms \| [\w-]+ \| connection \d+\|.*$/m
+
+function readP6spyStatements(text: string): { prepared: string; inlined: string } | null {
+  const singleLine = P6SPY_SINGLE_LINE.exec(text)
+  if (singleLine) {
+    // The SQL itself may contain `|`, so try every split until the halves line up.
+    const rest = singleLine[1].replace(/\r$/, "")
+    for (let index = rest.indexOf("|"); index !== -1; index = rest.indexOf("|", index + 1)) {
+      const prepared = rest.slice(0, index)
+      const inlined = rest.slice(index + 1)
+      if (alignInlinedStatement(prepared, inlined)) return { prepared, inlined }
+    }
+    return null
+  }
+
+  const header = P6SPY_MULTI_LINE_HEADER.exec(text)
+  if (!header) return null
+
+  const [prepared = "", inlined = ""] = text
+    .slice(header.index + header[0].length)
+    .split("\n")
+    .filter((line) => line.trim())
+  return { prepared: prepared.trim(), inlined: inlined.trim() }
+}
+
+export const SQL_LOG_PARSERS: SqlLogParser[] = [
+  {
+    format: "hibernate-6",
+    label: "Hibernate 6",
+    detect: (text) => text.includes("org.hibernate.orm.jdbc.bind") || /binding parameter \(\d+:\w+\) <-/.test(text),
+    split: splitHibernateLog,
+    parseBindings: parseHibernateBindings,
+    statementLine: HIBERNATE_STATEMENT_LINE,
+    bindingLine: HIBERNATE_BIND_LINE,
+  },
+  {
+    format: "hibernate-5",
+    label: "Hibernate 5",
+    detect: (text) => /binding parameter \[\d+\] as \[\w+\] - \[/.test(text),
+    split: splitHibernateLog,
+    parseBindings: parseHibernateBindings,
+    statementLine: HIBERNATE_STATEMENT_LINE,
+    bindingLine: HIBERNATE_BIND_LINE,
+  },
+  {
+    format: "mybatis",
+    label: "MyBatis",
+    detect: (text) => MYBATIS_PARAMETERS.test(text),
+    split: (text) => ({
+      sql: MYBATIS_PREPARING.exec(text)?.[1].trim() ?? "",
+      log: collectLines(text, /==>\s*Parameters:/),
+    }),
+    parseBindings: parseMyBatisBindings,
+    statementLine: MYBATIS_PREPARING,
+    bindingLine: /==>\s*Parameters:/,
+  },
+  {
+    format: "jooq",
+    label: "jOOQ",
+    detect: (text) => JOOQ_BIND_VALUES.test(text),
+    split: (text) => ({
+      sql: JOOQ_EXECUTING.exec(text)?.[1].trim() ?? "",
+      log: collectLines(text, /Executing query\s*:|-> with bind values\s*:/),
+    }),
+    parseBindings: (log) => {
+      const prepared = JOOQ_EXECUTING.exec(log)?.[1] ?? ""
+      const inlined = JOOQ_BIND_VALUES.exec(log)?.[1] ?? ""
+      return alignInlinedStatement(prepared, inlined) ?? []
+    },
+    statementLine: JOOQ_EXECUTING,
+    bindingLine: /-> with bind values\s*:/,
+  },
+  {
+    format: "jdbc-template",
+    label: "Spring JdbcTemplate",
+    detect: (text) => JDBC_TEMPLATE_PARAMETER.test(text),
+    split: (text) => ({
+      sql: JDBC_TEMPLATE_STATEMENT.exec(text)?.[1].trim() ?? "",
+      log: collectLines(text, /Setting SQL statement parameter value:/),
+    }),
+    parseBindings: parseJdbcTemplateBindings,
+    statementLine: JDBC_TEMPLATE_STATEMENT_LINE,
+    bindingLine: /Setting SQL statement parameter value:/,
+  },
+  {
+    format: "p6spy",
+    label: "p6spy",
+    detect: (text) => P6SPY_SINGLE_LINE.test(text) || P6SPY_MULTI_LINE_HEADER.test(text),
+    split: (text) => ({ sql: readP6spyStatements(text)?.prepared ?? "", log: text.trim() }),
+    parseBindings: (log) => {
+      const statements = readP6spyStatements(log)
+      return statements ? (alignInlinedStatement(statements.prepared, statements.inlined) ?? []) : []
+    },
+  },
+]
+
+export function getSqlLogParser(format: SqlLogFormat): SqlLogParser {
+  return SQL_LOG_PARSERS.find((parser) => parser.format === format)!
+}
+
+/** Picks the first parser that recognizes the text, or null for plain SQL. */
+export function detectSqlLogFormat(text: string): SqlLogFormat | null {
+  return SQL_LOG_PARSERS.find((parser) => parser.detect(text))?.format ?? null
+}
+
+export type { SqlBinding, SqlLogFormat, SqlLogParser }
@@ -0,0 +1,108 @@
+import { describe, expect, test } from "bun:test"
+import { parameterizeQuery, toJavaArguments, toJsonArguments, toSqlBindings } from "@/lib/sql-parameterize"
+import { replaceQueryParams } from "@/lib/sql-utils"
+
+describe("sql-parameterize", () => {
+  test("lifts strings, numbers, booleans, NULL and timestamps into positional placeholders", () => {
+    const { sql, parameters } = parameterizeQuery(
+      "SELECT * FROM orders o WHERE o.customer_email = 'ada@example.com' AND o.total >= -19.90 AND o.paid = TRUE " +
+        "AND o.note IS NOT NULL AND o.created_at BETWEEN TIMESTAMP '2024-01-01 00:00:00' AND '2024-02-01 00:00:00' " +
+        "ORDER BY 1 LIMIT 10"
+    )
+
+    expect(sql).toBe(
+      "SELECT * FROM orders o WHERE o.customer_email = ? AND o.total >= ? AND o.paid = ? " +
+        "AND o.note IS NOT NULL AND o.created_at BETWEEN ? AND ? ORDER BY 1 LIMIT ?"
+    )
+    expect(parameters.map(({ name, type, value }) => [name, type, value])).toEqual([
+      ["customerEmail", "string", "ada@example.com"],
+      ["total", "number", -19.9],
+      ["paid", "boolean", true],
+      ["createdAt", "timestamp", "2024-01-01 00:00:00"],
+      ["createdAt2", "timestamp", "2024-02-01 00:00:00"],
+      ["limit", "number", 10],
+    ])
+  })
+
+  test("names parameters after insert columns and reuses repeated named values", () => {
+    const insert = parameterizeQuery(
+      "insert into users (id, display_name, manager_id) values (7, 'O''Brien', null)",
+      "named"
+    )
+    expect(insert.sql).toBe("insert into users (id, display_name, manager_id) values (:id, :displayName, :managerId)")
+    expect(insert.parameters.map((parameter) => parameter.value)).toEqual([7, "O'Brien", null])
+
+    const repeated = parameterizeQuery("select * from t where a = 'x' or a = 'x' or a = 'y' or b in (1, 2)", "named")
+    expect(repeated.sql).toBe("select * from t where a = :a or a = :a or a = :a2 or b in (:b, :b2)")
+  })
+
+  test("leaves identifiers, comments, type sizes and non-temporal casts alone", () => {
+    const { sql, parameters } = parameterizeQuery(
+      "select cast(x as varchar(255)), t.\"value\" -- 'not a literal'\nfrom t where id = '5b0c'::uuid and day = '2024-01-01'::date"
+    )
+
+    expect(sql).toBe(
+      "select cast(x as varchar(255)), t.\"value\" -- 'not a literal'\nfrom t where id = ?::uuid and day = ?"
+    )
+    expect(parameters.map(({ type, value }) => [type, value])).toEqual([
+      ["string", "5b0c"],
+      ["date", "2024-01-01"],
+    ])
+  })
+
+  test("lifts the Oracle and ANSI temporal literals written by the dialects", () => {
+    const { sql, parameters } = parameterizeQuery(
+      "update jobs set run_at = TO_TIMESTAMP('2024-01-01 10:00:00', 'YYYY-MM-DD HH24:MI:SS'), " +
+        "due = TIMESTAMP WITH TIME ZONE '2024-01-01 10:00:00+02:00' where id = 1"
+    )
+
+    expect(sql).toBe("update jobs set run_at = ?, due = ? where id = ?")
+    expect(parameters.map((parameter) => parameter.type)).toEqual(["timestamp", "timestamp", "number"])
+  })
+
+  test("writes JSON and Java argument lists", () => {
+    const { parameters } = parameterizeQuery(
+      "select * from t where name = 'say \"hi\"' and total = 19.90 and big = 9999999999 and d = DATE '2024-01-02' and x = null"
+    )
+
+    expect(toJsonArguments(parameters, "positional")).toBe(
+      JSON.stringify(['say "hi"', 19.9, 9999999999, "2024-01-02", null], null, 2)
+    )
+    expect(toJavaArguments(parameters, "positional")).toBe(
+      [
+        "Object[] args = {",
+        '    "say \\"hi\\"",',
+        '    new BigDecimal("19.90"),',
+        "    9999999999L,",
+        '    Date.valueOf("2024-01-02"),',
+        "    null,",
+        "};",
+      ].join("\n")
+    )
+    expect(toJavaArguments(parameterizeQuery("select 1 from t where at = '2024-01-01T10:00:00Z'", "named").parameters, "named")).toBe(
+      'Map<String, Object> params = new HashMap<>();\nparams.put("at", OffsetDateTime.parse("2024-01-01T10:00:00Z"));'
+    )
+    expect(toJsonArguments(parameterizeQuery("select * from t where a = 1", "named").parameters, "named")).toBe(
+      JSON.stringify({ a: 1 }, null, 2)
+    )
+  })
+
+  test("writes integers past the long range as BigInteger", () => {
+    const { parameters } = parameterizeQuery(
+      "select * from t where a = -2147483648 and b = 9223372036854775807 and c = 12345678901234567890"
+    )
+
+    expect(toJavaArguments(parameters, "positional")).toBe(
+      ["Object[] args = {", "    -2147483648,", "    9223372036854775807L,", '    new BigInteger("12345678901234567890"),', "};"].join(
+        "\n"
+      )
+    )
+  })
+
+  test("round-trips through replaceQueryParams", () => {
+    const original = "select * from t where a = 'x' and b = 42 and c = 1.50 and d = false and e = TIMESTAMP '2024-01-01 00:00:00'"
+    const { sql, parameters } = parameterizeQuery(original)
+
+    expect(replaceQueryParams(sql, toSqlBindings(parameters))).toBe(original.replace("false", "FALSE"))
+  })
+})
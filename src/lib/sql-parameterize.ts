@@ -0,0 +1,367 @@
+import { tokenizeSql, type SqlToken } from "@/lib/sql-formatter"
+import type { SqlBinding } from "@/lib/sql-log-parsers"
+
+type SqlParameterizeStyle = "positional" | "named"
+
+type SqlLiteralType = "string" | "number" | "boolean" | "null" | "timestamp" | "date" | "time"
+
+interface SqlLiftedParameter {
+  /** Placeholder written into the statement, "?" or ":name". */
+  placeholder: string
+  /** Name derived from the column the literal is compared with or inserted into. */
+  name: string
+  type: SqlLiteralType
+  value: string | number | boolean | null
+  /** The literal as it appeared in the query, e.g. `TIMESTAMP '2024-01-01 00:00:00'`. */
+  literal: string
+}
+
+interface ParameterizedQuery {
+  sql: string
+  parameters: SqlLiftedParameter[]
+}
+
+interface Replacement {
+  start: number
+  end: number
+  parameter: SqlLiftedParameter
+}
+
+const COMPARISON_OPERATORS = new Set(["=", "<>", "!=", "<", ">", "<=", ">="])
+const COMPARISON_KEYWORDS = new Set(["LIKE", "ILIKE", "BETWEEN"])
+const TEMPORAL_KEYWORDS: Record<string, SqlLiteralType> = { TIMESTAMP: "timestamp", DATE: "date", TIME: "time" }
+const TEMPORAL_CASTS: Record<string, SqlLiteralType> = {
+  TIMESTAMP: "timestamp",
+  TIMESTAMPTZ: "timestamp",
+  DATE: "date",
+  TIME: "time",
+  TIMETZ: "time",
+}
+const TEMPORAL_FUNCTIONS: Record<string, SqlLiteralType> = {
+  TO_TIMESTAMP: "timestamp",
+  TO_TIMESTAMP_TZ: "timestamp",
+  TO_DATE: "date",
+}
+/** Types whose arguments are sizes, e.g. VARCHAR(255), and must stay literal. */
+const SIZED_TYPES = new Set(["CHAR", "VARCHAR", "NVARCHAR", "NCHAR", "NUMERIC", "DECIMAL", "NUMBER", "VARCHAR2", "FLOAT", "BIT"])
+const NON_VALUE_KEYWORDS = new Set(["SELECT", "WHERE", "AND", "OR", "NOT", "ON", "WHEN", "THEN", "ELSE", "IN", "SET", "VALUES"])
+const STRING_TIMESTAMP = /^\d{4}-\d{2}-\d{2}[ T]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?$/
+const ZONED_TIMESTAMP = /(?:Z|[+-]\d{2}:?\d{2})$/
+
+function upper(token: SqlToken | undefined): string {
+  return token?.type === "word" ? token.text.toUpperCase() : ""
+}
+
+function readStringLiteral(text: string): string | null {
+  if (text.startsWith("$")) return text.replace(/^\$(\w*)\$([\s\S]*)\$\1\$$/, "$2")
+  if (/^[xXbB]'/.test(text)) return null
+  if (/^[eE]'/.test(text)) {
+    return text
+      .slice(2, -1)
+      .replace(/''/g, "'")
+      .replace(/\\(.)/g, (_, char: string) => ({ n: "\n", r: "\r", t: "\t" })[char] ?? char)
+  }
+  return text.replace(/^[nN]/, "").slice(1, -1).replace(/''/g, "'")
+}
+
+function toCamelCase(name: string): string {
+  const camel = name.toLowerCase().replace(/_+([a-z0-9])/g, (_, char: string) => char.toUpperCase())
+  return camel.replace(/^_+|_+$/g, "") || "param"
+}
+
+function isValue(token: SqlToken | undefined): boolean {
+  if (token?.type === "word") return !NON_VALUE_KEYWORDS.has(upper(token))
+  return ["number", "string", "identifier", "placeholder", "close"].includes(token?.type ?? "")
+}
+
+function columnName(token: SqlToken | undefined): string | null {
+  if (token?.type === "identifier") return token.text.slice(1, -1)
+  if (token?.type === "word" && !NON_VALUE_KEYWORDS.has(upper(token))) return token.text
+  return null
+}
+
+/**
+ * Replaces string, number, boolean, NULL and temporal literals with bind placeholders and
+ * lists the lifted values in placeholder order. Plain strings shaped like
+ * `2024-01-01 10:00:00` are treated as timestamps.
+ */
+export function parameterizeQuery(sql: string, style: SqlParameterizeStyle = "positional"): ParameterizedQuery {
+  const tokens = tokenizeSql(sql)
+  const significant = tokens.flatMap((token, index) => (token.type === "whitespace" || token.type === "comment" ? [] : [index]))
+  const replacements: Replacement[] = []
+  const parameters: SqlLiftedParameter[] = []
+  const namedByKey = new Map<string, SqlLiftedParameter>()
+  const nameCounts = new Map<string, number>()
+
+  // Per open parenthesis: whether it holds type sizes, and the INSERT column it is filling.
+  const parens: Array<{ sized: boolean; columns: string[] | null; position: number }> = []
+  let insertColumns: string[] | null = null
+  let pendingInsertColumns: string[] | null = null
+  let clause = ""
+
+  const at = (position: number) => tokens[significant[position]]
+
+  // Finds the column compared with the literal at `position`, e.g. "email" in `u.email = 'x'`.
+  const comparedColumn = (position: number): string | null => {
+    let cursor = position - 1
+    if (upper(at(cursor)) === "AND") {
+      // "x BETWEEN a AND b": the upper bound belongs to x as well.
+      cursor--
+      while (cursor > 0 && upper(at(cursor)) !== "BETWEEN" && !["AND", "OR"].includes(upper(at(cursor)))) cursor--
+      if (upper(at(cursor)) !== "BETWEEN") return null
+    } else if (at(cursor)?.type === "comma" || at(cursor)?.text === "(") {
+      for (let depth = 0; cursor >= 0; cursor--) {
+        const text = at(cursor).text
+        if (text === ")") depth++
+        if (text === "(" && depth-- === 0) break
+      }
+      cursor--
+      if (upper(at(cursor)) !== "IN") return null
+    } else if (!COMPARISON_OPERATORS.has(at(cursor)?.text ?? "") && !COMPARISON_KEYWORDS.has(upper(at(cursor)))) {
+      return null
+    }
+
+    cursor--
+    if (upper(at(cursor)) === "NOT") cursor--
+    return columnName(at(cursor))
+  }
+
+  const lift = (startPosition: number, endPosition: number, type: SqlLiteralType, value: SqlLiftedParameter["value"]) => {
+    const start = significant[startPosition]
+    const end = significant[endPosition]
+    const literal = tokens
+      .slice(start, end + 1)
+      .map((token) => token.text)
+      .join("")
+    const paren = parens.at(-1)
+    const column = paren?.columns?.[paren.position] ?? comparedColumn(startPosition)
+    const base = toCamelCase(column ?? (clause === "LIMIT" || clause === "OFFSET" ? clause : "param"))
+
+    const existing = style === "named" ? namedByKey.get(`${base}\u0000${literal}`) : undefined
+    if (existing) {
+      replacements.push({ start, end, parameter: existing })
+      return
+    }
+
+    const count = (nameCounts.get(base) ?? 0) + 1
+    nameCounts.set(base, count)
+    const name = count === 1 ? base : `${base}${count}`
+    const parameter: SqlLiftedParameter = {
+      placeholder: style === "named" ? `:${name}` : "?",
+      name,
+      type,
+      value,
+      literal,
+    }
+
+    parameters.push(parameter)
+    namedByKey.set(`${base}\u0000${literal}`, parameter)
+    replacements.push({ start, end, parameter })
+  }
+
+  for (let position = 0; position < significant.length; position++) {
+    const token = at(position)
+    const previous = at(position - 1)
+    const keyword = upper(token)
+    const afterDot = previous?.type === "dot" || at(position + 1)?.type === "dot"
+
+    if (token.type === "word" && !afterDot) {
+      if (keyword === "BY" && ["ORDER", "GROUP"].includes(upper(previous))) clause = `${upper(previous)} BY`
+      else if (["SELECT", "FROM", "WHERE", "SET", "VALUES", "HAVING", "LIMIT", "OFFSET", "RETURNING"].includes(keyword)) {
+        clause = keyword
+      }
+      if (keyword === "INTO") pendingInsertColumns = []
+      if (keyword === "VALUES") insertColumns = pendingInsertColumns
+    }
+
+    if (token.text === "(") {
+      const collectingColumns = pendingInsertColumns !== null && pendingInsertColumns.length === 0 && clause !== "VALUES"
+      parens.push({
+        sized: SIZED_TYPES.has(upper(previous)),
+        columns: clause === "VALUES" && parens.length === 0 ? insertColumns : null,
+        position: 0,
+      })
+      if (collectingColumns) {
+        // "insert into t (a, b)" - read the column list up to the closing parenthesis.
+        let cursor = position + 1
+        while (cursor < significant.length && at(cursor).text !== ")") {
+          const name = columnName(at(cursor))
+          if (name) pendingInsertColumns!.push(name)
+          cursor++
+        }
+      }
+      continue
+    }
+    if (token.text === ")") {
+      parens.pop()
+      continue
+    }
+    if (token.type === "semicolon") {
+      clause = ""
+      insertColumns = null
+      pendingInsertColumns = null
+      continue
+    }
+    if (token.type === "comma") {
+      const paren = parens.at(-1)
+      if (paren) paren.position++
+      continue
+    }
+
+    if (parens.at(-1)?.sized || afterDot) continue
+
+    if (token.type === "string") {
+      const value = readStringLiteral(token.text)
+      if (value === null) continue
+
+      // 'x'::timestamp lifts the cast too; other casts such as ::uuid stay in the SQL.
+      const castType = at(position + 1)?.text === "::" ? TEMPORAL_CASTS[upper(at(position + 2))] : undefined
+      if (castType) {
+        lift(position, position + 2, castType, value)
+        position += 2
+      } else {
+        lift(position, position, STRING_TIMESTAMP.test(value) ? "timestamp" : "string", value)
+      }
+      continue
+    }
+
+    if (token.type === "number") {
+      if (clause === "ORDER BY" || clause === "GROUP BY" || upper(previous) === "SELECT") continue
+
+      // A minus sign belongs to the number unless it follows a value, as in "a - 1".
+      const negative = previous?.text === "-" && !isValue(at(position - 2)) ? position - 1 : null
+      const text = `${negative !== null ? "-" : ""}${token.text}`
+      const numeric = Number(text)
+      lift(negative ?? position, position, "number", Number.isSafeInteger(numeric) || !/^-?\d+$/.test(text) ? numeric : text)
+      continue
+    }
+
+    if (keyword === "TRUE" || keyword === "FALSE") {
+      lift(position, position, "boolean", keyword === "TRUE")
+      continue
+    }
+
+    if (keyword === "NULL") {
+      if (["IS", "NOT", "DEFAULT"].includes(upper(previous))) continue
+      lift(position, position, "null", null)
+      continue
+    }
+
+    const temporalKeyword = TEMPORAL_KEYWORDS[keyword]
+    if (temporalKeyword) {
+      // TIMESTAMP '...', TIMESTAMP WITH TIME ZONE '...'
+      let cursor = position + 1
+      if (["WITH", "WITHOUT"].includes(upper(at(cursor))) && upper(at(cursor + 1)) === "TIME") cursor += 3
+      const value = at(cursor)?.type === "string" ? readStringLiteral(at(cursor).text) : null
+      if (value !== null) {
+        lift(position, cursor, temporalKeyword, value)
+        position = cursor
+      }
+      continue
+    }
+
+    const temporalFunction = TEMPORAL_FUNCTIONS[keyword]
+    if (temporalFunction && at(position + 1)?.text === "(" && at(position + 2)?.type === "string") {
+      // TO_TIMESTAMP('...', 'format') as written by the Oracle dialect.
+      let cursor = position + 3
+      if (at(cursor)?.type === "comma" && at(cursor + 1)?.type === "string") cursor += 2
+      const value = readStringLiteral(at(position + 2).text)
+      if (at(cursor)?.text === ")" && value !== null) {
+        lift(position, cursor, temporalFunction, value)
+        position = cursor
+      }
+    }
+  }
+
+  let result = ""
+  let cursor = 0
+  for (const replacement of replacements) {
+    result += tokens
+      .slice(cursor, replacement.start)
+      .map((token) => token.text)
+      .join("")
+    result += replacement.parameter.placeholder
+    cursor = replacement.end + 1
+  }
+  result += tokens
+    .slice(cursor)
+    .map((token) => token.text)
+    .join("")
+
+  return { sql: result, parameters }
+}
+
+/** Lists the values as a JSON array for positional placeholders or an object keyed by name. */
+export function toJsonArguments(parameters: SqlLiftedParameter[], style: SqlParameterizeStyle): string {
+  const value =
+    style === "named"
+      ? Object.fromEntries(parameters.map((parameter) => [parameter.name, parameter.value]))
+      : parameters.map((parameter) => parameter.value)
+  return JSON.stringify(value, null, 2)
+}
+
+function toJavaString(value: string): string {
+  return `"${value.replace(/["\\]/g, "\\$&").replace(/\n/g, "\\n").replace(/\r/g, "\\r").replace(/\t/g, "\\t")}"`
+}
+
+const JAVA_LONG_MAX = BigInt("9223372036854775807")
+
+function toJavaValue(parameter: SqlLiftedParameter): string {
+  const { type, value } = parameter
+  if (value === null) return "null"
+  if (type === "boolean") return String(value)
+  if (type === "number") {
+    const text = String(value)
+    if (!/^-?\d+$/.test(text)) return `new BigDecimal("${parameter.literal.replace(/\s+/g, "")}")`
+    const integer = BigInt(text)
+    if (integer >= BigInt(-2_147_483_648) && integer <= BigInt(2_147_483_647)) return text
+    return integer >= -JAVA_LONG_MAX - BigInt(1) && integer <= JAVA_LONG_MAX ? `${text}L` : `new BigInteger("${text}")`
+  }
+  if (type === "timestamp") {
+    const text = String(value)
+    return ZONED_TIMESTAMP.test(text)
+      ? `OffsetDateTime.parse(${toJavaString(text.replace(" ", "T"))})`
+      : `Timestamp.valueOf(${toJavaString(text.replace("T", " "))})`
+  }
+  if (type === "date") return `Date.valueOf(${toJavaString(String(value))})`
+  if (type === "time") return `Time.valueOf(${toJavaString(String(value))})`
+  return toJavaString(String(value))
+}
+
+/** Writes the values as Java code: an `Object[]` for JDBC or a parameter map for named templates. */
+export function toJavaArguments(parameters: SqlLiftedParameter[], style: SqlParameterizeStyle): string {
+  if (style === "named") {
+    return [
+      "Map<String, Object> params = new HashMap<>();",
+      ...parameters.map((parameter) => `params.put(${toJavaString(parameter.name)}, ${toJavaValue(parameter)});`),
+    ].join("\n")
+  }
+
+  if (parameters.length === 0) return "Object[] args = {};"
+  return ["Object[] args = {", ...parameters.map((parameter) => `    ${toJavaValue(parameter)},`), "};"].join("\n")
+}
+
+const BINDING_TYPES: Record<SqlLiteralType, string | null> = {
+  string: "VARCHAR",
+  number: "NUMERIC",
+  boolean: "BOOLEAN",
+  null: null,
+  timestamp: "TIMESTAMP",
+  date: "DATE",
+  time: "TIME",
+}
+
+/** Converts lifted values into typed bindings so the statement can be filled again. */
+export function toSqlBindings(parameters: SqlLiftedParameter[]): SqlBinding[] {
+  return parameters.map((parameter) => ({
+    value:
+      parameter.value === null
+        ? null
+        : parameter.type === "number"
+          ? parameter.literal.replace(/\s+/g, "")
+          : String(parameter.value),
+    type: parameter.type === "number" && Number.isInteger(parameter.value) ? "BIGINT" : BINDING_TYPES[parameter.type],
+  }))
+}
+
+export type { ParameterizedQuery, SqlLiftedParameter, SqlLiteralType, SqlParameterizeStyle }
@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test"
+import { findSqlPlaceholders, listSqlParameters, replaceSqlPlaceholders } from "@/lib/sql-placeholders"
+import { replaceQueryParams } from "@/lib/sql-utils"
+
+function keys(sql: string): string[] {
+  return findSqlPlaceholders(sql).map((token) => token.key)
+}
+
+describe("sql-placeholders", () => {
+  test("skips question marks inside literals, identifiers and comments", () => {
+    const sql = `select '?', "col?", \`x?\` from t -- why?
+/* really? */ where a = ? and b = E'it\\'s ?' and c = $$body ?$$ and d = $tag$?$tag$ and e = ?`
+
+    expect(keys(sql)).toEqual(["?1", "?2"])
+  })
+
+  test("skips PostgreSQL jsonb operators and unescapes JDBC ??", () => {
+    const sql = "select * from t where data ?| array['a'] and data ?& ? and data ?? 'k'"
+
+    expect(keys(sql)).toEqual(["?1"])
+    expect(replaceSqlPlaceholders(sql, () => "'x'")).toBe(
+      "select * from t where data ?| array['a'] and data ?& 'x' and data ? 'k'"
+    )
+  })
+
+  test("recognizes named, numbered, SQL Server and MyBatis placeholders", () => {
+    const sql = `select * from t
+where a = :name and b = $2 and c = @p1 and d = #{user.id,jdbcType=BIGINT} and e = :name
+and f = x::text and g = arr[1:2] and h = @@ROWCOUNT and i = '2024-05-01 10:00:00' and j = $1`
+
+    expect(keys(sql)).toEqual([":name", "$2", "@p1", "#{user.id}", ":name", "$1"])
+    expect(listSqlParameters(sql)).toEqual([
+      { key: ":name", style: "named", position: 0, occurrences: 2 },
+      { key: "$2", style: "numbered", position: 1, occurrences: 1 },
+      { key: "@p1", style: "sqlserver", position: 2, occurrences: 1 },
+      { key: "#{user.id}", style: "mybatis", position: 3, occurrences: 1 },
+      { key: "$1", style: "numbered", position: 0, occurrences: 1 },
+    ])
+  })
+
+  test("fills repeated named parameters with the same value", () => {
+    const sql = "select * from t where a = :id or b = :id and c = :status"
+    const filled = replaceQueryParams(sql, [
+      { value: "7", type: "BIGINT" },
+      { value: "OPEN", type: "VARCHAR" },
+    ])
+
+    expect(filled).toBe("select * from t where a = 7 or b = 7 and c = 'OPEN'")
+  })
+
+  test("fills numbered placeholders by their number", () => {
+    const filled = replaceQueryParams("select $2, $1, $2", [
+      { value: "1", type: "INTEGER" },
+      { value: "2", type: "INTEGER" },
+    ])
+
+    expect(filled).toBe("select 2, 1, 2")
+  })
+})
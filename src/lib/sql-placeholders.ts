@@ -0,0 +1,182 @@
+type SqlPlaceholderStyle = "positional" | "named" | "numbered" | "sqlserver" | "mybatis"
+
+interface SqlPlaceholderToken {
+  style: SqlPlaceholderStyle
+  /** Identifies the parameter; repeated named placeholders share a key. */
+  key: string
+  start: number
+  end: number
+}
+
+interface SqlParameter {
+  key: string
+  style: SqlPlaceholderStyle
+  /** Index into the bind values logged for the statement. */
+  position: number
+  occurrences: number
+}
+
+interface ScannedToken {
+  kind: "placeholder" | "escaped-question"
+  start: number
+  end: number
+  style?: SqlPlaceholderStyle
+  key?: string
+}
+
+const IDENTIFIER_START = /[A-Za-z_]/
+const IDENTIFIER_PART = /[\w$]/
+const DOLLAR_QUOTE_TAG = /^\$(?:[A-Za-z_][\w]*)?\$/
+
+function readIdentifier(sql: string, from: number): number {
+  let end = from
+  while (end < sql.length && IDENTIFIER_PART.test(sql[end])) end++
+  return end
+}
+
+function skipQuoted(sql: string, from: number, quote: string, backslashEscapes: boolean): number {
+  let index = from + 1
+  while (index < sql.length) {
+    if (backslashEscapes && sql[index] === "\\") {
+      index += 2
+    } else if (sql[index] === quote) {
+      if (sql[index + 1] !== quote) return index + 1
+      index += 2
+    } else {
+      index++
+    }
+  }
+  return index
+}
+
+/**
+ * Walks the SQL once, skipping string literals, quoted identifiers, comments and
+ * PostgreSQL dollar-quoted bodies, and reports the placeholders found outside them.
+ */
+function scanSql(sql: string): ScannedToken[] {
+  const tokens: ScannedToken[] = []
+  let index = 0
+
+  while (index < sql.length) {
+    const char = sql[index]
+    const next = sql[index + 1]
+
+    if (char === "'") {
+      // PostgreSQL E'...' strings allow backslash escapes.
+      const escaped = index > 0 && /[eE]/.test(sql[index - 1]) && !IDENTIFIER_PART.test(sql[index - 2] ?? "")
+      index = skipQuoted(sql, index, "'", escaped)
+    } else if (char === '"' || char === "`") {
+      index = skipQuoted(sql, index, char, false)
+    } else if (char === "-" && next === "-") {
+      const lineEnd = sql.indexOf("\n", index)
+      index = lineEnd === -1 ? sql.length : lineEnd
+    } else if (char === "/" && next === "*") {
+      const commentEnd = sql.indexOf("*/", index + 2)
+      index = commentEnd === -1 ? sql.length : commentEnd + 2
+    } else if (char === "?") {
+      if (next === "?") {
+        // JDBC drivers read "??" as a literal question-mark operator.
+        tokens.push({ kind: "escaped-question", start: index, end: index + 2 })
+        index += 2
+      } else if (next === "|" || next === "&") {
+        // PostgreSQL jsonb operators ?| and ?&
+        index += 2
+      } else {
+        tokens.push({ kind: "placeholder", style: "positional", start: index, end: index + 1 })
+        index++
+      }
+    } else if (char === "$") {
+      const tag = DOLLAR_QUOTE_TAG.exec(sql.slice(index))?.[0]
+      if (tag) {
+        const bodyEnd = sql.indexOf(tag, index + tag.length)
+        index = bodyEnd === -1 ? sql.length : bodyEnd + tag.length
+      } else if (/\d/.test(next ?? "") && !IDENTIFIER_PART.test(sql[index - 1] ?? "")) {
+        let end = index + 1
+        while (end < sql.length && /\d/.test(sql[end])) end++
+        tokens.push({ kind: "placeholder", style: "numbered", key: sql.slice(index, end), start: index, end })
+        index = end
+      } else {
+        index++
+      }
+    } else if (char === ":" && next !== ":" && !/[\w:\]]/.test(sql[index - 1] ?? "") && /\w/.test(next ?? "")) {
+      // ":name" (JPA, Spring) or ":1" (Oracle), but not "::" casts or "arr[1:2]" slices.
+      const end = readIdentifier(sql, index + 1)
+      tokens.push({ kind: "placeholder", style: "named", key: sql.slice(index, end), start: index, end })
+      index = end
+    } else if (char === "@" && !/[\w@]/.test(sql[index - 1] ?? "") && IDENTIFIER_START.test(next ?? "")) {
+      // "@p1" or "@userId"; "@@ROWCOUNT" style globals are skipped.
+      const end = readIdentifier(sql, index + 1)
+      tokens.push({ kind: "placeholder", style: "sqlserver", key: sql.slice(index, end), start: index, end })
+      index = end
+    } else if (char === "#" && next === "{") {
+      const close = sql.indexOf("}", index)
+      const end = close === -1 ? sql.length : close + 1
+      // "#{id,jdbcType=BIGINT}" names the parameter before the first comma.
+      const name = sql.slice(index + 2, close === -1 ? end : close).split(",")[0].trim()
+      tokens.push({ kind: "placeholder", style: "mybatis", key: `#{${name}}`, start: index, end })
+      index = end
+    } else if (IDENTIFIER_PART.test(char)) {
+      // Skip whole words so "a$1" or "user@host" style identifiers are not split.
+      index = readIdentifier(sql, index)
+    } else {
+      index++
+    }
+  }
+
+  return tokens
+}
+
+/** Finds bind placeholders of every supported style, ignoring literals and comments. */
+export function findSqlPlaceholders(sql: string): SqlPlaceholderToken[] {
+  let positional = 0
+
+  return scanSql(sql).flatMap((token) => {
+    if (token.kind !== "placeholder" || !token.style) return []
+    const key = token.style === "positional" ? `?${++positional}` : token.key!
+    return [{ style: token.style, key, start: token.start, end: token.end }]
+  })
+}
+
+/**
+ * Lists each distinct parameter with the position of its value in a bind log:
+ * `$n` uses its number, everything else the order of first appearance.
+ */
+export function listSqlParameters(sql: string): SqlParameter[] {
+  const parameters = new Map<string, SqlParameter>()
+
+  for (const token of findSqlPlaceholders(sql)) {
+    const existing = parameters.get(token.key)
+    if (existing) {
+      existing.occurrences++
+      continue
+    }
+
+    const position = token.style === "numbered" ? Number(token.key.slice(1)) - 1 : parameters.size
+    parameters.set(token.key, { key: token.key, style: token.style, position, occurrences: 1 })
+  }
+
+  return [...parameters.values()]
+}
+
+/** Replaces every placeholder with the rendered value of its parameter, unescaping "??". */
+export function replaceSqlPlaceholders(sql: string, render: (parameter: SqlParameter) => string): string {
+  const parameters = new Map(listSqlParameters(sql).map((parameter) => [parameter.key, parameter]))
+  let positional = 0
+  let result = ""
+  let cursor = 0
+
+  for (const token of scanSql(sql)) {
+    result += sql.slice(cursor, token.start)
+    if (token.kind === "escaped-question") {
+      result += "?"
+    } else {
+      const key = token.style === "positional" ? `?${++positional}` : token.key!
+      result += render(parameters.get(key)!)
+    }
+    cursor = token.end
+  }
+
+  return result + sql.slice(cursor)
+}
+
+export type { SqlParameter, SqlPlaceholderStyle, SqlPlaceholderToken }
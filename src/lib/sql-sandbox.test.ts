@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test"
+import {
+  createSqlSandbox,
+  csvToSqlStatements,
+  formatSandboxValue,
+  tableNameFromFileName,
+  toSqlIdentifier,
+} from "@/lib/sql-sandbox"
+
+const ordersCsv = `Order ID,Customer Name,Total,Paid,Note
+1,Ada,19.90,true,"it's ""fine"""
+2,Grace,5,false,
+3,Linus,,TRUE,""`
+
+describe("sql-sandbox", () => {
+  test("derives identifiers from headers and file names", () => {
+    expect(toSqlIdentifier(" Customer Name ")).toBe("customer_name")
+    expect(toSqlIdentifier("2024 total")).toBe("_2024_total")
+    expect(toSqlIdentifier("???")).toBe("column")
+    expect(tableNameFromFileName("Order Items.csv")).toBe("order_items")
+  })
+
+  test("builds a typed table and inserts from CSV", () => {
+    const imported = csvToSqlStatements("orders", ordersCsv)
+
+    expect(imported.rowCount).toBe(3)
+    expect(imported.columns).toEqual([
+      { name: "order_id", type: "BIGINT" },
+      { name: "customer_name", type: "TEXT" },
+      { name: "total", type: "NUMERIC" },
+      { name: "paid", type: "BOOLEAN" },
+      { name: "note", type: "TEXT" },
+    ])
+    expect(imported.sql.split("\n")).toEqual([
+      `CREATE TABLE "orders" ("order_id" BIGINT, "customer_name" TEXT, "total" NUMERIC, "paid" BOOLEAN, "note" TEXT);`,
+      `INSERT INTO "orders" ("order_id", "customer_name", "total", "paid", "note") VALUES (1, 'Ada', 19.90, TRUE, 'it''s "fine"');`,
+      `INSERT INTO "orders" ("order_id", "customer_name", "total", "paid", "note") VALUES (2, 'Grace', 5, FALSE, NULL);`,
+      `INSERT INTO "orders" ("order_id", "customer_name", "total", "paid", "note") VALUES (3, 'Linus', NULL, TRUE, '');`,
+    ])
+  })
+
+  test("rejects empty CSV and keeps duplicate headers apart", () => {
+    expect(() => csvToSqlStatements("empty", "\n")).toThrow("CSV input is empty")
+    expect(csvToSqlStatements("t", "a,A\n1,2").columns.map((column) => column.name)).toEqual(["a", "a_2"])
+  })
+
+  test("formats engine values for the grid", () => {
+    expect(formatSandboxValue(null)).toBe("NULL")
+    expect(formatSandboxValue(new Date("2024-01-02T00:00:00Z"))).toBe("2024-01-02T00:00:00.000Z")
+    expect(formatSandboxValue(new Uint8Array([1, 171]))).toBe("\\x01ab")
+    expect(formatSandboxValue({ a: [1] })).toBe('{"a":[1]}')
+    expect(formatSandboxValue(BigInt(42))).toBe("42")
+  })
+
+  test("runs imported data and a query in the in-memory engine", async () => {
+    const sandbox = await createSqlSandbox()
+    try {
+      await sandbox.run(csvToSqlStatements("orders", ordersCsv).sql)
+      const [result] = await sandbox.run("SELECT customer_name, total FROM orders WHERE paid ORDER BY order_id")
+
+      expect(result.command).toBe("SELECT")
+      expect(result.columns).toEqual(["customer_name", "total"])
+      expect(result.rows.map((row) => row.map(formatSandboxValue))).toEqual([
+        ["Ada", "19.90"],
+        ["Linus", "NULL"],
+      ])
+    } finally {
+      await sandbox.close()
+    }
+  }, 60_000)
+})
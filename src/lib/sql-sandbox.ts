@@ -0,0 +1,160 @@
+import { parseCsvRows } from "@/lib/json-convert"
+import { quoteIdentifier } from "@/lib/sql-dialects"
+
+type SqlSandboxColumnType = "BIGINT" | "NUMERIC" | "BOOLEAN" | "TEXT"
+
+interface SqlSandboxResult {
+  /** Command tag reported by the engine, e.g. "SELECT" or "INSERT". */
+  command: string | null
+  columns: string[]
+  rows: unknown[][]
+  /** Rows returned or changed by the statement. */
+  rowCount: number | null
+}
+
+interface SqlSandbox {
+  run: (sql: string) => Promise<SqlSandboxResult[]>
+  close: () => Promise<void>
+}
+
+interface CsvImport {
+  table: string
+  columns: Array<{ name: string; type: SqlSandboxColumnType }>
+  sql: string
+  rowCount: number
+}
+
+export const SQL_SANDBOX_SETUP_KEY = "codelessshipmore:sql-sandbox-setup"
+
+/** Turns a CSV header or file name into a lower-case identifier usable without quotes. */
+export function toSqlIdentifier(name: string): string {
+  const identifier = name
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}_]+/gu, "_")
+    .replace(/^_+|_+$/g, "")
+  if (!identifier) return "column"
+  return /^\d/.test(identifier) ? `_${identifier}` : identifier
+}
+
+export function tableNameFromFileName(fileName: string): string {
+  return toSqlIdentifier(fileName.replace(/\.[^.]*$/, "")) || "imported"
+}
+
+function inferColumnType(values: Array<string | null>): SqlSandboxColumnType {
+  const present = values.filter((value): value is string => value !== null)
+  if (present.length === 0) return "TEXT"
+  if (present.every((value) => /^-?\d{1,18}$/.test(value))) return "BIGINT"
+  if (present.every((value) => /^-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?$/.test(value))) return "NUMERIC"
+  if (present.every((value) => /^(?:true|false)$/i.test(value))) return "BOOLEAN"
+  return "TEXT"
+}
+
+function toSqlLiteral(value: string | null, type: SqlSandboxColumnType): string {
+  if (value === null) return "NULL"
+  if (type === "TEXT") return `'${value.replaceAll("'", "''")}'`
+  return type === "BOOLEAN" ? value.toUpperCase() : value
+}
+
+/**
+ * Builds a CREATE TABLE with types inferred from the values and one INSERT per row.
+ * Empty unquoted cells become NULL; quoted empty cells stay empty strings.
+ */
+export function csvToSqlStatements(table: string, csv: string): CsvImport {
+  const [header, ...rows] = parseCsvRows(csv)
+  if (!header) {
+    throw new Error("CSV input is empty")
+  }
+
+  const names: string[] = []
+  for (const cell of header) {
+    const base = toSqlIdentifier(cell.text)
+    let name = base
+    for (let suffix = 2; names.includes(name); suffix++) name = `${base}_${suffix}`
+    names.push(name)
+  }
+
+  const values = rows.map((cells) =>
+    names.map((_, index) => {
+      const cell = cells[index]
+      return cell && (cell.text !== "" || cell.quoted) ? cell.text : null
+    })
+  )
+  const columns = names.map((name, index) => ({
+    name,
+    type: inferColumnType(values.map((row) => row[index])),
+  }))
+
+  const quotedTable = quoteIdentifier(table, "postgresql")
+  const columnList = columns.map((column) => quoteIdentifier(column.name, "postgresql")).join(", ")
+  const statements = [
+    `CREATE TABLE ${quotedTable} (${columns
+      .map((column) => `${quoteIdentifier(column.name, "postgresql")} ${column.type}`)
+      .join(", ")});`,
+    ...values.map(
+      (row) =>
+        `INSERT INTO ${quotedTable} (${columnList}) VALUES (${row
+          .map((value, index) => toSqlLiteral(value, columns[index].type))
+          .join(", ")});`
+    ),
+  ]
+
+  return { table, columns, sql: statements.join("\n"), rowCount: rows.length }
+}
+
+/** Renders a value returned by the engine for the result grid. */
+export function formatSandboxValue(value: unknown): string {
+  if (value === null || value === undefined) return "NULL"
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? String(value) : value.toISOString()
+  if (value instanceof Uint8Array) {
+    return `\\x${Array.from(value, (byte) => byte.toString(16).padStart(2, "0")).join("")}`
+  }
+  if (typeof value === "object") return JSON.stringify(value)
+  return String(value)
+}
+
+/** Starts an in-memory PostgreSQL (PGlite) instance; the WASM engine is only downloaded on first use. */
+export async function createSqlSandbox(): Promise<SqlSandbox> {
+  const { PGlite } = await import("@electric-sql/pglite")
+  const db = await PGlite.create()
+
+  return {
+    run: async (sql) => {
+      const results = await db.exec(sql, { rowMode: "array" })
+      return results.map((result) => ({
+        command: result.command ?? null,
+        columns: result.fields.map((field) => field.name),
+        rows: result.rows as unknown[][],
+        rowCount: result.rowCount ?? null,
+      }))
+    },
+    close: () => db.close(),
+  }
+}
+
+export function loadSandboxSetup(): string {
+  if (typeof window === "undefined") {
+    return ""
+  }
+
+  try {
+    return window.localStorage.getItem(SQL_SANDBOX_SETUP_KEY) ?? ""
+  } catch {
+    return ""
+  }
+}
+
+export function saveSandboxSetup(setup: string) {
+  if (typeof window === "undefined") {
+    return false
+  }
+
+  try {
+    window.localStorage.setItem(SQL_SANDBOX_SETUP_KEY, setup)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export type { CsvImport, SqlSandbox, SqlSandboxColumnType, SqlSandboxResult }
@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test"
+import { getSqlDialect } from "@/lib/sql-dialects"
+import type { SqlBinding } from "@/lib/sql-log-parsers"
+import { replaceQueryParams } from "@/lib/sql-utils"
+
+function fill(type: string | null, value: string | null): string {
+  return replaceQueryParams("?", [{ type, value }])
+}
+
+describe("sql-utils", () => {
+  test("renders literals according to the logged JDBC type", () => {
+    expect(fill("BIGINT", "9007199254740993")).toBe("9007199254740993")
+    expect(fill("NUMERIC", "-12.50")).toBe("-12.50")
+    expect(fill("INTEGER", "2")).toBe("2")
+    expect(fill("VARCHAR", "42")).toBe("'42'")
+    expect(fill("VARCHAR", "true")).toBe("'true'")
+    expect(fill("BOOLEAN", "true")).toBe("TRUE")
+    expect(fill("BIT", "false")).toBe("0")
+    expect(fill("BIT", "1")).toBe("1")
+    expect(fill("BIT", "0")).toBe("0")
+    expect(fill("UUID", "0f8fad5b-d9cb-469f-a165-70867728950e")).toBe("'0f8fad5b-d9cb-469f-a165-70867728950e'")
+    expect(fill("VARBINARY", "0xCAFE")).toBe("X'CAFE'")
+    expect(fill("TIMESTAMP", "2024-05-01 10:00:00.0")).toBe("TIMESTAMP '2024-05-01 10:00:00.0'")
+    expect(fill("DATE", "2024-05-01")).toBe("DATE '2024-05-01'")
+    expect(fill("BIGINT", null)).toBe("NULL")
+  })
+
+  test("falls back to quoting values that do not fit their type", () => {
+    expect(fill("INTEGER", "ACTIVE")).toBe("'ACTIVE'")
+    expect(fill("BYTEA", "[B@1f2a3b")).toBe("'[B@1f2a3b'")
+  })
+
+  test("escapes embedded single quotes", () => {
+    expect(fill("VARCHAR", "O'Brien")).toBe("'O''Brien'")
+    expect(fill(null, "it's")).toBe("'it''s'")
+  })
+
+  test("guesses literals for untyped values", () => {
+    expect(fill(null, "true")).toBe("1")
+    expect(fill(null, "null")).toBe("NULL")
+    expect(fill(null, "2024-05-01T10:00:00Z")).toBe("TIMESTAMP '2024-05-01T10:00:00Z'")
+  })
+
+  test("writes numeric BIT values as the dialect's booleans", () => {
+    const bits: SqlBinding[] = [
+      { type: "BIT", value: "1" },
+      { type: "BIT", value: "0" },
+    ]
+
+    expect(replaceQueryParams("?, ?", bits, getSqlDialect("postgresql").rules)).toBe("TRUE, FALSE")
+  })
+
+  test("quotes untyped values that share a name with a type rule", () => {
+    const params: SqlBinding[] = ["boolean", "binary", "timestamp", "default"].map((value) => ({ type: null, value }))
+
+    expect(replaceQueryParams("?, ?, ?, ?", params, getSqlDialect("postgresql").rules)).toBe(
+      "'boolean', 'binary', 'timestamp', 'default'"
+    )
+  })
+
+  test("applies custom rules and leaves missing parameters empty", () => {
+    const params: SqlBinding[] = [{ type: "BOOLEAN", value: "true" }]
+
+    expect(replaceQueryParams("? = ?", params, { boolean: (param) => `'${param}'` })).toBe("'true' = ''")
+  })
+})
@@ -1,3 +1,6 @@
+import { detectSqlLogFormat, getSqlLogParser, type SqlBinding, type SqlLogFormat } from "@/lib/sql-log-parsers"
+import { replaceSqlPlaceholders } from "@/lib/sql-placeholders"
+
 type FormatRules = {
   [key: string]: (param: string) => string
 }
@@ -6,7 +9,13 @@ const defaultRules: FormatRules = {
   null: () => "NULL",
   true: () => "1",
   false: () => "0",
-  default: (param: string) => `'${param}'`
+  boolean: (param: string) => param.toUpperCase(),
+  number: (param: string) => param,
+  timestamp: (param: string) => `TIMESTAMP ${quoteString(param)}`,
+  date: (param: string) => `DATE ${quoteString(param)}`,
+  time: (param: string) => `TIME ${quoteString(param)}`,
+  binary: (param: string) => `X'${param}'`,
+  default: (param: string) => quoteString(param)
 }
 
 // Regular expressions for different date-time formats
@@ -15,73 +24,89 @@ const timestampRegexes = {
   isoDateTime: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2})?(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?$/
 }
 
-function formatParam(param: string, customRules: FormatRules = {}): string {
-  const rules = { ...defaultRules, ...customRules }
+// JDBC type names grouped by how their values are written as literals
+const numericTypes = new Set(["TINYINT", "SMALLINT", "INTEGER", "BIGINT", "NUMERIC", "DECIMAL", "DOUBLE", "FLOAT", "REAL"])
+const binaryTypes = new Set(["BINARY", "VARBINARY", "LONGVARBINARY", "BLOB", "BYTEA"])
+const temporalTypes: Record<string, "timestamp" | "date" | "time"> = {
+  TIMESTAMP: "timestamp",
+  TIMESTAMP_UTC: "timestamp",
+  TIMESTAMP_WITH_TIMEZONE: "timestamp",
+  DATE: "date",
+  TIME: "time",
+  TIME_WITH_TIMEZONE: "time"
+}
+
+const numberLiteral = /^-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?$/
 
+function quoteString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`
+}
+
+function formatUntypedParam(param: string, rules: FormatRules): string {
   if (param === "null") return rules.null(param)
   if (param === "true") return rules.true(param)
   if (param === "false") return rules.false(param)
 
   // Check for timestamp formats
   if (timestampRegexes.fullTimestamp.test(param)) {
-    return `TIMESTAMP '${param}'`
+    return rules.timestamp(param)
   }
 
   if (timestampRegexes.isoDateTime.test(param)) {
-    return `TIMESTAMP '${param}'`
+    return rules.timestamp(param)
   }
 
-  return customRules[param] ? customRules[param](param) : rules.default(param)
+  return rules.default(param)
 }
 
-export function extractBindings(log: string): string[] {
-  if (!log) return []
+/** Renders a bound value as a SQL literal, using its logged JDBC type when there is one. */
+function formatParam(binding: SqlBinding | undefined, customRules: FormatRules = {}): string {
+  const rules = { ...defaultRules, ...customRules }
+  const value = binding?.value ?? null
 
-  const regex = /binding parameter \[(\d+)\] as \[\w+\] - \[(.*?)\]/g
-  const bindings: string[] = []
-  let match: RegExpExecArray | null
+  if (binding && value === null) return rules.null("null")
+  if (value === null) return rules.default("")
 
-  while ((match = regex.exec(log)) !== null) {
-    const value = match[2]
-    bindings[Number(match[1]) - 1] = value
-  }
+  const type = binding?.type?.toUpperCase()
+  if (!type) return formatUntypedParam(value, rules)
 
-  return bindings
+  if (type === "BOOLEAN" && /^(?:true|false)$/i.test(value)) return rules.boolean(value)
+  if (type === "BIT" && /^(?:true|false)$/i.test(value)) return rules[value.toLowerCase()](value)
+  if (type === "BIT" && /^[01]$/.test(value)) return rules[value === "1" ? "true" : "false"](value)
+  if (numericTypes.has(type) && numberLiteral.test(value)) return rules.number(value)
+  if (binaryTypes.has(type) && /^(?:0x)?[0-9a-f]*$/i.test(value)) return rules.binary(value.replace(/^0x/i, ""))
+  if (temporalTypes[type]) return rules[temporalTypes[type]](value)
+
+  return rules.default(value)
+}
+
+/** Reads typed bind values from a log, detecting its format unless one is given. */
+export function extractBindings(log: string, format: SqlLogFormat | null = detectSqlLogFormat(log)): SqlBinding[] {
+  if (!log || !format) return []
+
+  return getSqlLogParser(format).parseBindings(log)
 }
 
 export function replaceQueryParams(
   query: string,
-  params: string[],
+  params: SqlBinding[],
   customRules?: FormatRules
 ): string {
   if (!query) return ""
 
-  let index = 0
-  return query.replace(/\?/g, () => {
-    const value = params[index++]
-    return formatParam(value || "", customRules)
-  })
+  return replaceSqlPlaceholders(query, (parameter) => formatParam(params[parameter.position], customRules))
 }
 
-export function splitSQLAndLog(input: string): { sqlQuery: string; logHibernate: string } {
-  const lines = input.split("\n")
-  let sqlQuery: string[] = []
-  let logHibernate: string[] = []
-  let foundLog = false
-
-  for (const line of lines) {
-    if (line.includes("org.hibernate.orm.jdbc.bind")) {
-      foundLog = true
-    }
-    if (foundLog) {
-      logHibernate.push(line)
-    } else {
-      sqlQuery.push(line)
-    }
+export function splitSQLAndLog(
+  input: string,
+  format: SqlLogFormat | null = detectSqlLogFormat(input)
+): { sqlQuery: string; bindingLog: string; format: SqlLogFormat | null } {
+  if (!format) {
+    return { sqlQuery: input.trim(), bindingLog: "", format }
   }
 
-  return {
-    sqlQuery: sqlQuery.join("\n").trim(),
-    logHibernate: logHibernate.join("\n").trim()
-  }
-}
\ No newline at end of file
+  const { sql, log } = getSqlLogParser(format).split(input)
+  return { sqlQuery: sql, bindingLog: log, format }
+}
+
+export type { FormatRules }
@@ -38,5 +38,8 @@ describe("tool-ui-config", () => {
     expect(getConversionOutputFilename("spring-to-env")).toBe("output.env")
     expect(getConversionOutputFilename("yaml-to-properties")).toBe("output.properties")
     expect(getConversionOutputFilename("properties-to-yaml")).toBe("output.yaml")
+    expect(getConversionOutputFilename("env-to-yaml")).toBe("output.yaml")
+    expect(getConversionOutputFilename("env-to-properties")).toBe("output.properties")
+    expect(getConversionOutputFilename("k8s-env-to-yaml")).toBe("output.yaml")
   })
 })
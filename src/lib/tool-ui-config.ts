@@ -81,6 +81,49 @@ database.pool.maxSize=10`,
 server:
   port: 8080`,
   },
+  "env-to-yaml": {
+    label: "ENV Example",
+    content: `APP_REDIS_HOST=localhost
+APP_REDIS_PORT=6379
+APP_SERVERS_0_NAME=primary
+APP_SERVERS_1_NAME=replica
+SERVER_SERVLET_CONTEXT_PATH=/api
+SPRING_JPA_SHOW_SQL=true`,
+  },
+  "env-to-properties": {
+    label: "ENV Example",
+    content: `APP_REDIS_HOST=localhost
+APP_REDIS_PORT=6379
+APP_SERVERS_0_NAME=primary
+SPRING_DATASOURCE_HIKARI_MAXIMUM_POOL_SIZE=10`,
+  },
+  "k8s-env-to-yaml": {
+    label: "K8s Example",
+    content: `env:
+  - name: APP_REDIS_HOST
+    value: 'localhost'
+  - name: APP_REDIS_PORT
+    value: '6379'
+  - name: SERVER_PORT
+    value: '8080'`,
+  },
+}
+
+const PROPERTIES_INPUT_HINTS: Record<ConversionMode, { description: string; placeholder: string }> = {
+  "yaml-to-env": { description: "Enter YAML or Java properties.", placeholder: "Enter YAML or properties..." },
+  "spring-to-env": {
+    description: "Enter Spring @Value annotations or property keys.",
+    placeholder: "Enter Spring @Value annotations or property keys...",
+  },
+  "yaml-to-properties": { description: "Enter YAML or Java properties.", placeholder: "Enter YAML or properties..." },
+  "properties-to-yaml": { description: "Enter Java properties.", placeholder: "Enter Java properties..." },
+  "yaml-to-k8s-env": { description: "Enter YAML or Java properties.", placeholder: "Enter YAML or properties..." },
+  "env-to-yaml": { description: "Enter a .env file.", placeholder: "Enter KEY=value lines..." },
+  "env-to-properties": { description: "Enter a .env file.", placeholder: "Enter KEY=value lines..." },
+  "k8s-env-to-yaml": {
+    description: "Enter a Kubernetes env list with name/value entries.",
+    placeholder: "Enter - name: KEY\n  value: 'value' entries...",
+  },
 }
 
 const DEFAULT_PROMPT_TARGET = "General Tasks"
@@ -115,6 +158,15 @@ export function getPropertiesExample(mode: ConversionMode) {
   return PROPERTIES_EXAMPLES[mode]
 }
 
+export function getPropertiesInputHint(mode: ConversionMode) {
+  return PROPERTIES_INPUT_HINTS[mode]
+}
+
+/** Modes that read environment variable names and so benefit from property name hints. */
+export function isEnvSourceMode(mode: ConversionMode) {
+  return mode === "env-to-yaml" || mode === "env-to-properties" || mode === "k8s-env-to-yaml"
+}
+
 export function getProviderDisplayName(providerId: ProviderId | string) {
   return PROVIDER_DISPLAY_NAMES[providerId] ?? providerId
 }
@@ -133,8 +185,11 @@ export function getConversionOutputFilename(mode: ConversionMode) {
     case "spring-to-env":
       return "output.env"
     case "yaml-to-properties":
+    case "env-to-properties":
       return "output.properties"
     case "properties-to-yaml":
+    case "env-to-yaml":
+    case "k8s-env-to-yaml":
       return "output.yaml"
     case "yaml-to-k8s-env":
       return "k8s-env.yaml"
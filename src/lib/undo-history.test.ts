@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test"
+import { createUndoHistory, recordUndoHistory, redoHistory, undoHistory } from "@/lib/undo-history"
+
+describe("undo-history", () => {
+  test("undoes and redoes recorded values", () => {
+    let history = createUndoHistory("a")
+    history = recordUndoHistory(history, "b")
+    history = recordUndoHistory(history, "c")
+
+    history = undoHistory(history)
+    expect(history.present).toBe("b")
+    history = undoHistory(history)
+    expect(history.present).toBe("a")
+    expect(undoHistory(history)).toBe(history)
+
+    history = redoHistory(history)
+    expect(history.present).toBe("b")
+  })
+
+  test("clears the redo stack on a new edit", () => {
+    const history = recordUndoHistory(undoHistory(recordUndoHistory(createUndoHistory(1), 2)), 3)
+    expect(history).toEqual({ past: [1], present: 3, future: [] })
+  })
+
+  test("merges consecutive edits and ignores unchanged values", () => {
+    let history = recordUndoHistory(createUndoHistory(""), "h", { merge: true })
+    history = recordUndoHistory(history, "hi", { merge: true })
+    expect(history).toEqual({ past: [""], present: "hi", future: [] })
+    expect(recordUndoHistory(history, "hi")).toBe(history)
+  })
+
+  test("keeps at most the configured number of steps", () => {
+    let history = createUndoHistory(0)
+    for (let value = 1; value <= 10; value++) {
+      history = recordUndoHistory(history, value, { limit: 3 })
+    }
+    expect(history.past).toEqual([7, 8, 9])
+  })
+
+  test("drops the oldest steps once their text exceeds the character cap", () => {
+    let history = createUndoHistory("a".repeat(4))
+    for (const text of ["b".repeat(4), "c".repeat(4), "d".repeat(4)]) {
+      history = recordUndoHistory(history, text, { maxCharacters: 10 })
+    }
+    expect(history).toEqual({ past: ["cccc"], present: "dddd", future: [] })
+
+    history = recordUndoHistory(history, "e".repeat(12), { maxCharacters: 10, merge: true })
+    expect(history.past).toEqual([])
+    expect(undoHistory(history)).toBe(history)
+  })
+})
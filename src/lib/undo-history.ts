@@ -0,0 +1,84 @@
+interface UndoHistory<T> {
+  past: T[]
+  present: T
+  future: T[]
+}
+
+export const DEFAULT_UNDO_LIMIT = 100
+
+/** Characters kept across the present and undo steps, so large documents don't pile up copies. */
+export const DEFAULT_UNDO_MAX_CHARACTERS = 20_000_000
+
+interface RecordUndoOptions {
+  merge?: boolean
+  limit?: number
+  maxCharacters?: number
+}
+
+function characterCount(value: unknown): number {
+  return typeof value === "string" ? value.length : 0
+}
+
+/** Drops the oldest steps until the history fits both the step and the character limits. */
+function trimPast<T>(past: T[], present: T, limit: number, maxCharacters: number): T[] {
+  const kept = past.slice(-limit)
+  let total = characterCount(present) + kept.reduce((sum, value) => sum + characterCount(value), 0)
+  let start = 0
+
+  while (start < kept.length && total > maxCharacters) {
+    total -= characterCount(kept[start])
+    start++
+  }
+
+  return start > 0 ? kept.slice(start) : kept
+}
+
+export function createUndoHistory<T>(present: T): UndoHistory<T> {
+  return { past: [], present, future: [] }
+}
+
+/**
+ * Records a new present value, keeping at most `limit` undo steps and, for strings,
+ * `maxCharacters` characters in total, dropping the oldest steps first. With `merge`, the
+ * value replaces the present without adding a step, so a burst of keystrokes undoes as one edit.
+ */
+export function recordUndoHistory<T>(
+  history: UndoHistory<T>,
+  present: T,
+  { merge = false, limit = DEFAULT_UNDO_LIMIT, maxCharacters = DEFAULT_UNDO_MAX_CHARACTERS }: RecordUndoOptions = {}
+): UndoHistory<T> {
+  if (Object.is(present, history.present)) {
+    return history
+  }
+  if (merge && history.past.length > 0) {
+    return { past: trimPast(history.past, present, limit, maxCharacters), present, future: [] }
+  }
+
+  return { past: trimPast([...history.past, history.present], present, limit, maxCharacters), present, future: [] }
+}
+
+export function undoHistory<T>(history: UndoHistory<T>): UndoHistory<T> {
+  if (history.past.length === 0) {
+    return history
+  }
+
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  }
+}
+
+export function redoHistory<T>(history: UndoHistory<T>): UndoHistory<T> {
+  if (history.future.length === 0) {
+    return history
+  }
+
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  }
+}
+
+export type { UndoHistory }
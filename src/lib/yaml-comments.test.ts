@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test"
+import { collectYamlComments, insertYamlComments, scanYamlLines, splitYamlDocuments } from "@/lib/yaml-comments"
+
+describe("yaml-comments", () => {
+  test("scans property paths for maps, sequences and block scalars", () => {
+    const source = [
+      "app:",
+      "  servers:",
+      "  - host: a # primary",
+      "    port: 1",
+      "  - host: b",
+      "  banner: |",
+      "    # not a comment",
+      "  tags:",
+      "    - x",
+      "    - y",
+      "server.port: 8080",
+    ].join("\n")
+
+    expect(scanYamlLines(source).map((line) => line.paths)).toEqual([
+      ["app"],
+      ["app.servers"],
+      ["app.servers[0]", "app.servers[0].host"],
+      ["app.servers[0].port"],
+      ["app.servers[1]", "app.servers[1].host"],
+      ["app.banner"],
+      [],
+      ["app.tags"],
+      ["app.tags[0]"],
+      ["app.tags[1]"],
+      ["server.port"],
+    ])
+    expect(scanYamlLines(source)[2].inlineComment).toBe("# primary")
+  })
+
+  test("collects comments, blank lines and inline comments by property", () => {
+    const { comments, trailing } = collectYamlComments(
+      "\n# Redis\napp:\n  host: a\n\n  # Port\n  port: 1 # default\n# end\n\n"
+    )
+
+    expect(Object.fromEntries(comments)).toEqual({
+      app: ["# Redis"],
+      "app.port": ["", "# Port", "# default"],
+    })
+    expect(trailing).toEqual(["# end"])
+  })
+
+  test("inserts comments above generated YAML lines", () => {
+    const comments = new Map([
+      ["app.port", ["", "# Port"]],
+      ["app.servers[0].host", ["# First"]],
+      ["gone", ["# Removed"]],
+    ])
+
+    expect(insertYamlComments("app:\n  port: 1\n  servers:\n    - host: a\n", { comments, trailing: ["# end"] })).toBe(
+      "app:\n\n  # Port\n  port: 1\n  servers:\n    # First\n    - host: a\n# Removed\n# end\n"
+    )
+  })
+
+  test("splits documents on --- markers", () => {
+    expect(splitYamlDocuments("a: 1\n---\nb: 2\n--- # prod\nc: 3")).toEqual(["a: 1", "b: 2", "c: 3"])
+    expect(splitYamlDocuments("---\na: 1")).toEqual(["a: 1"])
+  })
+})
@@ -0,0 +1,195 @@
+interface ScannedYamlLine {
+  kind: "key" | "comment" | "blank" | "content"
+  /** Property paths that start on this line, outermost first (`list[0]`, then `list[0].name`). */
+  paths: string[]
+  indent: number
+  /** Trailing `# ...` comment of a key line, moved above it when converting. */
+  inlineComment: string
+}
+
+/**
+ * Comment and blank lines of a document, keyed by the property path they precede.
+ * Entries are raw `# text` lines or empty strings for blank lines.
+ */
+interface DocumentComments {
+  comments: Map<string, string[]>
+  /** Lines after the last property. */
+  trailing: string[]
+}
+
+interface Frame {
+  column: number
+  path: string
+  type: "key" | "item"
+  nextIndex: number
+}
+
+const KEY_PATTERN = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^\s"'#[\]{}>|!&*-][^#]*?|-[^\s#][^#]*?)\s*:(?:\s+|$)(.*)$/
+
+function unquoteKey(key: string): string {
+  if (key.startsWith('"')) return JSON.parse(key)
+  if (key.startsWith("'")) return key.slice(1, -1).replace(/''/g, "'")
+  return key
+}
+
+/** Splits a scalar from its trailing comment; `#` only starts a comment after whitespace and outside quotes. */
+function splitInlineComment(value: string): { value: string; comment: string } {
+  const quote = value[0] === '"' || value[0] === "'" ? value[0] : null
+  let inQuote = quote !== null
+
+  for (let index = quote ? 1 : 0; index < value.length; index++) {
+    const char = value[index]
+    if (inQuote) {
+      if (char === "\\" && quote === '"') index++
+      else if (char === quote) inQuote = false
+    } else if (char === "#" && (index === 0 || /\s/.test(value[index - 1]))) {
+      return { value: value.slice(0, index).trimEnd(), comment: value.slice(index).trimEnd() }
+    }
+  }
+
+  return { value, comment: "" }
+}
+
+/**
+ * Walks block-style YAML line by line and works out which property path each line
+ * starts, using the same `a.b[0].c` notation as flattened properties. Flow collections
+ * and multi-line scalars are reported as content of the key that opened them.
+ */
+export function scanYamlLines(source: string): ScannedYamlLine[] {
+  const frames: Frame[] = []
+  let rootIndex = 0
+  let blockColumn: number | null = null
+
+  return source.split("\n").map((line): ScannedYamlLine => {
+    const indent = line.length - line.trimStart().length
+    const trimmed = line.trim()
+    const content: ScannedYamlLine = { kind: "content", paths: [], indent, inlineComment: "" }
+
+    if (blockColumn !== null) {
+      if (!trimmed || indent > blockColumn) return content
+      blockColumn = null
+    }
+
+    if (!trimmed) return { ...content, kind: "blank" }
+    if (trimmed.startsWith("#")) return { ...content, kind: "comment" }
+
+    const paths: string[] = []
+    let column = indent
+    let rest = trimmed
+    let inlineComment = ""
+
+    while (rest) {
+      if (rest === "-" || rest.startsWith("- ")) {
+        while (frames.length > 0) {
+          const top = frames[frames.length - 1]
+          if (top.column < column || (top.column === column && top.type === "key")) break
+          frames.pop()
+        }
+
+        const parent = frames[frames.length - 1]
+        const path = `${parent?.path ?? ""}[${parent ? parent.nextIndex++ : rootIndex++}]`
+        frames.push({ column, path, type: "item", nextIndex: 0 })
+        paths.push(path)
+
+        const after = rest.slice(1)
+        column += 1 + after.length - after.trimStart().length
+        rest = after.trimStart()
+        continue
+      }
+
+      const match = rest.match(KEY_PATTERN)
+      if (match) {
+        while (frames.length > 0 && frames[frames.length - 1].column >= column) frames.pop()
+
+        const parent = frames[frames.length - 1]
+        const key = unquoteKey(match[1])
+        const path = parent ? `${parent.path}.${key}` : key
+        frames.push({ column, path, type: "key", nextIndex: 0 })
+        paths.push(path)
+        rest = match[2]
+      }
+
+      const split = splitInlineComment(rest)
+      inlineComment = split.comment
+      if (/^[|>][-+0-9]*$/.test(split.value)) blockColumn = column
+      break
+    }
+
+    return paths.length > 0 ? { kind: "key", paths, indent, inlineComment } : content
+  })
+}
+
+/** Collects the comments and blank lines of one YAML document by the property they precede. */
+export function collectYamlComments(source: string): DocumentComments {
+  const lines = source.split("\n")
+  const comments = new Map<string, string[]>()
+  let pending: string[] = []
+  let seenContent = false
+
+  scanYamlLines(source).forEach((scanned, index) => {
+    if (scanned.kind === "comment") {
+      pending.push(lines[index].trim())
+      seenContent = true
+    } else if (scanned.kind === "blank") {
+      // Blank lines at the very top belong to the document separator, not to a property.
+      if (seenContent) pending.push("")
+    } else if (scanned.kind === "key") {
+      if (scanned.inlineComment) pending.push(scanned.inlineComment)
+      if (pending.length > 0) comments.set(scanned.paths[0], [...(comments.get(scanned.paths[0]) ?? []), ...pending])
+      pending = []
+      seenContent = true
+    }
+  })
+
+  while (pending[pending.length - 1] === "") pending.pop()
+  return { comments, trailing: pending }
+}
+
+/**
+ * Puts collected comments back into generated YAML, above the line that starts each
+ * property (or its first child), indented to match. Comments whose property is gone
+ * are kept at the end of the document.
+ */
+export function insertYamlComments(yamlText: string, { comments, trailing }: DocumentComments): string {
+  const lines = yamlText ? yamlText.replace(/\n$/, "").split("\n") : []
+  const scanned = scanYamlLines(lines.join("\n"))
+  const before = new Map<number, string[]>()
+  const unplaced: string[] = []
+
+  for (const [path, block] of comments) {
+    let target = scanned.findIndex((line) => line.paths.includes(path))
+    if (target === -1) {
+      target = scanned.findIndex((line) =>
+        line.paths.some((candidate) => candidate.startsWith(`${path}.`) || candidate.startsWith(`${path}[`))
+      )
+    }
+
+    if (target === -1) unplaced.push(...block)
+    else before.set(target, [...(before.get(target) ?? []), ...block])
+  }
+
+  const output: string[] = []
+  lines.forEach((line, index) => {
+    for (const comment of before.get(index) ?? []) {
+      output.push(comment ? `${" ".repeat(scanned[index].indent)}${comment}` : "")
+    }
+    output.push(line)
+  })
+  output.push(...unplaced, ...trailing)
+
+  return output.length > 0 ? `${output.join("\n")}\n` : ""
+}
+
+/** Splits a YAML stream on `---` document markers, keeping each document's source text. */
+export function splitYamlDocuments(source: string): string[] {
+  const documents: string[][] = [[]]
+
+  for (const line of source.split("\n")) {
+    if (/^---(\s.*)?$/.test(line)) documents.push([])
+    else documents[documents.length - 1].push(line)
+  }
+
+  return documents.map((lines) => lines.join("\n")).filter((document, index) => index > 0 || document.trim())
+}
+
+export type { DocumentComments, ScannedYamlLine }